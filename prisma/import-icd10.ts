@@ -0,0 +1,56 @@
+import { readFile } from "node:fs/promises";
+import { PrismaClient } from "@prisma/client";
+import { parseIcd10Catalog } from "../src/lib/icd10";
+
+const prisma = new PrismaClient();
+const BATCH_SIZE = 500;
+
+async function main() {
+  const file = process.argv[2] ?? "prisma/data/icd10-sample.csv";
+  const { entries, rejected } = parseIcd10Catalog(await readFile(file, "utf8"));
+  if (entries.length === 0) {
+    throw new Error(`No se encontraron codigos CIE-10 validos en ${file}`);
+  }
+
+  const existing = new Map(
+    (await prisma.icd10Code.findMany()).map((entry) => [entry.code, entry]),
+  );
+  const created = entries.filter((entry) => !existing.has(entry.code));
+  const changed = entries.filter((entry) => {
+    const current = existing.get(entry.code);
+    return (
+      current &&
+      (current.description !== entry.description ||
+        current.chapter !== entry.chapter)
+    );
+  });
+
+  for (let index = 0; index < created.length; index += BATCH_SIZE) {
+    await prisma.icd10Code.createMany({
+      data: created.slice(index, index + BATCH_SIZE),
+      skipDuplicates: true,
+    });
+  }
+  for (const entry of changed) {
+    await prisma.icd10Code.update({
+      where: { code: entry.code },
+      data: { description: entry.description, chapter: entry.chapter },
+    });
+  }
+
+  console.log(
+    `CIE-10: ${created.length} nuevos, ${changed.length} actualizados, ${rejected.length} lineas rechazadas.`,
+  );
+  if (rejected.length > 0) {
+    console.log(`Lineas rechazadas: ${rejected.slice(0, 20).join(", ")}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "EpisodeCarePlan" ADD COLUMN     "recurrence" JSONB;
+
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN     "carePlanId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Visit_carePlanId_idx" ON "Visit"("carePlanId");
+
+-- AddForeignKey
+ALTER TABLE "Visit" ADD CONSTRAINT "Visit_carePlanId_fkey" FOREIGN KEY ("carePlanId") REFERENCES "EpisodeCarePlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "TenantPolicy" ADD COLUMN     "missedVisitGraceMinutes" INTEGER NOT NULL DEFAULT 120;
+
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN     "missedAt" TIMESTAMP(3),
+ADD COLUMN     "missedReason" TEXT,
+ADD COLUMN     "rescheduledFromId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Notification_tenantId_userId_readAt_idx" ON "Notification"("tenantId", "userId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "Visit" ADD CONSTRAINT "Visit_rescheduledFromId_fkey" FOREIGN KEY ("rescheduledFromId") REFERENCES "Visit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "VisitType" AS ENUM ('GENERAL', 'NURSING', 'KINESIOLOGY', 'WOUND_CARE', 'MEDICAL');
+
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN     "type" "VisitType" NOT NULL DEFAULT 'GENERAL';
+
+-- AlterTable
+ALTER TABLE "EpisodeCarePlan" ADD COLUMN     "visitType" "VisitType" NOT NULL DEFAULT 'GENERAL';
+
+-- CreateTable
+CREATE TABLE "ChecklistTemplate" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "visitType" "VisitType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChecklistTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChecklistTemplateItem" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "isRequired" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChecklistTemplateItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChecklistTemplate_tenantId_visitType_key" ON "ChecklistTemplate"("tenantId", "visitType");
+
+-- CreateIndex
+CREATE INDEX "ChecklistTemplateItem_tenantId_idx" ON "ChecklistTemplateItem"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChecklistTemplateItem_templateId_key_key" ON "ChecklistTemplateItem"("templateId", "key");
+
+-- AddForeignKey
+ALTER TABLE "ChecklistTemplate" ADD CONSTRAINT "ChecklistTemplate_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChecklistTemplateItem" ADD CONSTRAINT "ChecklistTemplateItem_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChecklistTemplateItem" ADD CONSTRAINT "ChecklistTemplateItem_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "ChecklistTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
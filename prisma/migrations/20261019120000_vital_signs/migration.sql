@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "TenantPolicy" ADD COLUMN     "vitalThresholds" JSONB;
+
+-- CreateTable
+CREATE TABLE "VitalSign" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "episodeId" TEXT,
+    "visitId" TEXT NOT NULL,
+    "recordedById" TEXT NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "temperature" DOUBLE PRECISION,
+    "systolic" INTEGER,
+    "diastolic" INTEGER,
+    "heartRate" INTEGER,
+    "respiratoryRate" INTEGER,
+    "spo2" INTEGER,
+    "glucose" INTEGER,
+    "painScore" INTEGER,
+    "weight" DOUBLE PRECISION,
+    "alerts" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VitalSign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VitalSign_tenantId_patientId_recordedAt_idx" ON "VitalSign"("tenantId", "patientId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "VitalSign_visitId_idx" ON "VitalSign"("visitId");
+
+-- AddForeignKey
+ALTER TABLE "VitalSign" ADD CONSTRAINT "VitalSign_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VitalSign" ADD CONSTRAINT "VitalSign_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VitalSign" ADD CONSTRAINT "VitalSign_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VitalSign" ADD CONSTRAINT "VitalSign_visitId_fkey" FOREIGN KEY ("visitId") REFERENCES "Visit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VitalSign" ADD CONSTRAINT "VitalSign_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "AssessmentScale" AS ENUM ('BARTHEL', 'BRADEN', 'NORTON', 'GLASGOW', 'KATZ');
+
+-- CreateTable
+CREATE TABLE "ScaleAssessment" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "episodeId" TEXT,
+    "visitId" TEXT,
+    "performedById" TEXT NOT NULL,
+    "scale" "AssessmentScale" NOT NULL,
+    "answers" JSONB NOT NULL,
+    "score" INTEGER NOT NULL,
+    "maxScore" INTEGER NOT NULL,
+    "interpretation" TEXT NOT NULL,
+    "performedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScaleAssessment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScaleAssessment_tenantId_patientId_scale_performedAt_idx" ON "ScaleAssessment"("tenantId", "patientId", "scale", "performedAt");
+
+-- CreateIndex
+CREATE INDEX "ScaleAssessment_visitId_idx" ON "ScaleAssessment"("visitId");
+
+-- AddForeignKey
+ALTER TABLE "ScaleAssessment" ADD CONSTRAINT "ScaleAssessment_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScaleAssessment" ADD CONSTRAINT "ScaleAssessment_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScaleAssessment" ADD CONSTRAINT "ScaleAssessment_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScaleAssessment" ADD CONSTRAINT "ScaleAssessment_visitId_fkey" FOREIGN KEY ("visitId") REFERENCES "Visit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScaleAssessment" ADD CONSTRAINT "ScaleAssessment_performedById_fkey" FOREIGN KEY ("performedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
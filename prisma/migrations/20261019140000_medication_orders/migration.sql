@@ -0,0 +1,95 @@
+-- CreateEnum
+CREATE TYPE "MedicationRoute" AS ENUM ('ORAL', 'IV', 'IM', 'SC', 'TOPICAL', 'INHALED', 'ENTERAL', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "MedicationOrderStatus" AS ENUM ('ACTIVE', 'DISCONTINUED');
+
+-- CreateEnum
+CREATE TYPE "MedicationAdministrationStatus" AS ENUM ('GIVEN', 'OMITTED');
+
+-- CreateTable
+CREATE TABLE "MedicationOrder" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "productId" TEXT,
+    "drugName" TEXT NOT NULL,
+    "dose" TEXT NOT NULL,
+    "route" "MedicationRoute" NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "prescriberId" TEXT,
+    "prescriberName" TEXT,
+    "instructions" TEXT,
+    "status" "MedicationOrderStatus" NOT NULL DEFAULT 'ACTIVE',
+    "discontinuedAt" TIMESTAMP(3),
+    "discontinuedReason" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MedicationOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MedicationAdministration" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "visitId" TEXT NOT NULL,
+    "administeredById" TEXT NOT NULL,
+    "status" "MedicationAdministrationStatus" NOT NULL,
+    "reason" TEXT,
+    "visitItemId" TEXT,
+    "administeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MedicationAdministration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MedicationOrder_tenantId_episodeId_status_idx" ON "MedicationOrder"("tenantId", "episodeId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MedicationAdministration_visitItemId_key" ON "MedicationAdministration"("visitItemId");
+
+-- CreateIndex
+CREATE INDEX "MedicationAdministration_tenantId_orderId_idx" ON "MedicationAdministration"("tenantId", "orderId");
+
+-- CreateIndex
+CREATE INDEX "MedicationAdministration_visitId_idx" ON "MedicationAdministration"("visitId");
+
+-- AddForeignKey
+ALTER TABLE "MedicationOrder" ADD CONSTRAINT "MedicationOrder_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationOrder" ADD CONSTRAINT "MedicationOrder_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationOrder" ADD CONSTRAINT "MedicationOrder_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationOrder" ADD CONSTRAINT "MedicationOrder_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationOrder" ADD CONSTRAINT "MedicationOrder_prescriberId_fkey" FOREIGN KEY ("prescriberId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationOrder" ADD CONSTRAINT "MedicationOrder_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationAdministration" ADD CONSTRAINT "MedicationAdministration_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationAdministration" ADD CONSTRAINT "MedicationAdministration_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "MedicationOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationAdministration" ADD CONSTRAINT "MedicationAdministration_visitId_fkey" FOREIGN KEY ("visitId") REFERENCES "Visit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationAdministration" ADD CONSTRAINT "MedicationAdministration_administeredById_fkey" FOREIGN KEY ("administeredById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationAdministration" ADD CONSTRAINT "MedicationAdministration_visitItemId_fkey" FOREIGN KEY ("visitItemId") REFERENCES "VisitItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
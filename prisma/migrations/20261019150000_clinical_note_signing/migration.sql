@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "ClinicalNote" ADD COLUMN     "amendsId" TEXT,
+ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "signedAt" TIMESTAMP(3),
+ADD COLUMN     "signedById" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "ClinicalNote_amendsId_idx" ON "ClinicalNote"("amendsId");
+
+-- AddForeignKey
+ALTER TABLE "ClinicalNote" ADD CONSTRAINT "ClinicalNote_amendsId_fkey" FOREIGN KEY ("amendsId") REFERENCES "ClinicalNote"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicalNote" ADD CONSTRAINT "ClinicalNote_signedById_fkey" FOREIGN KEY ("signedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Signed notes are immutable: only addenda can amend them.
+CREATE OR REPLACE FUNCTION "clinical_note_signed_guard"() RETURNS trigger AS $$
+BEGIN
+  IF OLD."signedAt" IS NOT NULL THEN
+    RAISE EXCEPTION 'NOTE_SIGNED';
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ClinicalNote_signed_guard"
+BEFORE UPDATE OR DELETE ON "ClinicalNote"
+FOR EACH ROW EXECUTE FUNCTION "clinical_note_signed_guard"();
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "NoteSpecialty" AS ENUM ('NURSING', 'KINESIOLOGY', 'PHONOAUDIOLOGY', 'MEDICAL');
+
+-- CreateTable
+CREATE TABLE "NoteTemplate" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "specialty" "NoteSpecialty" NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "summary" TEXT,
+    "fields" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NoteTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NoteTemplate_tenantId_specialty_key" ON "NoteTemplate"("tenantId", "specialty");
+
+-- AddForeignKey
+ALTER TABLE "NoteTemplate" ADD CONSTRAINT "NoteTemplate_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
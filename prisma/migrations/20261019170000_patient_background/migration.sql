@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "AllergySeverity" AS ENUM ('MILD', 'MODERATE', 'SEVERE');
+
+-- CreateEnum
+CREATE TYPE "PatientProblemKind" AS ENUM ('ACTIVE_PROBLEM', 'CHRONIC_CONDITION', 'BACKGROUND');
+
+-- CreateEnum
+CREATE TYPE "PatientProblemStatus" AS ENUM ('ACTIVE', 'RESOLVED');
+
+-- AlterTable
+ALTER TABLE "MedicationOrder" ADD COLUMN     "allergyOverrideReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "PatientAllergy" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "substance" TEXT NOT NULL,
+    "reaction" TEXT,
+    "severity" "AllergySeverity" NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "recordedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PatientAllergy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PatientProblem" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "kind" "PatientProblemKind" NOT NULL,
+    "description" TEXT NOT NULL,
+    "onsetDate" TIMESTAMP(3),
+    "status" "PatientProblemStatus" NOT NULL DEFAULT 'ACTIVE',
+    "resolvedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "recordedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PatientProblem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PatientAllergy_tenantId_patientId_idx" ON "PatientAllergy"("tenantId", "patientId");
+
+-- CreateIndex
+CREATE INDEX "PatientProblem_tenantId_patientId_idx" ON "PatientProblem"("tenantId", "patientId");
+
+-- AddForeignKey
+ALTER TABLE "PatientAllergy" ADD CONSTRAINT "PatientAllergy_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientAllergy" ADD CONSTRAINT "PatientAllergy_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientAllergy" ADD CONSTRAINT "PatientAllergy_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientProblem" ADD CONSTRAINT "PatientProblem_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientProblem" ADD CONSTRAINT "PatientProblem_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientProblem" ADD CONSTRAINT "PatientProblem_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "Icd10Code" (
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "chapter" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Icd10Code_pkey" PRIMARY KEY ("code")
+);
+
+-- CreateTable
+CREATE TABLE "EpisodeDiagnosis" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EpisodeDiagnosis_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Icd10Code_description_idx" ON "Icd10Code"("description");
+
+-- CreateIndex
+CREATE INDEX "EpisodeDiagnosis_tenantId_code_idx" ON "EpisodeDiagnosis"("tenantId", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EpisodeDiagnosis_episodeId_code_key" ON "EpisodeDiagnosis"("episodeId", "code");
+
+-- Only one primary diagnosis per episode.
+CREATE UNIQUE INDEX "EpisodeDiagnosis_episodeId_primary_key" ON "EpisodeDiagnosis"("episodeId") WHERE "isPrimary";
+
+-- AddForeignKey
+ALTER TABLE "EpisodeDiagnosis" ADD CONSTRAINT "EpisodeDiagnosis_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeDiagnosis" ADD CONSTRAINT "EpisodeDiagnosis_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeDiagnosis" ADD CONSTRAINT "EpisodeDiagnosis_code_fkey" FOREIGN KEY ("code") REFERENCES "Icd10Code"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeDiagnosis" ADD CONSTRAINT "EpisodeDiagnosis_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
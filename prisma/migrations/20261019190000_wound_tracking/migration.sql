@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "WoundType" AS ENUM ('PRESSURE_INJURY', 'SURGICAL', 'DIABETIC_FOOT', 'VENOUS', 'ARTERIAL', 'TRAUMATIC', 'BURN', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "WoundStage" AS ENUM ('STAGE_1', 'STAGE_2', 'STAGE_3', 'STAGE_4', 'UNSTAGEABLE', 'DEEP_TISSUE_INJURY');
+
+-- CreateEnum
+CREATE TYPE "WoundStatus" AS ENUM ('ACTIVE', 'HEALED');
+
+-- CreateEnum
+CREATE TYPE "WoundExudate" AS ENUM ('NONE', 'LOW', 'MODERATE', 'HIGH');
+
+-- AlterTable
+ALTER TABLE "ClinicalAttachment" ADD COLUMN     "woundId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Wound" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "type" "WoundType" NOT NULL,
+    "stage" "WoundStage",
+    "status" "WoundStatus" NOT NULL DEFAULT 'ACTIVE',
+    "notes" TEXT,
+    "identifiedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "healedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Wound_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WoundMeasurement" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "woundId" TEXT NOT NULL,
+    "visitId" TEXT NOT NULL,
+    "recordedById" TEXT NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lengthCm" DOUBLE PRECISION NOT NULL,
+    "widthCm" DOUBLE PRECISION NOT NULL,
+    "depthCm" DOUBLE PRECISION,
+    "stage" "WoundStage",
+    "exudate" "WoundExudate",
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WoundMeasurement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClinicalAttachment_woundId_idx" ON "ClinicalAttachment"("woundId");
+
+-- CreateIndex
+CREATE INDEX "Wound_tenantId_episodeId_idx" ON "Wound"("tenantId", "episodeId");
+
+-- CreateIndex
+CREATE INDEX "WoundMeasurement_woundId_recordedAt_idx" ON "WoundMeasurement"("woundId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "WoundMeasurement_visitId_idx" ON "WoundMeasurement"("visitId");
+
+-- AddForeignKey
+ALTER TABLE "ClinicalAttachment" ADD CONSTRAINT "ClinicalAttachment_woundId_fkey" FOREIGN KEY ("woundId") REFERENCES "Wound"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Wound" ADD CONSTRAINT "Wound_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Wound" ADD CONSTRAINT "Wound_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Wound" ADD CONSTRAINT "Wound_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Wound" ADD CONSTRAINT "Wound_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WoundMeasurement" ADD CONSTRAINT "WoundMeasurement_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WoundMeasurement" ADD CONSTRAINT "WoundMeasurement_woundId_fkey" FOREIGN KEY ("woundId") REFERENCES "Wound"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WoundMeasurement" ADD CONSTRAINT "WoundMeasurement_visitId_fkey" FOREIGN KEY ("visitId") REFERENCES "Visit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WoundMeasurement" ADD CONSTRAINT "WoundMeasurement_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ClinicalAttachmentKind" AS ENUM ('UPLOAD', 'DISCHARGE_SUMMARY');
+
+-- AlterTable
+ALTER TABLE "ClinicalAttachment" ADD COLUMN     "kind" "ClinicalAttachmentKind" NOT NULL DEFAULT 'UPLOAD';
+
+-- AlterTable
+ALTER TABLE "Episode" ADD COLUMN     "dischargeOutcome" TEXT;
@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "CarePlanObjectiveStatus" AS ENUM ('PENDING', 'IN_PROGRESS', 'MET', 'NOT_MET', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "CarePlanObjective" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "carePlanId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "target" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "profession" "NoteSpecialty",
+    "status" "CarePlanObjectiveStatus" NOT NULL DEFAULT 'PENDING',
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CarePlanObjective_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CarePlanObjectiveUpdate" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "objectiveId" TEXT NOT NULL,
+    "noteId" TEXT,
+    "status" "CarePlanObjectiveStatus" NOT NULL,
+    "comment" TEXT,
+    "updatedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CarePlanObjectiveUpdate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CarePlanObjective_tenantId_carePlanId_idx" ON "CarePlanObjective"("tenantId", "carePlanId");
+
+-- CreateIndex
+CREATE INDEX "CarePlanObjectiveUpdate_objectiveId_createdAt_idx" ON "CarePlanObjectiveUpdate"("objectiveId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CarePlanObjectiveUpdate_noteId_idx" ON "CarePlanObjectiveUpdate"("noteId");
+
+-- AddForeignKey
+ALTER TABLE "CarePlanObjective" ADD CONSTRAINT "CarePlanObjective_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CarePlanObjective" ADD CONSTRAINT "CarePlanObjective_carePlanId_fkey" FOREIGN KEY ("carePlanId") REFERENCES "EpisodeCarePlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CarePlanObjectiveUpdate" ADD CONSTRAINT "CarePlanObjectiveUpdate_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CarePlanObjectiveUpdate" ADD CONSTRAINT "CarePlanObjectiveUpdate_objectiveId_fkey" FOREIGN KEY ("objectiveId") REFERENCES "CarePlanObjective"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CarePlanObjectiveUpdate" ADD CONSTRAINT "CarePlanObjectiveUpdate_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "ClinicalNote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CarePlanObjectiveUpdate" ADD CONSTRAINT "CarePlanObjectiveUpdate_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Migrate existing free-text objectives
+INSERT INTO "CarePlanObjective" ("id", "tenantId", "carePlanId", "description", "sortOrder", "updatedAt")
+SELECT
+    md5(cp."id" || '-' || objective.position::text),
+    cp."tenantId",
+    cp."id",
+    trim(objective.value),
+    (objective.position - 1)::integer * 10,
+    CURRENT_TIMESTAMP
+FROM "EpisodeCarePlan" cp
+CROSS JOIN LATERAL jsonb_array_elements_text(cp."objectives") WITH ORDINALITY AS objective(value, position)
+WHERE jsonb_typeof(cp."objectives") = 'array'
+  AND trim(objective.value) <> '';
+
+-- AlterTable
+ALTER TABLE "EpisodeCarePlan" DROP COLUMN "objectives";
@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "StageEntryCondition" AS ENUM ('ACTIVE_AUTHORIZATION', 'CARE_PLAN', 'CARE_PLAN_OBJECTIVES', 'PRIMARY_DIAGNOSIS');
+
+-- AlterTable
+ALTER TABLE "EpisodeWorkflowStage" ADD COLUMN "slaHours" INTEGER,
+ADD COLUMN "entryConditions" "StageEntryCondition"[] DEFAULT ARRAY[]::"StageEntryCondition"[];
+
+-- CreateTable
+CREATE TABLE "EpisodeWorkflowTransition" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "fromStageId" TEXT NOT NULL,
+    "toStageId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EpisodeWorkflowTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EpisodeStageHistory" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "stageId" TEXT,
+    "stageName" TEXT NOT NULL,
+    "enteredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "exitedAt" TIMESTAMP(3),
+    "dueAt" TIMESTAMP(3),
+    "enteredById" TEXT,
+
+    CONSTRAINT "EpisodeStageHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EpisodeWorkflowTransition_fromStageId_toStageId_key" ON "EpisodeWorkflowTransition"("fromStageId", "toStageId");
+
+-- CreateIndex
+CREATE INDEX "EpisodeWorkflowTransition_tenantId_idx" ON "EpisodeWorkflowTransition"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "EpisodeStageHistory_episodeId_enteredAt_idx" ON "EpisodeStageHistory"("episodeId", "enteredAt");
+
+-- CreateIndex
+CREATE INDEX "EpisodeStageHistory_tenantId_stageId_idx" ON "EpisodeStageHistory"("tenantId", "stageId");
+
+-- AddForeignKey
+ALTER TABLE "EpisodeWorkflowTransition" ADD CONSTRAINT "EpisodeWorkflowTransition_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeWorkflowTransition" ADD CONSTRAINT "EpisodeWorkflowTransition_fromStageId_fkey" FOREIGN KEY ("fromStageId") REFERENCES "EpisodeWorkflowStage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeWorkflowTransition" ADD CONSTRAINT "EpisodeWorkflowTransition_toStageId_fkey" FOREIGN KEY ("toStageId") REFERENCES "EpisodeWorkflowStage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeStageHistory" ADD CONSTRAINT "EpisodeStageHistory_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeStageHistory" ADD CONSTRAINT "EpisodeStageHistory_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeStageHistory" ADD CONSTRAINT "EpisodeStageHistory_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "EpisodeWorkflowStage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeStageHistory" ADD CONSTRAINT "EpisodeStageHistory_enteredById_fkey" FOREIGN KEY ("enteredById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Open a history entry for episodes already placed in a stage
+INSERT INTO "EpisodeStageHistory" ("id", "tenantId", "episodeId", "stageId", "stageName", "enteredAt")
+SELECT
+    md5(e."id" || '-' || s."id"),
+    e."tenantId",
+    e."id",
+    s."id",
+    s."name",
+    e."updatedAt"
+FROM "Episode" e
+JOIN "EpisodeWorkflowStage" s ON s."id" = e."workflowStageId";
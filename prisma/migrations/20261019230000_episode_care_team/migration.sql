@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "CareTeamRole" AS ENUM ('PHYSICIAN', 'NURSE', 'KINESIOLOGIST', 'COORDINATOR');
+
+-- CreateTable
+CREATE TABLE "EpisodeCareTeamMember" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "CareTeamRole" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EpisodeCareTeamMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EpisodeCareTeamMember_tenantId_episodeId_idx" ON "EpisodeCareTeamMember"("tenantId", "episodeId");
+
+-- CreateIndex
+CREATE INDEX "EpisodeCareTeamMember_tenantId_userId_idx" ON "EpisodeCareTeamMember"("tenantId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "EpisodeCareTeamMember" ADD CONSTRAINT "EpisodeCareTeamMember_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeCareTeamMember" ADD CONSTRAINT "EpisodeCareTeamMember_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeCareTeamMember" ADD CONSTRAINT "EpisodeCareTeamMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "LeaveType" AS ENUM ('VACATION', 'SICK', 'TRAINING', 'PERSONAL', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN "durationMinutes" INTEGER NOT NULL DEFAULT 60;
+
+-- CreateTable
+CREATE TABLE "ProfessionalWorkingHours" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startMinute" INTEGER NOT NULL,
+    "endMinute" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProfessionalWorkingHours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProfessionalShift" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProfessionalShift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProfessionalLeave" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "LeaveType" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProfessionalLeave_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProfessionalWorkingHours_tenantId_userId_idx" ON "ProfessionalWorkingHours"("tenantId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ProfessionalShift_tenantId_userId_startsAt_idx" ON "ProfessionalShift"("tenantId", "userId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "ProfessionalLeave_tenantId_userId_startDate_idx" ON "ProfessionalLeave"("tenantId", "userId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "ProfessionalWorkingHours" ADD CONSTRAINT "ProfessionalWorkingHours_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProfessionalWorkingHours" ADD CONSTRAINT "ProfessionalWorkingHours_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProfessionalShift" ADD CONSTRAINT "ProfessionalShift_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProfessionalShift" ADD CONSTRAINT "ProfessionalShift_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProfessionalLeave" ADD CONSTRAINT "ProfessionalLeave_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProfessionalLeave" ADD CONSTRAINT "ProfessionalLeave_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "CredentialType" AS ENUM ('LICENSE', 'INSURANCE', 'SPECIALTY', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "TenantPolicy" ADD COLUMN "requireCredentials" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "credentialWarningDays" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateTable
+CREATE TABLE "ProfessionalCredential" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "CredentialType" NOT NULL,
+    "specialty" "NoteSpecialty",
+    "number" TEXT NOT NULL,
+    "issuer" TEXT,
+    "issuedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "expiringNotifiedAt" TIMESTAMP(3),
+    "expiredNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProfessionalCredential_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProfessionalCredential_tenantId_userId_idx" ON "ProfessionalCredential"("tenantId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ProfessionalCredential_tenantId_expiresAt_idx" ON "ProfessionalCredential"("tenantId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "ProfessionalCredential" ADD CONSTRAINT "ProfessionalCredential_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProfessionalCredential" ADD CONSTRAINT "ProfessionalCredential_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
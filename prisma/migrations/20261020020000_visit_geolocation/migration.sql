@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "VisitLocationFlag" AS ENUM ('TOO_FAR', 'NO_DEVICE_LOCATION');
+
+-- AlterTable
+ALTER TABLE "Patient" ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION,
+ADD COLUMN "geocodedAt" TIMESTAMP(3),
+ADD COLUMN "geocodeSource" TEXT;
+
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN "checkInLatitude" DOUBLE PRECISION,
+ADD COLUMN "checkInLongitude" DOUBLE PRECISION,
+ADD COLUMN "checkInAccuracy" DOUBLE PRECISION,
+ADD COLUMN "checkInDistance" DOUBLE PRECISION,
+ADD COLUMN "checkInFlag" "VisitLocationFlag",
+ADD COLUMN "checkOutLatitude" DOUBLE PRECISION,
+ADD COLUMN "checkOutLongitude" DOUBLE PRECISION,
+ADD COLUMN "checkOutAccuracy" DOUBLE PRECISION,
+ADD COLUMN "checkOutDistance" DOUBLE PRECISION,
+ADD COLUMN "checkOutFlag" "VisitLocationFlag";
+
+-- AlterTable
+ALTER TABLE "TenantPolicy" ADD COLUMN "checkInMaxDistanceMeters" INTEGER NOT NULL DEFAULT 300;
+
+-- CreateIndex
+CREATE INDEX "Visit_tenantId_checkInFlag_idx" ON "Visit"("tenantId", "checkInFlag");
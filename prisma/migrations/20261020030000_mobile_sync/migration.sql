@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "MobileSyncStatus" AS ENUM ('APPLIED', 'SKIPPED', 'CONFLICT');
+
+-- CreateTable
+CREATE TABLE "MobileSyncOperation" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "visitId" TEXT,
+    "status" "MobileSyncStatus" NOT NULL,
+    "code" TEXT,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+    "syncedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MobileSyncOperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MobileSyncOperation_tenantId_clientId_key" ON "MobileSyncOperation"("tenantId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "MobileSyncOperation_tenantId_userId_syncedAt_idx" ON "MobileSyncOperation"("tenantId", "userId", "syncedAt");
+
+-- AddForeignKey
+ALTER TABLE "MobileSyncOperation" ADD CONSTRAINT "MobileSyncOperation_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MobileSyncOperation" ADD CONSTRAINT "MobileSyncOperation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
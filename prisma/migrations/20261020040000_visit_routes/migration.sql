@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN "fixedTime" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "windowStartMinute" INTEGER,
+ADD COLUMN "windowEndMinute" INTEGER;
+
+-- AlterTable
+ALTER TABLE "TenantPolicy" ADD COLUMN "travelSpeedKmh" INTEGER NOT NULL DEFAULT 25;
@@ -0,0 +1,87 @@
+-- CreateEnum
+CREATE TYPE "ContactRelationship" AS ENUM ('SPOUSE', 'CHILD', 'PARENT', 'SIBLING', 'CAREGIVER', 'LEGAL_GUARDIAN', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ContactChannel" AS ENUM ('PHONE', 'WHATSAPP', 'SMS', 'EMAIL');
+
+-- CreateEnum
+CREATE TYPE "ConsentType" AS ENUM ('ADMISSION', 'DATA_TREATMENT', 'PROCEDURE', 'OTHER');
+
+-- AlterEnum
+ALTER TYPE "ClinicalAttachmentKind" ADD VALUE 'CONSENT';
+
+-- CreateTable
+CREATE TABLE "PatientContact" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "relationship" "ContactRelationship" NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "preferredChannel" "ContactChannel" NOT NULL DEFAULT 'PHONE',
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PatientContact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EpisodeConsent" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "type" "ConsentType" NOT NULL,
+    "version" TEXT NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL,
+    "signerName" TEXT NOT NULL,
+    "signerContactId" TEXT,
+    "attachmentId" TEXT,
+    "notes" TEXT,
+    "recordedById" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "revokedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EpisodeConsent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PatientContact_tenantId_patientId_idx" ON "PatientContact"("tenantId", "patientId");
+
+-- CreateIndex
+CREATE INDEX "EpisodeConsent_tenantId_episodeId_idx" ON "EpisodeConsent"("tenantId", "episodeId");
+
+-- CreateIndex
+CREATE INDEX "EpisodeConsent_tenantId_patientId_idx" ON "EpisodeConsent"("tenantId", "patientId");
+
+-- AddForeignKey
+ALTER TABLE "PatientContact" ADD CONSTRAINT "PatientContact_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientContact" ADD CONSTRAINT "PatientContact_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeConsent" ADD CONSTRAINT "EpisodeConsent_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeConsent" ADD CONSTRAINT "EpisodeConsent_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeConsent" ADD CONSTRAINT "EpisodeConsent_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeConsent" ADD CONSTRAINT "EpisodeConsent_signerContactId_fkey" FOREIGN KEY ("signerContactId") REFERENCES "PatientContact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeConsent" ADD CONSTRAINT "EpisodeConsent_attachmentId_fkey" FOREIGN KEY ("attachmentId") REFERENCES "ClinicalAttachment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeConsent" ADD CONSTRAINT "EpisodeConsent_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeConsent" ADD CONSTRAINT "EpisodeConsent_revokedById_fkey" FOREIGN KEY ("revokedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
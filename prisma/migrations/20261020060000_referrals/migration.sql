@@ -0,0 +1,111 @@
+-- CreateEnum
+CREATE TYPE "ReferralStatus" AS ENUM ('RECEIVED', 'EVALUATING', 'QUOTED', 'ACCEPTED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "Referral" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "status" "ReferralStatus" NOT NULL DEFAULT 'RECEIVED',
+    "sourceInstitution" TEXT NOT NULL,
+    "sourceContactName" TEXT,
+    "sourceContactPhone" TEXT,
+    "sourceContactEmail" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "patientFirstName" TEXT NOT NULL,
+    "patientLastName" TEXT NOT NULL,
+    "patientDni" TEXT NOT NULL,
+    "patientBirthDate" TIMESTAMP(3),
+    "patientPhone" TEXT,
+    "patientAddress" TEXT,
+    "diagnosis" TEXT,
+    "requestedServices" "VisitType"[],
+    "servicesDetail" TEXT,
+    "requestedStartDate" TIMESTAMP(3),
+    "payerId" TEXT,
+    "planId" TEXT,
+    "evaluationNotes" TEXT,
+    "evaluatedAt" TIMESTAMP(3),
+    "evaluatedById" TEXT,
+    "quotedAmount" DOUBLE PRECISION,
+    "quoteNotes" TEXT,
+    "quotedAt" TIMESTAMP(3),
+    "decidedAt" TIMESTAMP(3),
+    "decidedById" TEXT,
+    "rejectionReason" TEXT,
+    "patientId" TEXT,
+    "episodeId" TEXT,
+    "authorizationId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Referral_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReferralAttachment" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "referralId" TEXT NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "fileUrl" TEXT,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReferralAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Referral_episodeId_key" ON "Referral"("episodeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Referral_authorizationId_key" ON "Referral"("authorizationId");
+
+-- CreateIndex
+CREATE INDEX "Referral_tenantId_status_idx" ON "Referral"("tenantId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Referral_tenantId_number_key" ON "Referral"("tenantId", "number");
+
+-- CreateIndex
+CREATE INDEX "ReferralAttachment_tenantId_referralId_idx" ON "ReferralAttachment"("tenantId", "referralId");
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_payerId_fkey" FOREIGN KEY ("payerId") REFERENCES "Payer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_planId_fkey" FOREIGN KEY ("planId") REFERENCES "PayerPlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_evaluatedById_fkey" FOREIGN KEY ("evaluatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_authorizationId_fkey" FOREIGN KEY ("authorizationId") REFERENCES "Authorization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Referral" ADD CONSTRAINT "Referral_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReferralAttachment" ADD CONSTRAINT "ReferralAttachment_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReferralAttachment" ADD CONSTRAINT "ReferralAttachment_referralId_fkey" FOREIGN KEY ("referralId") REFERENCES "Referral"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReferralAttachment" ADD CONSTRAINT "ReferralAttachment_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
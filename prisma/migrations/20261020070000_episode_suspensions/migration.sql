@@ -0,0 +1,58 @@
+-- AlterEnum
+ALTER TYPE "EpisodeStatus" ADD VALUE 'SUSPENDED';
+
+-- AlterEnum
+ALTER TYPE "MedicationOrderStatus" ADD VALUE 'SUSPENDED';
+
+-- CreateEnum
+CREATE TYPE "EpisodeSuspensionReason" AS ENUM ('HOSPITALIZATION', 'PATIENT_REQUEST', 'COVERAGE', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN "suspensionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "MedicationOrder" ADD COLUMN "suspensionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "EpisodeSuspension" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "reason" "EpisodeSuspensionReason" NOT NULL,
+    "institution" TEXT,
+    "notes" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "expectedEndDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "reactivatedAt" TIMESTAMP(3),
+    "suspendedById" TEXT,
+    "reactivatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EpisodeSuspension_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EpisodeSuspension_tenantId_episodeId_idx" ON "EpisodeSuspension"("tenantId", "episodeId");
+
+-- CreateIndex
+CREATE INDEX "EpisodeSuspension_tenantId_startDate_idx" ON "EpisodeSuspension"("tenantId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "Visit" ADD CONSTRAINT "Visit_suspensionId_fkey" FOREIGN KEY ("suspensionId") REFERENCES "EpisodeSuspension"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationOrder" ADD CONSTRAINT "MedicationOrder_suspensionId_fkey" FOREIGN KEY ("suspensionId") REFERENCES "EpisodeSuspension"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeSuspension" ADD CONSTRAINT "EpisodeSuspension_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeSuspension" ADD CONSTRAINT "EpisodeSuspension_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "Episode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeSuspension" ADD CONSTRAINT "EpisodeSuspension_suspendedById_fkey" FOREIGN KEY ("suspendedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodeSuspension" ADD CONSTRAINT "EpisodeSuspension_reactivatedById_fkey" FOREIGN KEY ("reactivatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
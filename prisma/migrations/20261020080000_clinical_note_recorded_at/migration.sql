@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ClinicalNote" ADD COLUMN "recordedAt" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN "plannedAt" TIMESTAMP(3);
@@ -0,0 +1,550 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import { LeaveType, Role } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { TenantDb, withTenant } from "@/lib/rls";
+import {
+  formatTimeOfDay,
+  leaveTypeLabels,
+  parseTimeOfDay,
+  weekdayLabels,
+} from "@/lib/availability";
+
+type SearchParams = {
+  userId?: string;
+};
+
+const workingHoursSchema = z.object({
+  userId: z.string().min(1),
+  weekdays: z.array(z.coerce.number().int().min(0).max(6)).min(1),
+  startTime: z.string().min(1),
+  endTime: z.string().min(1),
+});
+
+const shiftSchema = z.object({
+  userId: z.string().min(1),
+  startsAt: z.string().min(1),
+  endsAt: z.string().min(1),
+  notes: z.string().optional(),
+});
+
+const leaveSchema = z.object({
+  userId: z.string().min(1),
+  type: z.nativeEnum(LeaveType),
+  startDate: z.string().min(1),
+  endDate: z.string().min(1),
+  notes: z.string().optional(),
+});
+
+const removeSchema = z.object({
+  kind: z.enum(["hours", "shift", "leave"]),
+  id: z.string().min(1),
+});
+
+async function findProfessional(
+  db: TenantDb,
+  tenantId: string,
+  userId: string,
+) {
+  const user = await db.user.findFirst({
+    where: { id: userId, tenantId, isActive: true },
+  });
+  if (!user) {
+    throw new Error("USER_NOT_FOUND");
+  }
+  return user;
+}
+
+async function addWorkingHours(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = workingHoursSchema.safeParse({
+      userId: formData.get("userId"),
+      weekdays: formData.getAll("weekdays"),
+      startTime: formData.get("startTime"),
+      endTime: formData.get("endTime"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    const startMinute = parseTimeOfDay(parsed.data.startTime);
+    const endMinute = parseTimeOfDay(parsed.data.endTime);
+    if (startMinute === null || endMinute === null || endMinute <= startMinute) {
+      throw new Error("AVAILABILITY_RANGE_INVALID");
+    }
+
+    const user = await findProfessional(db, tenantId, parsed.data.userId);
+    await db.professionalWorkingHours.createMany({
+      data: parsed.data.weekdays.map((weekday) => ({
+        tenantId,
+        userId: user.id,
+        weekday,
+        startMinute,
+        endMinute,
+      })),
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "professional.working_hours.add",
+      entityType: "User",
+      entityId: user.id,
+      meta: { weekdays: parsed.data.weekdays, startMinute, endMinute },
+    });
+  });
+
+  revalidatePath("/agenda/availability");
+  revalidatePath("/agenda/calendar");
+}
+
+async function addShift(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = shiftSchema.safeParse({
+      userId: formData.get("userId"),
+      startsAt: formData.get("startsAt"),
+      endsAt: formData.get("endsAt"),
+      notes: formData.get("notes") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    const startsAt = new Date(parsed.data.startsAt);
+    const endsAt = new Date(parsed.data.endsAt);
+    if (endsAt <= startsAt) {
+      throw new Error("AVAILABILITY_RANGE_INVALID");
+    }
+
+    const user = await findProfessional(db, tenantId, parsed.data.userId);
+    const shift = await db.professionalShift.create({
+      data: {
+        tenantId,
+        userId: user.id,
+        startsAt,
+        endsAt,
+        notes: parsed.data.notes?.trim() || null,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "professional.shift.add",
+      entityType: "User",
+      entityId: user.id,
+      meta: { shiftId: shift.id },
+    });
+  });
+
+  revalidatePath("/agenda/availability");
+  revalidatePath("/agenda/calendar");
+}
+
+async function addLeave(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = leaveSchema.safeParse({
+      userId: formData.get("userId"),
+      type: formData.get("type"),
+      startDate: formData.get("startDate"),
+      endDate: formData.get("endDate"),
+      notes: formData.get("notes") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    const startDate = new Date(`${parsed.data.startDate}T00:00:00`);
+    const endDate = new Date(`${parsed.data.endDate}T23:59:59`);
+    if (endDate <= startDate) {
+      throw new Error("AVAILABILITY_RANGE_INVALID");
+    }
+
+    const user = await findProfessional(db, tenantId, parsed.data.userId);
+    const leave = await db.professionalLeave.create({
+      data: {
+        tenantId,
+        userId: user.id,
+        type: parsed.data.type,
+        startDate,
+        endDate,
+        notes: parsed.data.notes?.trim() || null,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "professional.leave.add",
+      entityType: "User",
+      entityId: user.id,
+      meta: { leaveId: leave.id, type: leave.type },
+    });
+  });
+
+  revalidatePath("/agenda/availability");
+  revalidatePath("/agenda/calendar");
+}
+
+async function removeAvailabilityEntry(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = removeSchema.safeParse({
+      kind: formData.get("kind"),
+      id: formData.get("id"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const where = { id: parsed.data.id, tenantId };
+    const entry =
+      parsed.data.kind === "hours"
+        ? await db.professionalWorkingHours.findFirst({ where })
+        : parsed.data.kind === "shift"
+          ? await db.professionalShift.findFirst({ where })
+          : await db.professionalLeave.findFirst({ where });
+    if (!entry) {
+      throw new Error("AVAILABILITY_ENTRY_NOT_FOUND");
+    }
+
+    if (parsed.data.kind === "hours") {
+      await db.professionalWorkingHours.delete({ where: { id: entry.id } });
+    } else if (parsed.data.kind === "shift") {
+      await db.professionalShift.delete({ where: { id: entry.id } });
+    } else {
+      await db.professionalLeave.delete({ where: { id: entry.id } });
+    }
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: `professional.${parsed.data.kind === "hours" ? "working_hours" : parsed.data.kind}.remove`,
+      entityType: "User",
+      entityId: entry.userId,
+      meta: { entryId: entry.id },
+    });
+  });
+
+  revalidatePath("/agenda/availability");
+  revalidatePath("/agenda/calendar");
+}
+
+export default async function AvailabilityPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const users = await db.user.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: { name: "asc" },
+    });
+    const selected =
+      users.find((user) => user.id === searchParams?.userId) ??
+      users.find((user) => user.role === Role.PROFESIONAL) ??
+      users[0];
+    if (!selected) {
+      return <p className="text-sm text-muted-foreground">Sin usuarios.</p>;
+    }
+
+    const now = new Date();
+    const [workingHours, shifts, leaves] = await Promise.all([
+      db.professionalWorkingHours.findMany({
+        where: { tenantId, userId: selected.id },
+        orderBy: [{ weekday: "asc" }, { startMinute: "asc" }],
+      }),
+      db.professionalShift.findMany({
+        where: { tenantId, userId: selected.id, endsAt: { gte: now } },
+        orderBy: { startsAt: "asc" },
+      }),
+      db.professionalLeave.findMany({
+        where: { tenantId, userId: selected.id, endDate: { gte: now } },
+        orderBy: { startDate: "asc" },
+      }),
+    ]);
+    const leaveConflicts = leaves.length
+      ? await db.visit.findMany({
+          where: {
+            tenantId,
+            assignedUserId: selected.id,
+            status: "SCHEDULED",
+            OR: leaves.map((leave) => ({
+              scheduledAt: { gte: leave.startDate, lte: leave.endDate },
+            })),
+          },
+          include: { patient: true },
+          orderBy: { scheduledAt: "asc" },
+        })
+      : [];
+    const canEdit =
+      session?.user?.role === Role.ADMIN_TENANT ||
+      session?.user?.role === Role.COORDINACION ||
+      session?.user?.role === Role.SUPERADMIN;
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">
+            Horarios, guardias y licencias
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Al programar o reprogramar una visita se valida que el profesional
+            no este de licencia, no tenga otra visita superpuesta y este dentro
+            de su horario o guardia. Sin horarios ni guardias cargados no se
+            controla el horario.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <Link href="/agenda" className="text-xs text-primary hover:underline">
+              Volver a agenda
+            </Link>
+            <Link
+              href="/agenda/calendar"
+              className="text-xs text-primary hover:underline"
+            >
+              Calendario por profesional
+            </Link>
+          </div>
+        </div>
+
+        <form className="flex flex-wrap items-center gap-2">
+          <select
+            name="userId"
+            defaultValue={selected.id}
+            className="h-10 rounded-md border bg-background px-3 text-sm"
+          >
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name ?? user.email}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" variant="outline">
+            Ver
+          </Button>
+        </form>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Horario semanal</h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {workingHours.map((entry) => (
+                <li key={entry.id} className="flex items-center gap-2">
+                  <span>
+                    {weekdayLabels[entry.weekday]}{" "}
+                    {formatTimeOfDay(entry.startMinute)} a{" "}
+                    {formatTimeOfDay(entry.endMinute)}
+                  </span>
+                  {canEdit ? (
+                    <form action={removeAvailabilityEntry} className="ml-auto">
+                      <input type="hidden" name="kind" value="hours" />
+                      <input type="hidden" name="id" value={entry.id} />
+                      <Button size="sm" variant="outline" type="submit">
+                        Quitar
+                      </Button>
+                    </form>
+                  ) : null}
+                </li>
+              ))}
+              {workingHours.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin horario cargado.
+                </li>
+              ) : null}
+            </ul>
+            {canEdit ? (
+              <form action={addWorkingHours} className="mt-3 grid gap-2">
+                <input type="hidden" name="userId" value={selected.id} />
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {[1, 2, 3, 4, 5, 6, 0].map((weekday) => (
+                    <label key={weekday} className="flex items-center gap-1">
+                      <input name="weekdays" type="checkbox" value={weekday} />
+                      {weekdayLabels[weekday]}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input name="startTime" type="time" required />
+                  <Input name="endTime" type="time" required />
+                </div>
+                <Button size="sm" type="submit">
+                  Agregar horario
+                </Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Guardias</h2>
+            <p className="text-xs text-muted-foreground">
+              Turnos puntuales que se suman al horario semanal.
+            </p>
+            <ul className="mt-2 space-y-1 text-sm">
+              {shifts.map((shift) => (
+                <li key={shift.id} className="flex items-center gap-2">
+                  <span>
+                    {shift.startsAt.toLocaleString("es-AR")} a{" "}
+                    {shift.endsAt.toLocaleString("es-AR")}
+                    {shift.notes ? ` - ${shift.notes}` : ""}
+                  </span>
+                  {canEdit ? (
+                    <form action={removeAvailabilityEntry} className="ml-auto">
+                      <input type="hidden" name="kind" value="shift" />
+                      <input type="hidden" name="id" value={shift.id} />
+                      <Button size="sm" variant="outline" type="submit">
+                        Quitar
+                      </Button>
+                    </form>
+                  ) : null}
+                </li>
+              ))}
+              {shifts.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin guardias programadas.
+                </li>
+              ) : null}
+            </ul>
+            {canEdit ? (
+              <form action={addShift} className="mt-3 grid gap-2">
+                <input type="hidden" name="userId" value={selected.id} />
+                <Input name="startsAt" type="datetime-local" required />
+                <Input name="endsAt" type="datetime-local" required />
+                <Input name="notes" placeholder="Notas" />
+                <Button size="sm" type="submit">
+                  Agregar guardia
+                </Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Licencias</h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {leaves.map((leave) => (
+                <li key={leave.id} className="flex items-center gap-2">
+                  <span>
+                    {leaveTypeLabels[leave.type]}:{" "}
+                    {leave.startDate.toLocaleDateString("es-AR")} al{" "}
+                    {leave.endDate.toLocaleDateString("es-AR")}
+                    {leave.notes ? ` - ${leave.notes}` : ""}
+                  </span>
+                  {canEdit ? (
+                    <form action={removeAvailabilityEntry} className="ml-auto">
+                      <input type="hidden" name="kind" value="leave" />
+                      <input type="hidden" name="id" value={leave.id} />
+                      <Button size="sm" variant="outline" type="submit">
+                        Quitar
+                      </Button>
+                    </form>
+                  ) : null}
+                </li>
+              ))}
+              {leaves.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin licencias vigentes.
+                </li>
+              ) : null}
+            </ul>
+            {canEdit ? (
+              <form action={addLeave} className="mt-3 grid gap-2">
+                <input type="hidden" name="userId" value={selected.id} />
+                <select
+                  name="type"
+                  className="h-10 rounded-md border bg-background px-3 text-sm"
+                  defaultValue={LeaveType.VACATION}
+                >
+                  {Object.values(LeaveType).map((type) => (
+                    <option key={type} value={type}>
+                      {leaveTypeLabels[type]}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <Input name="startDate" type="date" required />
+                  <Input name="endDate" type="date" required />
+                </div>
+                <Input name="notes" placeholder="Notas" />
+                <Button size="sm" type="submit">
+                  Registrar licencia
+                </Button>
+              </form>
+            ) : null}
+          </div>
+        </div>
+
+        {leaveConflicts.length > 0 ? (
+          <div className="rounded-lg border border-destructive p-4">
+            <h2 className="text-lg font-semibold">
+              Visitas asignadas durante licencias
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              Reasignalas o reprogramalas desde la agenda.
+            </p>
+            <ul className="mt-2 space-y-1 text-sm">
+              {leaveConflicts.map((visit) => (
+                <li key={visit.id}>
+                  {visit.scheduledAt.toLocaleString("es-AR")} -{" "}
+                  {visit.patient.lastName}, {visit.patient.firstName}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </div>
+    );
+  });
+}
@@ -0,0 +1,289 @@
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { Role } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import {
+  findAvailabilityIssues,
+  leaveTypeLabels,
+  startOfDay,
+  summarizeCapacity,
+  visitInterval,
+  weekdayLabels,
+} from "@/lib/availability";
+import { visitTypeLabels } from "@/lib/visit-checklist";
+
+const DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SearchParams = {
+  week?: string;
+};
+
+function weekStart(value: string | undefined) {
+  const parsed = value ? new Date(`${value}T00:00:00`) : new Date();
+  const base = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  const day = startOfDay(base);
+  const offset = (day.getDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS);
+}
+
+function toDateParam(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function formatHours(minutes: number) {
+  return `${Math.round((minutes / 60) * 10) / 10} h`;
+}
+
+export default async function AgendaCalendarPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const from = weekStart(searchParams?.week);
+    const to = new Date(from.getTime() + DAYS * DAY_MS);
+    const ownOnly = session?.user?.role === Role.PROFESIONAL;
+
+    const visits = await db.visit.findMany({
+      where: {
+        tenantId,
+        assignedUserId: ownOnly ? session?.user?.id : { not: null },
+        scheduledAt: { gte: from, lt: to },
+      },
+      include: { patient: true },
+      orderBy: { scheduledAt: "asc" },
+    });
+    const users = await db.user.findMany({
+      where: {
+        tenantId,
+        ...(ownOnly
+          ? { id: session?.user?.id }
+          : {
+              OR: [
+                { isActive: true, role: Role.PROFESIONAL },
+                {
+                  id: {
+                    in: visits.flatMap((visit) =>
+                      visit.assignedUserId ? [visit.assignedUserId] : [],
+                    ),
+                  },
+                },
+              ],
+            }),
+      },
+      orderBy: { name: "asc" },
+    });
+    const userIds = users.map((user) => user.id);
+    const [workingHours, shifts, leaves] = await Promise.all([
+      db.professionalWorkingHours.findMany({
+        where: { tenantId, userId: { in: userIds } },
+      }),
+      db.professionalShift.findMany({
+        where: {
+          tenantId,
+          userId: { in: userIds },
+          startsAt: { lt: to },
+          endsAt: { gt: from },
+        },
+      }),
+      db.professionalLeave.findMany({
+        where: {
+          tenantId,
+          userId: { in: userIds },
+          startDate: { lt: to },
+          endDate: { gt: from },
+        },
+      }),
+    ]);
+
+    const rows = users.map((user) => {
+      const userHours = workingHours.filter((entry) => entry.userId === user.id);
+      const userShifts = shifts
+        .filter((shift) => shift.userId === user.id)
+        .map((shift) => ({ start: shift.startsAt, end: shift.endsAt }));
+      const userLeaves = leaves.filter((leave) => leave.userId === user.id);
+      const userVisits = visits.filter(
+        (visit) => visit.assignedUserId === user.id,
+      );
+      const capacity = summarizeCapacity({
+        from,
+        days: DAYS,
+        workingHours: userHours,
+        shifts: userShifts,
+        leaves: userLeaves,
+        visits: userVisits,
+      });
+      const flagged = new Map(
+        userVisits.map((visit) => [
+          visit.id,
+          findAvailabilityIssues({
+            interval: visitInterval(visit),
+            workingHours: userHours,
+            shifts: userShifts,
+            leaves: userLeaves,
+            visits: userVisits,
+            excludeVisitId: visit.id,
+          }).issues,
+        ]),
+      );
+      return { user, capacity, leaves: userLeaves, flagged };
+    });
+    const days = Array.from(
+      { length: DAYS },
+      (_, index) => new Date(from.getTime() + index * DAY_MS),
+    );
+    const issueLabels = {
+      ON_LEAVE: "licencia",
+      OVERLAP: "superpuesta",
+      OUTSIDE_HOURS: "fuera de horario",
+    };
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Calendario por profesional</h1>
+          <p className="text-sm text-muted-foreground">
+            Semana del {from.toLocaleDateString("es-AR")}. Capacidad = horas de
+            horario y guardias menos licencias; ocupacion = duracion de visitas
+            programadas, en curso o realizadas.
+          </p>
+          <div className="flex flex-wrap gap-3 text-xs">
+            <Link
+              href={`/agenda/calendar?week=${toDateParam(new Date(from.getTime() - DAYS * DAY_MS))}`}
+              className="text-primary hover:underline"
+            >
+              Semana anterior
+            </Link>
+            <Link href="/agenda/calendar" className="text-primary hover:underline">
+              Semana actual
+            </Link>
+            <Link
+              href={`/agenda/calendar?week=${toDateParam(to)}`}
+              className="text-primary hover:underline"
+            >
+              Semana siguiente
+            </Link>
+            <Link href="/agenda" className="text-primary hover:underline">
+              Volver a agenda
+            </Link>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/40 text-left">
+              <tr>
+                <th className="px-3 py-2">Profesional</th>
+                {days.map((day) => (
+                  <th key={day.toISOString()} className="px-3 py-2">
+                    {weekdayLabels[day.getDay()]}{" "}
+                    {day.toLocaleDateString("es-AR", {
+                      day: "2-digit",
+                      month: "2-digit",
+                    })}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ user, capacity, leaves: userLeaves, flagged }) => (
+                <tr key={user.id} className="border-t align-top">
+                  <td className="px-3 py-2">
+                    <div className="font-medium">{user.name ?? user.email}</div>
+                    <div className="text-muted-foreground">
+                      {formatHours(capacity.scheduledMinutes)} /{" "}
+                      {formatHours(capacity.availableMinutes)}
+                      {capacity.utilisation !== null
+                        ? ` (${Math.round(capacity.utilisation * 100)}%)`
+                        : " (sin horario)"}
+                    </div>
+                  </td>
+                  {capacity.days.map((day) => {
+                    const leave = userLeaves.find(
+                      (entry) =>
+                        entry.startDate < new Date(day.date.getTime() + DAY_MS) &&
+                        entry.endDate > day.date,
+                    );
+                    const overbooked =
+                      day.availableMinutes > 0 &&
+                      day.scheduledMinutes > day.availableMinutes;
+                    return (
+                      <td
+                        key={day.date.toISOString()}
+                        className={`px-3 py-2 ${leave ? "bg-muted/60" : ""}`}
+                      >
+                        {leave ? (
+                          <div className="font-medium">
+                            {leaveTypeLabels[leave.type]}
+                          </div>
+                        ) : null}
+                        <div
+                          className={
+                            overbooked
+                              ? "text-destructive"
+                              : "text-muted-foreground"
+                          }
+                        >
+                          {formatHours(day.scheduledMinutes)} /{" "}
+                          {formatHours(day.availableMinutes)}
+                        </div>
+                        <ul className="mt-1 space-y-1">
+                          {day.visits.map((visit) => {
+                            const issues = flagged.get(visit.id) ?? [];
+                            return (
+                              <li
+                                key={visit.id}
+                                className={
+                                  issues.length > 0 ? "text-destructive" : ""
+                                }
+                              >
+                                {visit.scheduledAt.toLocaleTimeString("es-AR", {
+                                  hour: "2-digit",
+                                  minute: "2-digit",
+                                })}{" "}
+                                ({visit.durationMinutes}m){" "}
+                                {visit.patient.lastName} -{" "}
+                                {visitTypeLabels[visit.type]}
+                                {issues.length > 0
+                                  ? ` [${issues
+                                      .map((issue) => issueLabels[issue])
+                                      .join(", ")}]`
+                                  : ""}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={DAYS + 1} className="px-3 py-4 text-center">
+                    Sin profesionales.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  });
+}
@@ -0,0 +1,418 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import { Role, VisitType } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import {
+  checklistItemKey,
+  defaultChecklistItems,
+  visitTypeLabels,
+} from "@/lib/visit-checklist";
+
+const templateSchema = z.object({
+  visitType: z.nativeEnum(VisitType),
+  name: z.string().trim().min(1),
+});
+
+const templateItemSchema = z.object({
+  templateId: z.string().min(1),
+  label: z.string().trim().min(1),
+});
+
+async function saveChecklistTemplate(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = templateSchema.safeParse({
+      visitType: formData.get("visitType"),
+      name: formData.get("name"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const existing = await db.checklistTemplate.findUnique({
+      where: {
+        tenantId_visitType: { tenantId, visitType: parsed.data.visitType },
+      },
+    });
+    const template = existing
+      ? await db.checklistTemplate.update({
+          where: { id: existing.id },
+          data: { name: parsed.data.name },
+        })
+      : await db.checklistTemplate.create({
+          data: {
+            tenantId,
+            visitType: parsed.data.visitType,
+            name: parsed.data.name,
+            items: {
+              create: defaultChecklistItems.map((item, index) => ({
+                tenantId,
+                key: item.key,
+                label: item.label,
+                sortOrder: index,
+              })),
+            },
+          },
+        });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: existing ? "checklist_template.update" : "checklist_template.create",
+      entityType: "ChecklistTemplate",
+      entityId: template.id,
+      meta: { visitType: template.visitType, name: template.name },
+    });
+  });
+
+  revalidatePath("/agenda/checklists");
+}
+
+async function toggleChecklistTemplate(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const templateId = String(formData.get("templateId") ?? "");
+    const template = await db.checklistTemplate.findFirst({
+      where: { id: templateId, tenantId },
+    });
+    if (!template) {
+      throw new Error("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+
+    const updated = await db.checklistTemplate.update({
+      where: { id: template.id },
+      data: { isActive: !template.isActive },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "checklist_template.toggle",
+      entityType: "ChecklistTemplate",
+      entityId: updated.id,
+      meta: { isActive: updated.isActive },
+    });
+  });
+
+  revalidatePath("/agenda/checklists");
+}
+
+async function addChecklistTemplateItem(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = templateItemSchema.safeParse({
+      templateId: formData.get("templateId"),
+      label: formData.get("label"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const template = await db.checklistTemplate.findFirst({
+      where: { id: parsed.data.templateId, tenantId },
+      include: { items: true },
+    });
+    if (!template) {
+      throw new Error("CHECKLIST_TEMPLATE_NOT_FOUND");
+    }
+
+    const key = checklistItemKey(parsed.data.label);
+    if (!key) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    if (template.items.some((item) => item.key === key)) {
+      throw new Error("CHECKLIST_ITEM_DUPLICATE");
+    }
+
+    const item = await db.checklistTemplateItem.create({
+      data: {
+        tenantId,
+        templateId: template.id,
+        key,
+        label: parsed.data.label,
+        isRequired: formData.get("isRequired") === "on",
+        sortOrder:
+          template.items.reduce(
+            (max, current) => Math.max(max, current.sortOrder),
+            -1,
+          ) + 1,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "checklist_template.item_add",
+      entityType: "ChecklistTemplate",
+      entityId: template.id,
+      meta: { key: item.key, isRequired: item.isRequired },
+    });
+  });
+
+  revalidatePath("/agenda/checklists");
+}
+
+async function toggleChecklistTemplateItemRequired(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const itemId = String(formData.get("itemId") ?? "");
+    const item = await db.checklistTemplateItem.findFirst({
+      where: { id: itemId, tenantId },
+    });
+    if (!item) {
+      throw new Error("NOT_FOUND");
+    }
+
+    const updated = await db.checklistTemplateItem.update({
+      where: { id: item.id },
+      data: { isRequired: !item.isRequired },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "checklist_template.item_update",
+      entityType: "ChecklistTemplate",
+      entityId: updated.templateId,
+      meta: { key: updated.key, isRequired: updated.isRequired },
+    });
+  });
+
+  revalidatePath("/agenda/checklists");
+}
+
+async function removeChecklistTemplateItem(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const itemId = String(formData.get("itemId") ?? "");
+    const item = await db.checklistTemplateItem.findFirst({
+      where: { id: itemId, tenantId },
+    });
+    if (!item) {
+      throw new Error("NOT_FOUND");
+    }
+
+    await db.checklistTemplateItem.delete({ where: { id: item.id } });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "checklist_template.item_remove",
+      entityType: "ChecklistTemplate",
+      entityId: item.templateId,
+      meta: { key: item.key },
+    });
+  });
+
+  revalidatePath("/agenda/checklists");
+}
+
+export default async function ChecklistTemplatesPage() {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const templates = await db.checklistTemplate.findMany({
+      where: { tenantId },
+      include: { items: { orderBy: { sortOrder: "asc" } } },
+      orderBy: { visitType: "asc" },
+    });
+    const missingTypes = Object.values(VisitType).filter(
+      (type) => !templates.some((template) => template.visitType === type),
+    );
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Checklists de visita</h1>
+          <p className="text-sm text-muted-foreground">
+            Plantillas por tipo de visita. Si un tipo no tiene plantilla activa
+            se usa la General y, si tampoco existe, el checklist base.
+          </p>
+          <Link href="/agenda" className="text-xs text-primary hover:underline">
+            Volver a agenda
+          </Link>
+        </div>
+
+        {missingTypes.length > 0 ? (
+          <form
+            action={saveChecklistTemplate}
+            className="grid gap-3 md:grid-cols-3"
+          >
+            <select
+              name="visitType"
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+              required
+            >
+              {missingTypes.map((type) => (
+                <option key={type} value={type}>
+                  {visitTypeLabels[type]}
+                </option>
+              ))}
+            </select>
+            <Input name="name" placeholder="Nombre de la plantilla" required />
+            <Button type="submit">Crear plantilla</Button>
+          </form>
+        ) : null}
+
+        <div className="space-y-4">
+          {templates.map((template) => (
+            <div key={template.id} className="rounded-lg border p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="text-sm font-medium">{template.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {visitTypeLabels[template.visitType]} -{" "}
+                    {template.isActive ? "Activa" : "Inactiva"} -{" "}
+                    {template.items.length} items
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <form action={saveChecklistTemplate} className="flex gap-2">
+                    <input
+                      type="hidden"
+                      name="visitType"
+                      value={template.visitType}
+                    />
+                    <Input
+                      name="name"
+                      defaultValue={template.name}
+                      className="h-9 w-48"
+                      required
+                    />
+                    <Button size="sm" variant="outline" type="submit">
+                      Renombrar
+                    </Button>
+                  </form>
+                  <form action={toggleChecklistTemplate}>
+                    <input type="hidden" name="templateId" value={template.id} />
+                    <Button size="sm" variant="secondary" type="submit">
+                      {template.isActive ? "Desactivar" : "Activar"}
+                    </Button>
+                  </form>
+                </div>
+              </div>
+
+              <ul className="mt-3 space-y-2 text-sm">
+                {template.items.map((item) => (
+                  <li key={item.id} className="flex items-center gap-2">
+                    <span>{item.label}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {item.isRequired ? "Obligatorio" : "Opcional"}
+                    </span>
+                    <form
+                      action={toggleChecklistTemplateItemRequired}
+                      className="ml-auto"
+                    >
+                      <input type="hidden" name="itemId" value={item.id} />
+                      <Button size="sm" variant="outline" type="submit">
+                        {item.isRequired ? "Hacer opcional" : "Hacer obligatorio"}
+                      </Button>
+                    </form>
+                    <form action={removeChecklistTemplateItem}>
+                      <input type="hidden" name="itemId" value={item.id} />
+                      <Button size="sm" variant="outline" type="submit">
+                        Quitar
+                      </Button>
+                    </form>
+                  </li>
+                ))}
+                {template.items.length === 0 ? (
+                  <li className="text-xs text-muted-foreground">
+                    Sin items. Se usara la plantilla General o el checklist
+                    base.
+                  </li>
+                ) : null}
+              </ul>
+
+              <form
+                action={addChecklistTemplateItem}
+                className="mt-3 flex flex-wrap items-center gap-2"
+              >
+                <input type="hidden" name="templateId" value={template.id} />
+                <Input
+                  name="label"
+                  placeholder="Nuevo item"
+                  className="h-9 w-64"
+                  required
+                />
+                <label className="flex items-center gap-2 text-xs">
+                  <input name="isRequired" type="checkbox" defaultChecked />
+                  Obligatorio
+                </label>
+                <Button size="sm" type="submit">
+                  Agregar item
+                </Button>
+              </form>
+            </div>
+          ))}
+          {templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Sin plantillas. Las visitas usan el checklist base.
+            </p>
+          ) : null}
+        </div>
+      </div>
+    );
+  });
+}
@@ -0,0 +1,661 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import { CredentialType, NoteSpecialty, Role } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import {
+  credentialStatus,
+  credentialStatusLabels,
+  credentialTypeLabels,
+  findCredentialIssues,
+  loadCredentialPolicy,
+  notifyExpiringCredentials,
+} from "@/lib/credentials";
+import { noteSpecialtyLabels } from "@/lib/note-templates";
+import { visitTypeLabels } from "@/lib/visit-checklist";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SearchParams = {
+  userId?: string;
+};
+
+const credentialSchema = z.object({
+  userId: z.string().min(1),
+  type: z.nativeEnum(CredentialType),
+  specialty: z.nativeEnum(NoteSpecialty).optional(),
+  number: z.string().min(1),
+  issuer: z.string().optional(),
+  issuedAt: z.string().optional(),
+  expiresAt: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const renewSchema = z.object({
+  credentialId: z.string().min(1),
+  number: z.string().optional(),
+  expiresAt: z.string().min(1),
+});
+
+const policySchema = z.object({
+  requireCredentials: z.boolean(),
+  warningDays: z.coerce.number().int().min(1).max(365),
+});
+
+const issueLabels = {
+  LICENSE_MISSING: "sin matricula",
+  LICENSE_EXPIRED: "matricula vencida",
+  INSURANCE_MISSING: "sin seguro",
+  INSURANCE_EXPIRED: "seguro vencido",
+  SPECIALTY_MISMATCH: "especialidad no habilitada",
+};
+
+function parseDay(value: string | undefined) {
+  if (!value) return null;
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error("VALIDATION_ERROR");
+  }
+  return date;
+}
+
+async function addCredential(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = credentialSchema.safeParse({
+      userId: formData.get("userId"),
+      type: formData.get("type"),
+      specialty: formData.get("specialty") || undefined,
+      number: formData.get("number"),
+      issuer: formData.get("issuer") ?? undefined,
+      issuedAt: formData.get("issuedAt") || undefined,
+      expiresAt: formData.get("expiresAt") || undefined,
+      notes: formData.get("notes") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    const issuedAt = parseDay(parsed.data.issuedAt);
+    const expiresAt = parseDay(parsed.data.expiresAt);
+    if (issuedAt && expiresAt && expiresAt <= issuedAt) {
+      throw new Error("CREDENTIAL_RANGE_INVALID");
+    }
+
+    const user = await db.user.findFirst({
+      where: { id: parsed.data.userId, tenantId },
+    });
+    if (!user) {
+      throw new Error("USER_NOT_FOUND");
+    }
+
+    const credential = await db.professionalCredential.create({
+      data: {
+        tenantId,
+        userId: user.id,
+        type: parsed.data.type,
+        specialty: parsed.data.specialty ?? null,
+        number: parsed.data.number.trim(),
+        issuer: parsed.data.issuer?.trim() || null,
+        issuedAt,
+        expiresAt,
+        notes: parsed.data.notes?.trim() || null,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "professional.credential.add",
+      entityType: "User",
+      entityId: user.id,
+      meta: {
+        credentialId: credential.id,
+        type: credential.type,
+        expiresAt: credential.expiresAt?.toISOString() ?? null,
+      },
+    });
+  });
+
+  revalidatePath("/agenda/credentials");
+}
+
+async function renewCredential(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = renewSchema.safeParse({
+      credentialId: formData.get("credentialId"),
+      number: formData.get("number") || undefined,
+      expiresAt: formData.get("expiresAt"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const credential = await db.professionalCredential.findFirst({
+      where: { id: parsed.data.credentialId, tenantId },
+    });
+    if (!credential) {
+      throw new Error("CREDENTIAL_NOT_FOUND");
+    }
+    const expiresAt = parseDay(parsed.data.expiresAt);
+    if (
+      !expiresAt ||
+      (credential.expiresAt && expiresAt <= credential.expiresAt)
+    ) {
+      throw new Error("CREDENTIAL_RANGE_INVALID");
+    }
+
+    await db.professionalCredential.update({
+      where: { id: credential.id },
+      data: {
+        number: parsed.data.number?.trim() || credential.number,
+        expiresAt,
+        expiringNotifiedAt: null,
+        expiredNotifiedAt: null,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "professional.credential.renew",
+      entityType: "User",
+      entityId: credential.userId,
+      meta: {
+        credentialId: credential.id,
+        previousExpiresAt: credential.expiresAt?.toISOString() ?? null,
+        expiresAt: expiresAt.toISOString(),
+      },
+    });
+  });
+
+  revalidatePath("/agenda/credentials");
+}
+
+async function removeCredential(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const credentialId = String(formData.get("credentialId") ?? "");
+    const credential = await db.professionalCredential.findFirst({
+      where: { id: credentialId, tenantId },
+    });
+    if (!credential) {
+      throw new Error("CREDENTIAL_NOT_FOUND");
+    }
+
+    await db.professionalCredential.delete({ where: { id: credential.id } });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "professional.credential.remove",
+      entityType: "User",
+      entityId: credential.userId,
+      meta: {
+        credentialId: credential.id,
+        type: credential.type,
+        number: credential.number,
+      },
+    });
+  });
+
+  revalidatePath("/agenda/credentials");
+}
+
+async function updateCredentialPolicy(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT]);
+
+    const parsed = policySchema.safeParse({
+      requireCredentials: formData.get("requireCredentials") === "on",
+      warningDays: formData.get("warningDays"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const data = {
+      requireCredentials: parsed.data.requireCredentials,
+      credentialWarningDays: parsed.data.warningDays,
+    };
+    const policy = await db.tenantPolicy.upsert({
+      where: { tenantId },
+      update: data,
+      create: { tenantId, ...data },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "tenant.policy.credentials",
+      entityType: "TenantPolicy",
+      entityId: policy.id,
+      meta: data,
+    });
+  });
+
+  revalidatePath("/agenda/credentials");
+}
+
+async function runCredentialExpiryCheck() {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+    await notifyExpiringCredentials(db, { tenantId });
+  });
+
+  revalidatePath("/agenda/credentials");
+}
+
+export default async function CredentialsPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const ownOnly = session?.user?.role === Role.PROFESIONAL;
+    const users = await db.user.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        ...(ownOnly ? { id: session?.user?.id } : {}),
+      },
+      orderBy: { name: "asc" },
+    });
+    const selected =
+      users.find((user) => user.id === searchParams?.userId) ??
+      users.find((user) => user.role === Role.PROFESIONAL) ??
+      users[0];
+    if (!selected) {
+      return <p className="text-sm text-muted-foreground">Sin usuarios.</p>;
+    }
+
+    const now = new Date();
+    const policy = await loadCredentialPolicy(db, tenantId);
+    const [credentials, expiring, upcomingVisits] = await Promise.all([
+      db.professionalCredential.findMany({
+        where: { tenantId, userId: selected.id },
+        orderBy: [{ type: "asc" }, { expiresAt: "asc" }],
+      }),
+      ownOnly
+        ? Promise.resolve([])
+        : db.professionalCredential.findMany({
+            where: {
+              tenantId,
+              user: { isActive: true },
+              expiresAt: {
+                lte: new Date(now.getTime() + policy.warningDays * DAY_MS),
+              },
+            },
+            include: { user: true },
+            orderBy: { expiresAt: "asc" },
+          }),
+      db.visit.findMany({
+        where: {
+          tenantId,
+          assignedUserId: selected.id,
+          status: "SCHEDULED",
+          scheduledAt: { gte: now },
+        },
+        include: { patient: true },
+        orderBy: { scheduledAt: "asc" },
+        take: 200,
+      }),
+    ]);
+    const blockedVisits = upcomingVisits.flatMap((visit) => {
+      const issues = findCredentialIssues({
+        credentials,
+        visitType: visit.type,
+        at: visit.scheduledAt,
+        requireCredentials: policy.requireCredentials,
+      });
+      return issues.length > 0 ? [{ visit, issues }] : [];
+    });
+    const canEdit =
+      session?.user?.role === Role.ADMIN_TENANT ||
+      session?.user?.role === Role.COORDINACION ||
+      session?.user?.role === Role.SUPERADMIN;
+    const isAdmin =
+      session?.user?.role === Role.ADMIN_TENANT ||
+      session?.user?.role === Role.SUPERADMIN;
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Matriculas y seguros</h1>
+          <p className="text-sm text-muted-foreground">
+            No se pueden asignar visitas a profesionales con la matricula o el
+            seguro vencidos a la fecha de la visita, ni con una especialidad que
+            no corresponda al tipo de visita. Se avisa {policy.warningDays} dias
+            antes del vencimiento.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <Link href="/agenda" className="text-xs text-primary hover:underline">
+              Volver a agenda
+            </Link>
+            <Link
+              href="/agenda/availability"
+              className="text-xs text-primary hover:underline"
+            >
+              Horarios, guardias y licencias
+            </Link>
+          </div>
+        </div>
+
+        {isAdmin ? (
+          <form
+            action={updateCredentialPolicy}
+            className="flex flex-wrap items-center gap-3 rounded-lg border p-4 text-sm"
+          >
+            <label className="flex items-center gap-2">
+              <input
+                name="requireCredentials"
+                type="checkbox"
+                defaultChecked={policy.requireCredentials}
+              />
+              Exigir matricula, seguro y especialidad cargados
+            </label>
+            <label className="flex items-center gap-2">
+              Aviso previo (dias)
+              <Input
+                name="warningDays"
+                type="number"
+                min={1}
+                max={365}
+                defaultValue={policy.warningDays}
+                className="w-24"
+              />
+            </label>
+            <Button size="sm" type="submit" variant="outline">
+              Guardar politica
+            </Button>
+          </form>
+        ) : null}
+
+        {!ownOnly ? (
+          <div className="rounded-lg border p-4">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-lg font-semibold">Vencidas y por vencer</h2>
+              {canEdit ? (
+                <form action={runCredentialExpiryCheck}>
+                  <Button size="sm" variant="outline" type="submit">
+                    Notificar ahora
+                  </Button>
+                </form>
+              ) : null}
+            </div>
+            <ul className="mt-2 space-y-1 text-sm">
+              {expiring.map((credential) => {
+                const status = credentialStatus(
+                  credential,
+                  now,
+                  policy.warningDays,
+                );
+                return (
+                  <li key={credential.id}>
+                    <Link
+                      href={`/agenda/credentials?userId=${credential.userId}`}
+                      className="hover:underline"
+                    >
+                      {credential.user.name ?? credential.user.email}
+                    </Link>{" "}
+                    - {credentialTypeLabels[credential.type]}{" "}
+                    {credential.number}:{" "}
+                    <span
+                      className={
+                        status === "EXPIRED" ? "text-destructive" : ""
+                      }
+                    >
+                      {credentialStatusLabels[status]} (
+                      {credential.expiresAt?.toLocaleDateString("es-AR")})
+                    </span>
+                  </li>
+                );
+              })}
+              {expiring.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin vencimientos proximos.
+                </li>
+              ) : null}
+            </ul>
+          </div>
+        ) : null}
+
+        <form className="flex flex-wrap items-center gap-2">
+          <select
+            name="userId"
+            defaultValue={selected.id}
+            className="h-10 rounded-md border bg-background px-3 text-sm"
+          >
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name ?? user.email}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" variant="outline">
+            Ver
+          </Button>
+        </form>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">
+              Credenciales de {selected.name ?? selected.email}
+            </h2>
+            <ul className="mt-2 space-y-3 text-sm">
+              {credentials.map((credential) => {
+                const status = credentialStatus(
+                  credential,
+                  now,
+                  policy.warningDays,
+                );
+                return (
+                  <li key={credential.id} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {credentialTypeLabels[credential.type]}
+                        {credential.specialty
+                          ? ` - ${noteSpecialtyLabels[credential.specialty]}`
+                          : ""}
+                      </span>
+                      <span
+                        className={`text-xs ${status === "VALID" ? "text-muted-foreground" : "text-destructive"}`}
+                      >
+                        {credentialStatusLabels[status]}
+                      </span>
+                      {canEdit ? (
+                        <form action={removeCredential} className="ml-auto">
+                          <input
+                            type="hidden"
+                            name="credentialId"
+                            value={credential.id}
+                          />
+                          <Button size="sm" variant="outline" type="submit">
+                            Quitar
+                          </Button>
+                        </form>
+                      ) : null}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Nro. {credential.number}
+                      {credential.issuer ? ` - ${credential.issuer}` : ""}
+                      {credential.issuedAt
+                        ? ` - emitida ${credential.issuedAt.toLocaleDateString("es-AR")}`
+                        : ""}
+                      {credential.expiresAt
+                        ? ` - vence ${credential.expiresAt.toLocaleDateString("es-AR")}`
+                        : " - sin vencimiento"}
+                      {credential.notes ? ` - ${credential.notes}` : ""}
+                    </div>
+                    {canEdit && credential.expiresAt ? (
+                      <form
+                        action={renewCredential}
+                        className="flex flex-wrap gap-2"
+                      >
+                        <input
+                          type="hidden"
+                          name="credentialId"
+                          value={credential.id}
+                        />
+                        <Input
+                          name="number"
+                          placeholder="Nuevo numero (opcional)"
+                          className="w-48"
+                        />
+                        <Input
+                          name="expiresAt"
+                          type="date"
+                          required
+                          className="w-40"
+                        />
+                        <Button size="sm" variant="outline" type="submit">
+                          Renovar
+                        </Button>
+                      </form>
+                    ) : null}
+                  </li>
+                );
+              })}
+              {credentials.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin credenciales cargadas.
+                </li>
+              ) : null}
+            </ul>
+            {canEdit ? (
+              <form action={addCredential} className="mt-4 grid gap-2">
+                <input type="hidden" name="userId" value={selected.id} />
+                <div className="flex gap-2">
+                  <select
+                    name="type"
+                    className="h-10 rounded-md border bg-background px-3 text-sm"
+                    defaultValue={CredentialType.LICENSE}
+                  >
+                    {Object.values(CredentialType).map((type) => (
+                      <option key={type} value={type}>
+                        {credentialTypeLabels[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    name="specialty"
+                    className="h-10 rounded-md border bg-background px-3 text-sm"
+                    defaultValue=""
+                  >
+                    <option value="">Sin especialidad</option>
+                    {Object.values(NoteSpecialty).map((specialty) => (
+                      <option key={specialty} value={specialty}>
+                        {noteSpecialtyLabels[specialty]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  <Input name="number" placeholder="Numero" required />
+                  <Input name="issuer" placeholder="Emisor" />
+                </div>
+                <div className="flex gap-2">
+                  <label className="grid flex-1 gap-1 text-xs">
+                    Emision
+                    <Input name="issuedAt" type="date" />
+                  </label>
+                  <label className="grid flex-1 gap-1 text-xs">
+                    Vencimiento
+                    <Input name="expiresAt" type="date" />
+                  </label>
+                </div>
+                <Input name="notes" placeholder="Notas" />
+                <Button size="sm" type="submit">
+                  Agregar credencial
+                </Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Visitas programadas afectadas</h2>
+            <p className="text-xs text-muted-foreground">
+              Visitas asignadas que no podrian asignarse con las credenciales
+              actuales. Reasignalas o actualiza la credencial.
+            </p>
+            <ul className="mt-2 space-y-1 text-sm">
+              {blockedVisits.map(({ visit, issues }) => (
+                <li key={visit.id} className="text-destructive">
+                  {visit.scheduledAt.toLocaleString("es-AR")} -{" "}
+                  {visit.patient.lastName}, {visit.patient.firstName} -{" "}
+                  {visitTypeLabels[visit.type]} (
+                  {issues.map((issue) => issueLabels[issue]).join(", ")})
+                </li>
+              ))}
+              {blockedVisits.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin visitas afectadas.
+                </li>
+              ) : null}
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  });
+}
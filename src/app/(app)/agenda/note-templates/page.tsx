@@ -0,0 +1,450 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import { NoteSpecialty, Role } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import { checklistItemKey } from "@/lib/visit-checklist";
+import {
+  defaultNoteTemplates,
+  noteSpecialtyLabels,
+  parseNoteTemplateFields,
+} from "@/lib/note-templates";
+
+const templateSchema = z.object({
+  specialty: z.nativeEnum(NoteSpecialty),
+  name: z.string().trim().min(1),
+});
+
+const templateFieldSchema = z.object({
+  templateId: z.string().min(1),
+  label: z.string().trim().min(1),
+  defaultText: z.string(),
+});
+
+async function saveNoteTemplate(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = templateSchema.safeParse({
+      specialty: formData.get("specialty"),
+      name: formData.get("name"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const existing = await db.noteTemplate.findUnique({
+      where: {
+        tenantId_specialty: { tenantId, specialty: parsed.data.specialty },
+      },
+    });
+    const defaults = defaultNoteTemplates[parsed.data.specialty];
+    const template = existing
+      ? await db.noteTemplate.update({
+          where: { id: existing.id },
+          data: { name: parsed.data.name },
+        })
+      : await db.noteTemplate.create({
+          data: {
+            tenantId,
+            specialty: parsed.data.specialty,
+            name: parsed.data.name,
+            summary: defaults.summary,
+            fields: defaults.fields,
+          },
+        });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: existing ? "note_template.update" : "note_template.create",
+      entityType: "NoteTemplate",
+      entityId: template.id,
+      meta: { specialty: template.specialty, name: template.name },
+    });
+  });
+
+  revalidatePath("/agenda/note-templates");
+}
+
+async function toggleNoteTemplate(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const templateId = String(formData.get("templateId") ?? "");
+    const template = await db.noteTemplate.findFirst({
+      where: { id: templateId, tenantId },
+    });
+    if (!template) {
+      throw new Error("NOTE_TEMPLATE_NOT_FOUND");
+    }
+
+    const updated = await db.noteTemplate.update({
+      where: { id: template.id },
+      data: { isActive: !template.isActive },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "note_template.toggle",
+      entityType: "NoteTemplate",
+      entityId: updated.id,
+      meta: { isActive: updated.isActive },
+    });
+  });
+
+  revalidatePath("/agenda/note-templates");
+}
+
+async function updateNoteTemplateContent(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const templateId = String(formData.get("templateId") ?? "");
+    const template = await db.noteTemplate.findFirst({
+      where: { id: templateId, tenantId },
+    });
+    if (!template) {
+      throw new Error("NOTE_TEMPLATE_NOT_FOUND");
+    }
+
+    const fields = parseNoteTemplateFields(template.fields).map((field) => ({
+      ...field,
+      defaultText: String(formData.get(`default_${field.key}`) ?? ""),
+    }));
+    const updated = await db.noteTemplate.update({
+      where: { id: template.id },
+      data: {
+        summary: String(formData.get("summary") ?? "").trim() || null,
+        fields,
+        version: { increment: 1 },
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "note_template.content_update",
+      entityType: "NoteTemplate",
+      entityId: updated.id,
+      meta: { version: updated.version },
+    });
+  });
+
+  revalidatePath("/agenda/note-templates");
+}
+
+async function addNoteTemplateField(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = templateFieldSchema.safeParse({
+      templateId: formData.get("templateId"),
+      label: formData.get("label"),
+      defaultText: formData.get("defaultText"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const template = await db.noteTemplate.findFirst({
+      where: { id: parsed.data.templateId, tenantId },
+    });
+    if (!template) {
+      throw new Error("NOTE_TEMPLATE_NOT_FOUND");
+    }
+
+    const key = checklistItemKey(parsed.data.label);
+    if (!key) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    const fields = parseNoteTemplateFields(template.fields);
+    if (fields.some((field) => field.key === key)) {
+      throw new Error("NOTE_TEMPLATE_FIELD_DUPLICATE");
+    }
+
+    const updated = await db.noteTemplate.update({
+      where: { id: template.id },
+      data: {
+        fields: [
+          ...fields,
+          { key, label: parsed.data.label, defaultText: parsed.data.defaultText },
+        ],
+        version: { increment: 1 },
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "note_template.field_add",
+      entityType: "NoteTemplate",
+      entityId: updated.id,
+      meta: { key, version: updated.version },
+    });
+  });
+
+  revalidatePath("/agenda/note-templates");
+}
+
+async function removeNoteTemplateField(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const templateId = String(formData.get("templateId") ?? "");
+    const key = String(formData.get("key") ?? "");
+    const template = await db.noteTemplate.findFirst({
+      where: { id: templateId, tenantId },
+    });
+    if (!template) {
+      throw new Error("NOTE_TEMPLATE_NOT_FOUND");
+    }
+
+    const updated = await db.noteTemplate.update({
+      where: { id: template.id },
+      data: {
+        fields: parseNoteTemplateFields(template.fields).filter(
+          (field) => field.key !== key,
+        ),
+        version: { increment: 1 },
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "note_template.field_remove",
+      entityType: "NoteTemplate",
+      entityId: updated.id,
+      meta: { key, version: updated.version },
+    });
+  });
+
+  revalidatePath("/agenda/note-templates");
+}
+
+export default async function NoteTemplatesPage() {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const templates = await db.noteTemplate.findMany({
+      where: { tenantId },
+      orderBy: { specialty: "asc" },
+    });
+    const missingSpecialties = Object.values(NoteSpecialty).filter(
+      (specialty) =>
+        !templates.some((template) => template.specialty === specialty),
+    );
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Plantillas de nota clinica</h1>
+          <p className="text-sm text-muted-foreground">
+            Campos y texto inicial por especialidad. Cada cambio de contenido
+            genera una nueva version; las notas guardan la version usada.
+          </p>
+          <Link href="/agenda" className="text-xs text-primary hover:underline">
+            Volver a agenda
+          </Link>
+        </div>
+
+        {missingSpecialties.length > 0 ? (
+          <form action={saveNoteTemplate} className="grid gap-3 md:grid-cols-3">
+            <select
+              name="specialty"
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+              required
+            >
+              {missingSpecialties.map((specialty) => (
+                <option key={specialty} value={specialty}>
+                  {noteSpecialtyLabels[specialty]}
+                </option>
+              ))}
+            </select>
+            <Input name="name" placeholder="Nombre de la plantilla" required />
+            <Button type="submit">Crear plantilla</Button>
+          </form>
+        ) : null}
+
+        <div className="space-y-4">
+          {templates.map((template) => {
+            const fields = parseNoteTemplateFields(template.fields);
+            return (
+              <div key={template.id} className="rounded-lg border p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <div className="text-sm font-medium">{template.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {noteSpecialtyLabels[template.specialty]} - version{" "}
+                      {template.version} -{" "}
+                      {template.isActive ? "Activa" : "Inactiva"}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <form action={saveNoteTemplate} className="flex gap-2">
+                      <input
+                        type="hidden"
+                        name="specialty"
+                        value={template.specialty}
+                      />
+                      <Input
+                        name="name"
+                        defaultValue={template.name}
+                        className="h-9 w-48"
+                        required
+                      />
+                      <Button size="sm" variant="outline" type="submit">
+                        Renombrar
+                      </Button>
+                    </form>
+                    <form action={toggleNoteTemplate}>
+                      <input
+                        type="hidden"
+                        name="templateId"
+                        value={template.id}
+                      />
+                      <Button size="sm" variant="secondary" type="submit">
+                        {template.isActive ? "Desactivar" : "Activar"}
+                      </Button>
+                    </form>
+                  </div>
+                </div>
+
+                <form
+                  action={updateNoteTemplateContent}
+                  className="mt-3 space-y-2"
+                >
+                  <input type="hidden" name="templateId" value={template.id} />
+                  <label className="block text-xs text-muted-foreground">
+                    Resumen inicial
+                    <Input
+                      name="summary"
+                      defaultValue={template.summary ?? ""}
+                      className="mt-1"
+                    />
+                  </label>
+                  {fields.map((field) => (
+                    <label
+                      key={field.key}
+                      className="block text-xs text-muted-foreground"
+                    >
+                      {field.label}
+                      <Textarea
+                        name={`default_${field.key}`}
+                        defaultValue={field.defaultText}
+                        className="mt-1"
+                      />
+                    </label>
+                  ))}
+                  <Button size="sm" type="submit">
+                    Guardar nueva version
+                  </Button>
+                </form>
+
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {fields.map((field) => (
+                    <form key={field.key} action={removeNoteTemplateField}>
+                      <input
+                        type="hidden"
+                        name="templateId"
+                        value={template.id}
+                      />
+                      <input type="hidden" name="key" value={field.key} />
+                      <Button size="sm" variant="outline" type="submit">
+                        Quitar {field.label}
+                      </Button>
+                    </form>
+                  ))}
+                </div>
+
+                <form
+                  action={addNoteTemplateField}
+                  className="mt-3 flex flex-wrap items-center gap-2"
+                >
+                  <input type="hidden" name="templateId" value={template.id} />
+                  <Input
+                    name="label"
+                    placeholder="Nuevo campo"
+                    className="h-9 w-48"
+                    required
+                  />
+                  <Input
+                    name="defaultText"
+                    placeholder="Texto inicial"
+                    className="h-9 w-64"
+                  />
+                  <Button size="sm" type="submit">
+                    Agregar campo
+                  </Button>
+                </form>
+              </div>
+            );
+          })}
+          {templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Sin plantillas. Las notas se cargan con el formato SOAP libre.
+            </p>
+          ) : null}
+        </div>
+      </div>
+    );
+  });
+}
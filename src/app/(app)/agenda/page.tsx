@@ -1,10 +1,20 @@
 import { revalidatePath } from "next/cache";
 import { getServerSession } from "next-auth";
+import Link from "next/link";
 import { z } from "zod";
 import { authOptions } from "@/lib/auth";
 import { logAudit } from "@/lib/audit";
-import { assertRole } from "@/lib/rbac";
-import { Role, VisitStatus } from "@prisma/client";
+import { assertRole, hasRole } from "@/lib/rbac";
+import {
+  AssessmentScale,
+  MedicationAdministrationStatus,
+  Prisma,
+  Role,
+  VisitStatus,
+  VisitType,
+  WoundExudate,
+  WoundStage,
+} from "@prisma/client";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -14,25 +24,100 @@ import {
 } from "@/lib/tenant-access";
 import AccessDenied from "@/components/app/access-denied";
 import { withTenant } from "@/lib/rls";
-
-const defaultChecklistItems = [
-  { key: "patient_identity", label: "Identificacion del paciente" },
-  { key: "hand_hygiene", label: "Higiene de manos" },
-  { key: "vitals", label: "Signos vitales registrados" },
-  { key: "intervention", label: "Intervencion realizada" },
-  { key: "consumables", label: "Consumibles registrados" },
-  { key: "next_visit", label: "Proxima visita coordinada" },
-];
+import {
+  createVisitChecklists,
+  visitTypeLabels,
+} from "@/lib/visit-checklist";
+import {
+  DEFAULT_MISSED_VISIT_GRACE_MINUTES,
+  detectMissedVisits,
+} from "@/lib/missed-visits";
+import {
+  describeVitalAlert,
+  parseVitalSignValues,
+  recordVitalSigns,
+  vitalSignFields,
+  type VitalAlert,
+} from "@/lib/vital-signs";
+import { assessmentScales, scoreAssessment } from "@/lib/assessment-scales";
+import { consumeVisitItem } from "@/lib/visit-items";
+import PatientAlertsBanner from "@/components/app/patient-alerts-banner";
+import ObjectiveProgressFields from "@/components/app/objective-progress-fields";
+import {
+  applyObjectiveUpdates,
+  closedObjectiveStatuses,
+  readObjectiveUpdates,
+} from "@/lib/care-plan-objectives";
+import {
+  addClinicalNoteAddendum,
+  buildNoteStructured,
+  type ClinicalNoteStructured,
+  signClinicalNote,
+  updateClinicalNoteDraft,
+} from "@/lib/clinical-notes";
+import {
+  buildTemplatedStructured,
+  noteSpecialtyLabels,
+  parseNoteTemplateFields,
+  readNoteFieldValues,
+} from "@/lib/note-templates";
+import {
+  administrationStatusLabels,
+  isOrderActiveOn,
+  medicationRouteLabels,
+  recordMedicationAdministration,
+} from "@/lib/medications";
+import {
+  describeWoundDimensions,
+  parseWoundDimensions,
+  recordWoundMeasurement,
+  woundExudateLabels,
+  woundStageLabels,
+  woundTypeLabels,
+} from "@/lib/wounds";
+import {
+  careTeamEpisodeScope,
+  careTeamNoteScope,
+  careTeamVisitScope,
+  defaultAssigneeForVisit,
+} from "@/lib/care-team";
+import {
+  DEFAULT_VISIT_MINUTES,
+  assertProfessionalAvailable,
+} from "@/lib/availability";
+import { assertProfessionalCredentials } from "@/lib/credentials";
+import {
+  assertEpisodeConsents,
+  consentTypeLabels,
+  missingConsentTypes,
+} from "@/lib/consents";
+import {
+  DEFAULT_CHECK_IN_MAX_DISTANCE_METERS,
+  evaluateVisitLocation,
+  formatDistance,
+  loadCheckInMaxDistance,
+  parseDeviceLocation,
+  visitLocationFlagLabels,
+} from "@/lib/geolocation";
+import GeolocatedSubmit from "@/components/app/geolocated-submit";
+import {
+  DEFAULT_TRAVEL_SPEED_KMH,
+  dailyTravelLegs,
+  parseVisitWindow,
+} from "@/lib/visit-routes";
 
 const visitSchema = z.object({
   episodeId: z.string().min(1),
   assignedUserId: z.string().optional(),
+  type: z.nativeEnum(VisitType),
   scheduledAt: z.string().min(1),
+  durationMinutes: z.coerce.number().int().min(5).max(720).optional(),
   notes: z.string().optional(),
 });
 
 const noteSchema = z.object({
   visitId: z.string().min(1),
+  templateId: z.string().optional(),
   summary: z.string().min(1),
   subjective: z.string().optional(),
   objective: z.string().optional(),
@@ -40,11 +125,52 @@ const noteSchema = z.object({
   plan: z.string().optional(),
 });
 
+const noteUpdateSchema = noteSchema
+  .omit({ visitId: true })
+  .extend({ noteId: z.string().min(1) });
+
+const addendumSchema = z.object({
+  noteId: z.string().min(1),
+  content: z.string().min(1),
+});
+
 const checklistSchema = z.object({
   checklistId: z.string().min(1),
   completed: z.enum(["true", "false"]),
 });
 
+const missedSchema = z.object({
+  visitId: z.string().min(1),
+  reason: z.string().trim().min(1),
+});
+
+const rescheduleSchema = z.object({
+  visitId: z.string().min(1),
+  scheduledAt: z.string().min(1),
+});
+
+const assessmentSchema = z.object({
+  visitId: z.string().min(1),
+  scale: z.nativeEnum(AssessmentScale),
+});
+
+const administrationSchema = z.object({
+  visitId: z.string().min(1),
+  orderId: z.string().min(1),
+  status: z.nativeEnum(MedicationAdministrationStatus),
+  reason: z.string(),
+  warehouseId: z.string(),
+  quantity: z.string(),
+});
+
+const woundMeasurementSchema = z.object({
+  visitId: z.string().min(1),
+  woundId: z.string().min(1),
+  stage: z.nativeEnum(WoundStage).optional(),
+  exudate: z.nativeEnum(WoundExudate).optional(),
+  notes: z.string().optional(),
+});
+
 const itemSchema = z.object({
   visitId: z.string().min(1),
   productId: z.string().min(1),
@@ -58,8 +184,9 @@ async function createVisit(formData: FormData) {
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
     assertRole(session.user.role, [
       Role.ADMIN_TENANT,
       Role.COORDINACION,
@@ -69,7 +196,9 @@ async function createVisit(formData: FormData) {
     const parsed = visitSchema.safeParse({
       episodeId: formData.get("episodeId"),
       assignedUserId: formData.get("assignedUserId"),
+      type: formData.get("type"),
       scheduledAt: formData.get("scheduledAt"),
+      durationMinutes: formData.get("durationMinutes") || undefined,
       notes: formData.get("notes"),
     });
 
@@ -78,19 +207,38 @@ async function createVisit(formData: FormData) {
     }
 
     const episode = await db.episode.findFirst({
-      where: { id: parsed.data.episodeId, tenantId: session.user.tenantId },
+      where: {
+        id: parsed.data.episodeId,
+        tenantId,
+        ...careTeamEpisodeScope(session.user),
+      },
+      include: { careTeam: true },
     });
 
     if (!episode) {
       throw new Error("EPISODE_NOT_FOUND");
     }
+    if (episode.status === "SUSPENDED") {
+      throw new Error("EPISODE_SUSPENDED");
+    }
 
-    let assignedUserId: string | null = null;
+    const scheduledAt = new Date(parsed.data.scheduledAt);
+    const durationMinutes =
+      parsed.data.durationMinutes ?? DEFAULT_VISIT_MINUTES;
+    const { windowStartMinute, windowEndMinute } = parseVisitWindow(
+      formData.get("windowStart"),
+      formData.get("windowEnd"),
+    );
+    let assignedUserId = defaultAssigneeForVisit(
+      episode.careTeam,
+      parsed.data.type,
+      scheduledAt,
+    );
     if (parsed.data.assignedUserId) {
       const assignedUser = await db.user.findFirst({
         where: {
           id: parsed.data.assignedUserId,
-          tenantId: session.user.tenantId,
+          tenantId,
           isActive: true,
         },
       });
@@ -99,31 +247,49 @@ async function createVisit(formData: FormData) {
       }
       assignedUserId = assignedUser.id;
     }
+    if (assignedUserId) {
+      await assertProfessionalAvailable(db, {
+        tenantId,
+        userId: assignedUserId,
+        scheduledAt,
+        durationMinutes,
+        allowOutsideHours:
+          formData.get("allowOutsideHours") === "on" &&
+          hasRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]),
+      });
+      await assertProfessionalCredentials(db, {
+        tenantId,
+        userId: assignedUserId,
+        visitType: parsed.data.type,
+        at: scheduledAt,
+      });
+    }
 
     const visit = await db.visit.create({
       data: {
-        tenantId: session.user.tenantId,
+        tenantId,
         patientId: episode.patientId,
         episodeId: episode.id,
         assignedUserId,
         createdById: session.user.id,
-        scheduledAt: new Date(parsed.data.scheduledAt),
+        type: parsed.data.type,
+        scheduledAt,
+        durationMinutes,
+        fixedTime: formData.get("fixedTime") === "on",
+        windowStartMinute,
+        windowEndMinute,
         notes: parsed.data.notes ?? null,
       },
     });
 
-    await db.visitChecklistItem.createMany({
-      data: defaultChecklistItems.map((item) => ({
-        tenantId: session.user.tenantId,
-        visitId: visit.id,
-        key: item.key,
-        label: item.label,
-        isRequired: true,
-      })),
+    await createVisitChecklists(db, {
+      tenantId,
+      visitIds: [visit.id],
+      visitType: visit.type,
     });
 
     await logAudit(db, {
-      tenantId: session.user.tenantId,
+      tenantId,
       actorId: session.user.id,
       action: "visit.create",
       entityType: "Visit",
@@ -140,8 +306,9 @@ async function checkInVisit(formData: FormData) {
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
     assertRole(session.user.role, [
       Role.ADMIN_TENANT,
       Role.COORDINACION,
@@ -152,24 +319,47 @@ async function checkInVisit(formData: FormData) {
     if (!visitId) throw new Error("VALIDATION_ERROR");
 
     const visit = await db.visit.findFirst({
-      where: { id: visitId, tenantId: session.user.tenantId },
+      where: { id: visitId, tenantId, ...careTeamVisitScope(session.user) },
+      include: { patient: true },
     });
 
     if (!visit || visit.status !== "SCHEDULED") {
       throw new Error("INVALID_STATUS");
     }
+    const checkInAt = new Date();
+    await assertEpisodeConsents(db, {
+      tenantId,
+      episodeId: visit.episodeId,
+      visitId: visit.id,
+      at: checkInAt,
+    });
 
+    const device = parseDeviceLocation(formData);
+    const location = evaluateVisitLocation({
+      address: visit.patient,
+      device,
+      maxDistanceMeters: await loadCheckInMaxDistance(db, tenantId),
+    });
     const updated = await db.visit.update({
       where: { id: visit.id },
-      data: { status: VisitStatus.IN_PROGRESS, checkInAt: new Date() },
+      data: {
+        status: VisitStatus.IN_PROGRESS,
+        checkInAt,
+        checkInLatitude: device?.latitude ?? null,
+        checkInLongitude: device?.longitude ?? null,
+        checkInAccuracy: device?.accuracy ?? null,
+        checkInDistance: location.distance,
+        checkInFlag: location.flag,
+      },
     });
 
     await logAudit(db, {
-      tenantId: session.user.tenantId,
+      tenantId,
       actorId: session.user.id,
       action: "visit.checkin",
       entityType: "Visit",
       entityId: updated.id,
+      meta: { distance: location.distance, flag: location.flag },
     });
   });
 
@@ -182,8 +372,9 @@ async function completeVisit(formData: FormData) {
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
     assertRole(session.user.role, [
       Role.ADMIN_TENANT,
       Role.COORDINACION,
@@ -194,7 +385,8 @@ async function completeVisit(formData: FormData) {
     if (!visitId) throw new Error("VALIDATION_ERROR");
 
     const visit = await db.visit.findFirst({
-      where: { id: visitId, tenantId: session.user.tenantId },
+      where: { id: visitId, tenantId, ...careTeamVisitScope(session.user) },
+      include: { patient: true },
     });
 
     if (!visit || visit.status !== "IN_PROGRESS") {
@@ -211,35 +403,580 @@ async function completeVisit(formData: FormData) {
     const notesCount = await db.clinicalNote.count({
       where: { visitId: visit.id },
     });
-    if (notesCount === 0) {
-      throw new Error("NOTE_REQUIRED");
+    if (notesCount === 0) {
+      throw new Error("NOTE_REQUIRED");
+    }
+
+    const device = parseDeviceLocation(formData);
+    const location = evaluateVisitLocation({
+      address: visit.patient,
+      device,
+      maxDistanceMeters: await loadCheckInMaxDistance(db, tenantId),
+    });
+    const updated = await db.visit.update({
+      where: { id: visit.id },
+      data: {
+        status: VisitStatus.COMPLETED,
+        checkOutAt: new Date(),
+        checkOutLatitude: device?.latitude ?? null,
+        checkOutLongitude: device?.longitude ?? null,
+        checkOutAccuracy: device?.accuracy ?? null,
+        checkOutDistance: location.distance,
+        checkOutFlag: location.flag,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "visit.complete",
+      entityType: "Visit",
+      entityId: updated.id,
+      meta: { distance: location.distance, flag: location.flag },
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function cancelVisit(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  await withTenant(session.user.tenantId, async (db) => {
+    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const visitId = String(formData.get("visitId") ?? "");
+    if (!visitId) throw new Error("VALIDATION_ERROR");
+
+    const visit = await db.visit.findFirst({
+      where: {
+        id: visitId,
+        tenantId: session.user.tenantId,
+        ...careTeamVisitScope(session.user),
+      },
+    });
+
+    if (!visit || visit.status === "COMPLETED") {
+      throw new Error("INVALID_STATUS");
+    }
+
+    const updated = await db.visit.update({
+      where: { id: visit.id },
+      data: { status: VisitStatus.CANCELLED },
+    });
+
+    await logAudit(db, {
+      tenantId: session.user.tenantId,
+      actorId: session.user.id,
+      action: "visit.cancel",
+      entityType: "Visit",
+      entityId: updated.id,
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function markVisitMissed(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = missedSchema.safeParse({
+      visitId: formData.get("visitId"),
+      reason: formData.get("reason"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const visit = await db.visit.findFirst({
+      where: { id: parsed.data.visitId, tenantId },
+    });
+    if (!visit || visit.status !== "SCHEDULED") {
+      throw new Error("INVALID_STATUS");
+    }
+
+    const updated = await db.visit.update({
+      where: { id: visit.id },
+      data: {
+        status: VisitStatus.MISSED,
+        missedAt: new Date(),
+        missedReason: parsed.data.reason.trim(),
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "visit.missed",
+      entityType: "Visit",
+      entityId: updated.id,
+      meta: { reason: updated.missedReason, automatic: false },
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function rescheduleVisit(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = rescheduleSchema.safeParse({
+      visitId: formData.get("visitId"),
+      scheduledAt: formData.get("scheduledAt"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const visit = await db.visit.findFirst({
+      where: { id: parsed.data.visitId, tenantId },
+      include: { rescheduledTo: true },
+    });
+    if (!visit || visit.status !== "MISSED") {
+      throw new Error("INVALID_STATUS");
+    }
+    if (visit.rescheduledTo.length > 0) {
+      throw new Error("VISIT_ALREADY_RESCHEDULED");
+    }
+    const scheduledAt = new Date(parsed.data.scheduledAt);
+    if (visit.assignedUserId) {
+      await assertProfessionalAvailable(db, {
+        tenantId,
+        userId: visit.assignedUserId,
+        scheduledAt,
+        durationMinutes: visit.durationMinutes,
+        excludeVisitId: visit.id,
+        allowOutsideHours: formData.get("allowOutsideHours") === "on",
+      });
+      await assertProfessionalCredentials(db, {
+        tenantId,
+        userId: visit.assignedUserId,
+        visitType: visit.type,
+        at: scheduledAt,
+      });
+    }
+
+    const replacement = await db.visit.create({
+      data: {
+        tenantId,
+        patientId: visit.patientId,
+        episodeId: visit.episodeId,
+        assignedUserId: visit.assignedUserId,
+        createdById: session.user.id,
+        rescheduledFromId: visit.id,
+        type: visit.type,
+        scheduledAt,
+        durationMinutes: visit.durationMinutes,
+        notes: visit.notes,
+      },
+    });
+
+    await createVisitChecklists(db, {
+      tenantId,
+      visitIds: [replacement.id],
+      visitType: replacement.type,
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "visit.reschedule",
+      entityType: "Visit",
+      entityId: replacement.id,
+      meta: { rescheduledFromId: visit.id },
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function runMissedVisitDetection() {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    await detectMissedVisits(db, { tenantId, actorId: session.user.id });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function updateMissedVisitGrace(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT]);
+
+    const graceMinutes = Number(formData.get("graceMinutes"));
+    if (!Number.isInteger(graceMinutes) || graceMinutes < 0) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const policy = await db.tenantPolicy.upsert({
+      where: { tenantId },
+      update: { missedVisitGraceMinutes: graceMinutes },
+      create: { tenantId, missedVisitGraceMinutes: graceMinutes },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "tenant.policy.missed_visit_grace",
+      entityType: "TenantPolicy",
+      entityId: policy.id,
+      meta: { graceMinutes },
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function updateCheckInDistance(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT]);
+
+    const maxDistance = Number(formData.get("maxDistance"));
+    if (!Number.isInteger(maxDistance) || maxDistance < 10) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const policy = await db.tenantPolicy.upsert({
+      where: { tenantId },
+      update: { checkInMaxDistanceMeters: maxDistance },
+      create: { tenantId, checkInMaxDistanceMeters: maxDistance },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "tenant.policy.check_in_distance",
+      entityType: "TenantPolicy",
+      entityId: policy.id,
+      meta: { maxDistance },
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function toggleChecklistItem(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  await withTenant(session.user.tenantId, async (db) => {
+    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = checklistSchema.safeParse({
+      checklistId: formData.get("checklistId"),
+      completed: formData.get("completed"),
+    });
+
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const checklistItem = await db.visitChecklistItem.findFirst({
+      where: {
+        id: parsed.data.checklistId,
+        visit: {
+          tenantId: session.user.tenantId,
+          ...careTeamVisitScope(session.user),
+        },
+      },
+    });
+
+    if (!checklistItem) {
+      throw new Error("CHECKLIST_NOT_FOUND");
+    }
+
+    const completed = parsed.data.completed === "true";
+    const updated = await db.visitChecklistItem.update({
+      where: { id: checklistItem.id },
+      data: {
+        isCompleted: completed,
+        completedAt: completed ? new Date() : null,
+        completedById: completed ? session.user.id : null,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId: session.user.tenantId,
+      actorId: session.user.id,
+      action: "visit.checklist.update",
+      entityType: "VisitChecklistItem",
+      entityId: updated.id,
+      meta: { completed },
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function addClinicalNote(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  await withTenant(session.user.tenantId, async (db) => {
+    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = noteSchema.safeParse({
+      visitId: formData.get("visitId"),
+      templateId: formData.get("templateId") ?? undefined,
+      summary: formData.get("summary"),
+      subjective: formData.get("subjective") ?? undefined,
+      objective: formData.get("objective") ?? undefined,
+      assessment: formData.get("assessment") ?? undefined,
+      plan: formData.get("plan") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const visit = await db.visit.findFirst({
+      where: {
+        id: parsed.data.visitId,
+        tenantId: session.user.tenantId,
+        ...careTeamVisitScope(session.user),
+      },
+    });
+
+    if (!visit) {
+      throw new Error("VISIT_NOT_FOUND");
+    }
+
+    let structured: ClinicalNoteStructured | null;
+    if (parsed.data.templateId) {
+      const template = await db.noteTemplate.findFirst({
+        where: {
+          id: parsed.data.templateId,
+          tenantId: visit.tenantId,
+          isActive: true,
+        },
+      });
+      if (!template) {
+        throw new Error("NOTE_TEMPLATE_NOT_FOUND");
+      }
+      structured = buildTemplatedStructured(
+        template,
+        readNoteFieldValues(formData),
+      );
+    } else {
+      structured = buildNoteStructured(parsed.data);
+    }
+
+    const note = await db.clinicalNote.create({
+      data: {
+        tenantId: session.user.tenantId,
+        patientId: visit.patientId,
+        episodeId: visit.episodeId,
+        visitId: visit.id,
+        authorId: session.user.id,
+        content: parsed.data.summary.trim(),
+        structured: structured ?? Prisma.DbNull,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId: session.user.tenantId,
+      actorId: session.user.id,
+      action: "clinicalNote.create",
+      entityType: "ClinicalNote",
+      entityId: note.id,
+    });
+
+    await applyObjectiveUpdates(db, {
+      tenantId: note.tenantId,
+      actorId: note.authorId,
+      episodeId: visit.episodeId,
+      noteId: note.id,
+      updates: readObjectiveUpdates(formData.entries()),
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function updateClinicalNote(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = noteUpdateSchema.safeParse({
+      noteId: formData.get("noteId"),
+      summary: formData.get("summary"),
+      subjective: formData.get("subjective") ?? undefined,
+      objective: formData.get("objective") ?? undefined,
+      assessment: formData.get("assessment") ?? undefined,
+      plan: formData.get("plan") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    await updateClinicalNoteDraft(db, {
+      tenantId,
+      actorId: session.user.id,
+      noteId: parsed.data.noteId,
+      content: parsed.data.summary,
+      structured: parsed.data,
+      fieldValues: readNoteFieldValues(formData),
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function signNote(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const noteId = String(formData.get("noteId") ?? "");
+    if (!noteId) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    await signClinicalNote(db, {
+      tenantId,
+      actorId: session.user.id,
+      noteId,
+    });
+  });
+
+  revalidatePath("/agenda");
+}
+
+async function addNoteAddendum(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = addendumSchema.safeParse({
+      noteId: formData.get("noteId"),
+      content: formData.get("content"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
     }
 
-    const updated = await db.visit.update({
-      where: { id: visit.id },
-      data: { status: VisitStatus.COMPLETED, checkOutAt: new Date() },
+    const note = await db.clinicalNote.findFirst({
+      where: {
+        id: parsed.data.noteId,
+        tenantId,
+        ...careTeamNoteScope(session.user),
+      },
     });
+    if (!note) {
+      throw new Error("NOTE_NOT_FOUND");
+    }
 
-    await logAudit(db, {
-      tenantId: session.user.tenantId,
+    await addClinicalNoteAddendum(db, {
+      tenantId,
       actorId: session.user.id,
-      action: "visit.complete",
-      entityType: "Visit",
-      entityId: updated.id,
+      noteId: parsed.data.noteId,
+      content: parsed.data.content,
     });
   });
 
   revalidatePath("/agenda");
 }
 
-async function cancelVisit(formData: FormData) {
+async function addVitalSigns(formData: FormData) {
   "use server";
   const session = await getServerSession(authOptions);
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
     assertRole(session.user.role, [
       Role.ADMIN_TENANT,
       Role.COORDINACION,
@@ -250,148 +987,202 @@ async function cancelVisit(formData: FormData) {
     if (!visitId) throw new Error("VALIDATION_ERROR");
 
     const visit = await db.visit.findFirst({
-      where: { id: visitId, tenantId: session.user.tenantId },
+      where: { id: visitId, tenantId, ...careTeamVisitScope(session.user) },
+      include: { patient: true },
     });
-
-    if (!visit || visit.status === "COMPLETED") {
+    if (!visit) {
+      throw new Error("VISIT_NOT_FOUND");
+    }
+    if (visit.status !== "IN_PROGRESS" && visit.status !== "COMPLETED") {
       throw new Error("INVALID_STATUS");
     }
 
-    const updated = await db.visit.update({
-      where: { id: visit.id },
-      data: { status: VisitStatus.CANCELLED },
+    const values = parseVitalSignValues(
+      Object.fromEntries(
+        vitalSignFields.map((field) => [field.key, formData.get(field.key)]),
+      ),
+    );
+    const { vitalSign, alerts } = await recordVitalSigns(db, {
+      tenantId,
+      visit,
+      recordedById: session.user.id,
+      values,
     });
 
     await logAudit(db, {
-      tenantId: session.user.tenantId,
+      tenantId,
       actorId: session.user.id,
-      action: "visit.cancel",
+      action: "vitals.create",
       entityType: "Visit",
-      entityId: updated.id,
+      entityId: visit.id,
+      meta: { vitalSignId: vitalSign.id, alerts: alerts.length },
     });
   });
 
   revalidatePath("/agenda");
 }
 
-async function toggleChecklistItem(formData: FormData) {
+async function addScaleAssessment(formData: FormData) {
   "use server";
   const session = await getServerSession(authOptions);
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
     assertRole(session.user.role, [
       Role.ADMIN_TENANT,
       Role.COORDINACION,
       Role.PROFESIONAL,
     ]);
 
-    const parsed = checklistSchema.safeParse({
-      checklistId: formData.get("checklistId"),
-      completed: formData.get("completed"),
+    const parsed = assessmentSchema.safeParse({
+      visitId: formData.get("visitId"),
+      scale: formData.get("scale"),
     });
-
     if (!parsed.success) {
       throw new Error("VALIDATION_ERROR");
     }
 
-    const checklistItem = await db.visitChecklistItem.findFirst({
+    const visit = await db.visit.findFirst({
       where: {
-        id: parsed.data.checklistId,
-        visit: { tenantId: session.user.tenantId },
+        id: parsed.data.visitId,
+        tenantId,
+        ...careTeamVisitScope(session.user),
       },
     });
-
-    if (!checklistItem) {
-      throw new Error("CHECKLIST_NOT_FOUND");
+    if (!visit) {
+      throw new Error("VISIT_NOT_FOUND");
+    }
+    if (visit.status !== "IN_PROGRESS" && visit.status !== "COMPLETED") {
+      throw new Error("INVALID_STATUS");
     }
 
-    const completed = parsed.data.completed === "true";
-    const updated = await db.visitChecklistItem.update({
-      where: { id: checklistItem.id },
+    const result = scoreAssessment(
+      parsed.data.scale,
+      Object.fromEntries(formData.entries()),
+    );
+    const assessment = await db.scaleAssessment.create({
       data: {
-        isCompleted: completed,
-        completedAt: completed ? new Date() : null,
-        completedById: completed ? session.user.id : null,
+        tenantId,
+        patientId: visit.patientId,
+        episodeId: visit.episodeId,
+        visitId: visit.id,
+        performedById: session.user.id,
+        scale: parsed.data.scale,
+        ...result,
       },
     });
 
     await logAudit(db, {
-      tenantId: session.user.tenantId,
+      tenantId,
       actorId: session.user.id,
-      action: "visit.checklist.update",
-      entityType: "VisitChecklistItem",
-      entityId: updated.id,
-      meta: { completed },
+      action: "assessment.create",
+      entityType: "ScaleAssessment",
+      entityId: assessment.id,
+      meta: {
+        scale: assessment.scale,
+        score: assessment.score,
+        visitId: visit.id,
+      },
     });
   });
 
   revalidatePath("/agenda");
 }
 
-async function addClinicalNote(formData: FormData) {
+async function administerMedication(formData: FormData) {
   "use server";
   const session = await getServerSession(authOptions);
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
     assertRole(session.user.role, [
       Role.ADMIN_TENANT,
       Role.COORDINACION,
       Role.PROFESIONAL,
     ]);
 
-    const parsed = noteSchema.safeParse({
+    const parsed = administrationSchema.safeParse({
       visitId: formData.get("visitId"),
-      summary: formData.get("summary"),
-      subjective: formData.get("subjective"),
-      objective: formData.get("objective"),
-      assessment: formData.get("assessment"),
-      plan: formData.get("plan"),
+      orderId: formData.get("orderId"),
+      status: formData.get("status"),
+      reason: formData.get("reason"),
+      warehouseId: formData.get("warehouseId") ?? "",
+      quantity: formData.get("quantity") ?? "",
     });
-
     if (!parsed.success) {
       throw new Error("VALIDATION_ERROR");
     }
 
-    const visit = await db.visit.findFirst({
-      where: { id: parsed.data.visitId, tenantId: session.user.tenantId },
+    if (parsed.data.warehouseId) {
+      await assertTenantModuleAccess(db, tenantId, "INVENTORY");
+    }
+
+    await recordMedicationAdministration(db, {
+      tenantId,
+      actorId: session.user.id,
+      orderId: parsed.data.orderId,
+      visitId: parsed.data.visitId,
+      status: parsed.data.status,
+      reason: parsed.data.reason,
+      warehouseId: parsed.data.warehouseId || null,
+      quantity: parsed.data.quantity ? Number(parsed.data.quantity) : null,
+      visitScope: careTeamVisitScope(session.user),
     });
+  });
 
-    if (!visit) {
-      throw new Error("VISIT_NOT_FOUND");
-    }
+  revalidatePath("/agenda");
+}
 
-    const structured = {
-      subjective: parsed.data.subjective?.trim() || undefined,
-      objective: parsed.data.objective?.trim() || undefined,
-      assessment: parsed.data.assessment?.trim() || undefined,
-      plan: parsed.data.plan?.trim() || undefined,
-    };
-    const hasStructured = Object.values(structured).some(Boolean);
+async function addWoundMeasurement(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
 
-    const note = await db.clinicalNote.create({
-      data: {
-        tenantId: session.user.tenantId,
-        patientId: visit.patientId,
-        episodeId: visit.episodeId,
-        visitId: visit.id,
-        authorId: session.user.id,
-        content: parsed.data.summary.trim(),
-        structured: hasStructured ? structured : null,
-      },
+    const parsed = woundMeasurementSchema.safeParse({
+      visitId: formData.get("visitId"),
+      woundId: formData.get("woundId"),
+      stage: formData.get("stage") || undefined,
+      exudate: formData.get("exudate") || undefined,
+      notes: formData.get("notes") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    const dimensions = parseWoundDimensions({
+      lengthCm: formData.get("lengthCm"),
+      widthCm: formData.get("widthCm"),
+      depthCm: formData.get("depthCm"),
     });
+    if (!dimensions) {
+      throw new Error("WOUND_MEASUREMENT_INVALID");
+    }
 
-    await logAudit(db, {
-      tenantId: session.user.tenantId,
+    await recordWoundMeasurement(db, {
+      tenantId,
       actorId: session.user.id,
-      action: "clinicalNote.create",
-      entityType: "ClinicalNote",
-      entityId: note.id,
+      woundId: parsed.data.woundId,
+      visitId: parsed.data.visitId,
+      dimensions,
+      stage: parsed.data.stage,
+      exudate: parsed.data.exudate,
+      notes: parsed.data.notes,
+      visitScope: careTeamVisitScope(session.user),
     });
   });
 
@@ -425,69 +1216,24 @@ async function addVisitItem(formData: FormData) {
     }
 
     const visit = await db.visit.findFirst({
-      where: { id: parsed.data.visitId, tenantId: session.user.tenantId },
+      where: {
+        id: parsed.data.visitId,
+        tenantId: session.user.tenantId,
+        ...careTeamVisitScope(session.user),
+      },
     });
 
     if (!visit) {
       throw new Error("VISIT_NOT_FOUND");
     }
 
-    const warehouse = await db.warehouse.findFirst({
-      where: { id: parsed.data.warehouseId, tenantId: session.user.tenantId },
-    });
-    if (!warehouse) {
-      throw new Error("WAREHOUSE_NOT_FOUND");
-    }
-
-    const product = await db.product.findFirst({
-      where: { id: parsed.data.productId, tenantId: session.user.tenantId },
-    });
-    if (!product) {
-      throw new Error("PRODUCT_NOT_FOUND");
-    }
-
-    const quantity = Number(parsed.data.quantity);
-    if (!Number.isFinite(quantity) || quantity <= 0) {
-      throw new Error("INVALID_QUANTITY");
-    }
-
-    const item = await db.visitItem.create({
-      data: {
-        visitId: visit.id,
-        productId: product.id,
-        quantity,
-        warehouseId: warehouse.id,
-      },
-    });
-
-    await logAudit(db, {
-      tenantId: session.user.tenantId,
-      actorId: session.user.id,
-      action: "visit.item.add",
-      entityType: "VisitItem",
-      entityId: item.id,
-    });
-
-    const movement = await db.stockMovement.create({
-      data: {
-        tenantId: session.user.tenantId,
-        warehouseId: warehouse.id,
-        productId: product.id,
-        type: "OUT",
-        quantity,
-        referenceType: "VISIT_ITEM",
-        referenceId: item.id,
-        createdById: session.user.id,
-      },
-    });
-
-    await logAudit(db, {
-      tenantId: session.user.tenantId,
+    await consumeVisitItem(db, {
+      tenantId: visit.tenantId,
       actorId: session.user.id,
-      action: "stock.movement.visit_item",
-      entityType: "StockMovement",
-      entityId: movement.id,
-      meta: { quantity, productId: parsed.data.productId },
+      visitId: visit.id,
+      productId: parsed.data.productId,
+      warehouseId: parsed.data.warehouseId,
+      quantity: Number(parsed.data.quantity),
     });
   });
 
@@ -514,7 +1260,11 @@ export default async function AgendaPage() {
     );
 
     const episodes = await db.episode.findMany({
-      where: { tenantId, status: "ACTIVE" },
+      where: {
+        tenantId,
+        status: "ACTIVE",
+        ...careTeamEpisodeScope(session.user),
+      },
       include: { patient: true },
       orderBy: { startDate: "desc" },
     });
@@ -531,18 +1281,128 @@ export default async function AgendaPage() {
       orderBy: { name: "asc" },
     });
     const visits = await db.visit.findMany({
-      where: { tenantId },
+      where: { tenantId, ...careTeamVisitScope(session.user) },
       include: {
-        patient: true,
+        patient: {
+          include: {
+            allergies: { where: { isActive: true } },
+            problems: { where: { status: "ACTIVE" } },
+          },
+        },
         assignedUser: true,
-        clinicalNotes: { include: { author: true } },
+        clinicalNotes: {
+          where: { amendsId: null },
+          include: {
+            author: true,
+            signedBy: true,
+            addenda: {
+              include: { author: true },
+              orderBy: { createdAt: "asc" },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
         items: { include: { product: true, warehouse: true } },
         checklistItems: true,
         attachments: true,
+        rescheduledFrom: true,
+        rescheduledTo: true,
+        vitalSigns: { orderBy: { recordedAt: "desc" } },
+        scaleAssessments: { orderBy: { performedAt: "desc" } },
+        medicationAdministrations: {
+          include: { order: true },
+          orderBy: { administeredAt: "desc" },
+        },
+        woundMeasurements: { orderBy: { recordedAt: "asc" } },
       },
       orderBy: { scheduledAt: "desc" },
       take: 50,
     });
+    const noteTemplates = await db.noteTemplate.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: { specialty: "asc" },
+    });
+    const medicationOrders = await db.medicationOrder.findMany({
+      where: {
+        tenantId,
+        status: "ACTIVE",
+        episodeId: {
+          in: visits.flatMap((visit) =>
+            visit.episodeId ? [visit.episodeId] : [],
+          ),
+        },
+      },
+      orderBy: { drugName: "asc" },
+    });
+    const openObjectives = await db.carePlanObjective.findMany({
+      where: {
+        tenantId,
+        status: { notIn: closedObjectiveStatuses },
+        carePlan: {
+          episodeId: {
+            in: visits.flatMap((visit) =>
+              visit.episodeId ? [visit.episodeId] : [],
+            ),
+          },
+        },
+      },
+      include: { carePlan: true },
+      orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    });
+    const wounds = await db.wound.findMany({
+      where: {
+        tenantId,
+        status: "ACTIVE",
+        episodeId: {
+          in: visits.flatMap((visit) =>
+            visit.episodeId ? [visit.episodeId] : [],
+          ),
+        },
+      },
+      orderBy: { identifiedAt: "asc" },
+    });
+    const scheduledEpisodeIds = visits.flatMap((visit) =>
+      visit.status === VisitStatus.SCHEDULED && visit.episodeId
+        ? [visit.episodeId]
+        : [],
+    );
+    const [episodeConsents, checkedInEpisodes] = await Promise.all([
+      db.episodeConsent.findMany({
+        where: { tenantId, episodeId: { in: scheduledEpisodeIds } },
+      }),
+      db.visit.findMany({
+        where: {
+          tenantId,
+          episodeId: { in: scheduledEpisodeIds },
+          checkInAt: { not: null },
+        },
+        select: { episodeId: true },
+        distinct: ["episodeId"],
+      }),
+    ]);
+    const consentCheckedAt = new Date();
+    const missingConsentsFor = (episodeId: string | null) =>
+      episodeId &&
+      !checkedInEpisodes.some((entry) => entry.episodeId === episodeId)
+        ? missingConsentTypes(
+            episodeConsents.filter(
+              (consent) => consent.episodeId === episodeId,
+            ),
+            consentCheckedAt,
+          )
+        : [];
+    const policy = await db.tenantPolicy.findUnique({ where: { tenantId } });
+    const graceMinutes =
+      policy?.missedVisitGraceMinutes ?? DEFAULT_MISSED_VISIT_GRACE_MINUTES;
+    const maxDistance =
+      policy?.checkInMaxDistanceMeters ?? DEFAULT_CHECK_IN_MAX_DISTANCE_METERS;
+    const travelLegs = dailyTravelLegs(
+      visits,
+      policy?.travelSpeedKmh ?? DEFAULT_TRAVEL_SPEED_KMH,
+    );
+    const canCoordinate =
+      session.user.role === Role.ADMIN_TENANT ||
+      session.user.role === Role.COORDINACION;
 
     return (
       <div className="space-y-6">
@@ -551,6 +1411,55 @@ export default async function AgendaPage() {
           <p className="text-sm text-muted-foreground">
             Programacion de visitas, notas clinicas y consumos.
           </p>
+          <Link href="/mobile" className="text-xs text-primary hover:underline">
+            Modo movil: mis visitas de hoy (funciona sin conexion)
+          </Link>
+          {canCoordinate ? (
+            <div className="flex flex-wrap gap-3">
+              <Link
+                href="/agenda/checklists"
+                className="text-xs text-primary hover:underline"
+              >
+                Configurar checklists por tipo de visita
+              </Link>
+              <Link
+                href="/agenda/vitals"
+                className="text-xs text-primary hover:underline"
+              >
+                Umbrales de signos vitales
+              </Link>
+              <Link
+                href="/agenda/note-templates"
+                className="text-xs text-primary hover:underline"
+              >
+                Plantillas de nota clinica
+              </Link>
+              <Link
+                href="/agenda/availability"
+                className="text-xs text-primary hover:underline"
+              >
+                Horarios, guardias y licencias
+              </Link>
+              <Link
+                href="/agenda/calendar"
+                className="text-xs text-primary hover:underline"
+              >
+                Calendario por profesional
+              </Link>
+              <Link
+                href="/agenda/credentials"
+                className="text-xs text-primary hover:underline"
+              >
+                Matriculas y seguros
+              </Link>
+              <Link
+                href="/agenda/routes"
+                className="text-xs text-primary hover:underline"
+              >
+                Recorridos del dia
+              </Link>
+            </div>
+          ) : null}
         </div>
 
         <form action={createVisit} className="grid gap-3 md:grid-cols-4">
@@ -570,20 +1479,127 @@ export default async function AgendaPage() {
             name="assignedUserId"
             className="h-10 rounded-md border bg-background px-3 text-sm"
           >
-            <option value="">Asignar profesional...</option>
+            <option value="">Asignar profesional (equipo del episodio)...</option>
             {users.map((user) => (
               <option key={user.id} value={user.id}>
                 {user.name ?? user.email}
               </option>
             ))}
           </select>
+          <select
+            name="type"
+            className="h-10 rounded-md border bg-background px-3 text-sm"
+            defaultValue={VisitType.GENERAL}
+          >
+            {Object.values(VisitType).map((type) => (
+              <option key={type} value={type}>
+                {visitTypeLabels[type]}
+              </option>
+            ))}
+          </select>
           <Input name="scheduledAt" type="datetime-local" required />
+          <Input
+            name="durationMinutes"
+            type="number"
+            min={5}
+            max={720}
+            placeholder={`Duracion (min, ${DEFAULT_VISIT_MINUTES} por defecto)`}
+          />
           <Input name="notes" placeholder="Notas" />
+          <Input
+            name="windowStart"
+            type="time"
+            title="Franja del paciente: desde"
+          />
+          <Input
+            name="windowEnd"
+            type="time"
+            title="Franja del paciente: hasta"
+          />
+          <label className="flex items-center gap-2 text-xs text-muted-foreground md:col-span-2">
+            <input name="fixedTime" type="checkbox" />
+            Horario fijo (no se mueve al optimizar el recorrido)
+          </label>
+          {canCoordinate ? (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground md:col-span-2">
+              <input name="allowOutsideHours" type="checkbox" />
+              Permitir fuera del horario del profesional
+            </label>
+          ) : null}
           <Button type="submit" className="md:col-span-4">
             Programar visita
           </Button>
         </form>
 
+        {canCoordinate ? (
+          <div className="flex flex-wrap items-end gap-3 rounded-lg border p-4">
+            <div className="text-sm">
+              <div className="font-medium">Visitas perdidas</div>
+              <div className="text-xs text-muted-foreground">
+                Las visitas sin check-in pasan a MISSED luego de {graceMinutes}{" "}
+                min de tolerancia.
+              </div>
+            </div>
+            {session.user.role === Role.ADMIN_TENANT ? (
+              <form
+                action={updateMissedVisitGrace}
+                className="flex items-center gap-2"
+              >
+                <Input
+                  name="graceMinutes"
+                  type="number"
+                  min="0"
+                  defaultValue={graceMinutes}
+                  className="w-28"
+                />
+                <Button size="sm" variant="outline" type="submit">
+                  Guardar tolerancia
+                </Button>
+              </form>
+            ) : null}
+            <form action={runMissedVisitDetection}>
+              <Button size="sm" variant="secondary" type="submit">
+                Detectar ahora
+              </Button>
+            </form>
+          </div>
+        ) : null}
+
+        {canCoordinate ? (
+          <div className="flex flex-wrap items-end gap-3 rounded-lg border p-4">
+            <div className="text-sm">
+              <div className="font-medium">Control de presencia</div>
+              <div className="text-xs text-muted-foreground">
+                El check-in y check-out guardan la ubicacion del dispositivo y
+                se marcan si quedan a mas de {maxDistance} m del domicilio.
+              </div>
+              <Link
+                href="/agenda/presence"
+                className="text-xs text-primary hover:underline"
+              >
+                Ver visitas marcadas
+              </Link>
+            </div>
+            {session.user.role === Role.ADMIN_TENANT ? (
+              <form
+                action={updateCheckInDistance}
+                className="flex items-center gap-2"
+              >
+                <Input
+                  name="maxDistance"
+                  type="number"
+                  min="10"
+                  defaultValue={maxDistance}
+                  className="w-28"
+                />
+                <Button size="sm" variant="outline" type="submit">
+                  Guardar distancia
+                </Button>
+              </form>
+            ) : null}
+          </div>
+        ) : null}
+
         <div className="space-y-4">
           {visits.map((visit) => {
             const requiredChecklist = visit.checklistItems.filter(
@@ -595,6 +1611,11 @@ export default async function AgendaPage() {
               requiredChecklist.length > 0 ? "checklist" : null,
               !hasNotes ? "nota clinica" : null,
             ].filter(Boolean);
+            const travel = travelLegs.get(visit.id);
+            const missingConsents =
+              visit.status === VisitStatus.SCHEDULED
+                ? missingConsentsFor(visit.episodeId)
+                : [];
 
             return (
               <div key={visit.id} className="rounded-lg border p-4">
@@ -604,27 +1625,85 @@ export default async function AgendaPage() {
                       {visit.patient.lastName}, {visit.patient.firstName}
                     </div>
                     <div className="text-xs text-muted-foreground">
-                      {visit.scheduledAt.toLocaleString("es-AR")} -{" "}
+                      {visit.scheduledAt.toLocaleString("es-AR")} (
+                      {visit.durationMinutes} min) -{" "}
                       {visit.assignedUser?.name ?? "Sin asignar"} -{" "}
-                      {visit.status}
+                      {visitTypeLabels[visit.type]} - {visit.status}
+                      {visit.carePlanId ? " - Plan de cuidado" : ""}
+                      {visit.rescheduledFrom
+                        ? ` - Reprogramada de ${visit.rescheduledFrom.scheduledAt.toLocaleString("es-AR")}`
+                        : ""}
+                      {visit.fixedTime ? " - Horario fijo" : ""}
                     </div>
+                    {travel && travel.travelMinutes !== null ? (
+                      <div className="text-xs text-muted-foreground">
+                        Traslado estimado desde la visita anterior:{" "}
+                        {travel.travelMinutes} min (
+                        {formatDistance(travel.distanceMeters ?? 0)})
+                      </div>
+                    ) : null}
+                    {visit.checkInAt ? (
+                      <div
+                        className={`text-xs ${visit.checkInFlag || visit.checkOutFlag ? "text-destructive" : "text-muted-foreground"}`}
+                      >
+                        Check-in {visit.checkInAt.toLocaleTimeString("es-AR")}
+                        {visit.checkInDistance !== null
+                          ? ` a ${formatDistance(visit.checkInDistance)} del domicilio`
+                          : ""}
+                        {visit.checkInFlag
+                          ? ` (${visitLocationFlagLabels[visit.checkInFlag]})`
+                          : ""}
+                        {visit.checkOutAt
+                          ? ` - Check-out ${visit.checkOutAt.toLocaleTimeString("es-AR")}`
+                          : ""}
+                        {visit.checkOutDistance !== null
+                          ? ` a ${formatDistance(visit.checkOutDistance)}`
+                          : ""}
+                        {visit.checkOutFlag
+                          ? ` (${visitLocationFlagLabels[visit.checkOutFlag]})`
+                          : ""}
+                        {visit.patient.latitude === null
+                          ? " - Domicilio sin geolocalizar"
+                          : ""}
+                      </div>
+                    ) : null}
+                    {missingConsents.length > 0 ? (
+                      <div className="text-xs text-destructive">
+                        Primera visita sin consentimiento firmado:{" "}
+                        {missingConsents
+                          .map((type) => consentTypeLabels[type])
+                          .join(", ")}
+                        .{" "}
+                        <Link
+                          href={`/episodes/${visit.episodeId}`}
+                          className="underline"
+                        >
+                          Cargar en el episodio
+                        </Link>
+                      </div>
+                    ) : null}
+                    {visit.status === "MISSED" ? (
+                      <div className="text-xs text-amber-600">
+                        Perdida: {visit.missedReason ?? "Sin motivo"}
+                        {visit.rescheduledTo.length > 0
+                          ? ` - Reprogramada para ${visit.rescheduledTo[0].scheduledAt.toLocaleString("es-AR")}`
+                          : ""}
+                      </div>
+                    ) : null}
                   </div>
                   <div className="flex flex-wrap gap-2">
                     {visit.status === "SCHEDULED" ? (
                       <form action={checkInVisit}>
                         <input type="hidden" name="visitId" value={visit.id} />
-                        <Button size="sm" type="submit">
-                          Check-in
-                        </Button>
+                        <GeolocatedSubmit size="sm">Check-in</GeolocatedSubmit>
                       </form>
                     ) : null}
                     {visit.status === "IN_PROGRESS" ? (
                       <form action={completeVisit}>
                         <input type="hidden" name="visitId" value={visit.id} />
-                        <Button
+                        <GeolocatedSubmit
                           size="sm"
                           variant="secondary"
-                          type="submit"
                           disabled={!canComplete}
                           title={
                             canComplete
@@ -633,7 +1712,7 @@ export default async function AgendaPage() {
                           }
                         >
                           Completar
-                        </Button>
+                        </GeolocatedSubmit>
                       </form>
                     ) : null}
                     {visit.status !== "COMPLETED" ? (
@@ -644,6 +1723,40 @@ export default async function AgendaPage() {
                         </Button>
                       </form>
                     ) : null}
+                    {canCoordinate && visit.status === "SCHEDULED" ? (
+                      <form action={markVisitMissed} className="flex gap-2">
+                        <input type="hidden" name="visitId" value={visit.id} />
+                        <Input
+                          name="reason"
+                          placeholder="Motivo de ausencia"
+                          className="h-9 w-44"
+                          required
+                        />
+                        <Button size="sm" variant="outline" type="submit">
+                          Marcar perdida
+                        </Button>
+                      </form>
+                    ) : null}
+                    {canCoordinate &&
+                    visit.status === "MISSED" &&
+                    visit.rescheduledTo.length === 0 ? (
+                      <form action={rescheduleVisit} className="flex gap-2">
+                        <input type="hidden" name="visitId" value={visit.id} />
+                        <Input
+                          name="scheduledAt"
+                          type="datetime-local"
+                          className="h-9"
+                          required
+                        />
+                        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <input name="allowOutsideHours" type="checkbox" />
+                          Fuera de horario
+                        </label>
+                        <Button size="sm" type="submit">
+                          Reprogramar
+                        </Button>
+                      </form>
+                    ) : null}
                   </div>
                 </div>
 
@@ -653,6 +1766,13 @@ export default async function AgendaPage() {
                   </p>
                 ) : null}
 
+                <div className="mt-3">
+                  <PatientAlertsBanner
+                    allergies={visit.patient.allergies}
+                    problems={visit.patient.problems}
+                  />
+                </div>
+
                 <div className="mt-3 grid gap-3 md:grid-cols-3">
                   <div className="rounded-md border p-3">
                     <div className="text-sm font-medium">Checklist</div>
@@ -697,45 +1817,97 @@ export default async function AgendaPage() {
                     </ul>
                   </div>
 
-                  <form
-                    action={addClinicalNote}
-                    className="rounded-md border p-3"
-                  >
-                    <input type="hidden" name="visitId" value={visit.id} />
-                    <Textarea
-                      name="summary"
-                      placeholder="Resumen clinico"
-                      required
-                    />
-                    <Textarea
-                      name="subjective"
-                      placeholder="Subjetivo"
-                      className="mt-2"
-                    />
-                    <Textarea
-                      name="objective"
-                      placeholder="Objetivo"
-                      className="mt-2"
-                    />
-                    <Textarea
-                      name="assessment"
-                      placeholder="Evaluacion"
-                      className="mt-2"
-                    />
-                    <Textarea name="plan" placeholder="Plan" className="mt-2" />
-                    <Button size="sm" type="submit" className="mt-2">
-                      Agregar nota
-                    </Button>
+                  <div className="rounded-md border p-3">
+                    <form action={addClinicalNote}>
+                      <input type="hidden" name="visitId" value={visit.id} />
+                      <Textarea
+                        name="summary"
+                        placeholder="Resumen clinico"
+                        required
+                      />
+                      <Textarea
+                        name="subjective"
+                        placeholder="Subjetivo"
+                        className="mt-2"
+                      />
+                      <Textarea
+                        name="objective"
+                        placeholder="Objetivo"
+                        className="mt-2"
+                      />
+                      <Textarea
+                        name="assessment"
+                        placeholder="Evaluacion"
+                        className="mt-2"
+                      />
+                      <Textarea name="plan" placeholder="Plan" className="mt-2" />
+                      <ObjectiveProgressFields
+                        objectives={openObjectives.filter(
+                          (objective) =>
+                            objective.carePlan.episodeId === visit.episodeId,
+                        )}
+                      />
+                      <Button size="sm" type="submit" className="mt-2">
+                        Agregar nota
+                      </Button>
+                    </form>
+                    {noteTemplates.map((template) => (
+                      <details key={template.id} className="mt-2 text-sm">
+                        <summary className="cursor-pointer">
+                          Nota con plantilla:{" "}
+                          {noteSpecialtyLabels[template.specialty]}
+                        </summary>
+                        <form action={addClinicalNote} className="mt-2 space-y-2">
+                          <input
+                            type="hidden"
+                            name="visitId"
+                            value={visit.id}
+                          />
+                          <input
+                            type="hidden"
+                            name="templateId"
+                            value={template.id}
+                          />
+                          <Textarea
+                            name="summary"
+                            defaultValue={template.summary ?? ""}
+                            placeholder="Resumen clinico"
+                            required
+                          />
+                          {parseNoteTemplateFields(template.fields).map(
+                            (field) => (
+                              <label
+                                key={field.key}
+                                className="block text-xs text-muted-foreground"
+                              >
+                                {field.label}
+                                <Textarea
+                                  name={`field_${field.key}`}
+                                  defaultValue={field.defaultText}
+                                  className="mt-1"
+                                />
+                              </label>
+                            ),
+                          )}
+                          <ObjectiveProgressFields
+                            objectives={openObjectives.filter(
+                              (objective) =>
+                                objective.carePlan.episodeId ===
+                                  visit.episodeId &&
+                                (!objective.profession ||
+                                  objective.profession === template.specialty),
+                            )}
+                          />
+                          <Button size="sm" type="submit">
+                            Agregar nota ({template.name} v{template.version})
+                          </Button>
+                        </form>
+                      </details>
+                    ))}
                     <div className="mt-3 space-y-2 text-xs text-muted-foreground">
                       {visit.clinicalNotes.map((note) => {
-                        const structured = note.structured as
-                          | {
-                              subjective?: string;
-                              objective?: string;
-                              assessment?: string;
-                              plan?: string;
-                            }
-                          | null;
+                        const structured =
+                          note.structured as ClinicalNoteStructured | null;
 
                         return (
                           <div key={note.id} className="rounded border p-2">
@@ -743,17 +1915,153 @@ export default async function AgendaPage() {
                               {note.author.name ?? note.author.email}:{" "}
                               {note.content}
                             </div>
-                            {structured?.subjective ? (
-                              <div>Subjetivo: {structured.subjective}</div>
-                            ) : null}
-                            {structured?.objective ? (
-                              <div>Objetivo: {structured.objective}</div>
-                            ) : null}
-                            {structured?.assessment ? (
-                              <div>Evaluacion: {structured.assessment}</div>
+                            {structured?.fields ? (
+                              <>
+                                <div>
+                                  Plantilla {structured.templateName} v
+                                  {structured.templateVersion}
+                                </div>
+                                {structured.fields
+                                  .filter((field) => field.value)
+                                  .map((field) => (
+                                    <div key={field.key}>
+                                      {field.label}: {field.value}
+                                    </div>
+                                  ))}
+                              </>
+                            ) : (
+                              <>
+                                {structured?.subjective ? (
+                                  <div>Subjetivo: {structured.subjective}</div>
+                                ) : null}
+                                {structured?.objective ? (
+                                  <div>Objetivo: {structured.objective}</div>
+                                ) : null}
+                                {structured?.assessment ? (
+                                  <div>Evaluacion: {structured.assessment}</div>
+                                ) : null}
+                                {structured?.plan ? (
+                                  <div>Plan: {structured.plan}</div>
+                                ) : null}
+                              </>
+                            )}
+                            {note.signedAt ? (
+                              <div className="mt-1">
+                                Firmada por{" "}
+                                {note.signedBy?.name ?? note.signedBy?.email}{" "}
+                                el {note.signedAt.toLocaleString("es-AR")}
+                              </div>
+                            ) : (
+                              <div className="mt-1">Borrador sin firmar</div>
+                            )}
+                            {note.addenda.map((addendum) => (
+                              <div
+                                key={addendum.id}
+                                className="mt-1 border-l-2 pl-2"
+                              >
+                                Addenda{" "}
+                                {addendum.signedAt?.toLocaleString("es-AR")} -{" "}
+                                {addendum.author.name ?? addendum.author.email}:{" "}
+                                {addendum.content}
+                              </div>
+                            ))}
+                            {!note.signedAt &&
+                            note.authorId === session?.user?.id ? (
+                              <div className="mt-2 space-y-2">
+                                <details>
+                                  <summary className="cursor-pointer">
+                                    Editar borrador
+                                  </summary>
+                                  <form
+                                    action={updateClinicalNote}
+                                    className="mt-2 space-y-2"
+                                  >
+                                    <input
+                                      type="hidden"
+                                      name="noteId"
+                                      value={note.id}
+                                    />
+                                    <Textarea
+                                      name="summary"
+                                      defaultValue={note.content}
+                                      required
+                                    />
+                                    {structured?.fields ? (
+                                      structured.fields.map((field) => (
+                                        <Textarea
+                                          key={field.key}
+                                          name={`field_${field.key}`}
+                                          placeholder={field.label}
+                                          defaultValue={field.value}
+                                        />
+                                      ))
+                                    ) : (
+                                      <>
+                                        <Textarea
+                                          name="subjective"
+                                          placeholder="Subjetivo"
+                                          defaultValue={
+                                            structured?.subjective ?? ""
+                                          }
+                                        />
+                                        <Textarea
+                                          name="objective"
+                                          placeholder="Objetivo"
+                                          defaultValue={
+                                            structured?.objective ?? ""
+                                          }
+                                        />
+                                        <Textarea
+                                          name="assessment"
+                                          placeholder="Evaluacion"
+                                          defaultValue={
+                                            structured?.assessment ?? ""
+                                          }
+                                        />
+                                        <Textarea
+                                          name="plan"
+                                          placeholder="Plan"
+                                          defaultValue={structured?.plan ?? ""}
+                                        />
+                                      </>
+                                    )}
+                                    <Button size="sm" type="submit">
+                                      Guardar borrador
+                                    </Button>
+                                  </form>
+                                </details>
+                                <form action={signNote}>
+                                  <input
+                                    type="hidden"
+                                    name="noteId"
+                                    value={note.id}
+                                  />
+                                  <Button size="sm" type="submit">
+                                    Firmar nota
+                                  </Button>
+                                </form>
+                              </div>
                             ) : null}
-                            {structured?.plan ? (
-                              <div>Plan: {structured.plan}</div>
+                            {note.signedAt ? (
+                              <form
+                                action={addNoteAddendum}
+                                className="mt-2 flex gap-2"
+                              >
+                                <input
+                                  type="hidden"
+                                  name="noteId"
+                                  value={note.id}
+                                />
+                                <Input
+                                  name="content"
+                                  placeholder="Addenda"
+                                  className="h-8"
+                                  required
+                                />
+                                <Button size="sm" type="submit">
+                                  Agregar addenda
+                                </Button>
+                              </form>
                             ) : null}
                           </div>
                         );
@@ -761,8 +2069,16 @@ export default async function AgendaPage() {
                       {visit.clinicalNotes.length === 0 ? (
                         <div>Sin notas aun.</div>
                       ) : null}
+                      {visit.episodeId ? (
+                        <Link
+                          href={`/episodes/${visit.episodeId}/notes?visitId=${visit.id}`}
+                          className="underline"
+                        >
+                          Ver historial de notas
+                        </Link>
+                      ) : null}
                     </div>
-                  </form>
+                  </div>
 
                   <form action={addVisitItem} className="rounded-md border p-3">
                     <input type="hidden" name="visitId" value={visit.id} />
@@ -834,6 +2150,403 @@ export default async function AgendaPage() {
                   </form>
                 </div>
 
+                {visit.status === "IN_PROGRESS" ||
+                visit.status === "COMPLETED" ||
+                visit.vitalSigns.length > 0 ? (
+                  <div className="mt-3 rounded-md border p-3">
+                    <div className="text-sm font-medium">Signos vitales</div>
+                    {visit.status === "IN_PROGRESS" ||
+                    visit.status === "COMPLETED" ? (
+                      <form
+                        action={addVitalSigns}
+                        className="mt-2 grid gap-2 md:grid-cols-5"
+                      >
+                        <input type="hidden" name="visitId" value={visit.id} />
+                        {vitalSignFields.map((field) => (
+                          <Input
+                            key={field.key}
+                            name={field.key}
+                            type="number"
+                            step={field.step}
+                            min={field.range[0]}
+                            max={field.range[1]}
+                            placeholder={`${field.label} (${field.unit})`}
+                          />
+                        ))}
+                        <Button size="sm" type="submit">
+                          Registrar signos
+                        </Button>
+                      </form>
+                    ) : null}
+                    <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                      {visit.vitalSigns.map((vital) => {
+                        const alerts = Array.isArray(vital.alerts)
+                          ? (vital.alerts as VitalAlert[])
+                          : [];
+                        return (
+                          <li key={vital.id}>
+                            {vital.recordedAt.toLocaleString("es-AR")} -{" "}
+                            {vitalSignFields
+                              .filter((field) => vital[field.key] !== null)
+                              .map(
+                                (field) =>
+                                  `${field.label}: ${vital[field.key]} ${field.unit}`,
+                              )
+                              .join(" | ")}
+                            {alerts.length > 0 ? (
+                              <div className="text-amber-600">
+                                Fuera de rango:{" "}
+                                {alerts.map(describeVitalAlert).join("; ")}
+                              </div>
+                            ) : null}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ) : null}
+
+                {(() => {
+                  const visitOrders =
+                    visit.status === "IN_PROGRESS" ||
+                    visit.status === "COMPLETED"
+                      ? medicationOrders.filter(
+                          (order) =>
+                            order.episodeId === visit.episodeId &&
+                            isOrderActiveOn(
+                              order,
+                              visit.checkInAt ?? visit.scheduledAt,
+                            ),
+                        )
+                      : [];
+                  if (
+                    visitOrders.length === 0 &&
+                    visit.medicationAdministrations.length === 0
+                  ) {
+                    return null;
+                  }
+                  return (
+                    <div className="mt-3 rounded-md border p-3">
+                      <div className="text-sm font-medium">Medicacion (MAR)</div>
+                      <ul className="mt-2 space-y-2 text-xs">
+                        {visitOrders.map((order) => (
+                          <li key={order.id} className="space-y-1">
+                            <div className="font-medium">
+                              {order.drugName} {order.dose} -{" "}
+                              {medicationRouteLabels[order.route]} -{" "}
+                              {order.frequency}
+                            </div>
+                            <form
+                              action={administerMedication}
+                              className="flex flex-wrap items-center gap-2"
+                            >
+                              <input
+                                type="hidden"
+                                name="visitId"
+                                value={visit.id}
+                              />
+                              <input
+                                type="hidden"
+                                name="orderId"
+                                value={order.id}
+                              />
+                              <select
+                                name="status"
+                                className="h-9 rounded-md border bg-background px-2 text-xs"
+                                defaultValue={
+                                  MedicationAdministrationStatus.GIVEN
+                                }
+                              >
+                                {Object.values(
+                                  MedicationAdministrationStatus,
+                                ).map((status) => (
+                                  <option key={status} value={status}>
+                                    {administrationStatusLabels[status]}
+                                  </option>
+                                ))}
+                              </select>
+                              <Input
+                                name="reason"
+                                placeholder="Motivo (si se omite)"
+                                className="h-9 w-44"
+                              />
+                              {order.productId && inventoryAccess.allowed ? (
+                                <>
+                                  <select
+                                    name="warehouseId"
+                                    className="h-9 rounded-md border bg-background px-2 text-xs"
+                                    defaultValue=""
+                                  >
+                                    <option value="">Sin descontar stock</option>
+                                    {warehouses.map((warehouse) => (
+                                      <option
+                                        key={warehouse.id}
+                                        value={warehouse.id}
+                                      >
+                                        {warehouse.name}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <Input
+                                    name="quantity"
+                                    type="number"
+                                    min="1"
+                                    defaultValue="1"
+                                    className="h-9 w-20"
+                                  />
+                                </>
+                              ) : null}
+                              <Button size="sm" type="submit">
+                                Registrar
+                              </Button>
+                            </form>
+                          </li>
+                        ))}
+                      </ul>
+                      <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                        {visit.medicationAdministrations.map(
+                          (administration) => (
+                            <li key={administration.id}>
+                              {administration.administeredAt.toLocaleTimeString(
+                                "es-AR",
+                              )}{" "}
+                              - {administration.order.drugName}{" "}
+                              {administration.order.dose} -{" "}
+                              {administrationStatusLabels[administration.status]}
+                              {administration.reason
+                                ? ` (${administration.reason})`
+                                : ""}
+                              {administration.visitItemId
+                                ? " - stock descontado"
+                                : ""}
+                            </li>
+                          ),
+                        )}
+                      </ul>
+                    </div>
+                  );
+                })()}
+
+                {(() => {
+                  const visitWounds =
+                    visit.status === "IN_PROGRESS" ||
+                    visit.status === "COMPLETED"
+                      ? wounds.filter(
+                          (wound) => wound.episodeId === visit.episodeId,
+                        )
+                      : [];
+                  if (visitWounds.length === 0) {
+                    return null;
+                  }
+                  return (
+                    <div className="mt-3 rounded-md border p-3">
+                      <div className="text-sm font-medium">Heridas</div>
+                      <div className="mt-2 space-y-3">
+                        {visitWounds.map((wound) => {
+                          const measurements = visit.woundMeasurements.filter(
+                            (measurement) => measurement.woundId === wound.id,
+                          );
+                          const photos = visit.attachments.filter(
+                            (attachment) => attachment.woundId === wound.id,
+                          );
+                          return (
+                            <div key={wound.id} className="space-y-2 text-xs">
+                              <div className="font-medium">
+                                {wound.location} -{" "}
+                                {woundTypeLabels[wound.type]}
+                                {wound.stage
+                                  ? ` (${woundStageLabels[wound.stage]})`
+                                  : ""}
+                              </div>
+                              {measurements.length > 0 || photos.length > 0 ? (
+                                <div className="text-muted-foreground">
+                                  {measurements
+                                    .map(describeWoundDimensions)
+                                    .join(" | ")}
+                                  {photos.length > 0
+                                    ? ` - Fotos: ${photos.length}`
+                                    : ""}
+                                </div>
+                              ) : null}
+                              <form
+                                action={addWoundMeasurement}
+                                className="flex flex-wrap items-center gap-2"
+                              >
+                                <input
+                                  type="hidden"
+                                  name="visitId"
+                                  value={visit.id}
+                                />
+                                <input
+                                  type="hidden"
+                                  name="woundId"
+                                  value={wound.id}
+                                />
+                                <Input
+                                  name="lengthCm"
+                                  type="number"
+                                  step="0.1"
+                                  min="0"
+                                  placeholder="Largo cm"
+                                  className="h-9 w-24"
+                                  required
+                                />
+                                <Input
+                                  name="widthCm"
+                                  type="number"
+                                  step="0.1"
+                                  min="0"
+                                  placeholder="Ancho cm"
+                                  className="h-9 w-24"
+                                  required
+                                />
+                                <Input
+                                  name="depthCm"
+                                  type="number"
+                                  step="0.1"
+                                  min="0"
+                                  placeholder="Prof. cm"
+                                  className="h-9 w-24"
+                                />
+                                <select
+                                  name="stage"
+                                  className="h-9 rounded-md border bg-background px-2 text-xs"
+                                  defaultValue={wound.stage ?? ""}
+                                >
+                                  <option value="">Sin estadio</option>
+                                  {Object.values(WoundStage).map((stage) => (
+                                    <option key={stage} value={stage}>
+                                      {woundStageLabels[stage]}
+                                    </option>
+                                  ))}
+                                </select>
+                                <select
+                                  name="exudate"
+                                  className="h-9 rounded-md border bg-background px-2 text-xs"
+                                  defaultValue=""
+                                >
+                                  <option value="">Exudado</option>
+                                  {Object.values(WoundExudate).map(
+                                    (exudate) => (
+                                      <option key={exudate} value={exudate}>
+                                        {woundExudateLabels[exudate]}
+                                      </option>
+                                    ),
+                                  )}
+                                </select>
+                                <Input
+                                  name="notes"
+                                  placeholder="Lecho, bordes, curacion"
+                                  className="h-9 w-48"
+                                />
+                                <Button size="sm" type="submit">
+                                  Registrar medicion
+                                </Button>
+                              </form>
+                              <form
+                                action={`/api/visits/${visit.id}/attachments`}
+                                method="post"
+                                encType="multipart/form-data"
+                                className="flex flex-wrap items-center gap-2"
+                              >
+                                <input
+                                  type="hidden"
+                                  name="woundId"
+                                  value={wound.id}
+                                />
+                                <input
+                                  name="file"
+                                  type="file"
+                                  accept="image/*"
+                                  capture="environment"
+                                  required
+                                />
+                                <Button size="sm" type="submit">
+                                  Subir foto
+                                </Button>
+                              </form>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })()}
+
+                {visit.status === "IN_PROGRESS" ||
+                visit.status === "COMPLETED" ||
+                visit.scaleAssessments.length > 0 ? (
+                  <div className="mt-3 rounded-md border p-3">
+                    <div className="text-sm font-medium">
+                      Escalas de valoracion
+                    </div>
+                    <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                      {visit.scaleAssessments.map((assessment) => (
+                        <li key={assessment.id}>
+                          {assessmentScales[assessment.scale].name}:{" "}
+                          {assessment.score}/{assessment.maxScore} -{" "}
+                          {assessment.interpretation}
+                        </li>
+                      ))}
+                    </ul>
+                    {visit.status === "IN_PROGRESS" ||
+                    visit.status === "COMPLETED" ? (
+                      <div className="mt-2 space-y-2">
+                        {Object.values(assessmentScales).map((scale) => (
+                          <details key={scale.code} className="rounded-md border p-2">
+                            <summary className="cursor-pointer text-xs font-medium">
+                              {scale.name} - {scale.description}
+                            </summary>
+                            <form
+                              action={addScaleAssessment}
+                              className="mt-2 grid gap-2 md:grid-cols-3"
+                            >
+                              <input
+                                type="hidden"
+                                name="visitId"
+                                value={visit.id}
+                              />
+                              <input
+                                type="hidden"
+                                name="scale"
+                                value={scale.code}
+                              />
+                              {scale.items.map((item) => (
+                                <label key={item.key} className="text-xs">
+                                  {item.label}
+                                  <select
+                                    name={item.key}
+                                    className="mt-1 h-9 w-full rounded-md border bg-background px-2 text-xs"
+                                    required
+                                    defaultValue=""
+                                  >
+                                    <option value="">Seleccionar...</option>
+                                    {item.options.map((option) => (
+                                      <option
+                                        key={option.value}
+                                        value={option.value}
+                                      >
+                                        {option.value} - {option.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </label>
+                              ))}
+                              <Button
+                                size="sm"
+                                type="submit"
+                                className="md:col-span-3"
+                              >
+                                Registrar {scale.name}
+                              </Button>
+                            </form>
+                          </details>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                ) : null}
+
                 <form
                   action={`/api/visits/${visit.id}/attachments`}
                   method="post"
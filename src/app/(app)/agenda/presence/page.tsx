@@ -0,0 +1,178 @@
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { authOptions } from "@/lib/auth";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import { careTeamVisitScope } from "@/lib/care-team";
+import {
+  DEFAULT_CHECK_IN_MAX_DISTANCE_METERS,
+  formatDistance,
+  visitLocationFlagLabels,
+} from "@/lib/geolocation";
+import { visitTypeLabels } from "@/lib/visit-checklist";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SearchParams = {
+  days?: string;
+};
+
+export default async function PresencePage({
+  searchParams,
+}: {
+  searchParams?: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const days = Math.min(
+      365,
+      Math.max(1, Number(searchParams?.days ?? "30") || 30),
+    );
+    const now = new Date();
+    const from = new Date(now.getTime() - days * DAY_MS);
+    const scope = careTeamVisitScope(session?.user);
+    const policy = await db.tenantPolicy.findUnique({ where: { tenantId } });
+    const [flagged, checkedIn, withoutAddress] = await Promise.all([
+      db.visit.findMany({
+        where: {
+          tenantId,
+          ...scope,
+          checkInAt: { gte: from },
+          OR: [
+            { checkInFlag: { not: null } },
+            { checkOutFlag: { not: null } },
+          ],
+        },
+        include: { patient: true, assignedUser: true },
+        orderBy: { checkInAt: "desc" },
+        take: 200,
+      }),
+      db.visit.count({
+        where: { tenantId, ...scope, checkInAt: { gte: from } },
+      }),
+      db.visit.count({
+        where: {
+          tenantId,
+          ...scope,
+          checkInAt: { gte: from },
+          patient: { latitude: null },
+        },
+      }),
+    ]);
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Control de presencia</h1>
+          <p className="text-sm text-muted-foreground">
+            Visitas de los ultimos {days} dias cuyo check-in o check-out quedo a
+            mas de{" "}
+            {policy?.checkInMaxDistanceMeters ??
+              DEFAULT_CHECK_IN_MAX_DISTANCE_METERS}{" "}
+            m del domicilio o sin ubicacion del dispositivo. {flagged.length} de{" "}
+            {checkedIn} visitas marcadas; {withoutAddress} con domicilio sin
+            geolocalizar (no se pueden controlar).
+          </p>
+          <div className="flex flex-wrap gap-3 text-xs">
+            {[7, 30, 90].map((option) => (
+              <Link
+                key={option}
+                href={`/agenda/presence?days=${option}`}
+                className="text-primary hover:underline"
+              >
+                {option} dias
+              </Link>
+            ))}
+            <Link href="/agenda" className="text-primary hover:underline">
+              Volver a agenda
+            </Link>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/40 text-left">
+              <tr>
+                <th className="px-3 py-2">Visita</th>
+                <th className="px-3 py-2">Paciente</th>
+                <th className="px-3 py-2">Profesional</th>
+                <th className="px-3 py-2">Check-in</th>
+                <th className="px-3 py-2">Check-out</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flagged.map((visit) => (
+                <tr key={visit.id} className="border-t">
+                  <td className="px-3 py-2">
+                    {visit.scheduledAt.toLocaleString("es-AR")} -{" "}
+                    {visitTypeLabels[visit.type]}
+                  </td>
+                  <td className="px-3 py-2">
+                    <Link
+                      href={`/patients/${visit.patientId}`}
+                      className="hover:underline"
+                    >
+                      {visit.patient.lastName}, {visit.patient.firstName}
+                    </Link>
+                    <div className="text-xs text-muted-foreground">
+                      {visit.patient.address ?? "Sin direccion"}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {visit.assignedUser?.name ??
+                      visit.assignedUser?.email ??
+                      "-"}
+                  </td>
+                  <td className="px-3 py-2">
+                    {visit.checkInDistance !== null
+                      ? formatDistance(visit.checkInDistance)
+                      : "-"}
+                    {visit.checkInAccuracy !== null
+                      ? ` (+/- ${formatDistance(visit.checkInAccuracy)})`
+                      : ""}
+                    {visit.checkInFlag ? (
+                      <div className="text-xs text-destructive">
+                        {visitLocationFlagLabels[visit.checkInFlag]}
+                      </div>
+                    ) : null}
+                  </td>
+                  <td className="px-3 py-2">
+                    {visit.checkOutDistance !== null
+                      ? formatDistance(visit.checkOutDistance)
+                      : "-"}
+                    {visit.checkOutAccuracy !== null
+                      ? ` (+/- ${formatDistance(visit.checkOutAccuracy)})`
+                      : ""}
+                    {visit.checkOutFlag ? (
+                      <div className="text-xs text-destructive">
+                        {visitLocationFlagLabels[visit.checkOutFlag]}
+                      </div>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+              {flagged.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-3 py-4 text-center">
+                    Sin visitas marcadas.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  });
+}
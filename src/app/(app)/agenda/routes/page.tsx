@@ -0,0 +1,563 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { Role } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole, hasRole } from "@/lib/rbac";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import {
+  assertProfessionalAvailable,
+  formatTimeOfDay,
+  startOfDay,
+} from "@/lib/availability";
+import { formatDistance } from "@/lib/geolocation";
+import { notifyUsers } from "@/lib/notifications";
+import { visitTypeLabels } from "@/lib/visit-checklist";
+import { movedVisitData } from "@/lib/visit-recurrence";
+import {
+  loadDailyRoute,
+  loadTravelSpeed,
+  parseVisitWindow,
+  type PlannedStop,
+} from "@/lib/visit-routes";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SearchParams = {
+  date?: string;
+  userId?: string;
+};
+
+const acceptSchema = z.object({
+  userId: z.string().min(1),
+  date: z.string().min(1),
+  planKey: z.string(),
+});
+
+function parseDay(value: string | undefined) {
+  const parsed = value ? new Date(`${value}T00:00:00`) : new Date();
+  return startOfDay(Number.isNaN(parsed.getTime()) ? new Date() : parsed);
+}
+
+function toDateParam(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function formatTime(date: Date) {
+  return date.toLocaleTimeString("es-AR", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function planKey(stops: PlannedStop[]) {
+  return stops
+    .map((stop) => `${stop.id}@${stop.scheduledAt.toISOString()}`)
+    .join(",");
+}
+
+async function acceptRoute(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = acceptSchema.safeParse({
+      userId: formData.get("userId"),
+      date: formData.get("date"),
+      planKey: formData.get("planKey"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const route = await loadDailyRoute(db, {
+      tenantId,
+      userId: parsed.data.userId,
+      day: parseDay(parsed.data.date),
+      now: new Date(),
+    });
+    if (!route.plan) {
+      throw new Error("ROUTE_NOT_AVAILABLE");
+    }
+    if (planKey(route.plan.stops) !== parsed.data.planKey) {
+      throw new Error("ROUTE_CHANGED");
+    }
+
+    const moved = route.plan.stops.filter((stop) => {
+      const visit = route.visits.find((entry) => entry.id === stop.id);
+      return (
+        !stop.fixed &&
+        visit &&
+        visit.scheduledAt.getTime() !== stop.scheduledAt.getTime()
+      );
+    });
+    for (const stop of moved) {
+      const visit = route.visits.find((entry) => entry.id === stop.id);
+      await db.visit.update({
+        where: { id: stop.id },
+        data: visit
+          ? movedVisitData(visit, stop.scheduledAt)
+          : { scheduledAt: stop.scheduledAt },
+      });
+    }
+    const allowOutsideHours = formData.get("allowOutsideHours") === "on";
+    for (const stop of moved) {
+      const visit = route.visits.find((entry) => entry.id === stop.id);
+      await assertProfessionalAvailable(db, {
+        tenantId,
+        userId: parsed.data.userId,
+        scheduledAt: stop.scheduledAt,
+        durationMinutes: visit?.durationMinutes ?? 0,
+        excludeVisitId: stop.id,
+        allowOutsideHours,
+      });
+    }
+
+    if (moved.length > 0 && parsed.data.userId !== session.user.id) {
+      await notifyUsers(
+        db,
+        tenantId,
+        [parsed.data.userId],
+        [
+          {
+            type: "visit.route",
+            title: `Recorrido del ${parsed.data.date} actualizado`,
+            body: `${moved.length} visitas con nuevo horario.`,
+            entityType: "Visit",
+            entityId: moved[0].id,
+          },
+        ],
+      );
+    }
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "visit.route.accept",
+      entityType: "User",
+      entityId: parsed.data.userId,
+      meta: {
+        date: parsed.data.date,
+        travelMinutes: route.plan.travelMinutes,
+        previousTravelMinutes: route.current?.travelMinutes ?? null,
+        visits: moved.map((stop) => ({
+          id: stop.id,
+          scheduledAt: stop.scheduledAt.toISOString(),
+        })),
+      },
+    });
+  });
+
+  revalidatePath("/agenda/routes");
+  revalidatePath("/agenda");
+}
+
+async function updateVisitWindow(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const visitId = String(formData.get("visitId") ?? "");
+    const { windowStartMinute, windowEndMinute } = parseVisitWindow(
+      formData.get("windowStart"),
+      formData.get("windowEnd"),
+    );
+
+    const visit = await db.visit.findFirst({
+      where: { id: visitId, tenantId },
+    });
+    if (!visit) {
+      throw new Error("VISIT_NOT_FOUND");
+    }
+    const fixedTime = formData.get("fixedTime") === "on";
+
+    await db.visit.update({
+      where: { id: visit.id },
+      data: { windowStartMinute, windowEndMinute, fixedTime },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "visit.window.update",
+      entityType: "Visit",
+      entityId: visit.id,
+      meta: { windowStartMinute, windowEndMinute, fixedTime },
+    });
+  });
+
+  revalidatePath("/agenda/routes");
+}
+
+async function updateTravelSpeed(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT]);
+
+    const speed = Number(formData.get("travelSpeedKmh"));
+    if (!Number.isInteger(speed) || speed < 5 || speed > 120) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const policy = await db.tenantPolicy.upsert({
+      where: { tenantId },
+      update: { travelSpeedKmh: speed },
+      create: { tenantId, travelSpeedKmh: speed },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "tenant.policy.travel_speed",
+      entityType: "TenantPolicy",
+      entityId: policy.id,
+      meta: { speed },
+    });
+  });
+
+  revalidatePath("/agenda/routes");
+  revalidatePath("/agenda");
+}
+
+export default async function AgendaRoutesPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const day = parseDay(searchParams?.date);
+    const date = toDateParam(day);
+    const now = new Date();
+    const canCoordinate = hasRole(session?.user?.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+    ]);
+    const isAdmin = session?.user?.role === Role.ADMIN_TENANT;
+    const assignees = await db.visit.findMany({
+      where: {
+        tenantId,
+        assignedUserId: canCoordinate
+          ? (searchParams?.userId ?? { not: null })
+          : session?.user?.id,
+        scheduledAt: { gte: day, lt: new Date(day.getTime() + DAY_MS) },
+        status: { not: "CANCELLED" },
+      },
+      distinct: ["assignedUserId"],
+      select: { assignedUser: true },
+    });
+    const professionals = assignees
+      .flatMap((entry) => (entry.assignedUser ? [entry.assignedUser] : []))
+      .sort((a, b) => (a.name ?? a.email).localeCompare(b.name ?? b.email));
+    const routes = await Promise.all(
+      professionals.map(async (user) => ({
+        user,
+        route: await loadDailyRoute(db, {
+          tenantId,
+          userId: user.id,
+          day,
+          now,
+        }),
+      })),
+    );
+    const speed = await loadTravelSpeed(db, tenantId);
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Recorridos del dia</h1>
+          <p className="text-sm text-muted-foreground">
+            Orden sugerido de visitas por profesional para el{" "}
+            {day.toLocaleDateString("es-AR")}, calculado con las coordenadas del
+            domicilio de cada paciente. Las visitas con horario fijo, iniciadas
+            o realizadas no se mueven; las franjas horarias del paciente se
+            respetan. El traslado se estima en linea recta con un factor de
+            calle a {speed} km/h.
+          </p>
+          <div className="flex flex-wrap gap-3 text-xs">
+            <Link
+              href={`/agenda/routes?date=${toDateParam(new Date(day.getTime() - DAY_MS))}`}
+              className="text-primary hover:underline"
+            >
+              Dia anterior
+            </Link>
+            <Link
+              href="/agenda/routes"
+              className="text-primary hover:underline"
+            >
+              Hoy
+            </Link>
+            <Link
+              href={`/agenda/routes?date=${toDateParam(new Date(day.getTime() + DAY_MS))}`}
+              className="text-primary hover:underline"
+            >
+              Dia siguiente
+            </Link>
+            <Link href="/agenda" className="text-primary hover:underline">
+              Volver a agenda
+            </Link>
+          </div>
+        </div>
+
+        {isAdmin ? (
+          <form action={updateTravelSpeed} className="flex items-end gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">
+                Velocidad promedio de traslado (km/h)
+              </label>
+              <Input
+                name="travelSpeedKmh"
+                type="number"
+                min={5}
+                max={120}
+                defaultValue={speed}
+                className="w-32"
+              />
+            </div>
+            <Button type="submit" size="sm" variant="outline">
+              Guardar
+            </Button>
+          </form>
+        ) : null}
+
+        {routes.map(({ user, route }) => {
+          const plan = route.plan;
+          const visitById = new Map(
+            route.visits.map((visit) => [visit.id, visit]),
+          );
+          const changed = plan
+            ? plan.stops.some(
+                (stop) =>
+                  visitById.get(stop.id)?.scheduledAt.getTime() !==
+                  stop.scheduledAt.getTime(),
+              )
+            : false;
+          return (
+            <div key={user.id} className="space-y-3 rounded-lg border p-4">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="font-semibold">{user.name ?? user.email}</h2>
+                <span className="text-xs text-muted-foreground">
+                  Traslado actual: {route.current?.travelMinutes ?? 0} min
+                  {plan ? ` - sugerido: ${plan.travelMinutes} min` : ""}
+                  {route.current?.missingCoordinates
+                    ? ` - ${route.current.missingCoordinates} domicilios sin geolocalizar`
+                    : ""}
+                </span>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="text-left text-muted-foreground">
+                    <tr>
+                      <th className="px-2 py-1">Hora actual</th>
+                      <th className="px-2 py-1">Paciente</th>
+                      <th className="px-2 py-1">Traslado previo</th>
+                      <th className="px-2 py-1">Franja / horario fijo</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {route.visits.map((visit) => {
+                      const leg = route.current?.legs.get(visit.id);
+                      return (
+                        <tr key={visit.id} className="border-t align-top">
+                          <td className="px-2 py-1">
+                            {formatTime(visit.scheduledAt)} (
+                            {visit.durationMinutes}m)
+                            <div className="text-muted-foreground">
+                              {visitTypeLabels[visit.type]}
+                            </div>
+                          </td>
+                          <td className="px-2 py-1">
+                            <Link
+                              href={`/patients/${visit.patientId}`}
+                              className="hover:underline"
+                            >
+                              {visit.patient.lastName},{" "}
+                              {visit.patient.firstName}
+                            </Link>
+                            <div className="text-muted-foreground">
+                              {visit.patient.address ?? "Sin direccion"}
+                            </div>
+                          </td>
+                          <td className="px-2 py-1">
+                            {leg?.travelMinutes !== null &&
+                            leg?.travelMinutes !== undefined
+                              ? `${leg.travelMinutes} min (${formatDistance(leg.distanceMeters ?? 0)})`
+                              : "-"}
+                          </td>
+                          <td className="px-2 py-1">
+                            {canCoordinate ? (
+                              <form
+                                action={updateVisitWindow}
+                                className="flex flex-wrap items-center gap-1"
+                              >
+                                <input
+                                  type="hidden"
+                                  name="visitId"
+                                  value={visit.id}
+                                />
+                                <Input
+                                  name="windowStart"
+                                  type="time"
+                                  defaultValue={
+                                    visit.windowStartMinute !== null
+                                      ? formatTimeOfDay(visit.windowStartMinute)
+                                      : ""
+                                  }
+                                  className="h-8 w-24"
+                                />
+                                <Input
+                                  name="windowEnd"
+                                  type="time"
+                                  defaultValue={
+                                    visit.windowEndMinute !== null
+                                      ? formatTimeOfDay(visit.windowEndMinute)
+                                      : ""
+                                  }
+                                  className="h-8 w-24"
+                                />
+                                <label className="flex items-center gap-1">
+                                  <input
+                                    name="fixedTime"
+                                    type="checkbox"
+                                    defaultChecked={visit.fixedTime}
+                                  />
+                                  Fijo
+                                </label>
+                                <Button type="submit" size="sm" variant="ghost">
+                                  Guardar
+                                </Button>
+                              </form>
+                            ) : (
+                              <>
+                                {visit.windowStartMinute !== null ||
+                                visit.windowEndMinute !== null
+                                  ? `${visit.windowStartMinute !== null ? formatTimeOfDay(visit.windowStartMinute) : "--"} a ${visit.windowEndMinute !== null ? formatTimeOfDay(visit.windowEndMinute) : "--"}`
+                                  : "-"}
+                                {visit.fixedTime ? " (fijo)" : ""}
+                              </>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {plan ? (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Recorrido sugerido</div>
+                  <ol className="space-y-1 text-xs">
+                    {plan.stops.map((stop, index) => {
+                      const visit = visitById.get(stop.id);
+                      const moved =
+                        visit?.scheduledAt.getTime() !==
+                        stop.scheduledAt.getTime();
+                      return (
+                        <li
+                          key={stop.id}
+                          className={
+                            stop.lateMinutes > 0 ? "text-destructive" : ""
+                          }
+                        >
+                          {index + 1}. {formatTime(stop.scheduledAt)}{" "}
+                          {visit?.patient.lastName}
+                          {stop.travelMinutes !== null
+                            ? ` - ${stop.travelMinutes} min de traslado`
+                            : ""}
+                          {stop.fixed ? " (fija)" : ""}
+                          {moved && visit
+                            ? ` (antes ${formatTime(visit.scheduledAt)})`
+                            : ""}
+                          {stop.lateMinutes > 0
+                            ? ` - ${stop.lateMinutes} min fuera de franja`
+                            : ""}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                  <div className="text-xs text-muted-foreground">
+                    Fin estimado {formatTime(plan.endAt)}.
+                  </div>
+                  {canCoordinate && changed ? (
+                    <form
+                      action={acceptRoute}
+                      className="flex flex-wrap items-center gap-3"
+                    >
+                      <input type="hidden" name="userId" value={user.id} />
+                      <input type="hidden" name="date" value={date} />
+                      <input
+                        type="hidden"
+                        name="planKey"
+                        value={planKey(plan.stops)}
+                      />
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <input name="allowOutsideHours" type="checkbox" />
+                        Permitir fuera del horario del profesional
+                      </label>
+                      <Button type="submit" size="sm">
+                        Aceptar recorrido sugerido
+                      </Button>
+                    </form>
+                  ) : null}
+                  {!changed ? (
+                    <div className="text-xs text-muted-foreground">
+                      El orden actual ya es el sugerido.
+                    </div>
+                  ) : null}
+                </div>
+              ) : (
+                <div className="text-xs text-muted-foreground">
+                  No se puede optimizar un dia ya transcurrido.
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {routes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Sin visitas asignadas para el dia.
+          </p>
+        ) : null}
+      </div>
+    );
+  });
+}
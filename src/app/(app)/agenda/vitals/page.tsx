@@ -0,0 +1,116 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import { Role } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import {
+  parseVitalThresholdsForm,
+  resolveVitalThresholds,
+  vitalSignFields,
+} from "@/lib/vital-signs";
+
+async function updateVitalThresholds(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const thresholds = parseVitalThresholdsForm(
+      Object.fromEntries(formData.entries()),
+    );
+
+    const policy = await db.tenantPolicy.upsert({
+      where: { tenantId },
+      update: { vitalThresholds: thresholds },
+      create: { tenantId, vitalThresholds: thresholds },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "tenant.policy.vital_thresholds",
+      entityType: "TenantPolicy",
+      entityId: policy.id,
+      meta: thresholds,
+    });
+  });
+
+  revalidatePath("/agenda/vitals");
+}
+
+export default async function VitalThresholdsPage() {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const policy = await db.tenantPolicy.findUnique({ where: { tenantId } });
+    const thresholds = resolveVitalThresholds(policy?.vitalThresholds);
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Umbrales de signos vitales</h1>
+          <p className="text-sm text-muted-foreground">
+            Los valores fuera de rango generan una alerta para coordinacion.
+            Deja un limite vacio para no controlarlo.
+          </p>
+          <Link href="/agenda" className="text-xs text-primary hover:underline">
+            Volver a agenda
+          </Link>
+        </div>
+
+        <form action={updateVitalThresholds} className="space-y-3">
+          <div className="grid gap-3 md:grid-cols-3">
+            {vitalSignFields.map((field) => (
+              <div key={field.key} className="rounded-md border p-3">
+                <div className="text-sm font-medium">
+                  {field.label} ({field.unit})
+                </div>
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  <Input
+                    name={`${field.key}Min`}
+                    type="number"
+                    step={field.step}
+                    placeholder="Minimo"
+                    defaultValue={thresholds[field.key].min ?? ""}
+                  />
+                  <Input
+                    name={`${field.key}Max`}
+                    type="number"
+                    step={field.step}
+                    placeholder="Maximo"
+                    defaultValue={thresholds[field.key].max ?? ""}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <Button type="submit">Guardar umbrales</Button>
+        </form>
+      </div>
+    );
+  });
+}
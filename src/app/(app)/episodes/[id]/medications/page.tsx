@@ -0,0 +1,474 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import { MedicationOrderStatus, MedicationRoute, Role } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import { careTeamEpisodeScope } from "@/lib/care-team";
+import {
+  administrationStatusLabels,
+  medicationRouteLabels,
+} from "@/lib/medications";
+import {
+  describeAllergy,
+  findAllergyConflicts,
+} from "@/lib/patient-background";
+import PatientAlertsBanner from "@/components/app/patient-alerts-banner";
+
+const orderSchema = z.object({
+  episodeId: z.string().min(1),
+  productId: z.string(),
+  drugName: z.string().trim(),
+  dose: z.string().trim().min(1),
+  route: z.nativeEnum(MedicationRoute),
+  frequency: z.string().trim().min(1),
+  startDate: z.string().min(1),
+  endDate: z.string(),
+  prescriberId: z.string(),
+  prescriberName: z.string().trim(),
+  instructions: z.string().trim(),
+  allergyOverrideReason: z.string().trim(),
+});
+
+const discontinueSchema = z.object({
+  orderId: z.string().min(1),
+  reason: z.string().trim().min(1),
+});
+
+async function createMedicationOrder(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = orderSchema.safeParse({
+      episodeId,
+      productId: formData.get("productId"),
+      drugName: formData.get("drugName"),
+      dose: formData.get("dose"),
+      route: formData.get("route"),
+      frequency: formData.get("frequency"),
+      startDate: formData.get("startDate"),
+      endDate: formData.get("endDate"),
+      prescriberId: formData.get("prescriberId"),
+      prescriberName: formData.get("prescriberName"),
+      instructions: formData.get("instructions"),
+      allergyOverrideReason: formData.get("allergyOverrideReason"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const episode = await db.episode.findFirst({
+      where: { id: parsed.data.episodeId, tenantId },
+    });
+    if (!episode) {
+      throw new Error("EPISODE_NOT_FOUND");
+    }
+    if (episode.status === "SUSPENDED") {
+      throw new Error("EPISODE_SUSPENDED");
+    }
+    if (episode.status !== "ACTIVE") {
+      throw new Error("INVALID_STATUS");
+    }
+
+    const product = parsed.data.productId
+      ? await db.product.findFirst({
+          where: { id: parsed.data.productId, tenantId },
+        })
+      : null;
+    if (parsed.data.productId && !product) {
+      throw new Error("PRODUCT_NOT_FOUND");
+    }
+    const drugName = parsed.data.drugName || product?.name;
+    if (!drugName) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const prescriber = parsed.data.prescriberId
+      ? await db.user.findFirst({
+          where: { id: parsed.data.prescriberId, tenantId, isActive: true },
+        })
+      : null;
+    if (parsed.data.prescriberId && !prescriber) {
+      throw new Error("USER_NOT_FOUND");
+    }
+    if (!prescriber && !parsed.data.prescriberName) {
+      throw new Error("PRESCRIBER_REQUIRED");
+    }
+
+    const startDate = new Date(parsed.data.startDate);
+    const endDate = parsed.data.endDate ? new Date(parsed.data.endDate) : null;
+    if (endDate && endDate < startDate) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const allergies = await db.patientAllergy.findMany({
+      where: { tenantId, patientId: episode.patientId, isActive: true },
+    });
+    const allergyConflicts = findAllergyConflicts(allergies, [
+      drugName,
+      product?.name,
+    ]);
+    if (allergyConflicts.length > 0 && !parsed.data.allergyOverrideReason) {
+      throw new Error("ALLERGY_CONFLICT");
+    }
+
+    const order = await db.medicationOrder.create({
+      data: {
+        tenantId,
+        patientId: episode.patientId,
+        episodeId: episode.id,
+        productId: product?.id ?? null,
+        drugName,
+        dose: parsed.data.dose,
+        route: parsed.data.route,
+        frequency: parsed.data.frequency,
+        startDate,
+        endDate,
+        prescriberId: prescriber?.id ?? null,
+        prescriberName:
+          parsed.data.prescriberName || prescriber?.name || prescriber?.email,
+        instructions: parsed.data.instructions || null,
+        allergyOverrideReason:
+          allergyConflicts.length > 0
+            ? parsed.data.allergyOverrideReason
+            : null,
+        createdById: session.user.id,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "medication.order.create",
+      entityType: "MedicationOrder",
+      entityId: order.id,
+      meta: {
+        episodeId: episode.id,
+        drugName: order.drugName,
+        dose: order.dose,
+        route: order.route,
+        allergyConflicts: allergyConflicts.map(describeAllergy),
+        allergyOverrideReason: order.allergyOverrideReason,
+      },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}/medications`);
+}
+
+async function discontinueMedicationOrder(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = discontinueSchema.safeParse({
+      orderId: formData.get("orderId"),
+      reason: formData.get("reason"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const order = await db.medicationOrder.findFirst({
+      where: { id: parsed.data.orderId, tenantId },
+    });
+    if (!order) {
+      throw new Error("MEDICATION_ORDER_NOT_FOUND");
+    }
+    if (order.status === MedicationOrderStatus.DISCONTINUED) {
+      throw new Error("INVALID_STATUS");
+    }
+
+    const updated = await db.medicationOrder.update({
+      where: { id: order.id },
+      data: {
+        status: MedicationOrderStatus.DISCONTINUED,
+        discontinuedAt: new Date(),
+        discontinuedReason: parsed.data.reason,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "medication.order.discontinue",
+      entityType: "MedicationOrder",
+      entityId: updated.id,
+      meta: { reason: updated.discontinuedReason },
+    });
+
+    return updated.episodeId;
+  });
+
+  revalidatePath(`/episodes/${episodeId}/medications`);
+}
+
+export default async function EpisodeMedicationsPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const episode = await db.episode.findFirst({
+      where: { id: params.id, tenantId, ...careTeamEpisodeScope(session?.user) },
+      include: {
+        patient: {
+          include: {
+            allergies: { where: { isActive: true } },
+            problems: true,
+          },
+        },
+      },
+    });
+    if (!episode) {
+      return (
+        <p className="text-sm text-muted-foreground">Episodio no encontrado.</p>
+      );
+    }
+
+    const orders = await db.medicationOrder.findMany({
+      where: { tenantId, episodeId: episode.id },
+      include: {
+        product: true,
+        administrations: {
+          include: { administeredBy: true, visitItem: true },
+          orderBy: { administeredAt: "desc" },
+        },
+      },
+      orderBy: [{ status: "asc" }, { startDate: "desc" }],
+    });
+    const products = await db.product.findMany({
+      where: { tenantId },
+      orderBy: { name: "asc" },
+    });
+    const users = await db.user.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: { name: "asc" },
+    });
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+              Medicacion
+            </p>
+            <h1 className="text-2xl font-semibold">
+              {episode.patient.lastName}, {episode.patient.firstName}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Indicaciones medicas y registro de administracion (MAR).
+            </p>
+          </div>
+          <Link
+            href={`/episodes/${episode.id}`}
+            className="rounded-md border px-3 py-2 text-sm"
+          >
+            Volver al episodio
+          </Link>
+        </div>
+
+        <PatientAlertsBanner
+          allergies={episode.patient.allergies}
+          problems={episode.patient.problems}
+        />
+
+        {episode.status === "ACTIVE" ? (
+          <form
+            action={createMedicationOrder}
+            className="grid gap-3 rounded-lg border p-4 md:grid-cols-4"
+          >
+            <input type="hidden" name="episodeId" value={episode.id} />
+            <select
+              name="productId"
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+              defaultValue=""
+            >
+              <option value="">Producto (opcional)...</option>
+              {products.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.name}
+                </option>
+              ))}
+            </select>
+            <Input name="drugName" placeholder="Droga / medicamento" />
+            <Input name="dose" placeholder="Dosis (ej: 500 mg)" required />
+            <select
+              name="route"
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+              defaultValue={MedicationRoute.ORAL}
+            >
+              {Object.values(MedicationRoute).map((route) => (
+                <option key={route} value={route}>
+                  {medicationRouteLabels[route]}
+                </option>
+              ))}
+            </select>
+            <Input
+              name="frequency"
+              placeholder="Frecuencia (ej: cada 8 hs)"
+              required
+            />
+            <Input name="startDate" type="date" required />
+            <Input name="endDate" type="date" />
+            <select
+              name="prescriberId"
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+              defaultValue=""
+            >
+              <option value="">Prescriptor del equipo...</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.name ?? user.email}
+                </option>
+              ))}
+            </select>
+            <Input name="prescriberName" placeholder="Prescriptor externo" />
+            <Input
+              name="instructions"
+              placeholder="Indicaciones"
+              className="md:col-span-3"
+            />
+            <Input
+              name="allergyOverrideReason"
+              placeholder="Justificacion si hay alergia registrada"
+              className="md:col-span-4"
+            />
+            <Button type="submit" className="md:col-span-4">
+              Crear indicacion
+            </Button>
+          </form>
+        ) : null}
+
+        <div className="space-y-4">
+          {orders.map((order) => (
+            <div key={order.id} className="rounded-lg border p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="text-sm font-medium">
+                    {order.drugName} {order.dose} -{" "}
+                    {medicationRouteLabels[order.route]} - {order.frequency}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {order.startDate.toLocaleDateString("es-AR")} -{" "}
+                    {order.endDate
+                      ? order.endDate.toLocaleDateString("es-AR")
+                      : "sin fin"}{" "}
+                    - Prescriptor: {order.prescriberName ?? "-"} -{" "}
+                    {order.status === MedicationOrderStatus.ACTIVE
+                      ? "Activa"
+                      : order.status === MedicationOrderStatus.SUSPENDED
+                        ? "En pausa por suspension del episodio"
+                        : `Suspendida (${order.discontinuedReason ?? ""})`}
+                  </div>
+                  {order.instructions ? (
+                    <div className="text-xs text-muted-foreground">
+                      {order.instructions}
+                    </div>
+                  ) : null}
+                  {findAllergyConflicts(episode.patient.allergies, [
+                    order.drugName,
+                    order.product?.name,
+                  ]).map((allergy) => (
+                    <div key={allergy.id} className="text-xs text-destructive">
+                      Alergia registrada: {describeAllergy(allergy)}
+                    </div>
+                  ))}
+                  {order.allergyOverrideReason ? (
+                    <div className="text-xs text-muted-foreground">
+                      Justificacion: {order.allergyOverrideReason}
+                    </div>
+                  ) : null}
+                </div>
+                {order.status !== MedicationOrderStatus.DISCONTINUED ? (
+                  <form
+                    action={discontinueMedicationOrder}
+                    className="flex gap-2"
+                  >
+                    <input type="hidden" name="orderId" value={order.id} />
+                    <Input
+                      name="reason"
+                      placeholder="Motivo"
+                      className="h-9 w-40"
+                      required
+                    />
+                    <Button size="sm" variant="outline" type="submit">
+                      Suspender
+                    </Button>
+                  </form>
+                ) : null}
+              </div>
+              <ul className="mt-3 space-y-1 text-xs text-muted-foreground">
+                {order.administrations.map((administration) => (
+                  <li key={administration.id}>
+                    {administration.administeredAt.toLocaleString("es-AR")} -{" "}
+                    {administrationStatusLabels[administration.status]} -{" "}
+                    {administration.administeredBy.name ??
+                      administration.administeredBy.email}
+                    {administration.reason
+                      ? ` - ${administration.reason}`
+                      : ""}
+                    {administration.visitItem
+                      ? ` - Consumo x ${administration.visitItem.quantity}`
+                      : ""}
+                  </li>
+                ))}
+                {order.administrations.length === 0 ? (
+                  <li>Sin administraciones registradas.</li>
+                ) : null}
+              </ul>
+            </div>
+          ))}
+          {orders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Sin indicaciones de medicacion.
+            </p>
+          ) : null}
+        </div>
+      </div>
+    );
+  });
+}
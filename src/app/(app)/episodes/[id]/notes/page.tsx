@@ -0,0 +1,233 @@
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { authOptions } from "@/lib/auth";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import { careTeamEpisodeScope } from "@/lib/care-team";
+import {
+  verifyClinicalNote,
+  type ClinicalNoteStructured,
+} from "@/lib/clinical-notes";
+
+type SearchParams = {
+  visitId?: string;
+};
+
+const auditLabels: Record<string, string> = {
+  "clinicalNote.create": "Creada",
+  "clinicalNote.update": "Borrador editado",
+  "clinicalNote.sign": "Firmada",
+  "clinicalNote.addendum": "Addenda firmada",
+};
+
+export default async function EpisodeNotesPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams?: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const episode = await db.episode.findFirst({
+      where: { id: params.id, tenantId, ...careTeamEpisodeScope(session?.user) },
+      include: { patient: true },
+    });
+    if (!episode) {
+      return (
+        <p className="text-sm text-muted-foreground">Episodio no encontrado.</p>
+      );
+    }
+
+    const visitId =
+      typeof searchParams?.visitId === "string" ? searchParams.visitId : "";
+    const notes = await db.clinicalNote.findMany({
+      where: {
+        tenantId,
+        episodeId: episode.id,
+        amendsId: null,
+        ...(visitId ? { visitId } : {}),
+      },
+      include: {
+        author: true,
+        signedBy: true,
+        visit: true,
+        addenda: {
+          include: { author: true, signedBy: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+    const noteIds = notes.flatMap((note) => [
+      note.id,
+      ...note.addenda.map((addendum) => addendum.id),
+    ]);
+    const auditEntries = await db.auditLog.findMany({
+      where: {
+        tenantId,
+        entityType: "ClinicalNote",
+        entityId: { in: noteIds },
+      },
+      include: { actor: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+              Historial de notas
+            </p>
+            <h1 className="text-2xl font-semibold">
+              {episode.patient.lastName}, {episode.patient.firstName}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Las notas firmadas no se modifican; las correcciones se agregan
+              como addendas.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {visitId ? (
+              <Link
+                href={`/episodes/${episode.id}/notes`}
+                className="rounded-md border px-3 py-2 text-sm"
+              >
+                Ver todo el episodio
+              </Link>
+            ) : null}
+            <Link
+              href={`/episodes/${episode.id}`}
+              className="rounded-md border px-3 py-2 text-sm"
+            >
+              Volver al episodio
+            </Link>
+          </div>
+        </div>
+
+        {notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin notas clinicas.</p>
+        ) : (
+          <div className="space-y-4">
+            {notes.map((note) => {
+              const structured =
+                note.structured as ClinicalNoteStructured | null;
+              const history = auditEntries.filter(
+                (entry) => entry.entityId === note.id,
+              );
+              return (
+                <div key={note.id} className="rounded-lg border p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>
+                      {note.visit
+                        ? `Visita ${note.visit.scheduledAt.toLocaleString("es-AR")}`
+                        : "Sin visita"}{" "}
+                      - {note.author.name ?? note.author.email}
+                    </span>
+                    <span>
+                      {note.signedAt
+                        ? verifyClinicalNote(note)
+                          ? "Firmada - integridad verificada"
+                          : "Firmada - integridad NO verificada"
+                        : "Borrador sin firmar"}
+                    </span>
+                  </div>
+                  <div className="mt-2 text-sm">{note.content}</div>
+                  <div className="mt-1 space-y-1 text-xs text-muted-foreground">
+                    {structured?.templateId ? (
+                      <div>
+                        Plantilla {structured.templateName} v
+                        {structured.templateVersion}
+                      </div>
+                    ) : null}
+                    {(structured?.fields ?? [])
+                      .filter(
+                        (field) =>
+                          field.value &&
+                          !["subjective", "objective", "assessment", "plan"].includes(
+                            field.key,
+                          ),
+                      )
+                      .map((field) => (
+                        <div key={field.key}>
+                          {field.label}: {field.value}
+                        </div>
+                      ))}
+                    {structured?.subjective ? (
+                      <div>Subjetivo: {structured.subjective}</div>
+                    ) : null}
+                    {structured?.objective ? (
+                      <div>Objetivo: {structured.objective}</div>
+                    ) : null}
+                    {structured?.assessment ? (
+                      <div>Evaluacion: {structured.assessment}</div>
+                    ) : null}
+                    {structured?.plan ? <div>Plan: {structured.plan}</div> : null}
+                    {note.signedAt ? (
+                      <div>
+                        Firmante: {note.signedBy?.name ?? note.signedBy?.email}{" "}
+                        - {note.signedAt.toLocaleString("es-AR")} - SHA-256{" "}
+                        <span className="font-mono">{note.contentHash}</span>
+                      </div>
+                    ) : null}
+                  </div>
+
+                  {note.addenda.length > 0 ? (
+                    <div className="mt-3 space-y-2">
+                      {note.addenda.map((addendum) => (
+                        <div
+                          key={addendum.id}
+                          className="border-l-2 pl-3 text-xs text-muted-foreground"
+                        >
+                          <div className="font-medium text-foreground">
+                            Addenda de{" "}
+                            {addendum.author.name ?? addendum.author.email}
+                            {verifyClinicalNote(addendum, note.contentHash)
+                              ? ""
+                              : " (integridad NO verificada)"}
+                          </div>
+                          <div>{addendum.content}</div>
+                          <div>
+                            {addendum.signedAt?.toLocaleString("es-AR")} -
+                            SHA-256{" "}
+                            <span className="font-mono">
+                              {addendum.contentHash}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+
+                  {history.length > 0 ? (
+                    <ul className="mt-3 space-y-1 text-xs text-muted-foreground">
+                      {history.map((entry) => (
+                        <li key={entry.id}>
+                          {entry.createdAt.toLocaleString("es-AR")} -{" "}
+                          {auditLabels[entry.action] ?? entry.action} -{" "}
+                          {entry.actor?.name ?? entry.actor?.email ?? "Sistema"}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  });
+}
@@ -1,11 +1,95 @@
+import { revalidatePath } from "next/cache";
 import { getServerSession } from "next-auth";
+import Image from "next/image";
 import Link from "next/link";
+import { z } from "zod";
+import {
+  CarePlanObjectiveStatus,
+  CareTeamRole,
+  ConsentType,
+  EpisodeSuspensionReason,
+  NoteSpecialty,
+  Role,
+  WoundStage,
+  WoundStatus,
+  WoundType,
+} from "@prisma/client";
 import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
 import AccessDenied from "@/components/app/access-denied";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import {
+  assertTenantModuleAccess,
   getTenantModuleAccess,
 } from "@/lib/tenant-access";
+import { formatDiagnosis, normalizeIcd10Code } from "@/lib/icd10";
 import { withTenant } from "@/lib/rls";
+import { uploadEvidenceObject } from "@/lib/storage";
+import {
+  assertEvidenceFile,
+  safeEvidenceFileName,
+  uploadedFile,
+} from "@/lib/evidence-files";
+import {
+  consentTypeLabels,
+  missingConsentTypes,
+  requiredConsentTypes,
+} from "@/lib/consents";
+import { contactRelationshipLabels } from "@/lib/patient-contacts";
+import {
+  episodeStatusLabels,
+  findReadmission,
+  reactivateEpisode,
+  suspendEpisode,
+  suspensionDays,
+  suspensionReasonLabels,
+} from "@/lib/episode-suspensions";
+import {
+  careTeamEpisodeScope,
+  careTeamRoleLabels,
+  isTeamMemberActive,
+} from "@/lib/care-team";
+import { describeRecurrence, parseRecurrence } from "@/lib/visit-recurrence";
+import {
+  describeVitalAlert,
+  resolveVitalThresholds,
+  vitalSignFields,
+  type VitalAlert,
+} from "@/lib/vital-signs";
+import VitalTrendChart from "@/components/app/vital-trend-chart";
+import PatientAlertsBanner from "@/components/app/patient-alerts-banner";
+import { assessmentScales } from "@/lib/assessment-scales";
+import {
+  loadDischargeSummary,
+  saveDischargeSummary,
+  uploadDischargeSummary,
+} from "@/lib/discharge-summary";
+import {
+  applyObjectiveUpdates,
+  isObjectiveOverdue,
+  objectiveStatusLabels,
+  summarizeObjectives,
+} from "@/lib/care-plan-objectives";
+import { noteSpecialtyLabels } from "@/lib/note-templates";
+import {
+  findUnmetStageConditions,
+  formatStageDuration,
+  isStageOverdue,
+  isTransitionAllowed,
+  moveEpisodeToStage,
+  stageDurationHours,
+  stageEntryConditionLabels,
+} from "@/lib/episode-workflow";
+import {
+  buildWoundEvolution,
+  describeWoundDimensions,
+  woundExudateLabels,
+  woundStageLabels,
+  woundStatusLabels,
+  woundTypeLabels,
+} from "@/lib/wounds";
 
 type TimelineEvent = {
   at: Date;
@@ -13,10 +97,988 @@ type TimelineEvent = {
   detail?: string;
 };
 
+type SearchParams = {
+  dx?: string;
+};
+
+const diagnosisSchema = z.object({
+  episodeId: z.string().min(1),
+  code: z.string().min(1),
+  isPrimary: z.boolean(),
+});
+
+const woundSchema = z.object({
+  episodeId: z.string().min(1),
+  location: z.string().min(2),
+  type: z.nativeEnum(WoundType),
+  stage: z.nativeEnum(WoundStage).optional(),
+  notes: z.string().optional(),
+});
+
+const objectiveSchema = z.object({
+  episodeId: z.string().min(1),
+  description: z.string().min(2),
+  target: z.string().optional(),
+  dueDate: z.string().optional(),
+  profession: z.nativeEnum(NoteSpecialty).optional(),
+});
+
+const objectiveUpdateSchema = z.object({
+  objectiveId: z.string().min(1),
+  target: z.string().optional(),
+  dueDate: z.string().optional(),
+  profession: z.nativeEnum(NoteSpecialty).optional(),
+  status: z.nativeEnum(CarePlanObjectiveStatus),
+  comment: z.string().optional(),
+});
+
+const woundStatusSchema = z.object({
+  woundId: z.string().min(1),
+  status: z.nativeEnum(WoundStatus),
+});
+
+const careTeamMemberSchema = z.object({
+  episodeId: z.string().min(1),
+  userId: z.string().min(1),
+  role: z.nativeEnum(CareTeamRole),
+  startDate: z.string().min(1),
+  endDate: z.string().optional(),
+});
+
+const consentSchema = z.object({
+  episodeId: z.string().min(1),
+  type: z.nativeEnum(ConsentType),
+  version: z.string().trim().min(1),
+  signedAt: z.string().min(1),
+  signerContactId: z.string().optional(),
+  signerName: z.string().trim().optional(),
+  notes: z.string().trim().optional(),
+});
+
+const suspensionSchema = z.object({
+  episodeId: z.string().min(1),
+  reason: z.nativeEnum(EpisodeSuspensionReason),
+  startDate: z.string().min(1),
+  expectedEndDate: z.string().optional(),
+  institution: z.string().trim().optional(),
+  notes: z.string().trim().optional(),
+});
+
+const stageChangeSchema = z.object({
+  episodeId: z.string().min(1),
+  workflowStageId: z.string().optional(),
+});
+
+async function addEpisodeDiagnosis(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = diagnosisSchema.safeParse({
+      episodeId,
+      code: formData.get("code"),
+      isPrimary: formData.get("isPrimary") === "true",
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const episode = await db.episode.findFirst({
+      where: { id: parsed.data.episodeId, tenantId },
+      include: { diagnoses: true },
+    });
+    if (!episode) {
+      throw new Error("EPISODE_NOT_FOUND");
+    }
+    const code = await db.icd10Code.findUnique({
+      where: { code: parsed.data.code },
+    });
+    if (!code) {
+      throw new Error("ICD10_NOT_FOUND");
+    }
+    if (episode.diagnoses.some((diagnosis) => diagnosis.code === code.code)) {
+      throw new Error("DIAGNOSIS_DUPLICATE");
+    }
+
+    const isPrimary =
+      parsed.data.isPrimary ||
+      !episode.diagnoses.some((diagnosis) => diagnosis.isPrimary);
+    if (isPrimary) {
+      await db.episodeDiagnosis.updateMany({
+        where: { episodeId: episode.id, isPrimary: true },
+        data: { isPrimary: false },
+      });
+    }
+    const diagnosis = await db.episodeDiagnosis.create({
+      data: {
+        tenantId,
+        episodeId: episode.id,
+        code: code.code,
+        isPrimary,
+        createdById: session.user.id,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.diagnosis.add",
+      entityType: "Episode",
+      entityId: episode.id,
+      meta: { diagnosisId: diagnosis.id, code: code.code, isPrimary },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function setPrimaryDiagnosis(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const diagnosisId = String(formData.get("diagnosisId") ?? "");
+  const episodeId = await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const diagnosis = await db.episodeDiagnosis.findFirst({
+      where: { id: diagnosisId, tenantId },
+    });
+    if (!diagnosis) {
+      throw new Error("NOT_FOUND");
+    }
+
+    await db.episodeDiagnosis.updateMany({
+      where: { episodeId: diagnosis.episodeId, isPrimary: true },
+      data: { isPrimary: false },
+    });
+    await db.episodeDiagnosis.update({
+      where: { id: diagnosis.id },
+      data: { isPrimary: true },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.diagnosis.primary",
+      entityType: "Episode",
+      entityId: diagnosis.episodeId,
+      meta: { diagnosisId: diagnosis.id, code: diagnosis.code },
+    });
+    return diagnosis.episodeId;
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function removeEpisodeDiagnosis(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const diagnosisId = String(formData.get("diagnosisId") ?? "");
+  const episodeId = await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const diagnosis = await db.episodeDiagnosis.findFirst({
+      where: { id: diagnosisId, tenantId },
+    });
+    if (!diagnosis) {
+      throw new Error("NOT_FOUND");
+    }
+
+    await db.episodeDiagnosis.delete({ where: { id: diagnosis.id } });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.diagnosis.remove",
+      entityType: "Episode",
+      entityId: diagnosis.episodeId,
+      meta: { code: diagnosis.code, isPrimary: diagnosis.isPrimary },
+    });
+    return diagnosis.episodeId;
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function createWound(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = woundSchema.safeParse({
+      episodeId,
+      location: formData.get("location"),
+      type: formData.get("type"),
+      stage: formData.get("stage") || undefined,
+      notes: formData.get("notes") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const episode = await db.episode.findFirst({
+      where: { id: parsed.data.episodeId, tenantId },
+    });
+    if (!episode) {
+      throw new Error("EPISODE_NOT_FOUND");
+    }
+
+    const wound = await db.wound.create({
+      data: {
+        tenantId,
+        patientId: episode.patientId,
+        episodeId: episode.id,
+        location: parsed.data.location.trim(),
+        type: parsed.data.type,
+        stage: parsed.data.stage ?? null,
+        notes: parsed.data.notes?.trim() || null,
+        createdById: session.user.id,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "wound.create",
+      entityType: "Wound",
+      entityId: wound.id,
+      meta: { episodeId: episode.id, type: wound.type, location: wound.location },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function updateWoundStatus(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = woundStatusSchema.safeParse({
+      woundId: formData.get("woundId"),
+      status: formData.get("status"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const wound = await db.wound.findFirst({
+      where: { id: parsed.data.woundId, tenantId },
+    });
+    if (!wound) {
+      throw new Error("WOUND_NOT_FOUND");
+    }
+
+    await db.wound.update({
+      where: { id: wound.id },
+      data: {
+        status: parsed.data.status,
+        healedAt: parsed.data.status === WoundStatus.HEALED ? new Date() : null,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "wound.status",
+      entityType: "Wound",
+      entityId: wound.id,
+      meta: { from: wound.status, to: parsed.data.status },
+    });
+    return wound.episodeId;
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function addCarePlanObjective(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = objectiveSchema.safeParse({
+      episodeId,
+      description: formData.get("description"),
+      target: formData.get("target") ?? undefined,
+      dueDate: formData.get("dueDate") ?? undefined,
+      profession: formData.get("profession") || undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const carePlan = await db.episodeCarePlan.findFirst({
+      where: { episodeId: parsed.data.episodeId, tenantId },
+      include: { objectives: true },
+    });
+    if (!carePlan) {
+      throw new Error("CARE_PLAN_NOT_FOUND");
+    }
+
+    const objective = await db.carePlanObjective.create({
+      data: {
+        tenantId,
+        carePlanId: carePlan.id,
+        description: parsed.data.description.trim(),
+        target: parsed.data.target?.trim() || null,
+        dueDate: parsed.data.dueDate
+          ? new Date(`${parsed.data.dueDate}T00:00:00`)
+          : null,
+        profession: parsed.data.profession ?? null,
+        sortOrder: carePlan.objectives.length * 10,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "care_plan.objective.create",
+      entityType: "Episode",
+      entityId: carePlan.episodeId,
+      meta: { objectiveId: objective.id, description: objective.description },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function updateCarePlanObjective(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = objectiveUpdateSchema.safeParse({
+      objectiveId: formData.get("objectiveId"),
+      target: formData.get("target") ?? undefined,
+      dueDate: formData.get("dueDate") ?? undefined,
+      profession: formData.get("profession") || undefined,
+      status: formData.get("status"),
+      comment: formData.get("comment") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const objective = await db.carePlanObjective.findFirst({
+      where: { id: parsed.data.objectiveId, tenantId },
+      include: { carePlan: true },
+    });
+    if (!objective) {
+      throw new Error("OBJECTIVE_NOT_FOUND");
+    }
+
+    await db.carePlanObjective.update({
+      where: { id: objective.id },
+      data: {
+        target: parsed.data.target?.trim() || null,
+        dueDate: parsed.data.dueDate
+          ? new Date(`${parsed.data.dueDate}T00:00:00`)
+          : null,
+        profession: parsed.data.profession ?? null,
+      },
+    });
+
+    const comment = parsed.data.comment?.trim() || null;
+    if (parsed.data.status !== objective.status || comment) {
+      await applyObjectiveUpdates(db, {
+        tenantId,
+        actorId: session.user.id,
+        episodeId: objective.carePlan.episodeId,
+        updates: [
+          { objectiveId: objective.id, status: parsed.data.status, comment },
+        ],
+      });
+    }
+    return objective.carePlan.episodeId;
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function regenerateDischargeSummary(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+  const loaded = await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+
+    const episode = await db.episode.findFirst({
+      where: { id: episodeId, tenantId },
+    });
+    if (!episode) {
+      throw new Error("EPISODE_NOT_FOUND");
+    }
+    if (episode.status !== "DISCHARGED") {
+      throw new Error("EPISODE_NOT_DISCHARGED");
+    }
+
+    return loadDischargeSummary(db, { tenantId, episodeId: episode.id });
+  });
+
+  const file = await uploadDischargeSummary({
+    tenantId,
+    episodeId: loaded.episodeId,
+    summary: loaded.summary,
+  });
+
+  await withTenant(tenantId, async (db) => {
+    const summary = await saveDischargeSummary(db, {
+      tenantId,
+      episodeId: loaded.episodeId,
+      patientId: loaded.patientId,
+      actorId: session.user.id,
+      file,
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.discharge_summary",
+      entityType: "Episode",
+      entityId: loaded.episodeId,
+      meta: { dischargeSummaryId: summary.id },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function addCareTeamMember(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = careTeamMemberSchema.safeParse({
+      episodeId,
+      userId: formData.get("userId"),
+      role: formData.get("role"),
+      startDate: formData.get("startDate"),
+      endDate: formData.get("endDate") || undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    const startDate = new Date(`${parsed.data.startDate}T00:00:00`);
+    const endDate = parsed.data.endDate
+      ? new Date(`${parsed.data.endDate}T23:59:59`)
+      : null;
+    if (endDate && endDate < startDate) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const episode = await db.episode.findFirst({
+      where: { id: parsed.data.episodeId, tenantId },
+      include: { careTeam: true },
+    });
+    if (!episode) {
+      throw new Error("EPISODE_NOT_FOUND");
+    }
+    const user = await db.user.findFirst({
+      where: { id: parsed.data.userId, tenantId, isActive: true },
+    });
+    if (!user) {
+      throw new Error("USER_NOT_FOUND");
+    }
+    if (
+      episode.careTeam.some(
+        (member) =>
+          member.userId === user.id &&
+          member.role === parsed.data.role &&
+          (!member.endDate || member.endDate >= startDate) &&
+          (!endDate || member.startDate <= endDate),
+      )
+    ) {
+      throw new Error("CARE_TEAM_MEMBER_DUPLICATE");
+    }
+
+    const member = await db.episodeCareTeamMember.create({
+      data: {
+        tenantId,
+        episodeId: episode.id,
+        userId: user.id,
+        role: parsed.data.role,
+        startDate,
+        endDate,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.care_team.add",
+      entityType: "Episode",
+      entityId: episode.id,
+      meta: { memberId: member.id, userId: user.id, role: member.role },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function endCareTeamMember(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const memberId = String(formData.get("memberId") ?? "");
+    const member = await db.episodeCareTeamMember.findFirst({
+      where: { id: memberId, tenantId, episodeId },
+    });
+    if (!member) {
+      throw new Error("CARE_TEAM_MEMBER_NOT_FOUND");
+    }
+
+    const now = new Date();
+    const updated = await db.episodeCareTeamMember.update({
+      where: { id: member.id },
+      data: { endDate: member.startDate > now ? member.startDate : now },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.care_team.end",
+      entityType: "Episode",
+      entityId: member.episodeId,
+      meta: { memberId: updated.id, userId: updated.userId, role: updated.role },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+}
+
+async function recordConsent(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = consentSchema.safeParse({
+      episodeId,
+      type: formData.get("type"),
+      version: formData.get("version"),
+      signedAt: formData.get("signedAt"),
+      signerContactId: formData.get("signerContactId") || undefined,
+      signerName: formData.get("signerName") || undefined,
+      notes: formData.get("notes") || undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("CONSENT_INVALID");
+    }
+    const signedAt = new Date(`${parsed.data.signedAt}T00:00:00`);
+    if (Number.isNaN(signedAt.getTime()) || signedAt > new Date()) {
+      throw new Error("CONSENT_INVALID");
+    }
+    const file = uploadedFile(formData.get("file"));
+    if (file) {
+      assertEvidenceFile(file);
+    }
+
+    const episode = await db.episode.findFirst({
+      where: {
+        id: parsed.data.episodeId,
+        tenantId,
+        ...careTeamEpisodeScope(session.user),
+      },
+      include: { patient: true },
+    });
+    if (!episode) {
+      throw new Error("EPISODE_NOT_FOUND");
+    }
+
+    let signerName = parsed.data.signerName ?? "";
+    let signerContactId: string | null = null;
+    if (parsed.data.signerContactId) {
+      const contact = await db.patientContact.findFirst({
+        where: {
+          id: parsed.data.signerContactId,
+          tenantId,
+          patientId: episode.patientId,
+        },
+      });
+      if (!contact) {
+        throw new Error("CONTACT_NOT_FOUND");
+      }
+      signerContactId = contact.id;
+      signerName = contact.name;
+    } else if (!signerName) {
+      signerName = `${episode.patient.firstName} ${episode.patient.lastName}`;
+    }
+
+    let attachmentId: string | null = null;
+    if (file) {
+      const fileName = file.name || "consentimiento.pdf";
+      const mimeType = file.type;
+      const buffer = Buffer.from(await file.arrayBuffer());
+      const key = `tenants/${tenantId}/consents/${episode.id}/${Date.now()}-${safeEvidenceFileName(fileName)}`;
+
+      const uploaded = await uploadEvidenceObject({
+        key,
+        body: buffer,
+        contentType: mimeType,
+      });
+
+      const attachment = await db.clinicalAttachment.create({
+        data: {
+          tenantId,
+          patientId: episode.patientId,
+          episodeId: episode.id,
+          kind: "CONSENT",
+          fileKey: uploaded.key,
+          fileUrl: uploaded.url ?? null,
+          fileName,
+          mimeType,
+          size: buffer.length,
+          uploadedById: session.user.id,
+        },
+      });
+      attachmentId = attachment.id;
+    }
+
+    const consent = await db.episodeConsent.create({
+      data: {
+        tenantId,
+        episodeId: episode.id,
+        patientId: episode.patientId,
+        type: parsed.data.type,
+        version: parsed.data.version,
+        signedAt,
+        signerName,
+        signerContactId,
+        attachmentId,
+        notes: parsed.data.notes || null,
+        recordedById: session.user.id,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.consent.create",
+      entityType: "Episode",
+      entityId: episode.id,
+      meta: {
+        consentId: consent.id,
+        type: consent.type,
+        version: consent.version,
+        attachmentId,
+      },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+  revalidatePath("/agenda");
+}
+
+async function revokeConsent(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const consentId = String(formData.get("consentId") ?? "");
+    const consent = await db.episodeConsent.findFirst({
+      where: { id: consentId, tenantId, episodeId, revokedAt: null },
+    });
+    if (!consent) {
+      throw new Error("CONSENT_NOT_FOUND");
+    }
+
+    await db.episodeConsent.update({
+      where: { id: consent.id },
+      data: { revokedAt: new Date(), revokedById: session.user.id },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.consent.revoke",
+      entityType: "Episode",
+      entityId: consent.episodeId,
+      meta: { consentId: consent.id, type: consent.type },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+  revalidatePath("/agenda");
+}
+
+async function recordSuspension(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const parsed = suspensionSchema.safeParse({
+    episodeId: formData.get("episodeId"),
+    reason: formData.get("reason"),
+    startDate: formData.get("startDate"),
+    expectedEndDate: formData.get("expectedEndDate") || undefined,
+    institution: formData.get("institution") || undefined,
+    notes: formData.get("notes") || undefined,
+  });
+  if (!parsed.success) {
+    throw new Error("SUSPENSION_INVALID");
+  }
+  const startDate = new Date(`${parsed.data.startDate}T00:00:00`);
+  const expectedEndDate = parsed.data.expectedEndDate
+    ? new Date(`${parsed.data.expectedEndDate}T00:00:00`)
+    : null;
+  if (
+    Number.isNaN(startDate.getTime()) ||
+    (expectedEndDate && Number.isNaN(expectedEndDate.getTime()))
+  ) {
+    throw new Error("SUSPENSION_INVALID_DATES");
+  }
+
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const episode = await db.episode.findFirst({
+      where: {
+        id: parsed.data.episodeId,
+        tenantId,
+        ...careTeamEpisodeScope(session.user),
+      },
+    });
+    if (!episode) {
+      throw new Error("EPISODE_NOT_FOUND");
+    }
+
+    const result = await suspendEpisode(db, {
+      tenantId,
+      episodeId: episode.id,
+      actorId: session.user.id,
+      reason: parsed.data.reason,
+      institution: parsed.data.institution ?? null,
+      notes: parsed.data.notes ?? null,
+      startDate,
+      expectedEndDate,
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.suspend",
+      entityType: "Episode",
+      entityId: episode.id,
+      meta: {
+        suspensionId: result.suspension.id,
+        reason: result.suspension.reason,
+        pausedVisits: result.pausedVisits,
+        pausedOrders: result.pausedOrders,
+      },
+    });
+  });
+
+  revalidatePath(`/episodes/${parsed.data.episodeId}`);
+  revalidatePath("/episodes");
+  revalidatePath("/agenda");
+}
+
+async function resumeEpisode(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const episodeId = String(formData.get("episodeId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const episode = await db.episode.findFirst({
+      where: { id: episodeId, tenantId, ...careTeamEpisodeScope(session.user) },
+    });
+    if (!episode) {
+      throw new Error("EPISODE_NOT_FOUND");
+    }
+
+    const result = await reactivateEpisode(db, {
+      tenantId,
+      episodeId: episode.id,
+      actorId: session.user.id,
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.reactivate",
+      entityType: "Episode",
+      entityId: episode.id,
+      meta: {
+        suspensionId: result.suspension.id,
+        reason: result.suspension.reason,
+        resumedVisits: result.resumedVisits,
+        resumedOrders: result.resumedOrders,
+        createdVisits: result.carePlanSync?.created ?? 0,
+      },
+    });
+  });
+
+  revalidatePath(`/episodes/${episodeId}`);
+  revalidatePath("/episodes");
+  revalidatePath("/agenda");
+}
+
+async function changeEpisodeStage(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const parsed = stageChangeSchema.safeParse({
+    episodeId: formData.get("episodeId"),
+    workflowStageId: formData.get("workflowStageId") ?? undefined,
+  });
+  if (!parsed.success) {
+    throw new Error("VALIDATION_ERROR");
+  }
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    await moveEpisodeToStage(db, {
+      tenantId,
+      actorId: session.user.id,
+      episodeId: parsed.data.episodeId,
+      stageId: parsed.data.workflowStageId || null,
+      episodeScope: careTeamEpisodeScope(session.user),
+    });
+  });
+
+  revalidatePath(`/episodes/${parsed.data.episodeId}`);
+  revalidatePath("/episodes");
+}
+
 export default async function EpisodeDetailPage({
   params,
+  searchParams,
 }: {
   params: { id: string };
+  searchParams?: SearchParams;
 }) {
   const session = await getServerSession(authOptions);
   const tenantId = session?.user?.tenantId;
@@ -31,11 +1093,32 @@ export default async function EpisodeDetailPage({
     }
 
     const episode = await db.episode.findFirst({
-      where: { id: params.id, tenantId },
+      where: { id: params.id, tenantId, ...careTeamEpisodeScope(session?.user) },
       include: {
-        patient: true,
-        carePlan: true,
+        patient: {
+          include: {
+            allergies: { where: { isActive: true } },
+            problems: { where: { status: "ACTIVE" } },
+          },
+        },
+        carePlan: {
+          include: {
+            objectives: {
+              include: {
+                updates: {
+                  include: { updatedBy: true, note: true },
+                  orderBy: { createdAt: "desc" },
+                },
+              },
+              orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+            },
+          },
+        },
         workflowStage: true,
+        diagnoses: {
+          include: { icd10: true },
+          orderBy: [{ isPrimary: "desc" }, { createdAt: "asc" }],
+        },
         visits: {
           include: {
             assignedUser: true,
@@ -53,6 +1136,32 @@ export default async function EpisodeDetailPage({
       return <p className="text-sm text-muted-foreground">Episodio no encontrado.</p>;
     }
 
+    const diagnosisQuery =
+      typeof searchParams?.dx === "string" ? searchParams.dx.trim() : "";
+    const normalizedQuery = diagnosisQuery
+      ? normalizeIcd10Code(diagnosisQuery)
+      : null;
+    const icd10Matches = diagnosisQuery
+      ? await db.icd10Code.findMany({
+          where: {
+            OR: [
+              ...(normalizedQuery
+                ? [{ code: { startsWith: normalizedQuery } }]
+                : []),
+              { code: { startsWith: diagnosisQuery.toUpperCase() } },
+              {
+                description: {
+                  contains: diagnosisQuery,
+                  mode: "insensitive" as const,
+                },
+              },
+            ],
+          },
+          orderBy: { code: "asc" },
+          take: 20,
+        })
+      : [];
+
     const auditLogs = await db.auditLog.findMany({
       where: {
         tenantId,
@@ -64,14 +1173,171 @@ export default async function EpisodeDetailPage({
       take: 50,
     });
 
-    const stageNameById = new Map(
-      (
-        await db.episodeWorkflowStage.findMany({
-          where: { tenantId },
+    const vitalSigns = await db.vitalSign.findMany({
+      where: { tenantId, episodeId: episode.id },
+      orderBy: { recordedAt: "asc" },
+    });
+    const policy = await db.tenantPolicy.findUnique({ where: { tenantId } });
+    const vitalThresholds = resolveVitalThresholds(policy?.vitalThresholds);
+    const vitalTrends = vitalSignFields
+      .map((field) => ({
+        field,
+        points: vitalSigns.flatMap((vital) => {
+          const value = vital[field.key];
+          return value !== null ? [{ at: vital.recordedAt, value }] : [];
+        }),
+      }))
+      .filter((trend) => trend.points.length > 0);
+
+    const scaleAssessments = await db.scaleAssessment.findMany({
+      where: { tenantId, episodeId: episode.id },
+      include: { performedBy: true },
+      orderBy: { performedAt: "asc" },
+    });
+    const scaleHistory = Object.values(assessmentScales)
+      .map((scale) => ({
+        scale,
+        assessments: scaleAssessments.filter(
+          (assessment) => assessment.scale === scale.code,
+        ),
+      }))
+      .filter((entry) => entry.assessments.length > 0);
+
+    const dischargeSummary =
+      episode.status === "DISCHARGED"
+        ? await db.clinicalAttachment.findFirst({
+            where: {
+              tenantId,
+              episodeId: episode.id,
+              kind: "DISCHARGE_SUMMARY",
+            },
+            orderBy: { createdAt: "desc" },
+          })
+        : null;
+
+    const wounds = await db.wound.findMany({
+      where: { tenantId, episodeId: episode.id },
+      include: {
+        measurements: {
+          include: { recordedBy: true },
+          orderBy: { recordedAt: "asc" },
+        },
+        photos: { orderBy: { createdAt: "asc" } },
+      },
+      orderBy: [{ status: "asc" }, { identifiedAt: "asc" }],
+    });
+    const woundEvolutions = wounds.map((wound) => ({
+      wound,
+      evolution: buildWoundEvolution(wound.measurements, wound.photos),
+    }));
+
+    const careTeam = await db.episodeCareTeamMember.findMany({
+      where: { tenantId, episodeId: episode.id },
+      include: { user: true },
+      orderBy: [{ role: "asc" }, { startDate: "desc" }],
+    });
+    const canManageTeam =
+      session?.user?.role === Role.ADMIN_TENANT ||
+      session?.user?.role === Role.COORDINACION;
+    const teamCandidates = canManageTeam
+      ? await db.user.findMany({
+          where: { tenantId, isActive: true },
+          orderBy: { name: "asc" },
         })
-      ).map((stage) => [stage.id, stage.name]),
+      : [];
+
+    const consents = await db.episodeConsent.findMany({
+      where: { tenantId, episodeId: episode.id },
+      include: {
+        signerContact: true,
+        recordedBy: true,
+        revokedBy: true,
+        attachment: true,
+      },
+      orderBy: { signedAt: "desc" },
+    });
+    const patientContacts = await db.patientContact.findMany({
+      where: { tenantId, patientId: episode.patientId, isActive: true },
+      orderBy: [{ isPrimary: "desc" }, { name: "asc" }],
+    });
+
+    const suspensions = await db.episodeSuspension.findMany({
+      where: { tenantId, episodeId: episode.id },
+      include: {
+        suspendedBy: true,
+        reactivatedBy: true,
+        _count: { select: { visits: true, medicationOrders: true } },
+      },
+      orderBy: { startDate: "desc" },
+    });
+    const openSuspension =
+      episode.status === "SUSPENDED"
+        ? (suspensions.find((suspension) => !suspension.endDate) ?? null)
+        : null;
+    const readmission = findReadmission(
+      episode,
+      await db.episode.findMany({
+        where: {
+          tenantId,
+          patientId: episode.patientId,
+          status: "DISCHARGED",
+          endDate: { lte: episode.startDate },
+        },
+        select: {
+          id: true,
+          patientId: true,
+          status: true,
+          startDate: true,
+          endDate: true,
+        },
+      }),
     );
 
+    const workflowStages = await db.episodeWorkflowStage.findMany({
+      where: { tenantId },
+      orderBy: { sortOrder: "asc" },
+    });
+    const stageNameById = new Map(
+      workflowStages.map((stage) => [stage.id, stage.name]),
+    );
+    const transitions = await db.episodeWorkflowTransition.findMany({
+      where: { tenantId },
+      select: { fromStageId: true, toStageId: true },
+    });
+    const stageHistory = await db.episodeStageHistory.findMany({
+      where: { tenantId, episodeId: episode.id },
+      include: { enteredBy: true },
+      orderBy: { enteredAt: "desc" },
+    });
+    const currentStageEntry =
+      stageHistory.find((entry) => !entry.exitedAt) ?? null;
+    const stageTargets =
+      episode.status === "ACTIVE" || episode.status === "SUSPENDED"
+        ? await Promise.all(
+            workflowStages
+              .filter(
+                (stage) =>
+                  stage.id !== episode.workflowStageId &&
+                  isTransitionAllowed(
+                    transitions,
+                    episode.workflowStageId,
+                    stage.id,
+                  ),
+              )
+              .map(async (stage) => ({
+                stage,
+                unmet: await findUnmetStageConditions(db, {
+                  tenantId,
+                  episodeId: episode.id,
+                  conditions: stage.entryConditions,
+                }),
+              })),
+          )
+        : [];
+    const now = new Date();
+    const missingConsents = missingConsentTypes(consents, now);
+    const canRevokeConsent = canManageTeam;
+
     const timeline: TimelineEvent[] = [
       {
         at: episode.startDate,
@@ -129,7 +1395,7 @@ export default async function EpisodeDetailPage({
       visit.clinicalNotes.forEach((note) => {
         timeline.push({
           at: note.createdAt,
-          title: "Nota clinica",
+          title: note.amendsId ? "Addenda de nota clinica" : "Nota clinica",
           detail: note.content,
         });
       });
@@ -149,11 +1415,65 @@ export default async function EpisodeDetailPage({
       });
     });
 
+    consents.forEach((consent) => {
+      timeline.push({
+        at: consent.signedAt,
+        title: `Consentimiento firmado: ${consentTypeLabels[consent.type]}`,
+        detail: `v${consent.version} - ${consent.signerName}`,
+      });
+    });
+
+    suspensions.forEach((suspension) => {
+      timeline.push({
+        at: suspension.startDate,
+        title: `Episodio suspendido: ${suspensionReasonLabels[suspension.reason]}`,
+        detail: suspension.institution ?? suspension.notes ?? undefined,
+      });
+      if (suspension.reactivatedAt) {
+        timeline.push({
+          at: suspension.reactivatedAt,
+          title: "Episodio reactivado",
+          detail: `${suspensionDays(suspension, now)} dias suspendido`,
+        });
+      }
+    });
+
+    scaleAssessments.forEach((assessment) => {
+      timeline.push({
+        at: assessment.performedAt,
+        title: `Escala ${assessmentScales[assessment.scale].name}`,
+        detail: `${assessment.score}/${assessment.maxScore} - ${assessment.interpretation}`,
+      });
+    });
+
+    wounds.forEach((wound) => {
+      wound.measurements.forEach((measurement) => {
+        timeline.push({
+          at: measurement.recordedAt,
+          title: `Herida: ${wound.location}`,
+          detail: describeWoundDimensions(measurement),
+        });
+      });
+    });
+
+    vitalSigns.forEach((vital) => {
+      const alerts = Array.isArray(vital.alerts)
+        ? (vital.alerts as VitalAlert[])
+        : [];
+      if (alerts.length > 0) {
+        timeline.push({
+          at: vital.recordedAt,
+          title: "Signos vitales fuera de rango",
+          detail: alerts.map(describeVitalAlert).join("; "),
+        });
+      }
+    });
+
     timeline.sort((a, b) => b.at.getTime() - a.at.getTime());
 
-    const careObjectives = Array.isArray(episode.carePlan?.objectives)
-      ? (episode.carePlan?.objectives as string[])
-      : [];
+    const careObjectives = episode.carePlan?.objectives ?? [];
+    const objectiveProgress = summarizeObjectives(careObjectives);
+    const recurrence = parseRecurrence(episode.carePlan?.recurrence);
 
     return (
       <div className="space-y-6">
@@ -163,21 +1483,51 @@ export default async function EpisodeDetailPage({
               Episodio
             </p>
             <h1 className="text-2xl font-semibold">
-              {episode.patient.lastName}, {episode.patient.firstName}
+              <Link
+                href={`/patients/${episode.patient.id}`}
+                className="hover:underline"
+              >
+                {episode.patient.lastName}, {episode.patient.firstName}
+              </Link>
             </h1>
             <p className="text-sm text-muted-foreground">
-              Estado: {episode.status}{" "}
+              Estado: {episodeStatusLabels[episode.status]}{" "}
               {episode.workflowStage ? `- ${episode.workflowStage.name}` : ""}
             </p>
           </div>
-          <Link
-            href="/episodes"
-            className="rounded-md border px-3 py-2 text-sm"
-          >
-            Volver a episodios
-          </Link>
+          <div className="flex gap-2">
+            <Link
+              href={`/episodes/${episode.id}/notes`}
+              className="rounded-md border px-3 py-2 text-sm"
+            >
+              Notas
+            </Link>
+            <Link
+              href={`/episodes/${episode.id}/medications`}
+              className="rounded-md border px-3 py-2 text-sm"
+            >
+              Medicacion
+            </Link>
+            <a
+              href={`/api/episodes/${episode.id}/fhir`}
+              className="rounded-md border px-3 py-2 text-sm"
+            >
+              Exportar FHIR
+            </a>
+            <Link
+              href="/episodes"
+              className="rounded-md border px-3 py-2 text-sm"
+            >
+              Volver a episodios
+            </Link>
+          </div>
         </div>
 
+        <PatientAlertsBanner
+          allergies={episode.patient.allergies}
+          problems={episode.patient.problems}
+        />
+
         <div className="grid gap-4 md:grid-cols-2">
           <div className="rounded-lg border p-4">
             <h2 className="text-lg font-semibold">Resumen</h2>
@@ -191,7 +1541,576 @@ export default async function EpisodeDetailPage({
               </div>
               <div>Diagnostico: {episode.diagnosis ?? "Sin diagnostico"}</div>
               <div>Notas: {episode.notes ?? "Sin notas"}</div>
+              {episode.status === "DISCHARGED" ? (
+                <div>Resultado al alta: {episode.dischargeOutcome ?? "-"}</div>
+              ) : null}
             </div>
+            {episode.status === "DISCHARGED" ? (
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                {dischargeSummary ? (
+                  <a
+                    href={`/api/episodes/${episode.id}/discharge-summary`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="rounded-md border px-3 py-2 text-xs"
+                  >
+                    Descargar epicrisis (
+                    {dischargeSummary.createdAt.toLocaleDateString("es-AR")})
+                  </a>
+                ) : null}
+                <form action={regenerateDischargeSummary}>
+                  <input type="hidden" name="episodeId" value={episode.id} />
+                  <Button size="sm" variant="outline" type="submit">
+                    {dischargeSummary ? "Regenerar epicrisis" : "Generar epicrisis"}
+                  </Button>
+                </form>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Workflow</h2>
+            <div className="mt-2 text-sm text-muted-foreground">
+              <div>Estado actual: {episode.workflowStage?.name ?? "Sin estado"}</div>
+              {currentStageEntry ? (
+                <>
+                  <div>
+                    Desde: {currentStageEntry.enteredAt.toLocaleString("es-AR")}{" "}
+                    ({formatStageDuration(stageDurationHours(currentStageEntry, now))})
+                  </div>
+                  <div>
+                    Vence:{" "}
+                    {currentStageEntry.dueAt
+                      ? currentStageEntry.dueAt.toLocaleString("es-AR")
+                      : "Sin SLA"}
+                  </div>
+                  {isStageOverdue(currentStageEntry, now) ? (
+                    <div className="font-medium text-destructive">
+                      SLA vencido
+                    </div>
+                  ) : null}
+                </>
+              ) : null}
+            </div>
+            {episode.status === "ACTIVE" || episode.status === "SUSPENDED" ? (
+              stageTargets.length > 0 ? (
+                <ul className="mt-3 space-y-2 text-sm">
+                  {stageTargets.map(({ stage, unmet }) => (
+                    <li
+                      key={stage.id}
+                      className="flex flex-wrap items-center justify-between gap-2"
+                    >
+                      <div>
+                        <div>
+                          {stage.name}
+                          {stage.slaHours ? ` (SLA ${stage.slaHours} h)` : ""}
+                        </div>
+                        {unmet.length > 0 ? (
+                          <div className="text-xs text-destructive">
+                            Falta:{" "}
+                            {unmet
+                              .map(
+                                (condition) =>
+                                  stageEntryConditionLabels[condition],
+                              )
+                              .join(", ")}
+                          </div>
+                        ) : null}
+                      </div>
+                      <form action={changeEpisodeStage}>
+                        <input type="hidden" name="episodeId" value={episode.id} />
+                        <input
+                          type="hidden"
+                          name="workflowStageId"
+                          value={stage.id}
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          type="submit"
+                          disabled={unmet.length > 0}
+                        >
+                          Pasar a {stage.name}
+                        </Button>
+                      </form>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-3 text-xs text-muted-foreground">
+                  Sin transiciones disponibles desde el estado actual.
+                </p>
+              )
+            ) : null}
+            {stageHistory.length > 0 ? (
+              <table className="mt-3 w-full text-xs">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="py-1">Estado</th>
+                    <th className="py-1">Ingreso</th>
+                    <th className="py-1">Duracion</th>
+                    <th className="py-1">SLA</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stageHistory.map((entry) => (
+                    <tr key={entry.id} className="border-t">
+                      <td className="py-1">
+                        {entry.stageName}
+                        {entry.enteredBy
+                          ? ` - ${entry.enteredBy.name ?? entry.enteredBy.email}`
+                          : ""}
+                      </td>
+                      <td className="py-1">
+                        {entry.enteredAt.toLocaleString("es-AR")}
+                      </td>
+                      <td className="py-1">
+                        {formatStageDuration(stageDurationHours(entry, now))}
+                        {entry.exitedAt ? "" : " (en curso)"}
+                      </td>
+                      <td className="py-1">
+                        {entry.dueAt
+                          ? isStageOverdue(entry, now)
+                            ? "Vencido"
+                            : "En termino"
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4 md:col-span-2">
+            <h2 className="text-lg font-semibold">Equipo de cuidado</h2>
+            <p className="text-xs text-muted-foreground">
+              Las visitas nuevas se asignan al integrante activo segun el tipo
+              de visita. Los profesionales solo ven pacientes de sus equipos.
+            </p>
+            <ul className="mt-2 space-y-1 text-sm">
+              {careTeam.map((member) => {
+                const active = isTeamMemberActive(member, now);
+                return (
+                  <li
+                    key={member.id}
+                    className="flex flex-wrap items-center justify-between gap-2"
+                  >
+                    <span className={active ? "" : "text-muted-foreground"}>
+                      {careTeamRoleLabels[member.role]}:{" "}
+                      {member.user.name ?? member.user.email} (
+                      {member.startDate.toLocaleDateString("es-AR")} -{" "}
+                      {member.endDate
+                        ? member.endDate.toLocaleDateString("es-AR")
+                        : "actual"}
+                      )
+                    </span>
+                    {canManageTeam && active ? (
+                      <form action={endCareTeamMember}>
+                        <input type="hidden" name="episodeId" value={episode.id} />
+                        <input type="hidden" name="memberId" value={member.id} />
+                        <Button size="sm" variant="outline" type="submit">
+                          Finalizar
+                        </Button>
+                      </form>
+                    ) : null}
+                  </li>
+                );
+              })}
+              {careTeam.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin equipo asignado.
+                </li>
+              ) : null}
+            </ul>
+            {canManageTeam ? (
+              <form
+                action={addCareTeamMember}
+                className="mt-3 grid gap-2 md:grid-cols-5"
+              >
+                <input type="hidden" name="episodeId" value={episode.id} />
+                <select
+                  name="userId"
+                  className="h-10 rounded-md border bg-background px-3 text-sm"
+                  required
+                >
+                  <option value="">Integrante...</option>
+                  {teamCandidates.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.name ?? user.email}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  name="role"
+                  className="h-10 rounded-md border bg-background px-3 text-sm"
+                  required
+                >
+                  {Object.values(CareTeamRole).map((role) => (
+                    <option key={role} value={role}>
+                      {careTeamRoleLabels[role]}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  name="startDate"
+                  type="date"
+                  defaultValue={now.toISOString().slice(0, 10)}
+                  required
+                />
+                <Input name="endDate" type="date" />
+                <Button type="submit">Agregar al equipo</Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4 md:col-span-2">
+            <h2 className="text-lg font-semibold">Suspensiones e internaciones</h2>
+            {readmission ? (
+              <p className="text-xs text-muted-foreground">
+                Reingreso: comenzo {readmission.daysSinceDischarge} dias despues
+                del alta de un{" "}
+                <Link
+                  href={`/episodes/${readmission.previousEpisodeId}`}
+                  className="underline"
+                >
+                  episodio anterior
+                </Link>
+                .
+              </p>
+            ) : null}
+            {openSuspension ? (
+              <div className="mt-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                Suspendido desde{" "}
+                {openSuspension.startDate.toLocaleDateString("es-AR")} (
+                {suspensionReasonLabels[openSuspension.reason]}
+                {openSuspension.institution
+                  ? ` - ${openSuspension.institution}`
+                  : ""}
+                ). Regreso estimado:{" "}
+                {openSuspension.expectedEndDate
+                  ? openSuspension.expectedEndDate.toLocaleDateString("es-AR")
+                  : "sin definir"}
+                . Visitas e indicaciones en pausa hasta la reactivacion.
+              </div>
+            ) : null}
+            <ul className="mt-2 space-y-1 text-sm">
+              {suspensions.map((suspension) => (
+                <li
+                  key={suspension.id}
+                  className="flex flex-wrap items-center justify-between gap-2"
+                >
+                  <span>
+                    {suspensionReasonLabels[suspension.reason]} -{" "}
+                    {suspension.startDate.toLocaleDateString("es-AR")} a{" "}
+                    {suspension.endDate
+                      ? suspension.endDate.toLocaleDateString("es-AR")
+                      : "en curso"}{" "}
+                    ({suspensionDays(suspension, now)} dias)
+                    {suspension.institution
+                      ? ` - ${suspension.institution}`
+                      : ""}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    Suspendido por{" "}
+                    {suspension.suspendedBy?.name ??
+                      suspension.suspendedBy?.email ??
+                      "-"}
+                    {suspension.reactivatedAt
+                      ? ` - Reactivado por ${
+                          suspension.reactivatedBy?.name ??
+                          suspension.reactivatedBy?.email ??
+                          "-"
+                        }`
+                      : suspension.endDate
+                        ? " - Cerrado por alta"
+                        : ""}
+                    {suspension.endDate
+                      ? ` - Visitas no reanudadas: ${suspension._count.visits}`
+                      : ` - En pausa: ${suspension._count.visits} visitas, ${suspension._count.medicationOrders} indicaciones`}
+                  </span>
+                </li>
+              ))}
+              {suspensions.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin suspensiones registradas.
+                </li>
+              ) : null}
+            </ul>
+            {session?.user?.role !== Role.AUDITOR &&
+            episode.status === "ACTIVE" ? (
+              <form
+                action={recordSuspension}
+                className="mt-3 grid gap-2 md:grid-cols-3"
+              >
+                <input type="hidden" name="episodeId" value={episode.id} />
+                <select
+                  name="reason"
+                  className="h-10 rounded-md border bg-background px-3 text-sm"
+                  defaultValue={EpisodeSuspensionReason.HOSPITALIZATION}
+                  required
+                >
+                  {Object.values(EpisodeSuspensionReason).map((reason) => (
+                    <option key={reason} value={reason}>
+                      {suspensionReasonLabels[reason]}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  name="startDate"
+                  type="date"
+                  defaultValue={now.toISOString().slice(0, 10)}
+                  max={now.toISOString().slice(0, 10)}
+                  required
+                />
+                <Input
+                  name="expectedEndDate"
+                  type="date"
+                  title="Regreso estimado"
+                />
+                <Input
+                  name="institution"
+                  placeholder="Institucion de internacion"
+                />
+                <Input name="notes" placeholder="Observaciones" />
+                <Button type="submit" variant="outline">
+                  Suspender episodio
+                </Button>
+              </form>
+            ) : null}
+            {session?.user?.role !== Role.AUDITOR && openSuspension ? (
+              <form action={resumeEpisode} className="mt-3">
+                <input type="hidden" name="episodeId" value={episode.id} />
+                <Button type="submit">Reactivar episodio</Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4 md:col-span-2">
+            <h2 className="text-lg font-semibold">Consentimientos</h2>
+            <p className="text-xs text-muted-foreground">
+              Requeridos antes del check-in de la primera visita:{" "}
+              {requiredConsentTypes
+                .map((type) => consentTypeLabels[type])
+                .join(", ")}
+              .
+            </p>
+            {missingConsents.length > 0 ? (
+              <p className="mt-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                Faltan:{" "}
+                {missingConsents
+                  .map((type) => consentTypeLabels[type])
+                  .join(", ")}
+              </p>
+            ) : null}
+            <ul className="mt-2 space-y-1 text-sm">
+              {consents.map((consent) => (
+                <li
+                  key={consent.id}
+                  className="flex flex-wrap items-center justify-between gap-2"
+                >
+                  <span
+                    className={
+                      consent.revokedAt ? "text-muted-foreground line-through" : ""
+                    }
+                  >
+                    {consentTypeLabels[consent.type]} v{consent.version} -{" "}
+                    {consent.signedAt.toLocaleDateString("es-AR")} - Firma:{" "}
+                    {consent.signerName}
+                    {consent.signerContact
+                      ? ` (${contactRelationshipLabels[consent.signerContact.relationship]})`
+                      : ""}
+                  </span>
+                  <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {consent.revokedAt
+                      ? `Revocado ${consent.revokedAt.toLocaleDateString("es-AR")}${
+                          consent.revokedBy
+                            ? ` por ${consent.revokedBy.name ?? consent.revokedBy.email}`
+                            : ""
+                        }`
+                      : `Registrado por ${
+                          consent.recordedBy?.name ??
+                          consent.recordedBy?.email ??
+                          "-"
+                        }`}
+                    {consent.attachment ? (
+                      <a
+                        href={`/api/episodes/${episode.id}/consents/${consent.id}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="rounded-md border px-2 py-1"
+                      >
+                        Documento
+                      </a>
+                    ) : null}
+                    {canRevokeConsent && !consent.revokedAt ? (
+                      <form action={revokeConsent}>
+                        <input type="hidden" name="episodeId" value={episode.id} />
+                        <input type="hidden" name="consentId" value={consent.id} />
+                        <Button size="sm" variant="outline" type="submit">
+                          Revocar
+                        </Button>
+                      </form>
+                    ) : null}
+                  </span>
+                </li>
+              ))}
+              {consents.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin consentimientos registrados.
+                </li>
+              ) : null}
+            </ul>
+            {session?.user?.role !== Role.AUDITOR ? (
+              <form
+                action={recordConsent}
+                className="mt-3 grid gap-2 md:grid-cols-3"
+              >
+                <input type="hidden" name="episodeId" value={episode.id} />
+                <select
+                  name="type"
+                  className="h-10 rounded-md border bg-background px-3 text-sm"
+                  defaultValue={missingConsents[0] ?? ConsentType.ADMISSION}
+                  required
+                >
+                  {Object.values(ConsentType).map((type) => (
+                    <option key={type} value={type}>
+                      {consentTypeLabels[type]}
+                    </option>
+                  ))}
+                </select>
+                <Input name="version" placeholder="Version (ej. 2.1)" required />
+                <Input
+                  name="signedAt"
+                  type="date"
+                  defaultValue={now.toISOString().slice(0, 10)}
+                  max={now.toISOString().slice(0, 10)}
+                  required
+                />
+                <select
+                  name="signerContactId"
+                  className="h-10 rounded-md border bg-background px-3 text-sm"
+                >
+                  <option value="">Firma el paciente / otro</option>
+                  {patientContacts.map((contact) => (
+                    <option key={contact.id} value={contact.id}>
+                      {contact.name} (
+                      {contactRelationshipLabels[contact.relationship]})
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  name="signerName"
+                  placeholder="Nombre del firmante (si no es contacto)"
+                />
+                <Input name="file" type="file" accept="application/pdf,image/*" />
+                <Input
+                  name="notes"
+                  placeholder="Observaciones"
+                  className="md:col-span-2"
+                />
+                <Button type="submit">Registrar consentimiento</Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4 md:col-span-2">
+            <h2 className="text-lg font-semibold">Diagnosticos CIE-10</h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {episode.diagnoses.map((diagnosis) => (
+                <li key={diagnosis.id} className="flex items-center gap-2">
+                  <span className="font-mono">{diagnosis.code}</span>
+                  <span>{diagnosis.icd10.description}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {diagnosis.isPrimary ? "Principal" : "Secundario"}
+                  </span>
+                  <div className="ml-auto flex gap-2">
+                    {!diagnosis.isPrimary ? (
+                      <form action={setPrimaryDiagnosis}>
+                        <input
+                          type="hidden"
+                          name="diagnosisId"
+                          value={diagnosis.id}
+                        />
+                        <Button size="sm" variant="outline" type="submit">
+                          Marcar principal
+                        </Button>
+                      </form>
+                    ) : null}
+                    <form action={removeEpisodeDiagnosis}>
+                      <input
+                        type="hidden"
+                        name="diagnosisId"
+                        value={diagnosis.id}
+                      />
+                      <Button size="sm" variant="outline" type="submit">
+                        Quitar
+                      </Button>
+                    </form>
+                  </div>
+                </li>
+              ))}
+              {episode.diagnoses.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin diagnosticos codificados.
+                </li>
+              ) : null}
+            </ul>
+            <form className="mt-3 flex gap-2">
+              <Input
+                name="dx"
+                defaultValue={diagnosisQuery}
+                placeholder="Buscar por codigo o descripcion"
+                className="h-9 w-72"
+              />
+              <Button size="sm" variant="secondary" type="submit">
+                Buscar
+              </Button>
+            </form>
+            {diagnosisQuery ? (
+              <ul className="mt-2 space-y-1 text-sm">
+                {icd10Matches.map((match) => (
+                  <li key={match.code} className="flex items-center gap-2">
+                    <span>{formatDiagnosis({ code: match.code, icd10: match })}</span>
+                    {episode.diagnoses.some(
+                      (diagnosis) => diagnosis.code === match.code,
+                    ) ? null : (
+                      <div className="ml-auto flex gap-2">
+                        <form action={addEpisodeDiagnosis}>
+                          <input
+                            type="hidden"
+                            name="episodeId"
+                            value={episode.id}
+                          />
+                          <input type="hidden" name="code" value={match.code} />
+                          <input type="hidden" name="isPrimary" value="true" />
+                          <Button size="sm" type="submit">
+                            Principal
+                          </Button>
+                        </form>
+                        <form action={addEpisodeDiagnosis}>
+                          <input
+                            type="hidden"
+                            name="episodeId"
+                            value={episode.id}
+                          />
+                          <input type="hidden" name="code" value={match.code} />
+                          <input type="hidden" name="isPrimary" value="false" />
+                          <Button size="sm" variant="outline" type="submit">
+                            Secundario
+                          </Button>
+                        </form>
+                      </div>
+                    )}
+                  </li>
+                ))}
+                {icd10Matches.length === 0 ? (
+                  <li className="text-xs text-muted-foreground">
+                    Sin resultados en el catalogo CIE-10.
+                  </li>
+                ) : null}
+              </ul>
+            ) : null}
           </div>
 
           <div className="rounded-lg border p-4">
@@ -202,20 +2121,17 @@ export default async function EpisodeDetailPage({
                 <div>
                   Frecuencia: {episode.carePlan.frequency ?? "Sin definir"}
                 </div>
-                <div className="mt-2 text-xs font-medium text-foreground">
-                  Objetivos
+                <div>
+                  Recurrencia:{" "}
+                  {recurrence ? describeRecurrence(recurrence) : "Manual"}
+                </div>
+                <div>
+                  Objetivos cumplidos: {objectiveProgress.met}/
+                  {objectiveProgress.total}
+                  {objectiveProgress.overdue > 0
+                    ? ` (${objectiveProgress.overdue} vencidos)`
+                    : ""}
                 </div>
-                {careObjectives.length > 0 ? (
-                  <ul className="mt-1 space-y-1 text-xs">
-                    {careObjectives.map((objective, index) => (
-                      <li key={`${episode.id}-obj-${index}`}>- {objective}</li>
-                    ))}
-                  </ul>
-                ) : (
-                  <p className="text-xs text-muted-foreground">
-                    Sin objetivos cargados.
-                  </p>
-                )}
               </div>
             ) : (
               <p className="mt-2 text-sm text-muted-foreground">
@@ -225,6 +2141,402 @@ export default async function EpisodeDetailPage({
           </div>
         </div>
 
+        {episode.carePlan ? (
+          <div className="rounded-lg border p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold">Objetivos del plan</h2>
+              <div className="text-xs text-muted-foreground">
+                {objectiveProgress.met} cumplidos,{" "}
+                {objectiveProgress.inProgress} en progreso,{" "}
+                {objectiveProgress.pending} pendientes,{" "}
+                {objectiveProgress.notMet} no cumplidos
+              </div>
+            </div>
+            {objectiveProgress.total > 0 ? (
+              <div className="mt-2 h-2 w-full overflow-hidden rounded bg-muted">
+                <div
+                  className="h-full bg-emerald-600"
+                  style={{
+                    width: `${Math.round((objectiveProgress.metRate ?? 0) * 100)}%`,
+                  }}
+                />
+              </div>
+            ) : null}
+            <form
+              action={addCarePlanObjective}
+              className="mt-3 grid gap-2 md:grid-cols-5"
+            >
+              <input type="hidden" name="episodeId" value={episode.id} />
+              <Input name="description" placeholder="Objetivo" required />
+              <Input name="target" placeholder="Meta medible" />
+              <Input name="dueDate" type="date" />
+              <select
+                name="profession"
+                className="h-10 rounded-md border bg-background px-3 text-sm"
+                defaultValue=""
+              >
+                <option value="">Sin profesion</option>
+                {Object.values(NoteSpecialty).map((specialty) => (
+                  <option key={specialty} value={specialty}>
+                    {noteSpecialtyLabels[specialty]}
+                  </option>
+                ))}
+              </select>
+              <Button type="submit">Agregar objetivo</Button>
+            </form>
+            <div className="mt-3 space-y-3">
+              {careObjectives.map((objective) => (
+                <div key={objective.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="font-medium">{objective.description}</div>
+                    <span
+                      className={`rounded px-2 py-0.5 text-xs ${
+                        isObjectiveOverdue(objective)
+                          ? "bg-destructive/10 text-destructive"
+                          : "bg-muted"
+                      }`}
+                    >
+                      {objectiveStatusLabels[objective.status]}
+                      {isObjectiveOverdue(objective) ? " - vencido" : ""}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Meta: {objective.target ?? "-"} | Plazo:{" "}
+                    {objective.dueDate
+                      ? objective.dueDate.toLocaleDateString("es-AR")
+                      : "-"}{" "}
+                    | Profesion:{" "}
+                    {objective.profession
+                      ? noteSpecialtyLabels[objective.profession]
+                      : "-"}
+                  </div>
+                  <form
+                    action={updateCarePlanObjective}
+                    className="mt-2 grid gap-2 md:grid-cols-6"
+                  >
+                    <input
+                      type="hidden"
+                      name="objectiveId"
+                      value={objective.id}
+                    />
+                    <Input
+                      name="target"
+                      defaultValue={objective.target ?? ""}
+                      placeholder="Meta medible"
+                    />
+                    <Input
+                      name="dueDate"
+                      type="date"
+                      defaultValue={
+                        objective.dueDate
+                          ? objective.dueDate.toISOString().slice(0, 10)
+                          : ""
+                      }
+                    />
+                    <select
+                      name="profession"
+                      className="h-10 rounded-md border bg-background px-3 text-sm"
+                      defaultValue={objective.profession ?? ""}
+                    >
+                      <option value="">Sin profesion</option>
+                      {Object.values(NoteSpecialty).map((specialty) => (
+                        <option key={specialty} value={specialty}>
+                          {noteSpecialtyLabels[specialty]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      name="status"
+                      className="h-10 rounded-md border bg-background px-3 text-sm"
+                      defaultValue={objective.status}
+                    >
+                      {Object.values(CarePlanObjectiveStatus).map((status) => (
+                        <option key={status} value={status}>
+                          {objectiveStatusLabels[status]}
+                        </option>
+                      ))}
+                    </select>
+                    <Input name="comment" placeholder="Comentario de avance" />
+                    <Button size="sm" type="submit">
+                      Guardar
+                    </Button>
+                  </form>
+                  {objective.updates.length > 0 ? (
+                    <details className="mt-2 text-xs text-muted-foreground">
+                      <summary className="cursor-pointer">
+                        Avances ({objective.updates.length})
+                      </summary>
+                      <ul className="mt-1 space-y-1">
+                        {objective.updates.map((update) => (
+                          <li key={update.id}>
+                            {update.createdAt.toLocaleString("es-AR")} -{" "}
+                            {objectiveStatusLabels[update.status]} -{" "}
+                            {update.updatedBy.name ?? update.updatedBy.email}
+                            {update.comment ? `: ${update.comment}` : ""}
+                            {update.note ? " (nota de visita)" : ""}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  ) : null}
+                </div>
+              ))}
+              {careObjectives.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Sin objetivos cargados.
+                </p>
+              ) : null}
+            </div>
+          </div>
+        ) : null}
+
+        <div className="rounded-lg border p-4">
+          <h2 className="text-lg font-semibold">Signos vitales</h2>
+          {vitalTrends.length > 0 ? (
+            <div className="mt-3 grid gap-3 md:grid-cols-3">
+              {vitalTrends.map((trend) => (
+                <VitalTrendChart
+                  key={trend.field.key}
+                  label={trend.field.label}
+                  unit={trend.field.unit}
+                  points={trend.points}
+                  min={vitalThresholds[trend.field.key].min}
+                  max={vitalThresholds[trend.field.key].max}
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="mt-2 text-sm text-muted-foreground">
+              Sin signos vitales registrados.
+            </p>
+          )}
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold">Escalas de valoracion</h2>
+            {scaleHistory.length > 0 ? (
+              <a
+                href={`/api/episodes/${episode.id}/assessments/export`}
+                className="rounded-md border px-3 py-2 text-xs"
+              >
+                Exportar CSV
+              </a>
+            ) : null}
+          </div>
+          {scaleHistory.length > 0 ? (
+            <div className="mt-3 grid gap-3 md:grid-cols-3">
+              {scaleHistory.map(({ scale, assessments }) => (
+                <div key={scale.code} className="space-y-2">
+                  <VitalTrendChart
+                    label={scale.name}
+                    unit={`/ ${assessments[assessments.length - 1].maxScore}`}
+                    points={assessments.map((assessment) => ({
+                      at: assessment.performedAt,
+                      value: assessment.score,
+                    }))}
+                    min={null}
+                    max={null}
+                  />
+                  <ul className="space-y-1 text-xs text-muted-foreground">
+                    {[...assessments].reverse().map((assessment) => (
+                      <li key={assessment.id}>
+                        {assessment.performedAt.toLocaleDateString("es-AR")}:{" "}
+                        {assessment.score} - {assessment.interpretation} (
+                        {assessment.performedBy.name ??
+                          assessment.performedBy.email}
+                        )
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-2 text-sm text-muted-foreground">
+              Sin escalas registradas.
+            </p>
+          )}
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <h2 className="text-lg font-semibold">Heridas</h2>
+          <form action={createWound} className="mt-3 grid gap-2 md:grid-cols-5">
+            <input type="hidden" name="episodeId" value={episode.id} />
+            <Input
+              name="location"
+              placeholder="Localizacion (ej: sacro)"
+              required
+            />
+            <select
+              name="type"
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+              defaultValue={WoundType.PRESSURE_INJURY}
+            >
+              {Object.values(WoundType).map((type) => (
+                <option key={type} value={type}>
+                  {woundTypeLabels[type]}
+                </option>
+              ))}
+            </select>
+            <select
+              name="stage"
+              className="h-10 rounded-md border bg-background px-3 text-sm"
+              defaultValue=""
+            >
+              <option value="">Sin estadio</option>
+              {Object.values(WoundStage).map((stage) => (
+                <option key={stage} value={stage}>
+                  {woundStageLabels[stage]}
+                </option>
+              ))}
+            </select>
+            <Input name="notes" placeholder="Observaciones" />
+            <Button type="submit">Registrar herida</Button>
+          </form>
+          {woundEvolutions.length > 0 ? (
+            <div className="mt-4 space-y-4">
+              {woundEvolutions.map(({ wound, evolution }) => (
+                <div key={wound.id} className="rounded-md border p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <div className="font-medium">
+                        {wound.location} - {woundTypeLabels[wound.type]}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {wound.stage
+                          ? woundStageLabels[wound.stage]
+                          : "Sin estadio"}{" "}
+                        | {woundStatusLabels[wound.status]} | Desde{" "}
+                        {wound.identifiedAt.toLocaleDateString("es-AR")}
+                        {wound.healedAt
+                          ? ` | Cicatrizada ${wound.healedAt.toLocaleDateString("es-AR")}`
+                          : ""}
+                      </div>
+                      {wound.notes ? (
+                        <div className="text-xs text-muted-foreground">
+                          {wound.notes}
+                        </div>
+                      ) : null}
+                    </div>
+                    <form action={updateWoundStatus}>
+                      <input type="hidden" name="woundId" value={wound.id} />
+                      <input
+                        type="hidden"
+                        name="status"
+                        value={
+                          wound.status === WoundStatus.ACTIVE
+                            ? WoundStatus.HEALED
+                            : WoundStatus.ACTIVE
+                        }
+                      />
+                      <Button size="sm" variant="outline" type="submit">
+                        {wound.status === WoundStatus.ACTIVE
+                          ? "Marcar cicatrizada"
+                          : "Reabrir"}
+                      </Button>
+                    </form>
+                  </div>
+                  {evolution.length > 0 ? (
+                    <div className="mt-3 flex gap-3 overflow-x-auto pb-2">
+                      {evolution.map((entry) => (
+                        <div
+                          key={entry.visitId}
+                          className="w-48 shrink-0 space-y-2 rounded-md border p-2 text-xs"
+                        >
+                          <div className="font-medium">
+                            {entry.at.toLocaleDateString("es-AR")}
+                          </div>
+                          {entry.photos.length > 0 ? (
+                            <div className="grid grid-cols-2 gap-1">
+                              {entry.photos.map((photo) =>
+                                photo.fileUrl ? (
+                                  <a
+                                    key={photo.id}
+                                    href={photo.fileUrl}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                  >
+                                    <Image
+                                      src={photo.fileUrl}
+                                      alt={photo.fileName}
+                                      width={88}
+                                      height={80}
+                                      unoptimized
+                                      className="h-20 w-full rounded object-cover"
+                                    />
+                                  </a>
+                                ) : (
+                                  <span
+                                    key={photo.id}
+                                    className="truncate text-muted-foreground"
+                                  >
+                                    {photo.fileName}
+                                  </span>
+                                ),
+                              )}
+                            </div>
+                          ) : (
+                            <div className="text-muted-foreground">Sin fotos</div>
+                          )}
+                          {entry.measurement ? (
+                            <div className="space-y-1">
+                              <div>{describeWoundDimensions(entry.measurement)}</div>
+                              {entry.changeFromPrevious !== null ? (
+                                <div
+                                  className={
+                                    entry.changeFromPrevious > 0
+                                      ? "text-destructive"
+                                      : "text-emerald-700"
+                                  }
+                                >
+                                  {entry.changeFromPrevious > 0 ? "+" : ""}
+                                  {entry.changeFromPrevious}% vs anterior
+                                </div>
+                              ) : null}
+                              {entry.measurement.stage ? (
+                                <div>{woundStageLabels[entry.measurement.stage]}</div>
+                              ) : null}
+                              {entry.measurement.exudate ? (
+                                <div>
+                                  Exudado:{" "}
+                                  {woundExudateLabels[entry.measurement.exudate]}
+                                </div>
+                              ) : null}
+                              {entry.measurement.notes ? (
+                                <div className="text-muted-foreground">
+                                  {entry.measurement.notes}
+                                </div>
+                              ) : null}
+                              <div className="text-muted-foreground">
+                                {entry.measurement.recordedBy.name ??
+                                  entry.measurement.recordedBy.email}
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="text-muted-foreground">
+                              Sin medicion
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      Sin mediciones ni fotos. Se registran desde la visita en
+                      la agenda.
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-2 text-sm text-muted-foreground">
+              Sin heridas registradas.
+            </p>
+          )}
+        </div>
+
         <div className="rounded-lg border p-4">
           <h2 className="text-lg font-semibold">Timeline clinica</h2>
           <div className="mt-3 space-y-2 text-sm text-muted-foreground">
@@ -290,7 +2602,21 @@ export default async function EpisodeDetailPage({
                             <div className="font-medium text-foreground">
                               {note.author.name ?? note.author.email}
                             </div>
-                            <div>{note.content}</div>
+                            <div>
+                              {note.amendsId ? "Addenda: " : ""}
+                              {note.content}
+                            </div>
+                            <div>
+                              {note.signedAt
+                                ? `Firmada ${note.signedAt.toLocaleString("es-AR")}`
+                                : "Borrador sin firmar"}
+                            </div>
+                            {note.recordedAt ? (
+                              <div>
+                                Registrada sin conexion{" "}
+                                {note.recordedAt.toLocaleString("es-AR")}
+                              </div>
+                            ) : null}
                           </li>
                         ))}
                       </ul>
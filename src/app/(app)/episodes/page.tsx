@@ -5,7 +5,7 @@ import { z } from "zod";
 import { authOptions } from "@/lib/auth";
 import { logAudit } from "@/lib/audit";
 import { assertRole } from "@/lib/rbac";
-import { Role } from "@prisma/client";
+import { Prisma, Role, VisitType } from "@prisma/client";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -15,13 +15,53 @@ import {
 } from "@/lib/tenant-access";
 import AccessDenied from "@/components/app/access-denied";
 import { withTenant } from "@/lib/rls";
+import {
+  describeRecurrence,
+  parseRecurrence,
+  recurrenceSchema,
+  sameRecurrence,
+  syncCarePlanVisits,
+  trimCarePlanVisits,
+} from "@/lib/visit-recurrence";
+import { visitTypeLabels } from "@/lib/visit-checklist";
+import {
+  loadDischargeSummary,
+  saveDischargeSummary,
+  uploadDischargeSummary,
+} from "@/lib/discharge-summary";
+import {
+  parseObjectiveLines,
+  summarizeObjectives,
+} from "@/lib/care-plan-objectives";
+import {
+  closeStageHistory,
+  isTransitionAllowed,
+  moveEpisodeToStage,
+  openStageHistory,
+} from "@/lib/episode-workflow";
+import { careTeamEpisodeScope } from "@/lib/care-team";
+import {
+  closeOpenSuspension,
+  episodeStatusLabels,
+} from "@/lib/episode-suspensions";
 
 const PAGE_SIZE = 10;
 
+const weekdayOptions = [
+  { value: 1, label: "Lun" },
+  { value: 2, label: "Mar" },
+  { value: 3, label: "Mie" },
+  { value: 4, label: "Jue" },
+  { value: 5, label: "Vie" },
+  { value: 6, label: "Sab" },
+  { value: 0, label: "Dom" },
+];
+
 type SearchParams = {
   q?: string;
   status?: string;
   page?: string;
+  plan?: string;
 };
 
 const episodeSchema = z.object({
@@ -36,6 +76,12 @@ const carePlanSchema = z.object({
   summary: z.string().optional(),
   frequency: z.string().optional(),
   objectives: z.string().optional(),
+  visitType: z.nativeEnum(VisitType),
+  recurrenceType: z.enum(["", "DAILY", "WEEKLY", "HOURLY"]).optional(),
+  recurrenceStart: z.string().optional(),
+  recurrenceDays: z.string().optional(),
+  recurrenceTimes: z.string().optional(),
+  intervalHours: z.string().optional(),
 });
 
 const workflowStageSchema = z.object({
@@ -97,6 +143,14 @@ async function createEpisode(formData: FormData) {
         workflowStageId: defaultStage?.id ?? null,
       },
     });
+    if (defaultStage) {
+      await openStageHistory(db, {
+        tenantId: episode.tenantId,
+        episodeId: episode.id,
+        stage: defaultStage,
+        actorId: session.user.id,
+      });
+    }
 
     await logAudit(db, {
       tenantId: session.user.tenantId,
@@ -129,6 +183,12 @@ async function upsertCarePlan(formData: FormData) {
       summary: formData.get("summary"),
       frequency: formData.get("frequency"),
       objectives: formData.get("objectives"),
+      visitType: formData.get("visitType"),
+      recurrenceType: formData.get("recurrenceType"),
+      recurrenceStart: formData.get("recurrenceStart"),
+      recurrenceDays: formData.get("recurrenceDays"),
+      recurrenceTimes: formData.get("recurrenceTimes"),
+      intervalHours: formData.get("intervalHours"),
     });
 
     if (!parsed.success) {
@@ -136,44 +196,179 @@ async function upsertCarePlan(formData: FormData) {
     }
 
     const episode = await db.episode.findFirst({
-      where: { id: parsed.data.episodeId, tenantId: session.user.tenantId },
+      where: {
+        id: parsed.data.episodeId,
+        tenantId: session.user.tenantId,
+        ...careTeamEpisodeScope(session.user),
+      },
     });
 
     if (!episode) {
       throw new Error("EPISODE_NOT_FOUND");
     }
 
-    const objectives = (parsed.data.objectives ?? "")
-      .split(/\r?\n|,/)
-      .map((value) => value.trim())
-      .filter(Boolean);
+    const objectives = parseObjectiveLines(parsed.data.objectives);
+    const existingPlan = await db.episodeCarePlan.findFirst({
+      where: { tenantId: episode.tenantId, episodeId: episode.id },
+    });
+    const updateRecurrence =
+      !existingPlan || formData.get("updateRecurrence") === "on";
+
+    let recurrence: Prisma.InputJsonValue | typeof Prisma.DbNull =
+      Prisma.DbNull;
+    let frequency = parsed.data.frequency?.trim() || null;
+    if (updateRecurrence && parsed.data.recurrenceType) {
+      const parsedRecurrence = recurrenceSchema.safeParse({
+        type: parsed.data.recurrenceType,
+        startDate:
+          parsed.data.recurrenceStart ||
+          episode.startDate.toISOString().slice(0, 10),
+        durationDays: Number(parsed.data.recurrenceDays || 30),
+        times: (parsed.data.recurrenceTimes ?? "")
+          .split(/[\s,;]+/)
+          .filter(Boolean),
+        weekdays:
+          parsed.data.recurrenceType === "WEEKLY"
+            ? formData.getAll("weekdays").map(Number)
+            : undefined,
+        intervalHours:
+          parsed.data.recurrenceType === "HOURLY"
+            ? Number(parsed.data.intervalHours)
+            : undefined,
+      });
+      if (!parsedRecurrence.success) {
+        throw new Error("RECURRENCE_INVALID");
+      }
+      recurrence = parsedRecurrence.data;
+      frequency = frequency ?? describeRecurrence(parsedRecurrence.data);
+    }
 
     const carePlan = await db.episodeCarePlan.upsert({
       where: { episodeId: episode.id },
       update: {
         summary: parsed.data.summary?.trim() || null,
-        frequency: parsed.data.frequency?.trim() || null,
-        objectives: objectives.length > 0 ? objectives : null,
+        frequency,
+        ...(updateRecurrence
+          ? { recurrence, visitType: parsed.data.visitType }
+          : {}),
       },
       create: {
         tenantId: session.user.tenantId,
         episodeId: episode.id,
         summary: parsed.data.summary?.trim() || null,
-        frequency: parsed.data.frequency?.trim() || null,
-        objectives: objectives.length > 0 ? objectives : null,
+        frequency,
+        recurrence,
+        visitType: parsed.data.visitType,
       },
+      include: { objectives: true },
     });
 
+    // Only a new plan or a real change of recurrence or visit type touches the
+    // generated visits; editing the summary or objectives leaves them alone.
+    const recurrenceChanged =
+      !existingPlan ||
+      (updateRecurrence &&
+        (existingPlan.visitType !== carePlan.visitType ||
+          !sameRecurrence(existingPlan.recurrence, carePlan.recurrence)));
+
+    const known = new Set(
+      carePlan.objectives.map((objective) =>
+        objective.description.toLowerCase(),
+      ),
+    );
+    const newObjectives = objectives.filter(
+      (description) => !known.has(description.toLowerCase()),
+    );
+    if (newObjectives.length > 0) {
+      await db.carePlanObjective.createMany({
+        data: newObjectives.map((description, index) => ({
+          tenantId: carePlan.tenantId,
+          carePlanId: carePlan.id,
+          description,
+          sortOrder: (carePlan.objectives.length + index) * 10,
+        })),
+      });
+    }
+
     await logAudit(db, {
       tenantId: session.user.tenantId,
       actorId: session.user.id,
       action: "episode.care_plan.upsert",
       entityType: "EpisodeCarePlan",
       entityId: carePlan.id,
+      meta: {
+        objectivesAdded: newObjectives.length,
+        updateRecurrence,
+        recurrenceChanged,
+      },
+    });
+
+    if (!recurrenceChanged) {
+      return;
+    }
+    const result = await syncCarePlanVisits(db, {
+      tenantId: carePlan.tenantId,
+      carePlanId: carePlan.id,
+      createdById: session.user.id,
     });
+
+    if (result.created > 0 || result.removed > 0) {
+      await logAudit(db, {
+        tenantId: session.user.tenantId,
+        actorId: session.user.id,
+        action: "episode.care_plan.visits_sync",
+        entityType: "Episode",
+        entityId: episode.id,
+        meta: result,
+      });
+    }
   });
 
   revalidatePath("/episodes");
+  revalidatePath("/agenda");
+}
+
+async function regenerateCarePlanVisits(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const episodeId = String(formData.get("episodeId") ?? "");
+    if (!episodeId) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const carePlan = await db.episodeCarePlan.findFirst({
+      where: { episodeId, tenantId },
+    });
+    if (!carePlan) {
+      throw new Error("CARE_PLAN_NOT_FOUND");
+    }
+
+    const result = await syncCarePlanVisits(db, {
+      tenantId,
+      carePlanId: carePlan.id,
+      createdById: session.user.id,
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.care_plan.visits_sync",
+      entityType: "Episode",
+      entityId: episodeId,
+      meta: result,
+    });
+  });
+
+  revalidatePath("/episodes");
+  revalidatePath("/agenda");
 }
 
 async function createWorkflowStage(formData: FormData) {
@@ -224,8 +419,9 @@ async function setEpisodeStage(formData: FormData) {
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
     assertRole(session.user.role, [
       Role.ADMIN_TENANT,
       Role.COORDINACION,
@@ -241,43 +437,17 @@ async function setEpisodeStage(formData: FormData) {
       throw new Error("VALIDATION_ERROR");
     }
 
-    const episode = await db.episode.findFirst({
-      where: { id: parsed.data.episodeId, tenantId: session.user.tenantId },
-    });
-    if (!episode) {
-      throw new Error("EPISODE_NOT_FOUND");
-    }
-
-    let stageId: string | null = null;
-    if (parsed.data.workflowStageId) {
-      const stage = await db.episodeWorkflowStage.findFirst({
-        where: {
-          id: parsed.data.workflowStageId,
-          tenantId: session.user.tenantId,
-        },
-      });
-      if (!stage) {
-        throw new Error("STAGE_NOT_FOUND");
-      }
-      stageId = stage.id;
-    }
-
-    const updated = await db.episode.update({
-      where: { id: episode.id },
-      data: { workflowStageId: stageId },
-    });
-
-    await logAudit(db, {
-      tenantId: session.user.tenantId,
+    await moveEpisodeToStage(db, {
+      tenantId,
       actorId: session.user.id,
-      action: "episode.workflow_stage.update",
-      entityType: "Episode",
-      entityId: updated.id,
-      meta: { workflowStageId: stageId },
+      episodeId: parsed.data.episodeId,
+      stageId: parsed.data.workflowStageId || null,
+      episodeScope: careTeamEpisodeScope(session.user),
     });
   });
 
   revalidatePath("/episodes");
+  revalidatePath(`/episodes/${String(formData.get("episodeId") ?? "")}`);
 }
 
 async function dischargeEpisode(formData: FormData) {
@@ -286,49 +456,123 @@ async function dischargeEpisode(formData: FormData) {
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
-    assertRole(session.user.role, [
-      Role.ADMIN_TENANT,
-      Role.COORDINACION,
-      Role.PROFESIONAL,
-    ]);
+  const tenantId = session.user.tenantId;
+  assertRole(session.user.role, [
+    Role.ADMIN_TENANT,
+    Role.COORDINACION,
+    Role.PROFESIONAL,
+  ]);
 
-    const episodeId = String(formData.get("episodeId") ?? "");
-    if (!episodeId) {
-      throw new Error("VALIDATION_ERROR");
-    }
+  const episodeId = String(formData.get("episodeId") ?? "");
+  if (!episodeId) {
+    throw new Error("VALIDATION_ERROR");
+  }
+  const dischargeOutcome =
+    String(formData.get("dischargeOutcome") ?? "").trim() || null;
+  const endDate = new Date();
+
+  const loaded = await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
 
     const episode = await db.episode.findFirst({
-      where: { id: episodeId, tenantId: session.user.tenantId },
+      where: { id: episodeId, tenantId, ...careTeamEpisodeScope(session.user) },
       include: { workflowStage: true },
     });
     if (!episode) {
       throw new Error("EPISODE_NOT_FOUND");
     }
-
+    if (episode.status === "DISCHARGED") {
+      throw new Error("EPISODE_ALREADY_DISCHARGED");
+    }
     if (!episode.workflowStage?.isTerminal) {
       throw new Error("WORKFLOW_NOT_TERMINAL");
     }
 
-    const updated = await db.episode.update({
-      where: { id: episode.id },
+    return loadDischargeSummary(db, {
+      tenantId,
+      episodeId: episode.id,
+      endDate,
+      dischargeOutcome,
+    });
+  });
+
+  // Render and upload the PDF before the write transaction, like visit
+  // attachments do.
+  const file = await uploadDischargeSummary({
+    tenantId,
+    episodeId: loaded.episodeId,
+    summary: loaded.summary,
+  });
+
+  await withTenant(tenantId, async (db) => {
+    const previous = await db.episode.findFirst({
+      where: {
+        id: loaded.episodeId,
+        tenantId,
+        ...careTeamEpisodeScope(session.user),
+      },
+    });
+    // Conditional update so a double submit cannot discharge twice.
+    const discharged = await db.episode.updateMany({
+      where: {
+        id: loaded.episodeId,
+        tenantId,
+        status: { in: ["ACTIVE", "SUSPENDED"] },
+      },
       data: {
         status: "DISCHARGED",
-        endDate: new Date(),
+        endDate,
+        dischargeOutcome,
       },
     });
+    if (!previous || discharged.count === 0) {
+      throw new Error("EPISODE_ALREADY_DISCHARGED");
+    }
+    const suspension =
+      previous.status === "SUSPENDED"
+        ? await closeOpenSuspension(db, {
+            tenantId,
+            episodeId: loaded.episodeId,
+            at: endDate,
+          })
+        : null;
+
+    await closeStageHistory(db, {
+      tenantId,
+      episodeId: loaded.episodeId,
+      at: endDate,
+    });
+
+    const trimmedVisits = await trimCarePlanVisits(db, {
+      tenantId,
+      episodeId: loaded.episodeId,
+      from: endDate,
+    });
+
+    const summary = await saveDischargeSummary(db, {
+      tenantId,
+      episodeId: loaded.episodeId,
+      patientId: loaded.patientId,
+      actorId: session.user.id,
+      file,
+    });
 
     await logAudit(db, {
-      tenantId: session.user.tenantId,
+      tenantId,
       actorId: session.user.id,
       action: "episode.discharge",
       entityType: "Episode",
-      entityId: updated.id,
+      entityId: loaded.episodeId,
+      meta: {
+        trimmedVisits,
+        ...suspension,
+        dischargeSummaryId: summary.id,
+      },
     });
   });
 
   revalidatePath("/episodes");
+  revalidatePath("/agenda");
 }
 
 export default async function EpisodesPage({
@@ -358,9 +602,12 @@ export default async function EpisodesPage({
       1,
       Number(searchParams?.page ?? "1") || 1,
     );
+    const planEpisodeId =
+      typeof searchParams?.plan === "string" ? searchParams.plan : "";
 
     const where = {
       tenantId,
+      ...careTeamEpisodeScope(session?.user),
       ...(statusFilter ? { status: statusFilter } : {}),
       ...(query
         ? {
@@ -375,8 +622,14 @@ export default async function EpisodesPage({
         : {}),
     };
 
-    const [patients, workflowStages, episodes, totalEpisodes, episodeOptions] =
-      await Promise.all([
+    const [
+      patients,
+      workflowStages,
+      episodes,
+      totalEpisodes,
+      episodeOptions,
+      transitions,
+    ] = await Promise.all([
         db.patient.findMany({
           where: { tenantId },
           orderBy: { lastName: "asc" },
@@ -387,19 +640,52 @@ export default async function EpisodesPage({
         }),
         db.episode.findMany({
           where,
-          include: { patient: true, carePlan: true, workflowStage: true },
+          include: {
+            patient: true,
+            carePlan: { include: { objectives: true } },
+            workflowStage: true,
+          },
           orderBy: { createdAt: "desc" },
           skip: (pageNumber - 1) * PAGE_SIZE,
           take: PAGE_SIZE,
         }),
         db.episode.count({ where }),
         db.episode.findMany({
-          where: { tenantId, status: "ACTIVE" },
+          where: {
+            tenantId,
+            status: "ACTIVE",
+            ...careTeamEpisodeScope(session?.user),
+          },
           include: { patient: true },
           orderBy: { createdAt: "desc" },
           take: 50,
         }),
+        db.episodeWorkflowTransition.findMany({
+          where: { tenantId },
+          select: { fromStageId: true, toStageId: true },
+        }),
       ]);
+    const overdueEpisodeIds = new Set(
+      (
+        await db.episodeStageHistory.findMany({
+          where: {
+            tenantId,
+            episodeId: { in: episodes.map((episode) => episode.id) },
+            exitedAt: null,
+            dueAt: { lt: new Date() },
+          },
+          select: { episodeId: true },
+        })
+      ).map((entry) => entry.episodeId),
+    );
+    const planEpisode =
+      episodeOptions.find((episode) => episode.id === planEpisodeId) ?? null;
+    const editingPlan = planEpisode
+      ? await db.episodeCarePlan.findFirst({
+          where: { tenantId, episodeId: planEpisode.id },
+        })
+      : null;
+    const editingRecurrence = parseRecurrence(editingPlan?.recurrence);
 
     const totalPages = Math.max(1, Math.ceil(totalEpisodes / PAGE_SIZE));
     const safePage = Math.min(pageNumber, totalPages);
@@ -441,7 +727,10 @@ export default async function EpisodesPage({
           <div className="rounded-lg border p-4">
             <h2 className="text-lg font-semibold">Workflow del episodio</h2>
             <p className="text-xs text-muted-foreground">
-              Configura los estados operativos del episodio.
+              Configura los estados operativos del episodio.{" "}
+              <Link href="/episodes/workflow" className="underline">
+                Transiciones, condiciones y SLA
+              </Link>
             </p>
             <form action={createWorkflowStage} className="mt-3 grid gap-2">
               <Input name="name" placeholder="Estado" required />
@@ -463,6 +752,7 @@ export default async function EpisodesPage({
                 <li key={stage.id}>
                   {stage.name} - orden {stage.sortOrder}
                   {stage.isTerminal ? " (terminal)" : ""}
+                  {stage.slaHours ? ` - SLA ${stage.slaHours} h` : ""}
                 </li>
               ))}
               {workflowStages.length === 0 ? (
@@ -476,10 +766,11 @@ export default async function EpisodesPage({
             <p className="text-xs text-muted-foreground">
               Objetivos y frecuencia por episodio.
             </p>
-            <form action={upsertCarePlan} className="mt-3 grid gap-2">
+            <form method="get" className="mt-3 flex gap-2">
               <select
-                name="episodeId"
-                className="h-10 rounded-md border bg-background px-3 text-sm"
+                name="plan"
+                className="h-10 flex-1 rounded-md border bg-background px-3 text-sm"
+                defaultValue={planEpisode?.id ?? ""}
                 required
               >
                 <option value="">Episodio...</option>
@@ -489,16 +780,119 @@ export default async function EpisodesPage({
                   </option>
                 ))}
               </select>
-              <Input name="summary" placeholder="Resumen del plan" />
-              <Input name="frequency" placeholder="Frecuencia (ej: 3/semana)" />
-              <Textarea
-                name="objectives"
-                placeholder="Objetivos (uno por linea o separados por coma)"
-              />
-              <Button type="submit" size="sm">
-                Guardar plan
+              <Button type="submit" size="sm" variant="outline">
+                Cargar plan
               </Button>
             </form>
+            {planEpisode ? (
+              <form
+                key={planEpisode.id}
+                action={upsertCarePlan}
+                className="mt-3 grid gap-2"
+              >
+                <input type="hidden" name="episodeId" value={planEpisode.id} />
+                <Input
+                  name="summary"
+                  placeholder="Resumen del plan"
+                  defaultValue={editingPlan?.summary ?? ""}
+                />
+                <Input
+                  name="frequency"
+                  placeholder="Frecuencia (ej: 3/semana)"
+                  defaultValue={editingPlan?.frequency ?? ""}
+                />
+                <Textarea
+                  name="objectives"
+                  placeholder="Agregar objetivos (uno por linea o separados por coma). Meta, plazo y profesion se editan en el detalle del episodio."
+                />
+                <div className="rounded-md border p-3">
+                  <div className="text-xs font-medium">
+                    Recurrencia de visitas
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Genera y actualiza las visitas futuras del episodio.
+                  </p>
+                  {editingPlan ? (
+                    <label className="mt-2 flex items-center gap-2 text-xs">
+                      <input name="updateRecurrence" type="checkbox" />
+                      Modificar tipo de visita y recurrencia (si no se marca se
+                      mantienen las actuales y sus visitas)
+                    </label>
+                  ) : null}
+                  <div className="mt-2 grid gap-2 md:grid-cols-2">
+                    <select
+                      name="visitType"
+                      className="h-10 rounded-md border bg-background px-3 text-sm md:col-span-2"
+                      defaultValue={editingPlan?.visitType ?? VisitType.GENERAL}
+                    >
+                      {Object.values(VisitType).map((type) => (
+                        <option key={type} value={type}>
+                          Tipo de visita: {visitTypeLabels[type]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      name="recurrenceType"
+                      className="h-10 rounded-md border bg-background px-3 text-sm"
+                      defaultValue={editingRecurrence?.type ?? ""}
+                    >
+                      <option value="">Sin recurrencia</option>
+                      <option value="DAILY">Diaria</option>
+                      <option value="WEEKLY">Semanal</option>
+                      <option value="HOURLY">Cada N horas</option>
+                    </select>
+                    <Input
+                      name="recurrenceStart"
+                      type="date"
+                      defaultValue={editingRecurrence?.startDate ?? ""}
+                    />
+                    <Input
+                      name="recurrenceTimes"
+                      placeholder="Horarios (ej: 09:00, 17:00)"
+                      defaultValue={editingRecurrence?.times.join(", ") ?? ""}
+                    />
+                    <Input
+                      name="recurrenceDays"
+                      type="number"
+                      min="1"
+                      max="365"
+                      placeholder="Duracion en dias (30)"
+                      defaultValue={editingRecurrence?.durationDays ?? ""}
+                    />
+                    <Input
+                      name="intervalHours"
+                      type="number"
+                      min="1"
+                      placeholder="Cada N horas"
+                      defaultValue={editingRecurrence?.intervalHours ?? ""}
+                    />
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-3 text-xs text-muted-foreground">
+                    {weekdayOptions.map((day) => (
+                      <label key={day.value} className="flex items-center gap-1">
+                        <input
+                          name="weekdays"
+                          type="checkbox"
+                          value={day.value}
+                          defaultChecked={
+                            editingRecurrence?.weekdays?.includes(day.value) ??
+                            false
+                          }
+                        />
+                        {day.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <Button type="submit" size="sm">
+                  Guardar plan
+                </Button>
+              </form>
+            ) : (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Elegi un episodio activo para cargar o editar su plan.
+              </p>
+            )}
           </div>
         </div>
 
@@ -516,6 +910,7 @@ export default async function EpisodesPage({
           >
             <option value="">Estado (todos)</option>
             <option value="ACTIVE">Activo</option>
+            <option value="SUSPENDED">Suspendido</option>
             <option value="DISCHARGED">Alta</option>
             <option value="CANCELLED">Cancelado</option>
           </select>
@@ -544,24 +939,54 @@ export default async function EpisodesPage({
                     {episode.patient.lastName}, {episode.patient.firstName}
                   </td>
                   <td className="px-3 py-2">
-                    <form action={setEpisodeStage} className="flex gap-2">
-                      <input type="hidden" name="episodeId" value={episode.id} />
-                      <select
-                        name="workflowStageId"
-                        className="h-8 rounded-md border bg-background px-2 text-xs"
-                        defaultValue={episode.workflowStage?.id ?? ""}
-                      >
-                        <option value="">Sin estado</option>
-                        {workflowStages.map((stage) => (
-                          <option key={stage.id} value={stage.id}>
-                            {stage.name}
-                          </option>
-                        ))}
-                      </select>
-                      <Button size="sm" variant="outline" type="submit">
-                        Actualizar
-                      </Button>
-                    </form>
+                    {episode.status === "ACTIVE" ||
+                    episode.status === "SUSPENDED" ? (
+                      <form action={setEpisodeStage} className="flex gap-2">
+                        <input
+                          type="hidden"
+                          name="episodeId"
+                          value={episode.id}
+                        />
+                        <select
+                          name="workflowStageId"
+                          className="h-8 rounded-md border bg-background px-2 text-xs"
+                          defaultValue={episode.workflowStage?.id ?? ""}
+                        >
+                          {isTransitionAllowed(
+                            transitions,
+                            episode.workflowStageId,
+                            null,
+                          ) ? (
+                            <option value="">Sin estado</option>
+                          ) : null}
+                          {workflowStages
+                            .filter((stage) =>
+                              isTransitionAllowed(
+                                transitions,
+                                episode.workflowStageId,
+                                stage.id,
+                              ),
+                            )
+                            .map((stage) => (
+                              <option key={stage.id} value={stage.id}>
+                                {stage.name}
+                              </option>
+                            ))}
+                        </select>
+                        <Button size="sm" variant="outline" type="submit">
+                          Actualizar
+                        </Button>
+                      </form>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {episode.workflowStage?.name ?? "Sin estado"}
+                      </span>
+                    )}
+                    {overdueEpisodeIds.has(episode.id) ? (
+                      <div className="mt-1 text-xs font-medium text-destructive">
+                        SLA vencido
+                      </div>
+                    ) : null}
                   </td>
                   <td className="px-3 py-2 text-xs text-muted-foreground">
                     {episode.carePlan ? (
@@ -572,17 +997,43 @@ export default async function EpisodesPage({
                           {episode.carePlan.frequency ?? "Sin definir"}
                         </div>
                         <div>
-                          Objetivos:{" "}
-                          {Array.isArray(episode.carePlan.objectives)
-                            ? episode.carePlan.objectives.length
-                            : 0}
+                          Objetivos cumplidos:{" "}
+                          {(() => {
+                            const progress = summarizeObjectives(
+                              episode.carePlan.objectives,
+                            );
+                            return `${progress.met}/${progress.total}`;
+                          })()}
                         </div>
+                        {episode.status === "ACTIVE" ? (
+                          <Link
+                            href={`/episodes?plan=${episode.id}`}
+                            className="underline"
+                          >
+                            Editar plan
+                          </Link>
+                        ) : null}
+                        {parseRecurrence(episode.carePlan.recurrence) &&
+                        episode.status === "ACTIVE" ? (
+                          <form action={regenerateCarePlanVisits}>
+                            <input
+                              type="hidden"
+                              name="episodeId"
+                              value={episode.id}
+                            />
+                            <Button size="sm" variant="outline" type="submit">
+                              Regenerar visitas
+                            </Button>
+                          </form>
+                        ) : null}
                       </div>
                     ) : (
                       "Sin plan"
                     )}
                   </td>
-                  <td className="px-3 py-2">{episode.status}</td>
+                  <td className="px-3 py-2">
+                    {episodeStatusLabels[episode.status]}
+                  </td>
                   <td className="px-3 py-2">
                     {episode.startDate.toLocaleDateString("es-AR")}
                   </td>
@@ -596,13 +1047,22 @@ export default async function EpisodesPage({
                       <Button asChild size="sm" variant="secondary">
                         <Link href={`/episodes/${episode.id}`}>Ver</Link>
                       </Button>
-                      {episode.status === "ACTIVE" ? (
-                        <form action={dischargeEpisode}>
+                      {episode.status === "ACTIVE" ||
+                      episode.status === "SUSPENDED" ? (
+                        <form
+                          action={dischargeEpisode}
+                          className="flex flex-wrap gap-2"
+                        >
                           <input
                             type="hidden"
                             name="episodeId"
                             value={episode.id}
                           />
+                          <Input
+                            name="dischargeOutcome"
+                            placeholder="Resultado al alta"
+                            className="h-9 w-44"
+                          />
                           <Button
                             size="sm"
                             variant="outline"
@@ -617,6 +1077,16 @@ export default async function EpisodesPage({
                             Dar alta
                           </Button>
                         </form>
+                      ) : episode.status === "DISCHARGED" ? (
+                        <Button asChild size="sm" variant="outline">
+                          <a
+                            href={`/api/episodes/${episode.id}/discharge-summary`}
+                            target="_blank"
+                            rel="noreferrer"
+                          >
+                            Epicrisis
+                          </a>
+                        </Button>
                       ) : (
                         <span className="text-xs text-muted-foreground">-</span>
                       )}
@@ -0,0 +1,329 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import { Role, StageEntryCondition } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { withTenant } from "@/lib/rls";
+import {
+  formatStageDuration,
+  isStageOverdue,
+  stageEntryConditionLabels,
+  summarizeStageDurations,
+} from "@/lib/episode-workflow";
+
+const METRICS_DAYS = 90;
+
+const stageRulesSchema = z.object({
+  stageId: z.string().min(1),
+  sortOrder: z.coerce.number().int(),
+  slaHours: z.coerce.number().int().min(1).max(8760).optional(),
+  entryConditions: z.array(z.nativeEnum(StageEntryCondition)),
+  transitions: z.array(z.string().min(1)),
+});
+
+async function saveStageRules(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = stageRulesSchema.safeParse({
+      stageId: formData.get("stageId"),
+      sortOrder: formData.get("sortOrder") || 0,
+      slaHours: formData.get("slaHours") || undefined,
+      entryConditions: formData.getAll("entryConditions"),
+      transitions: formData.getAll("transitions"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const stage = await db.episodeWorkflowStage.findFirst({
+      where: { id: parsed.data.stageId, tenantId },
+    });
+    if (!stage) {
+      throw new Error("STAGE_NOT_FOUND");
+    }
+    const targets = await db.episodeWorkflowStage.findMany({
+      where: {
+        tenantId,
+        id: { in: parsed.data.transitions.filter((id) => id !== stage.id) },
+      },
+    });
+    if (targets.length !== new Set(parsed.data.transitions).size) {
+      throw new Error("STAGE_NOT_FOUND");
+    }
+
+    await db.episodeWorkflowStage.update({
+      where: { id: stage.id },
+      data: {
+        sortOrder: parsed.data.sortOrder,
+        isTerminal: formData.get("isTerminal") === "on",
+        slaHours: parsed.data.slaHours ?? null,
+        entryConditions: parsed.data.entryConditions,
+      },
+    });
+    await db.episodeWorkflowTransition.deleteMany({
+      where: { tenantId, fromStageId: stage.id },
+    });
+    if (targets.length > 0) {
+      await db.episodeWorkflowTransition.createMany({
+        data: targets.map((target) => ({
+          tenantId,
+          fromStageId: stage.id,
+          toStageId: target.id,
+        })),
+      });
+    }
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.workflow_stage.rules_update",
+      entityType: "EpisodeWorkflowStage",
+      entityId: stage.id,
+      meta: {
+        slaHours: parsed.data.slaHours ?? null,
+        entryConditions: parsed.data.entryConditions,
+        transitions: targets.map((target) => target.id),
+      },
+    });
+  });
+
+  revalidatePath("/episodes/workflow");
+  revalidatePath("/episodes");
+}
+
+export default async function EpisodeWorkflowPage() {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const now = new Date();
+    const since = new Date(now.getTime() - METRICS_DAYS * 24 * 60 * 60 * 1000);
+    const [stages, transitions, history, openEntries] = await Promise.all([
+      db.episodeWorkflowStage.findMany({
+        where: { tenantId },
+        orderBy: { sortOrder: "asc" },
+      }),
+      db.episodeWorkflowTransition.findMany({ where: { tenantId } }),
+      db.episodeStageHistory.findMany({
+        where: {
+          tenantId,
+          OR: [{ exitedAt: null }, { exitedAt: { gte: since } }],
+        },
+      }),
+      db.episodeStageHistory.findMany({
+        where: {
+          tenantId,
+          exitedAt: null,
+          dueAt: { lt: now },
+          episode: { status: "ACTIVE" },
+        },
+        include: { episode: { include: { patient: true } } },
+        orderBy: { dueAt: "asc" },
+      }),
+    ]);
+    const durations = summarizeStageDurations(history, now);
+    const overdueEntries = openEntries.filter((entry) =>
+      isStageOverdue(entry, now),
+    );
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Workflow de episodios</h1>
+          <p className="text-sm text-muted-foreground">
+            Transiciones permitidas, condiciones de ingreso y SLA por estado.
+            Un estado sin transiciones configuradas permite pasar a cualquier
+            otro.
+          </p>
+          <Link href="/episodes" className="text-xs text-primary hover:underline">
+            Volver a episodios
+          </Link>
+        </div>
+
+        <div className="space-y-4">
+          {stages.map((stage) => (
+            <form
+              key={stage.id}
+              action={saveStageRules}
+              className="rounded-lg border p-4"
+            >
+              <input type="hidden" name="stageId" value={stage.id} />
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="text-sm font-medium">{stage.name}</div>
+                <Input
+                  name="sortOrder"
+                  type="number"
+                  defaultValue={stage.sortOrder}
+                  className="h-9 w-24"
+                  aria-label="Orden"
+                />
+                <Input
+                  name="slaHours"
+                  type="number"
+                  min={1}
+                  defaultValue={stage.slaHours ?? ""}
+                  placeholder="SLA (horas)"
+                  className="h-9 w-36"
+                />
+                <label className="flex items-center gap-2 text-xs">
+                  <input
+                    name="isTerminal"
+                    type="checkbox"
+                    defaultChecked={stage.isTerminal}
+                  />
+                  Terminal
+                </label>
+              </div>
+              <div className="mt-3 grid gap-3 md:grid-cols-2">
+                <div>
+                  <div className="text-xs font-medium">
+                    Condiciones de ingreso
+                  </div>
+                  {Object.values(StageEntryCondition).map((condition) => (
+                    <label
+                      key={condition}
+                      className="flex items-center gap-2 text-xs"
+                    >
+                      <input
+                        name="entryConditions"
+                        type="checkbox"
+                        value={condition}
+                        defaultChecked={stage.entryConditions.includes(
+                          condition,
+                        )}
+                      />
+                      {stageEntryConditionLabels[condition]}
+                    </label>
+                  ))}
+                </div>
+                <div>
+                  <div className="text-xs font-medium">Puede pasar a</div>
+                  {stages
+                    .filter((target) => target.id !== stage.id)
+                    .map((target) => (
+                      <label
+                        key={target.id}
+                        className="flex items-center gap-2 text-xs"
+                      >
+                        <input
+                          name="transitions"
+                          type="checkbox"
+                          value={target.id}
+                          defaultChecked={transitions.some(
+                            (transition) =>
+                              transition.fromStageId === stage.id &&
+                              transition.toStageId === target.id,
+                          )}
+                        />
+                        {target.name}
+                      </label>
+                    ))}
+                </div>
+              </div>
+              <Button size="sm" type="submit" className="mt-3">
+                Guardar reglas
+              </Button>
+            </form>
+          ))}
+          {stages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Sin estados configurados. Crealos desde Episodios.
+            </p>
+          ) : null}
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <h2 className="text-lg font-semibold">Tiempo por estado</h2>
+          <p className="text-xs text-muted-foreground">
+            Ultimos {METRICS_DAYS} dias, incluye estados en curso.
+          </p>
+          <table className="mt-3 w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr>
+                <th className="py-1">Estado</th>
+                <th className="py-1">Pasos</th>
+                <th className="py-1">En curso</th>
+                <th className="py-1">Promedio</th>
+                <th className="py-1">Maximo</th>
+                <th className="py-1">Fuera de SLA</th>
+              </tr>
+            </thead>
+            <tbody>
+              {durations.map((entry) => (
+                <tr key={entry.stageId ?? entry.stageName} className="border-t">
+                  <td className="py-1">{entry.stageName}</td>
+                  <td className="py-1">{entry.entries}</td>
+                  <td className="py-1">{entry.open}</td>
+                  <td className="py-1">
+                    {formatStageDuration(entry.averageHours)}
+                  </td>
+                  <td className="py-1">{formatStageDuration(entry.maxHours)}</td>
+                  <td className="py-1">{entry.overdue}</td>
+                </tr>
+              ))}
+              {durations.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-2 text-xs text-muted-foreground">
+                    Sin historial de estados.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <h2 className="text-lg font-semibold">Episodios con SLA vencido</h2>
+          <ul className="mt-2 space-y-1 text-sm">
+            {overdueEntries.map((entry) => (
+              <li key={entry.id}>
+                <Link
+                  href={`/episodes/${entry.episodeId}`}
+                  className="hover:underline"
+                >
+                  {entry.episode.patient.lastName},{" "}
+                  {entry.episode.patient.firstName}
+                </Link>{" "}
+                <span className="text-xs text-muted-foreground">
+                  {entry.stageName} - vencio{" "}
+                  {entry.dueAt?.toLocaleString("es-AR")}
+                </span>
+              </li>
+            ))}
+            {overdueEntries.length === 0 ? (
+              <li className="text-xs text-muted-foreground">
+                Sin episodios fuera de SLA.
+              </li>
+            ) : null}
+          </ul>
+        </div>
+      </div>
+    );
+  });
+}
@@ -1,11 +1,17 @@
 import Link from "next/link";
 import { getServerSession } from "next-auth";
+import { EpisodeSuspensionReason } from "@prisma/client";
 import { authOptions } from "@/lib/auth";
 import { getTenantModuleAccess } from "@/lib/tenant-access";
 import AccessDenied from "@/components/app/access-denied";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { withTenant } from "@/lib/rls";
+import { summarizeObjectives } from "@/lib/care-plan-objectives";
+import {
+  loadSuspensionKpis,
+  suspensionReasonLabels,
+} from "@/lib/episode-suspensions";
 
 const DEFAULT_RANGE_DAYS = 30;
 const VISIT_SLA_MINUTES = Number(process.env.VISIT_SLA_MINUTES ?? "30");
@@ -90,6 +96,8 @@ export default async function KpisPage({
     const visitFilter = {
       tenantId,
       scheduledAt: { gte: startDate, lte: endDate },
+      // Visits paused by an episode suspension are not provider cancellations.
+      suspensionId: null,
       ...(professionalId ? { assignedUserId: professionalId } : {}),
     };
 
@@ -125,6 +133,44 @@ export default async function KpisPage({
     const visitsCompleted = visitCountByStatus.get("COMPLETED") ?? 0;
     const visitsCancelled = visitCountByStatus.get("CANCELLED") ?? 0;
     const visitsMissed = visitCountByStatus.get("MISSED") ?? 0;
+    const visitsRescheduled = await db.visit.count({
+      where: { ...visitFilter, status: "MISSED", rescheduledTo: { some: {} } },
+    });
+    const visitsRecovered = await db.visit.count({
+      where: {
+        ...visitFilter,
+        status: "MISSED",
+        rescheduledTo: { some: { status: "COMPLETED" } },
+      },
+    });
+
+    const dischargedEpisodes = await db.episode.count({
+      where: {
+        tenantId,
+        status: "DISCHARGED",
+        endDate: { gte: startDate, lte: endDate },
+      },
+    });
+    const dischargeObjectives = summarizeObjectives(
+      await db.carePlanObjective.findMany({
+        where: {
+          tenantId,
+          carePlan: {
+            episode: {
+              status: "DISCHARGED",
+              endDate: { gte: startDate, lte: endDate },
+            },
+          },
+        },
+        select: { status: true, dueDate: true },
+      }),
+    );
+
+    const suspensionKpis = await loadSuspensionKpis(db, {
+      tenantId,
+      from: startDate,
+      to: endDate,
+    });
 
     const visitSlaCutoffMs = VISIT_SLA_MINUTES * 60 * 1000;
     const visitSlaOnTime = completedVisits.filter((visit) => {
@@ -458,8 +504,60 @@ export default async function KpisPage({
               { label: "Visitas completadas", value: visitsCompleted },
               { label: "Visitas canceladas", value: visitsCancelled },
               { label: "Visitas ausentes", value: visitsMissed },
+              { label: "Visitas reprogramadas", value: visitsRescheduled },
+              { label: "Ausencias recuperadas", value: visitsRecovered },
               { label: "SLA visitas (%)", value: visitSlaPercent },
               { label: "Duracion promedio (min)", value: avgVisitMinutes },
+              { label: "Altas en el periodo", value: dischargedEpisodes },
+              {
+                label: "Objetivos cumplidos al alta (%)",
+                value:
+                  dischargeObjectives.metRate !== null
+                    ? `${Math.round(dischargeObjectives.metRate * 100)} (${dischargeObjectives.met}/${dischargeObjectives.total})`
+                    : "-",
+              },
+            ].map((item) => (
+              <div key={item.label} className="rounded-lg border p-4">
+                <div className="text-xs text-muted-foreground">{item.label}</div>
+                <div className="text-2xl font-semibold">{item.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <h3 className="text-sm font-semibold">Suspensiones y reingresos</h3>
+          <div className="grid gap-3 md:grid-cols-4">
+            {[
+              {
+                label: "Episodios suspendidos hoy",
+                value: suspensionKpis.suspendedNow,
+              },
+              {
+                label: "Suspensiones en el periodo",
+                value: suspensionKpis.suspensions.total,
+              },
+              {
+                label: "Visitas pausadas por suspension",
+                value: suspensionKpis.pausedVisits,
+              },
+              ...Object.values(EpisodeSuspensionReason).map((reason) => ({
+                label: `Suspensiones: ${suspensionReasonLabels[reason]}`,
+                value: suspensionKpis.suspensions.byReason[reason],
+              })),
+              {
+                label: "Dias suspendidos (promedio)",
+                value: suspensionKpis.suspensions.averageDays ?? "-",
+              },
+              {
+                label: "Regresos de internacion",
+                value: suspensionKpis.hospitalReturns,
+              },
+              {
+                label: `Reingresos a ${suspensionKpis.windowDays} dias (%)`,
+                value:
+                  suspensionKpis.readmissionRate !== null
+                    ? `${Math.round(suspensionKpis.readmissionRate * 100)} (${suspensionKpis.readmissions}/${suspensionKpis.episodesStarted})`
+                    : "-",
+              },
             ].map((item) => (
               <div key={item.label} className="rounded-lg border p-4">
                 <div className="text-xs text-muted-foreground">{item.label}</div>
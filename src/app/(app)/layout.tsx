@@ -25,6 +25,17 @@ export default async function AppLayout({
         }),
       )
     : null;
+  const unreadNotifications = session.user.tenantId
+    ? await withTenant(session.user.tenantId, (db) =>
+        db.notification.count({
+          where: {
+            tenantId: session.user.tenantId ?? undefined,
+            userId: session.user.id,
+            readAt: null,
+          },
+        }),
+      )
+    : 0;
 
   const isSuperAdmin = session.user.role === "SUPERADMIN";
 
@@ -56,9 +67,18 @@ export default async function AppLayout({
 
           <nav className="flex flex-1 flex-col gap-2">
             <NavLink href="/dashboard" label="Dashboard" />
+            <NavLink href="/referrals" label="Derivaciones" />
             <NavLink href="/patients" label="Pacientes" />
             <NavLink href="/episodes" label="Episodios" />
             <NavLink href="/agenda" label="Agenda" />
+            <NavLink
+              href="/notifications"
+              label={
+                unreadNotifications > 0
+                  ? `Notificaciones (${unreadNotifications})`
+                  : "Notificaciones"
+              }
+            />
             <div className="pt-3 text-xs uppercase tracking-[0.2em] text-muted-foreground">
               Operacion
             </div>
@@ -0,0 +1,143 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { authOptions } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { withTenant } from "@/lib/rls";
+import { notificationHref } from "@/lib/notifications";
+
+async function markNotificationRead(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const notificationId = String(formData.get("notificationId") ?? "");
+  if (!notificationId) {
+    throw new Error("VALIDATION_ERROR");
+  }
+
+  await withTenant(tenantId, (db) =>
+    db.notification.updateMany({
+      where: {
+        id: notificationId,
+        tenantId,
+        userId: session.user.id,
+        readAt: null,
+      },
+      data: { readAt: new Date() },
+    }),
+  );
+
+  revalidatePath("/notifications");
+}
+
+async function markAllNotificationsRead() {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+
+  await withTenant(tenantId, (db) =>
+    db.notification.updateMany({
+      where: { tenantId, userId: session.user.id, readAt: null },
+      data: { readAt: new Date() },
+    }),
+  );
+
+  revalidatePath("/notifications");
+}
+
+export default async function NotificationsPage() {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId || !session?.user) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+  const userId = session.user.id;
+
+  return withTenant(tenantId, async (db) => {
+    const notifications = await db.notification.findMany({
+      where: { tenantId, userId },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+    const unread = notifications.filter((item) => !item.readAt).length;
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold">Notificaciones</h1>
+            <p className="text-sm text-muted-foreground">
+              Alertas operativas del tenant ({unread} sin leer).
+            </p>
+          </div>
+          {unread > 0 ? (
+            <form action={markAllNotificationsRead}>
+              <Button size="sm" variant="outline" type="submit">
+                Marcar todas como leidas
+              </Button>
+            </form>
+          ) : null}
+        </div>
+
+        <div className="space-y-3">
+          {notifications.map((notification) => {
+            const href = notificationHref(notification);
+            return (
+              <div
+                key={notification.id}
+                className={`rounded-lg border p-4 ${
+                  notification.readAt ? "opacity-70" : ""
+                }`}
+              >
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <div className="text-sm font-medium">
+                      {href ? (
+                        <Link href={href} className="hover:underline">
+                          {notification.title}
+                        </Link>
+                      ) : (
+                        notification.title
+                      )}
+                    </div>
+                    {notification.body ? (
+                      <div className="text-xs text-muted-foreground">
+                        {notification.body}
+                      </div>
+                    ) : null}
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {notification.createdAt.toLocaleString("es-AR")}
+                    </div>
+                  </div>
+                  {!notification.readAt ? (
+                    <form action={markNotificationRead}>
+                      <input
+                        type="hidden"
+                        name="notificationId"
+                        value={notification.id}
+                      />
+                      <Button size="sm" variant="secondary" type="submit">
+                        Marcar leida
+                      </Button>
+                    </form>
+                  ) : null}
+                </div>
+              </div>
+            );
+          })}
+          {notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Sin notificaciones.
+            </p>
+          ) : null}
+        </div>
+      </div>
+    );
+  });
+}
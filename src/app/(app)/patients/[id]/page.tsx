@@ -0,0 +1,1104 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import {
+  AllergySeverity,
+  ContactChannel,
+  ContactRelationship,
+  PatientProblemKind,
+  PatientProblemStatus,
+  Role,
+} from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import AccessDenied from "@/components/app/access-denied";
+import PatientAlertsBanner from "@/components/app/patient-alerts-banner";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import { withTenant } from "@/lib/rls";
+import { careTeamPatientScope } from "@/lib/care-team";
+import { geocodeAddress } from "@/lib/geocoding";
+import { parseCoordinates } from "@/lib/geolocation";
+import {
+  allergySeverityLabels,
+  patientProblemKindLabels,
+} from "@/lib/patient-background";
+import {
+  contactChannelLabels,
+  contactChannelTarget,
+  contactHref,
+  contactRelationshipLabels,
+} from "@/lib/patient-contacts";
+import { episodeStatusLabels } from "@/lib/episode-suspensions";
+import {
+  filterPatientTimeline,
+  parsePatientTimelineFilters,
+  patientTimelineTypeLabels,
+  patientTimelineTypes,
+  type PatientTimelineEvent,
+} from "@/lib/patient-timeline";
+
+type SearchParams = {
+  type?: string | string[];
+  from?: string;
+  to?: string;
+};
+
+const allergySchema = z.object({
+  patientId: z.string().min(1),
+  substance: z.string().trim().min(1),
+  reaction: z.string().trim(),
+  severity: z.nativeEnum(AllergySeverity),
+});
+
+const problemSchema = z.object({
+  patientId: z.string().min(1),
+  kind: z.nativeEnum(PatientProblemKind),
+  description: z.string().trim().min(1),
+  onsetDate: z.string(),
+  notes: z.string().trim(),
+});
+
+const addressSchema = z.object({
+  patientId: z.string().min(1),
+  address: z.string().trim(),
+  latitude: z.string().trim(),
+  longitude: z.string().trim(),
+});
+
+const contactSchema = z
+  .object({
+    patientId: z.string().min(1),
+    name: z.string().trim().min(1),
+    relationship: z.nativeEnum(ContactRelationship),
+    phone: z.string().trim(),
+    email: z.union([z.literal(""), z.string().email()]),
+    preferredChannel: z.nativeEnum(ContactChannel),
+    notes: z.string().trim(),
+  })
+  .refine((data) =>
+    data.preferredChannel === ContactChannel.EMAIL ? data.email : data.phone,
+  );
+
+function formatDay(date: Date | null) {
+  return date ? date.toISOString().slice(0, 10) : "";
+}
+
+async function addPatientAllergy(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const patientId = String(formData.get("patientId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = allergySchema.safeParse({
+      patientId,
+      substance: formData.get("substance"),
+      reaction: formData.get("reaction"),
+      severity: formData.get("severity"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const patient = await db.patient.findFirst({
+      where: { id: parsed.data.patientId, tenantId },
+    });
+    if (!patient) {
+      throw new Error("PATIENT_NOT_FOUND");
+    }
+
+    const allergy = await db.patientAllergy.create({
+      data: {
+        tenantId,
+        patientId: patient.id,
+        substance: parsed.data.substance,
+        reaction: parsed.data.reaction || null,
+        severity: parsed.data.severity,
+        recordedById: session.user.id,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "patient.allergy.create",
+      entityType: "Patient",
+      entityId: patient.id,
+      meta: {
+        allergyId: allergy.id,
+        substance: allergy.substance,
+        severity: allergy.severity,
+      },
+    });
+  });
+
+  revalidatePath(`/patients/${patientId}`);
+}
+
+async function updatePatientAddress(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const patientId = String(formData.get("patientId") ?? "");
+  assertRole(session.user.role, [
+    Role.ADMIN_TENANT,
+    Role.COORDINACION,
+    Role.PROFESIONAL,
+  ]);
+
+  const parsed = addressSchema.safeParse({
+    patientId,
+    address: formData.get("address") ?? "",
+    latitude: formData.get("latitude") ?? "",
+    longitude: formData.get("longitude") ?? "",
+  });
+  if (!parsed.success) {
+    throw new Error("VALIDATION_ERROR");
+  }
+
+  const manual = parseCoordinates(parsed.data);
+  if (!manual && (parsed.data.latitude || parsed.data.longitude)) {
+    throw new Error("COORDINATES_INVALID");
+  }
+  // Geocoding is a slow HTTP call: keep it out of the interactive transaction.
+  const location = manual
+    ? { ...manual, source: "manual" }
+    : await geocodeAddress(parsed.data.address);
+
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+
+    const patient = await db.patient.findFirst({
+      where: { id: parsed.data.patientId, tenantId },
+    });
+    if (!patient) {
+      throw new Error("PATIENT_NOT_FOUND");
+    }
+
+    await db.patient.update({
+      where: { id: patient.id },
+      data: {
+        address: parsed.data.address || null,
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        geocodedAt: location ? new Date() : null,
+        geocodeSource: location?.source ?? null,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "patient.address.update",
+      entityType: "Patient",
+      entityId: patient.id,
+      meta: {
+        address: parsed.data.address,
+        source: location?.source ?? null,
+      },
+    });
+  });
+
+  revalidatePath(`/patients/${patientId}`);
+}
+
+async function togglePatientAllergy(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const allergyId = String(formData.get("allergyId") ?? "");
+  let patientId = "";
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const allergy = await db.patientAllergy.findFirst({
+      where: { id: allergyId, tenantId },
+    });
+    if (!allergy) {
+      throw new Error("NOT_FOUND");
+    }
+    patientId = allergy.patientId;
+
+    const updated = await db.patientAllergy.update({
+      where: { id: allergy.id },
+      data: { isActive: !allergy.isActive },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "patient.allergy.toggle",
+      entityType: "Patient",
+      entityId: allergy.patientId,
+      meta: { allergyId: allergy.id, isActive: updated.isActive },
+    });
+  });
+
+  revalidatePath(`/patients/${patientId}`);
+}
+
+async function addPatientProblem(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const patientId = String(formData.get("patientId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = problemSchema.safeParse({
+      patientId,
+      kind: formData.get("kind"),
+      description: formData.get("description"),
+      onsetDate: formData.get("onsetDate"),
+      notes: formData.get("notes"),
+    });
+    if (!parsed.success) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const patient = await db.patient.findFirst({
+      where: { id: parsed.data.patientId, tenantId },
+    });
+    if (!patient) {
+      throw new Error("PATIENT_NOT_FOUND");
+    }
+
+    const onsetDate = parsed.data.onsetDate
+      ? new Date(parsed.data.onsetDate)
+      : null;
+    if (onsetDate && Number.isNaN(onsetDate.getTime())) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    const problem = await db.patientProblem.create({
+      data: {
+        tenantId,
+        patientId: patient.id,
+        kind: parsed.data.kind,
+        description: parsed.data.description,
+        onsetDate,
+        notes: parsed.data.notes || null,
+        recordedById: session.user.id,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "patient.problem.create",
+      entityType: "Patient",
+      entityId: patient.id,
+      meta: {
+        problemId: problem.id,
+        kind: problem.kind,
+        description: problem.description,
+      },
+    });
+  });
+
+  revalidatePath(`/patients/${patientId}`);
+}
+
+async function togglePatientProblem(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const problemId = String(formData.get("problemId") ?? "");
+  let patientId = "";
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const problem = await db.patientProblem.findFirst({
+      where: { id: problemId, tenantId },
+    });
+    if (!problem) {
+      throw new Error("NOT_FOUND");
+    }
+    patientId = problem.patientId;
+
+    const resolved = problem.status === PatientProblemStatus.ACTIVE;
+    const updated = await db.patientProblem.update({
+      where: { id: problem.id },
+      data: {
+        status: resolved
+          ? PatientProblemStatus.RESOLVED
+          : PatientProblemStatus.ACTIVE,
+        resolvedAt: resolved ? new Date() : null,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "patient.problem.status",
+      entityType: "Patient",
+      entityId: problem.patientId,
+      meta: { problemId: problem.id, status: updated.status },
+    });
+  });
+
+  revalidatePath(`/patients/${patientId}`);
+}
+
+async function addPatientContact(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const patientId = String(formData.get("patientId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const parsed = contactSchema.safeParse({
+      patientId,
+      name: formData.get("name"),
+      relationship: formData.get("relationship"),
+      phone: formData.get("phone") ?? "",
+      email: String(formData.get("email") ?? "").trim(),
+      preferredChannel: formData.get("preferredChannel"),
+      notes: formData.get("notes") ?? "",
+    });
+    if (!parsed.success) {
+      throw new Error("CONTACT_INVALID");
+    }
+
+    const patient = await db.patient.findFirst({
+      where: { id: parsed.data.patientId, tenantId },
+    });
+    if (!patient) {
+      throw new Error("PATIENT_NOT_FOUND");
+    }
+
+    const isPrimary =
+      (await db.patientContact.count({
+        where: { tenantId, patientId: patient.id, isActive: true },
+      })) === 0;
+    const contact = await db.patientContact.create({
+      data: {
+        tenantId,
+        patientId: patient.id,
+        name: parsed.data.name,
+        relationship: parsed.data.relationship,
+        phone: parsed.data.phone || null,
+        email: parsed.data.email || null,
+        preferredChannel: parsed.data.preferredChannel,
+        notes: parsed.data.notes || null,
+        isPrimary,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "patient.contact.create",
+      entityType: "Patient",
+      entityId: patient.id,
+      meta: {
+        contactId: contact.id,
+        relationship: contact.relationship,
+      },
+    });
+  });
+
+  revalidatePath(`/patients/${patientId}`);
+}
+
+async function updatePatientContact(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const contactId = String(formData.get("contactId") ?? "");
+  const intent = String(formData.get("intent") ?? "");
+  let patientId = "";
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const contact = await db.patientContact.findFirst({
+      where: { id: contactId, tenantId },
+    });
+    if (!contact) {
+      throw new Error("CONTACT_NOT_FOUND");
+    }
+    patientId = contact.patientId;
+
+    if (intent === "primary") {
+      await db.patientContact.updateMany({
+        where: { tenantId, patientId: contact.patientId },
+        data: { isPrimary: false },
+      });
+      await db.patientContact.update({
+        where: { id: contact.id },
+        data: { isPrimary: true, isActive: true },
+      });
+    } else if (intent === "toggle") {
+      await db.patientContact.update({
+        where: { id: contact.id },
+        data: {
+          isActive: !contact.isActive,
+          isPrimary: contact.isActive ? false : contact.isPrimary,
+        },
+      });
+    } else {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: `patient.contact.${intent}`,
+      entityType: "Patient",
+      entityId: contact.patientId,
+      meta: { contactId: contact.id },
+    });
+  });
+
+  revalidatePath(`/patients/${patientId}`);
+}
+
+export default async function PatientDetailPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams?: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const patient = await db.patient.findFirst({
+      where: { id: params.id, tenantId, ...careTeamPatientScope(session?.user) },
+      include: {
+        episodes: { orderBy: { startDate: "desc" } },
+        visits: { include: { assignedUser: true } },
+        clinicalNotes: { include: { author: true } },
+        clinicalAttachments: true,
+        allergies: { orderBy: { createdAt: "desc" } },
+        problems: { orderBy: [{ status: "asc" }, { createdAt: "desc" }] },
+        contacts: {
+          orderBy: [
+            { isActive: "desc" },
+            { isPrimary: "desc" },
+            { createdAt: "asc" },
+          ],
+        },
+      },
+    });
+    if (!patient) {
+      return (
+        <p className="text-sm text-muted-foreground">Paciente no encontrado.</p>
+      );
+    }
+
+    const logisticsAccess = await getTenantModuleAccess(
+      db,
+      tenantId,
+      "LOGISTICS",
+    );
+    const authorizationsAccess = await getTenantModuleAccess(
+      db,
+      tenantId,
+      "AUTHORIZATIONS",
+    );
+    const billingAccess = await getTenantModuleAccess(db, tenantId, "BILLING");
+
+    const deliveries = logisticsAccess.allowed
+      ? await db.delivery.findMany({
+          where: { tenantId, approvedOrder: { patientId: patient.id } },
+        })
+      : [];
+    const authorizations = authorizationsAccess.allowed
+      ? await db.authorization.findMany({
+          where: { tenantId, patientId: patient.id },
+          include: { payer: true },
+        })
+      : [];
+    const invoices = billingAccess.allowed
+      ? await db.invoice.findMany({
+          where: { tenantId, patientId: patient.id },
+          include: { payer: true },
+        })
+      : [];
+
+    const events: PatientTimelineEvent[] = [];
+    patient.episodes.forEach((episode) => {
+      events.push({
+        type: "EPISODE",
+        at: episode.startDate,
+        title: "Ingreso de episodio",
+        detail: episode.diagnosis ?? undefined,
+        href: `/episodes/${episode.id}`,
+      });
+      if (episode.endDate) {
+        events.push({
+          type: "EPISODE",
+          at: episode.endDate,
+          title: `Cierre de episodio (${episodeStatusLabels[episode.status]})`,
+          href: `/episodes/${episode.id}`,
+        });
+      }
+    });
+    patient.visits.forEach((visit) => {
+      events.push({
+        type: "VISIT",
+        at: visit.checkInAt ?? visit.scheduledAt,
+        title: `Visita ${visit.status}`,
+        detail:
+          visit.assignedUser?.name ?? visit.assignedUser?.email ?? undefined,
+        href: visit.episodeId ? `/episodes/${visit.episodeId}` : undefined,
+      });
+    });
+    patient.clinicalNotes.forEach((note) => {
+      events.push({
+        type: "NOTE",
+        at: note.createdAt,
+        title: note.amendsId ? "Addenda de nota clinica" : "Nota clinica",
+        detail: `${note.author.name ?? note.author.email}: ${note.content}`,
+        href: note.episodeId ? `/episodes/${note.episodeId}/notes` : undefined,
+      });
+    });
+    patient.clinicalAttachments.forEach((attachment) => {
+      events.push({
+        type: "ATTACHMENT",
+        at: attachment.createdAt,
+        title:
+          attachment.kind === "DISCHARGE_SUMMARY"
+            ? "Epicrisis"
+            : attachment.kind === "CONSENT"
+              ? "Consentimiento firmado"
+              : "Adjunto clinico",
+        detail: attachment.fileName,
+        href:
+          attachment.kind === "DISCHARGE_SUMMARY" && attachment.episodeId
+            ? `/api/episodes/${attachment.episodeId}/discharge-summary`
+            : (attachment.fileUrl ?? undefined),
+      });
+    });
+    deliveries.forEach((delivery) => {
+      events.push({
+        type: "DELIVERY",
+        at: delivery.deliveredAt ?? delivery.scheduledAt ?? delivery.createdAt,
+        title: `Entrega ${delivery.deliveryNumber}`,
+        detail: delivery.status,
+        href: "/logistics/deliveries",
+      });
+    });
+    authorizations.forEach((authorization) => {
+      events.push({
+        type: "AUTHORIZATION",
+        at: authorization.startDate,
+        title: `Autorizacion ${authorization.number}`,
+        detail: `${authorization.payer.name} - ${authorization.status}`,
+        href: "/authorizations",
+      });
+    });
+    invoices.forEach((invoice) => {
+      events.push({
+        type: "INVOICE",
+        at: invoice.issuedAt,
+        title: `Factura ${invoice.invoiceNumber}`,
+        detail: `${invoice.payer.name} - ${invoice.status} - ${invoice.currency} ${invoice.totalAmount.toFixed(2)}`,
+        href: "/billing/invoices",
+      });
+    });
+
+    const filters = parsePatientTimelineFilters(searchParams ?? {});
+    const timeline = filterPatientTimeline(events, filters);
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+              Paciente
+            </p>
+            <h1 className="text-2xl font-semibold">
+              {patient.lastName}, {patient.firstName}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              DNI {patient.dni}
+              {patient.birthDate
+                ? ` - Nac. ${patient.birthDate.toLocaleDateString("es-AR")}`
+                : ""}
+              {patient.phone ? ` - Tel. ${patient.phone}` : ""}
+            </p>
+          </div>
+          <Link
+            href="/patients"
+            className="rounded-md border px-3 py-2 text-sm"
+          >
+            Volver a pacientes
+          </Link>
+        </div>
+
+        <PatientAlertsBanner
+          allergies={patient.allergies}
+          problems={patient.problems}
+        />
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Alergias</h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {patient.allergies.map((allergy) => (
+                <li key={allergy.id} className="flex items-center gap-2">
+                  <span
+                    className={allergy.isActive ? "" : "text-muted-foreground line-through"}
+                  >
+                    {allergy.substance}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {allergySeverityLabels[allergy.severity]}
+                    {allergy.reaction ? ` - ${allergy.reaction}` : ""}
+                  </span>
+                  <form action={togglePatientAllergy} className="ml-auto">
+                    <input type="hidden" name="allergyId" value={allergy.id} />
+                    <Button size="sm" variant="outline" type="submit">
+                      {allergy.isActive ? "Descartar" : "Reactivar"}
+                    </Button>
+                  </form>
+                </li>
+              ))}
+              {patient.allergies.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin alergias registradas.
+                </li>
+              ) : null}
+            </ul>
+            <form
+              action={addPatientAllergy}
+              className="mt-3 flex flex-wrap items-center gap-2"
+            >
+              <input type="hidden" name="patientId" value={patient.id} />
+              <Input
+                name="substance"
+                placeholder="Sustancia"
+                className="h-9 w-40"
+                required
+              />
+              <Input
+                name="reaction"
+                placeholder="Reaccion"
+                className="h-9 w-40"
+              />
+              <select
+                name="severity"
+                className="h-9 rounded-md border bg-background px-2 text-sm"
+                defaultValue={AllergySeverity.MODERATE}
+              >
+                {Object.values(AllergySeverity).map((severity) => (
+                  <option key={severity} value={severity}>
+                    {allergySeverityLabels[severity]}
+                  </option>
+                ))}
+              </select>
+              <Button size="sm" type="submit">
+                Agregar alergia
+              </Button>
+            </form>
+          </div>
+
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Problemas y antecedentes</h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {patient.problems.map((problem) => (
+                <li key={problem.id} className="flex items-center gap-2">
+                  <span
+                    className={
+                      problem.status === PatientProblemStatus.ACTIVE
+                        ? ""
+                        : "text-muted-foreground line-through"
+                    }
+                  >
+                    {problem.description}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {patientProblemKindLabels[problem.kind]}
+                    {problem.onsetDate
+                      ? ` - desde ${problem.onsetDate.toLocaleDateString("es-AR")}`
+                      : ""}
+                    {problem.notes ? ` - ${problem.notes}` : ""}
+                  </span>
+                  <form action={togglePatientProblem} className="ml-auto">
+                    <input type="hidden" name="problemId" value={problem.id} />
+                    <Button size="sm" variant="outline" type="submit">
+                      {problem.status === PatientProblemStatus.ACTIVE
+                        ? "Resolver"
+                        : "Reactivar"}
+                    </Button>
+                  </form>
+                </li>
+              ))}
+              {patient.problems.length === 0 ? (
+                <li className="text-xs text-muted-foreground">
+                  Sin problemas ni antecedentes registrados.
+                </li>
+              ) : null}
+            </ul>
+            <form
+              action={addPatientProblem}
+              className="mt-3 flex flex-wrap items-center gap-2"
+            >
+              <input type="hidden" name="patientId" value={patient.id} />
+              <select
+                name="kind"
+                className="h-9 rounded-md border bg-background px-2 text-sm"
+                defaultValue={PatientProblemKind.ACTIVE_PROBLEM}
+              >
+                {Object.values(PatientProblemKind).map((kind) => (
+                  <option key={kind} value={kind}>
+                    {patientProblemKindLabels[kind]}
+                  </option>
+                ))}
+              </select>
+              <Input
+                name="description"
+                placeholder="Descripcion"
+                className="h-9 w-48"
+                required
+              />
+              <Input name="onsetDate" type="date" className="h-9 w-40" />
+              <Input name="notes" placeholder="Notas" className="h-9 w-40" />
+              <Button size="sm" type="submit">
+                Agregar
+              </Button>
+            </form>
+          </div>
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <h2 className="text-lg font-semibold">Domicilio</h2>
+          <p className="text-sm">
+            {patient.address ?? "Sin direccion"}
+            {patient.latitude !== null && patient.longitude !== null ? (
+              <>
+                {" - "}
+                <a
+                  href={`https://www.openstreetmap.org/?mlat=${patient.latitude}&mlon=${patient.longitude}#map=17/${patient.latitude}/${patient.longitude}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  {patient.latitude.toFixed(5)}, {patient.longitude.toFixed(5)}
+                </a>
+              </>
+            ) : null}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {patient.geocodedAt
+              ? `Geolocalizado ${patient.geocodeSource === "manual" ? "manualmente" : `con ${patient.geocodeSource}`} el ${patient.geocodedAt.toLocaleDateString("es-AR")}. Se usa para controlar la distancia del check-in.`
+              : "Sin coordenadas: el check-in no puede controlar la distancia. Carga las coordenadas a mano si la geolocalizacion automatica no esta disponible."}
+          </p>
+          <form
+            action={updatePatientAddress}
+            className="mt-3 flex flex-wrap gap-2"
+          >
+            <input type="hidden" name="patientId" value={patient.id} />
+            <Input
+              name="address"
+              placeholder="Direccion"
+              defaultValue={patient.address ?? ""}
+              className="h-9 w-72"
+            />
+            <Input
+              name="latitude"
+              placeholder="Latitud (opcional)"
+              className="h-9 w-40"
+            />
+            <Input
+              name="longitude"
+              placeholder="Longitud (opcional)"
+              className="h-9 w-40"
+            />
+            <Button size="sm" type="submit">
+              Guardar y geolocalizar
+            </Button>
+          </form>
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <h2 className="text-lg font-semibold">Contactos y cuidadores</h2>
+          <ul className="mt-2 space-y-1 text-sm">
+            {patient.contacts.map((contact) => {
+              const href = contactHref(contact);
+              return (
+                <li
+                  key={contact.id}
+                  className="flex flex-wrap items-center gap-2"
+                >
+                  <span
+                    className={
+                      contact.isActive
+                        ? "font-medium"
+                        : "text-muted-foreground line-through"
+                    }
+                  >
+                    {contact.name}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {contactRelationshipLabels[contact.relationship]}
+                    {contact.isPrimary ? " - Principal" : ""}
+                    {contact.phone ? ` - Tel. ${contact.phone}` : ""}
+                    {contact.email ? ` - ${contact.email}` : ""}
+                    {contact.notes ? ` - ${contact.notes}` : ""}
+                  </span>
+                  {href ? (
+                    <a
+                      href={href}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs text-primary hover:underline"
+                    >
+                      {contactChannelLabels[contact.preferredChannel]}:{" "}
+                      {contactChannelTarget(contact)}
+                    </a>
+                  ) : null}
+                  <div className="ml-auto flex gap-1">
+                    {contact.isActive && !contact.isPrimary ? (
+                      <form action={updatePatientContact}>
+                        <input
+                          type="hidden"
+                          name="contactId"
+                          value={contact.id}
+                        />
+                        <input type="hidden" name="intent" value="primary" />
+                        <Button size="sm" variant="ghost" type="submit">
+                          Marcar principal
+                        </Button>
+                      </form>
+                    ) : null}
+                    <form action={updatePatientContact}>
+                      <input type="hidden" name="contactId" value={contact.id} />
+                      <input type="hidden" name="intent" value="toggle" />
+                      <Button size="sm" variant="outline" type="submit">
+                        {contact.isActive ? "Dar de baja" : "Reactivar"}
+                      </Button>
+                    </form>
+                  </div>
+                </li>
+              );
+            })}
+            {patient.contacts.length === 0 ? (
+              <li className="text-xs text-muted-foreground">
+                Sin contactos registrados.
+              </li>
+            ) : null}
+          </ul>
+          <form
+            action={addPatientContact}
+            className="mt-3 flex flex-wrap items-center gap-2"
+          >
+            <input type="hidden" name="patientId" value={patient.id} />
+            <Input
+              name="name"
+              placeholder="Nombre y apellido"
+              className="h-9 w-48"
+              required
+            />
+            <select
+              name="relationship"
+              className="h-9 rounded-md border bg-background px-2 text-sm"
+              defaultValue={ContactRelationship.CAREGIVER}
+            >
+              {Object.values(ContactRelationship).map((relationship) => (
+                <option key={relationship} value={relationship}>
+                  {contactRelationshipLabels[relationship]}
+                </option>
+              ))}
+            </select>
+            <Input name="phone" placeholder="Telefono" className="h-9 w-36" />
+            <Input
+              name="email"
+              type="email"
+              placeholder="Email"
+              className="h-9 w-44"
+            />
+            <select
+              name="preferredChannel"
+              className="h-9 rounded-md border bg-background px-2 text-sm"
+              defaultValue={ContactChannel.PHONE}
+            >
+              {Object.values(ContactChannel).map((channel) => (
+                <option key={channel} value={channel}>
+                  {contactChannelLabels[channel]}
+                </option>
+              ))}
+            </select>
+            <Input name="notes" placeholder="Notas" className="h-9 w-40" />
+            <Button size="sm" type="submit">
+              Agregar contacto
+            </Button>
+          </form>
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <h2 className="text-lg font-semibold">Episodios</h2>
+          <ul className="mt-2 space-y-1 text-sm">
+            {patient.episodes.map((episode) => (
+              <li key={episode.id}>
+                <Link
+                  href={`/episodes/${episode.id}`}
+                  className="text-primary hover:underline"
+                >
+                  {episode.startDate.toLocaleDateString("es-AR")}
+                  {episode.endDate
+                    ? ` - ${episode.endDate.toLocaleDateString("es-AR")}`
+                    : ""}
+                </Link>{" "}
+                <span className="text-xs text-muted-foreground">
+                  {episodeStatusLabels[episode.status]}
+                  {episode.diagnosis ? ` - ${episode.diagnosis}` : ""}
+                </span>
+              </li>
+            ))}
+            {patient.episodes.length === 0 ? (
+              <li className="text-xs text-muted-foreground">Sin episodios.</li>
+            ) : null}
+          </ul>
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <h2 className="text-lg font-semibold">Timeline del paciente</h2>
+          <form className="mt-3 flex flex-wrap items-end gap-3 text-sm">
+            {patientTimelineTypes.map((type) => (
+              <label key={type} className="flex items-center gap-1 text-xs">
+                <input
+                  type="checkbox"
+                  name="type"
+                  value={type}
+                  defaultChecked={filters.types.includes(type)}
+                />
+                {patientTimelineTypeLabels[type]}
+              </label>
+            ))}
+            <label className="text-xs text-muted-foreground">
+              Desde
+              <Input
+                type="date"
+                name="from"
+                defaultValue={formatDay(filters.from)}
+                className="mt-1 h-9"
+              />
+            </label>
+            <label className="text-xs text-muted-foreground">
+              Hasta
+              <Input
+                type="date"
+                name="to"
+                defaultValue={formatDay(filters.to)}
+                className="mt-1 h-9"
+              />
+            </label>
+            <Button size="sm" type="submit">
+              Filtrar
+            </Button>
+            <Link
+              href={`/patients/${patient.id}`}
+              className="text-xs text-primary hover:underline"
+            >
+              Limpiar
+            </Link>
+          </form>
+
+          <div className="mt-4 space-y-2 text-sm text-muted-foreground">
+            {timeline.map((event, index) => (
+              <div key={`${event.at.getTime()}-${index}`} className="flex gap-3">
+                <div className="w-40 text-xs">
+                  {event.at.toLocaleString("es-AR")}
+                </div>
+                <div className="w-28 text-xs">
+                  {patientTimelineTypeLabels[event.type]}
+                </div>
+                <div>
+                  <div className="font-medium text-foreground">
+                    {event.href ? (
+                      <Link href={event.href} className="hover:underline">
+                        {event.title}
+                      </Link>
+                    ) : (
+                      event.title
+                    )}
+                  </div>
+                  {event.detail ? (
+                    <div className="text-xs">{event.detail}</div>
+                  ) : null}
+                </div>
+              </div>
+            ))}
+            {timeline.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Sin eventos para los filtros elegidos.
+              </p>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    );
+  });
+}
@@ -14,6 +14,8 @@ import {
 } from "@/lib/tenant-access";
 import AccessDenied from "@/components/app/access-denied";
 import { withTenant } from "@/lib/rls";
+import { careTeamPatientScope } from "@/lib/care-team";
+import { geocodeAddress } from "@/lib/geocoding";
 
 const PAGE_SIZE = 20;
 
@@ -36,30 +38,38 @@ async function createPatient(formData: FormData) {
   if (!session?.user?.tenantId) {
     throw new Error("UNAUTHORIZED");
   }
-  await withTenant(session.user.tenantId, async (db) => {
-    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
-    assertRole(session.user.role, [
-      Role.ADMIN_TENANT,
-      Role.COORDINACION,
-      Role.PROFESIONAL,
-    ]);
+  assertRole(session.user.role, [
+    Role.ADMIN_TENANT,
+    Role.COORDINACION,
+    Role.PROFESIONAL,
+  ]);
+
+  const parsed = patientSchema.safeParse({
+    firstName: formData.get("firstName"),
+    lastName: formData.get("lastName"),
+    dni: formData.get("dni"),
+    phone: formData.get("phone"),
+    address: formData.get("address"),
+  });
 
-    const parsed = patientSchema.safeParse({
-      firstName: formData.get("firstName"),
-      lastName: formData.get("lastName"),
-      dni: formData.get("dni"),
-      phone: formData.get("phone"),
-      address: formData.get("address"),
-    });
+  if (!parsed.success) {
+    throw new Error("VALIDATION_ERROR");
+  }
 
-    if (!parsed.success) {
-      throw new Error("VALIDATION_ERROR");
-    }
+  // Geocoding is a slow HTTP call: keep it out of the interactive transaction.
+  const geocoded = await geocodeAddress(parsed.data.address);
+
+  await withTenant(session.user.tenantId, async (db) => {
+    await assertTenantModuleAccess(db, session.user.tenantId, "CLINIC");
 
     const patient = await db.patient.create({
       data: {
         tenantId: session.user.tenantId,
         ...parsed.data,
+        latitude: geocoded?.latitude ?? null,
+        longitude: geocoded?.longitude ?? null,
+        geocodedAt: geocoded ? new Date() : null,
+        geocodeSource: geocoded?.source ?? null,
       },
     });
 
@@ -103,6 +113,7 @@ export default async function PatientsPage({
 
     const where = {
       tenantId,
+      ...careTeamPatientScope(session?.user),
       ...(query
         ? {
             OR: [
@@ -175,7 +186,12 @@ export default async function PatientsPage({
               {patients.map((patient) => (
                 <tr key={patient.id} className="border-t">
                   <td className="px-3 py-2">
-                    {patient.lastName}, {patient.firstName}
+                    <Link
+                      href={`/patients/${patient.id}`}
+                      className="text-primary hover:underline"
+                    >
+                      {patient.lastName}, {patient.firstName}
+                    </Link>
                   </td>
                   <td className="px-3 py-2">{patient.dni}</td>
                   <td className="px-3 py-2">{patient.phone ?? "-"}</td>
@@ -0,0 +1,701 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { Role } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole, hasRole } from "@/lib/rbac";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { withTenant } from "@/lib/rls";
+import { geocodeAddress } from "@/lib/geocoding";
+import { visitTypeLabels } from "@/lib/visit-checklist";
+import {
+  convertReferral,
+  referralAddressToGeocode,
+  nextReferralStatus,
+  openReferralStatuses,
+  referralStatusLabels,
+  storeReferralAttachments,
+} from "@/lib/referrals";
+
+const evaluationSchema = z.object({
+  referralId: z.string().min(1),
+  evaluationNotes: z.string().trim().min(2),
+});
+
+const quoteSchema = z.object({
+  referralId: z.string().min(1),
+  quotedAmount: z.coerce.number().positive(),
+  quoteNotes: z.string().trim().optional(),
+});
+
+const rejectionSchema = z.object({
+  referralId: z.string().min(1),
+  rejectionReason: z.string().trim().min(2),
+});
+
+async function addReferralAttachments(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const referralId = String(formData.get("referralId") ?? "");
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const referral = await db.referral.findFirst({
+      where: { id: referralId, tenantId },
+    });
+    if (!referral) {
+      throw new Error("REFERRAL_NOT_FOUND");
+    }
+    if (!openReferralStatuses.includes(referral.status)) {
+      throw new Error("REFERRAL_INVALID_STATUS");
+    }
+
+    const attachments = await storeReferralAttachments(db, {
+      tenantId,
+      referralId: referral.id,
+      uploadedById: session.user.id,
+      files: formData.getAll("files"),
+    });
+    if (attachments.length === 0) {
+      throw new Error("VALIDATION_ERROR");
+    }
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "referral.attachment.upload",
+      entityType: "Referral",
+      entityId: referral.id,
+      meta: { fileNames: attachments.map((attachment) => attachment.fileName) },
+    });
+  });
+
+  revalidatePath(`/referrals/${referralId}`);
+}
+
+async function evaluateReferral(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const parsed = evaluationSchema.safeParse({
+    referralId: formData.get("referralId"),
+    evaluationNotes: formData.get("evaluationNotes"),
+  });
+  if (!parsed.success) {
+    throw new Error("VALIDATION_ERROR");
+  }
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+
+    const referral = await db.referral.findFirst({
+      where: { id: parsed.data.referralId, tenantId },
+    });
+    if (!referral) {
+      throw new Error("REFERRAL_NOT_FOUND");
+    }
+
+    const updated = await db.referral.update({
+      where: { id: referral.id },
+      data: {
+        status: nextReferralStatus(referral, "evaluate"),
+        evaluationNotes: parsed.data.evaluationNotes,
+        evaluatedAt: new Date(),
+        evaluatedById: session.user.id,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "referral.evaluate",
+      entityType: "Referral",
+      entityId: updated.id,
+      meta: { status: updated.status },
+    });
+  });
+
+  revalidatePath(`/referrals/${parsed.data.referralId}`);
+  revalidatePath("/referrals");
+}
+
+async function quoteReferral(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const parsed = quoteSchema.safeParse({
+    referralId: formData.get("referralId"),
+    quotedAmount: formData.get("quotedAmount"),
+    quoteNotes: formData.get("quoteNotes") || undefined,
+  });
+  if (!parsed.success) {
+    throw new Error("REFERRAL_QUOTE_INVALID");
+  }
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.FACTURACION,
+    ]);
+
+    const referral = await db.referral.findFirst({
+      where: { id: parsed.data.referralId, tenantId },
+    });
+    if (!referral) {
+      throw new Error("REFERRAL_NOT_FOUND");
+    }
+
+    const updated = await db.referral.update({
+      where: { id: referral.id },
+      data: {
+        status: nextReferralStatus(referral, "quote"),
+        quotedAmount: parsed.data.quotedAmount,
+        quoteNotes: parsed.data.quoteNotes || null,
+        quotedAt: new Date(),
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "referral.quote",
+      entityType: "Referral",
+      entityId: updated.id,
+      meta: {
+        quotedAmount: updated.quotedAmount,
+        previousAmount: referral.quotedAmount,
+      },
+    });
+  });
+
+  revalidatePath(`/referrals/${parsed.data.referralId}`);
+  revalidatePath("/referrals");
+}
+
+async function acceptReferral(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const referralId = String(formData.get("referralId") ?? "");
+  assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+  const address = await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    return referralAddressToGeocode(db, { tenantId, referralId });
+  });
+  const geocoded = await geocodeAddress(address);
+
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+
+    const referral = await db.referral.findFirst({
+      where: { id: referralId, tenantId },
+      include: { attachments: true },
+    });
+    if (!referral) {
+      throw new Error("REFERRAL_NOT_FOUND");
+    }
+    nextReferralStatus(referral, "accept");
+
+    const authorizationAccess = await getTenantModuleAccess(
+      db,
+      tenantId,
+      "AUTHORIZATIONS",
+    );
+    const result = await convertReferral(db, {
+      tenantId,
+      actorId: session.user.id,
+      referral,
+      createAuthorization: authorizationAccess.allowed,
+      geocoded,
+    });
+
+    if (result.patientCreated) {
+      await logAudit(db, {
+        tenantId,
+        actorId: session.user.id,
+        action: "patient.create",
+        entityType: "Patient",
+        entityId: result.patient.id,
+        meta: { dni: result.patient.dni, referralId: referral.id },
+      });
+    }
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.create",
+      entityType: "Episode",
+      entityId: result.episode.id,
+      meta: { referralId: referral.id },
+    });
+    if (result.authorization) {
+      await logAudit(db, {
+        tenantId,
+        actorId: session.user.id,
+        action: "authorization.create",
+        entityType: "Authorization",
+        entityId: result.authorization.id,
+        meta: { referralId: referral.id },
+      });
+    }
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "referral.accept",
+      entityType: "Referral",
+      entityId: referral.id,
+      meta: {
+        patientId: result.patient.id,
+        episodeId: result.episode.id,
+        authorizationId: result.authorization?.id ?? null,
+      },
+    });
+  });
+
+  revalidatePath(`/referrals/${referralId}`);
+  revalidatePath("/referrals");
+  revalidatePath("/patients");
+  revalidatePath("/episodes");
+  revalidatePath("/authorizations");
+}
+
+async function rejectReferral(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  const parsed = rejectionSchema.safeParse({
+    referralId: formData.get("referralId"),
+    rejectionReason: formData.get("rejectionReason"),
+  });
+  if (!parsed.success) {
+    throw new Error("VALIDATION_ERROR");
+  }
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const referral = await db.referral.findFirst({
+      where: { id: parsed.data.referralId, tenantId },
+    });
+    if (!referral) {
+      throw new Error("REFERRAL_NOT_FOUND");
+    }
+
+    const updated = await db.referral.update({
+      where: { id: referral.id },
+      data: {
+        status: nextReferralStatus(referral, "reject"),
+        rejectionReason: parsed.data.rejectionReason,
+        decidedAt: new Date(),
+        decidedById: session.user.id,
+      },
+    });
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "referral.reject",
+      entityType: "Referral",
+      entityId: updated.id,
+      meta: { reason: updated.rejectionReason },
+    });
+  });
+
+  revalidatePath(`/referrals/${parsed.data.referralId}`);
+  revalidatePath("/referrals");
+}
+
+export default async function ReferralDetailPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const referral = await db.referral.findFirst({
+      where: { id: params.id, tenantId },
+      include: {
+        payer: true,
+        plan: true,
+        createdBy: true,
+        evaluatedBy: true,
+        decidedBy: true,
+        authorization: true,
+        attachments: {
+          include: { uploadedBy: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+    if (!referral) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          Derivacion no encontrada.
+        </p>
+      );
+    }
+
+    const existingPatient = referral.patientId
+      ? null
+      : await db.patient.findFirst({
+          where: { tenantId, dni: referral.patientDni },
+          include: {
+            episodes: { where: { status: { in: ["ACTIVE", "SUSPENDED"] } } },
+          },
+        });
+    const role = session?.user?.role;
+    const isOpen = openReferralStatuses.includes(referral.status);
+    const canDecide = hasRole(role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+    const canEvaluate = hasRole(role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ]);
+    const canQuote = hasRole(role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.FACTURACION,
+    ]);
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">
+              Derivacion {referral.number}
+            </p>
+            <h1 className="text-2xl font-semibold">
+              {referral.patientLastName}, {referral.patientFirstName}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Estado: {referralStatusLabels[referral.status]} - Recibida{" "}
+              {referral.receivedAt.toLocaleDateString("es-AR")} desde{" "}
+              {referral.sourceInstitution}
+            </p>
+          </div>
+          <Link
+            href="/referrals"
+            className="rounded-md border px-3 py-2 text-sm"
+          >
+            Volver a derivaciones
+          </Link>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Paciente</h2>
+            <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+              <div>DNI: {referral.patientDni}</div>
+              <div>
+                Nacimiento:{" "}
+                {referral.patientBirthDate
+                  ? referral.patientBirthDate.toLocaleDateString("es-AR")
+                  : "-"}
+              </div>
+              <div>Telefono: {referral.patientPhone ?? "-"}</div>
+              <div>Domicilio: {referral.patientAddress ?? "-"}</div>
+              <div>Diagnostico: {referral.diagnosis ?? "-"}</div>
+            </div>
+            {existingPatient ? (
+              <p className="mt-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                Ya existe un paciente con este DNI (
+                <Link
+                  href={`/patients/${existingPatient.id}`}
+                  className="underline"
+                >
+                  {existingPatient.lastName}, {existingPatient.firstName}
+                </Link>
+                ). Al aceptar se usa ese paciente
+                {existingPatient.episodes.length > 0
+                  ? ", pero tiene un episodio activo: no se puede admitir hasta darle el alta."
+                  : "."}
+              </p>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Solicitud</h2>
+            <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+              <div>
+                Servicios:{" "}
+                {referral.requestedServices
+                  .map((service) => visitTypeLabels[service])
+                  .join(", ")}
+              </div>
+              <div>Detalle: {referral.servicesDetail ?? "-"}</div>
+              <div>
+                Inicio solicitado:{" "}
+                {referral.requestedStartDate
+                  ? referral.requestedStartDate.toLocaleDateString("es-AR")
+                  : "-"}
+              </div>
+              <div>
+                Financiador: {referral.payer?.name ?? "-"}
+                {referral.plan ? ` - ${referral.plan.name}` : ""}
+              </div>
+              <div>
+                Contacto: {referral.sourceContactName ?? "-"}
+                {referral.sourceContactPhone
+                  ? ` - ${referral.sourceContactPhone}`
+                  : ""}
+                {referral.sourceContactEmail
+                  ? ` - ${referral.sourceContactEmail}`
+                  : ""}
+              </div>
+              <div>
+                Registrada por:{" "}
+                {referral.createdBy?.name ?? referral.createdBy?.email ?? "-"}
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-lg border p-4 md:col-span-2">
+            <h2 className="text-lg font-semibold">Adjuntos</h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {referral.attachments.map((attachment) => (
+                <li key={attachment.id} className="flex justify-between gap-2">
+                  <a
+                    href={`/api/referrals/${referral.id}/attachments/${attachment.id}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    {attachment.fileName}
+                  </a>
+                  <span className="text-xs text-muted-foreground">
+                    {attachment.createdAt.toLocaleDateString("es-AR")} -{" "}
+                    {attachment.uploadedBy?.name ??
+                      attachment.uploadedBy?.email ??
+                      "-"}
+                  </span>
+                </li>
+              ))}
+              {referral.attachments.length === 0 ? (
+                <li className="text-xs text-muted-foreground">Sin adjuntos.</li>
+              ) : null}
+            </ul>
+            {isOpen && canEvaluate ? (
+              <form
+                action={addReferralAttachments}
+                className="mt-3 flex flex-wrap gap-2"
+              >
+                <input type="hidden" name="referralId" value={referral.id} />
+                <Input
+                  name="files"
+                  type="file"
+                  accept="application/pdf,image/*"
+                  multiple
+                  className="max-w-sm"
+                />
+                <Button type="submit" variant="outline">
+                  Adjuntar
+                </Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Evaluacion</h2>
+            {referral.evaluatedAt ? (
+              <div className="mt-2 text-sm">
+                <p className="whitespace-pre-wrap">
+                  {referral.evaluationNotes}
+                </p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {referral.evaluatedBy?.name ??
+                    referral.evaluatedBy?.email ??
+                    "-"}{" "}
+                  - {referral.evaluatedAt.toLocaleString("es-AR")}
+                </p>
+              </div>
+            ) : (
+              <p className="mt-2 text-xs text-muted-foreground">Sin evaluar.</p>
+            )}
+            {isOpen && canEvaluate ? (
+              <form action={evaluateReferral} className="mt-3 grid gap-2">
+                <input type="hidden" name="referralId" value={referral.id} />
+                <Textarea
+                  name="evaluationNotes"
+                  placeholder="Complejidad, necesidades de cuidado, cobertura geografica, equipamiento"
+                  defaultValue={referral.evaluationNotes ?? ""}
+                  required
+                />
+                <Button type="submit" variant="outline">
+                  Guardar evaluacion
+                </Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4">
+            <h2 className="text-lg font-semibold">Cotizacion</h2>
+            {referral.quotedAt && referral.quotedAmount !== null ? (
+              <div className="mt-2 text-sm">
+                <p>
+                  Monto:{" "}
+                  {referral.quotedAmount.toLocaleString("es-AR", {
+                    style: "currency",
+                    currency: "ARS",
+                  })}
+                </p>
+                {referral.quoteNotes ? (
+                  <p className="whitespace-pre-wrap text-muted-foreground">
+                    {referral.quoteNotes}
+                  </p>
+                ) : null}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {referral.quotedAt.toLocaleString("es-AR")}
+                </p>
+              </div>
+            ) : (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {referral.evaluatedAt
+                  ? "Sin cotizar."
+                  : "Se cotiza despues de la evaluacion."}
+              </p>
+            )}
+            {isOpen && canQuote && referral.evaluatedAt ? (
+              <form action={quoteReferral} className="mt-3 grid gap-2">
+                <input type="hidden" name="referralId" value={referral.id} />
+                <Input
+                  name="quotedAmount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Monto mensual"
+                  defaultValue={referral.quotedAmount ?? undefined}
+                  required
+                />
+                <Input
+                  name="quoteNotes"
+                  placeholder="Detalle de la cotizacion"
+                />
+                <Button type="submit" variant="outline">
+                  Guardar cotizacion
+                </Button>
+              </form>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg border p-4 md:col-span-2">
+            <h2 className="text-lg font-semibold">Decision</h2>
+            {referral.status === "ACCEPTED" ? (
+              <div className="mt-2 space-y-1 text-sm">
+                <p className="text-muted-foreground">
+                  Aceptada por{" "}
+                  {referral.decidedBy?.name ?? referral.decidedBy?.email ?? "-"}{" "}
+                  el {referral.decidedAt?.toLocaleString("es-AR")}.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {referral.patientId ? (
+                    <Link
+                      href={`/patients/${referral.patientId}`}
+                      className="rounded-md border px-3 py-2 text-xs"
+                    >
+                      Ver paciente
+                    </Link>
+                  ) : null}
+                  {referral.episodeId ? (
+                    <Link
+                      href={`/episodes/${referral.episodeId}`}
+                      className="rounded-md border px-3 py-2 text-xs"
+                    >
+                      Ver episodio
+                    </Link>
+                  ) : null}
+                  {referral.authorization ? (
+                    <Link
+                      href="/authorizations"
+                      className="rounded-md border px-3 py-2 text-xs"
+                    >
+                      Autorizacion {referral.authorization.number} (
+                      {referral.authorization.status})
+                    </Link>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+            {referral.status === "REJECTED" ? (
+              <p className="mt-2 text-sm text-muted-foreground">
+                Rechazada por{" "}
+                {referral.decidedBy?.name ?? referral.decidedBy?.email ?? "-"}{" "}
+                el {referral.decidedAt?.toLocaleString("es-AR")}:{" "}
+                {referral.rejectionReason}
+              </p>
+            ) : null}
+            {isOpen && canDecide ? (
+              <div className="mt-3 grid gap-3 md:grid-cols-2">
+                <form action={acceptReferral} className="space-y-2">
+                  <input type="hidden" name="referralId" value={referral.id} />
+                  <p className="text-xs text-muted-foreground">
+                    Crea el paciente (o usa el existente con el mismo DNI), el
+                    episodio con los adjuntos de la derivacion y, si hay
+                    financiador, una autorizacion pendiente.
+                  </p>
+                  <Button type="submit" disabled={referral.status !== "QUOTED"}>
+                    Aceptar y admitir
+                  </Button>
+                </form>
+                <form action={rejectReferral} className="space-y-2">
+                  <input type="hidden" name="referralId" value={referral.id} />
+                  <Input
+                    name="rejectionReason"
+                    placeholder="Motivo del rechazo"
+                    required
+                  />
+                  <Button type="submit" variant="outline">
+                    Rechazar
+                  </Button>
+                </form>
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    );
+  });
+}
@@ -0,0 +1,418 @@
+import { revalidatePath } from "next/cache";
+import { getServerSession } from "next-auth";
+import Link from "next/link";
+import { z } from "zod";
+import { ReferralStatus, Role, VisitType } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { assertRole } from "@/lib/rbac";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import AccessDenied from "@/components/app/access-denied";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { withTenant } from "@/lib/rls";
+import { nextReferralNumber } from "@/lib/sequence";
+import { coordinatorRoles, notifyRoles } from "@/lib/notifications";
+import { visitTypeLabels } from "@/lib/visit-checklist";
+import {
+  openReferralStatuses,
+  referralStatusLabels,
+  storeReferralAttachments,
+} from "@/lib/referrals";
+
+type SearchParams = {
+  status?: string;
+};
+
+const referralSchema = z.object({
+  sourceInstitution: z.string().trim().min(2),
+  sourceContactName: z.string().trim().optional(),
+  sourceContactPhone: z.string().trim().optional(),
+  sourceContactEmail: z.union([z.literal(""), z.string().email()]).optional(),
+  patientFirstName: z.string().trim().min(1),
+  patientLastName: z.string().trim().min(1),
+  patientDni: z.string().trim().min(4),
+  patientBirthDate: z.string().optional(),
+  patientPhone: z.string().trim().optional(),
+  patientAddress: z.string().trim().optional(),
+  diagnosis: z.string().trim().optional(),
+  requestedServices: z.array(z.nativeEnum(VisitType)).min(1),
+  servicesDetail: z.string().trim().optional(),
+  requestedStartDate: z.string().optional(),
+  payerId: z.string().optional(),
+  planId: z.string().optional(),
+});
+
+async function createReferral(formData: FormData) {
+  "use server";
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.tenantId) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const tenantId = session.user.tenantId;
+  await withTenant(tenantId, async (db) => {
+    await assertTenantModuleAccess(db, tenantId, "CLINIC");
+    assertRole(session.user.role, [Role.ADMIN_TENANT, Role.COORDINACION]);
+
+    const parsed = referralSchema.safeParse({
+      sourceInstitution: formData.get("sourceInstitution"),
+      sourceContactName: formData.get("sourceContactName") || undefined,
+      sourceContactPhone: formData.get("sourceContactPhone") || undefined,
+      sourceContactEmail: formData.get("sourceContactEmail") || undefined,
+      patientFirstName: formData.get("patientFirstName"),
+      patientLastName: formData.get("patientLastName"),
+      patientDni: formData.get("patientDni"),
+      patientBirthDate: formData.get("patientBirthDate") || undefined,
+      patientPhone: formData.get("patientPhone") || undefined,
+      patientAddress: formData.get("patientAddress") || undefined,
+      diagnosis: formData.get("diagnosis") || undefined,
+      requestedServices: formData.getAll("requestedServices"),
+      servicesDetail: formData.get("servicesDetail") || undefined,
+      requestedStartDate: formData.get("requestedStartDate") || undefined,
+      payerId: formData.get("payerId") || undefined,
+      planId: formData.get("planId") || undefined,
+    });
+    if (!parsed.success) {
+      throw new Error("REFERRAL_INVALID");
+    }
+    const data = parsed.data;
+
+    let payerId: string | null = null;
+    let planId: string | null = null;
+    if (data.payerId) {
+      const payer = await db.payer.findFirst({
+        where: { id: data.payerId, tenantId },
+      });
+      if (!payer) {
+        throw new Error("PAYER_NOT_FOUND");
+      }
+      payerId = payer.id;
+      if (data.planId) {
+        const plan = await db.payerPlan.findFirst({
+          where: { id: data.planId, tenantId, payerId: payer.id },
+        });
+        if (!plan) {
+          throw new Error("PLAN_PAYER_MISMATCH");
+        }
+        planId = plan.id;
+      }
+    }
+
+    const referral = await db.referral.create({
+      data: {
+        tenantId,
+        number: await nextReferralNumber(db, tenantId),
+        sourceInstitution: data.sourceInstitution,
+        sourceContactName: data.sourceContactName || null,
+        sourceContactPhone: data.sourceContactPhone || null,
+        sourceContactEmail: data.sourceContactEmail || null,
+        patientFirstName: data.patientFirstName,
+        patientLastName: data.patientLastName,
+        patientDni: data.patientDni,
+        patientBirthDate: data.patientBirthDate
+          ? new Date(`${data.patientBirthDate}T00:00:00`)
+          : null,
+        patientPhone: data.patientPhone || null,
+        patientAddress: data.patientAddress || null,
+        diagnosis: data.diagnosis || null,
+        requestedServices: data.requestedServices,
+        servicesDetail: data.servicesDetail || null,
+        requestedStartDate: data.requestedStartDate
+          ? new Date(`${data.requestedStartDate}T00:00:00`)
+          : null,
+        payerId,
+        planId,
+        createdById: session.user.id,
+      },
+    });
+
+    const attachments = await storeReferralAttachments(db, {
+      tenantId,
+      referralId: referral.id,
+      uploadedById: session.user.id,
+      files: formData.getAll("files"),
+    });
+
+    await notifyRoles(db, tenantId, coordinatorRoles, [
+      {
+        type: "referral.received",
+        title: `Nueva derivacion ${referral.number}`,
+        body: `${referral.patientLastName}, ${referral.patientFirstName} desde ${referral.sourceInstitution}`,
+        entityType: "Referral",
+        entityId: referral.id,
+      },
+    ]);
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "referral.create",
+      entityType: "Referral",
+      entityId: referral.id,
+      meta: {
+        number: referral.number,
+        sourceInstitution: referral.sourceInstitution,
+        attachments: attachments.length,
+      },
+    });
+  });
+
+  revalidatePath("/referrals");
+}
+
+export default async function ReferralsPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return <p className="text-sm text-muted-foreground">Sin tenant.</p>;
+  }
+
+  return withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return <AccessDenied reason={access.reason ?? "Sin acceso."} />;
+    }
+
+    const statusFilter = Object.values(ReferralStatus).find(
+      (status) => status === searchParams?.status,
+    );
+    const [referrals, statusGroups, payers] = await Promise.all([
+      db.referral.findMany({
+        where: {
+          tenantId,
+          status: statusFilter ?? { in: openReferralStatuses },
+        },
+        include: { payer: true, _count: { select: { attachments: true } } },
+        orderBy: { receivedAt: "desc" },
+        take: 100,
+      }),
+      db.referral.groupBy({
+        by: ["status"],
+        where: { tenantId },
+        _count: { _all: true },
+      }),
+      db.payer.findMany({
+        where: { tenantId },
+        include: { plans: { orderBy: { name: "asc" } } },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+    const countByStatus = new Map(
+      statusGroups.map((group) => [group.status, group._count._all]),
+    );
+    const canCreate =
+      session?.user?.role === Role.ADMIN_TENANT ||
+      session?.user?.role === Role.COORDINACION;
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Derivaciones</h1>
+          <p className="text-sm text-muted-foreground">
+            Pacientes derivados por hospitales y clinicas: evaluacion,
+            cotizacion y admision.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          <Link
+            href="/referrals"
+            className={`rounded-md border px-3 py-1 ${statusFilter ? "" : "bg-muted"}`}
+          >
+            Abiertas (
+            {openReferralStatuses.reduce(
+              (total, status) => total + (countByStatus.get(status) ?? 0),
+              0,
+            )}
+            )
+          </Link>
+          {Object.values(ReferralStatus).map((status) => (
+            <Link
+              key={status}
+              href={`/referrals?status=${status}`}
+              className={`rounded-md border px-3 py-1 ${statusFilter === status ? "bg-muted" : ""}`}
+            >
+              {referralStatusLabels[status]} ({countByStatus.get(status) ?? 0})
+            </Link>
+          ))}
+        </div>
+
+        <div className="overflow-hidden rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/40 text-left">
+              <tr>
+                <th className="px-3 py-2">Numero</th>
+                <th className="px-3 py-2">Recibida</th>
+                <th className="px-3 py-2">Institucion</th>
+                <th className="px-3 py-2">Paciente</th>
+                <th className="px-3 py-2">Servicios</th>
+                <th className="px-3 py-2">Financiador</th>
+                <th className="px-3 py-2">Estado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {referrals.map((referral) => (
+                <tr key={referral.id} className="border-t">
+                  <td className="px-3 py-2">
+                    <Link
+                      href={`/referrals/${referral.id}`}
+                      className="text-primary hover:underline"
+                    >
+                      {referral.number}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2">
+                    {referral.receivedAt.toLocaleDateString("es-AR")}
+                  </td>
+                  <td className="px-3 py-2">{referral.sourceInstitution}</td>
+                  <td className="px-3 py-2">
+                    {referral.patientLastName}, {referral.patientFirstName}
+                    <div className="text-xs text-muted-foreground">
+                      DNI {referral.patientDni}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {referral.requestedServices
+                      .map((service) => visitTypeLabels[service])
+                      .join(", ")}
+                    {referral._count.attachments > 0 ? (
+                      <div className="text-xs text-muted-foreground">
+                        {referral._count.attachments} adjunto(s)
+                      </div>
+                    ) : null}
+                  </td>
+                  <td className="px-3 py-2">{referral.payer?.name ?? "-"}</td>
+                  <td className="px-3 py-2">
+                    {referralStatusLabels[referral.status]}
+                  </td>
+                </tr>
+              ))}
+              {referrals.length === 0 ? (
+                <tr>
+                  <td
+                    className="px-3 py-4 text-sm text-muted-foreground"
+                    colSpan={7}
+                  >
+                    Sin derivaciones.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        {canCreate ? (
+          <form
+            action={createReferral}
+            className="space-y-3 rounded-lg border p-4"
+          >
+            <h2 className="text-lg font-semibold">Registrar derivacion</h2>
+            <div className="grid gap-2 md:grid-cols-4">
+              <Input
+                name="sourceInstitution"
+                placeholder="Institucion de origen"
+                required
+              />
+              <Input name="sourceContactName" placeholder="Contacto" />
+              <Input
+                name="sourceContactPhone"
+                placeholder="Telefono contacto"
+              />
+              <Input
+                name="sourceContactEmail"
+                type="email"
+                placeholder="Email contacto"
+              />
+            </div>
+            <div className="grid gap-2 md:grid-cols-3">
+              <Input name="patientFirstName" placeholder="Nombre" required />
+              <Input name="patientLastName" placeholder="Apellido" required />
+              <Input name="patientDni" placeholder="DNI" required />
+              <Input
+                name="patientBirthDate"
+                type="date"
+                aria-label="Fecha de nacimiento"
+              />
+              <Input name="patientPhone" placeholder="Telefono paciente" />
+              <Input name="patientAddress" placeholder="Domicilio" />
+            </div>
+            <Input name="diagnosis" placeholder="Diagnostico de derivacion" />
+            <div className="flex flex-wrap gap-3 text-sm">
+              <span className="text-muted-foreground">
+                Servicios solicitados:
+              </span>
+              {Object.values(VisitType).map((type) => (
+                <label key={type} className="flex items-center gap-1">
+                  <input
+                    name="requestedServices"
+                    type="checkbox"
+                    value={type}
+                  />
+                  {visitTypeLabels[type]}
+                </label>
+              ))}
+            </div>
+            <Textarea
+              name="servicesDetail"
+              placeholder="Detalle (frecuencia, insumos, equipamiento)"
+            />
+            <div className="grid gap-2 md:grid-cols-3">
+              <label className="text-xs text-muted-foreground">
+                Inicio solicitado
+                <Input name="requestedStartDate" type="date" />
+              </label>
+              <label className="text-xs text-muted-foreground">
+                Financiador
+                <select
+                  name="payerId"
+                  className="h-10 w-full rounded-md border bg-background px-3 text-sm"
+                >
+                  <option value="">Sin financiador</option>
+                  {payers.map((payer) => (
+                    <option key={payer.id} value={payer.id}>
+                      {payer.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-muted-foreground">
+                Plan
+                <select
+                  name="planId"
+                  className="h-10 w-full rounded-md border bg-background px-3 text-sm"
+                >
+                  <option value="">Sin plan</option>
+                  {payers.flatMap((payer) =>
+                    payer.plans.map((plan) => (
+                      <option key={plan.id} value={plan.id}>
+                        {payer.name} - {plan.name}
+                      </option>
+                    )),
+                  )}
+                </select>
+              </label>
+            </div>
+            <label className="block text-xs text-muted-foreground">
+              Adjuntos (epicrisis, indicaciones, estudios)
+              <Input
+                name="files"
+                type="file"
+                accept="application/pdf,image/*"
+                multiple
+              />
+            </label>
+            <Button type="submit">Registrar derivacion</Button>
+          </form>
+        ) : null}
+      </div>
+    );
+  });
+}
@@ -5,6 +5,7 @@ import PDFDocument from "pdfkit";
 import { withTenant } from "@/lib/rls";
 import { hasRole } from "@/lib/rbac";
 import { Role } from "@prisma/client";
+import { episodeForDate, formatDiagnosis } from "@/lib/icd10";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -39,7 +40,20 @@ export async function GET(request: Request) {
       where: { tenantId, payerId },
       include: {
         payer: true,
-        patient: true,
+        patient: {
+          include: {
+            episodes: {
+              include: { diagnoses: { include: { icd10: true } } },
+            },
+          },
+        },
+        authorization: {
+          include: {
+            episode: {
+              include: { diagnoses: { include: { icd10: true } } },
+            },
+          },
+        },
         items: { include: { product: true } },
       },
       orderBy: { issuedAt: "desc" },
@@ -50,6 +64,28 @@ export async function GET(request: Request) {
     return new Response("FORBIDDEN", { status: 403 });
   }
 
+  const invoiceDiagnoses = new Map(
+    invoices.map((invoice) => {
+      const episode =
+        invoice.authorization?.episode ??
+        episodeForDate(invoice.patient.episodes, invoice.issuedAt);
+      const diagnoses = episode?.diagnoses ?? [];
+      return [
+        invoice.id,
+        {
+          primary: diagnoses
+            .filter((diagnosis) => diagnosis.isPrimary)
+            .map(formatDiagnosis)
+            .join(" | "),
+          secondary: diagnoses
+            .filter((diagnosis) => !diagnosis.isPrimary)
+            .map(formatDiagnosis)
+            .join(" | "),
+        },
+      ];
+    }),
+  );
+
   if (format === "pdf") {
     const doc = new PDFDocument({ size: "A4", margin: 40 });
     const chunks: Uint8Array[] = [];
@@ -64,6 +100,13 @@ export async function GET(request: Request) {
       doc.text(
         `Paciente: ${invoice.patient.lastName}, ${invoice.patient.firstName}`,
       );
+      const diagnoses = invoiceDiagnoses.get(invoice.id);
+      if (diagnoses?.primary) {
+        doc.text(`Diagnostico principal: ${diagnoses.primary}`);
+      }
+      if (diagnoses?.secondary) {
+        doc.text(`Diagnosticos secundarios: ${diagnoses.secondary}`);
+      }
       doc.text(`Total: ${invoice.totalAmount.toFixed(2)} ARS`);
       doc.moveDown(0.5);
       invoice.items.forEach((item) => {
@@ -97,6 +140,8 @@ export async function GET(request: Request) {
     "Payer",
     "Paciente",
     "FechaEmision",
+    "DiagnosticoPrincipal",
+    "DiagnosticosSecundarios",
     "Total",
     "Item",
     "Cantidad",
@@ -111,6 +156,8 @@ export async function GET(request: Request) {
       invoice.payer.name,
       `${invoice.patient.lastName}, ${invoice.patient.firstName}`,
       invoice.issuedAt.toISOString(),
+      invoiceDiagnoses.get(invoice.id)?.primary ?? "",
+      invoiceDiagnoses.get(invoice.id)?.secondary ?? "",
       invoice.totalAmount,
       item.product.name,
       item.quantity,
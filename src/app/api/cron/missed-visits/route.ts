@@ -0,0 +1,57 @@
+import { headers } from "next/headers";
+import { TenantStatus } from "@prisma/client";
+import { detectMissedVisits } from "@/lib/missed-visits";
+import { logInfo } from "@/lib/logger";
+import { withSuperadmin, withTenant } from "@/lib/rls";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const cronSecret = process.env.CRON_SECRET ?? "";
+  const authorization = (await headers()).get("authorization");
+
+  if (!cronSecret) {
+    return new Response("CRON_NOT_CONFIGURED", { status: 503 });
+  }
+  if (authorization !== `Bearer ${cronSecret}`) {
+    return new Response("UNAUTHORIZED", { status: 401 });
+  }
+
+  const tenants = await withSuperadmin((db) =>
+    db.tenant.findMany({
+      where: {
+        status: { notIn: [TenantStatus.SUSPENDED, TenantStatus.DELETED] },
+      },
+      select: { id: true },
+    }),
+  );
+
+  const results: Array<{ tenantId: string; missed: number }> = [];
+  for (const tenant of tenants) {
+    const result = await withTenant(tenant.id, async (db) => {
+      const access = await getTenantModuleAccess(db, tenant.id, "CLINIC");
+      if (!access.allowed) {
+        return null;
+      }
+      return detectMissedVisits(db, { tenantId: tenant.id });
+    });
+    if (result && result.missed > 0) {
+      results.push({ tenantId: tenant.id, missed: result.missed });
+    }
+  }
+
+  logInfo("cron.missed_visits", {
+    tenants: tenants.length,
+    missed: results.reduce((sum, row) => sum + row.missed, 0),
+  });
+
+  return Response.json({
+    ok: true,
+    ts: new Date().toISOString(),
+    results,
+  });
+}
+
+export const POST = GET;
@@ -0,0 +1,100 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+import { withTenant } from "@/lib/rls";
+import { careTeamEpisodeScope } from "@/lib/care-team";
+import { hasRole } from "@/lib/rbac";
+import { Role } from "@prisma/client";
+import { assessmentScales } from "@/lib/assessment-scales";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } },
+) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return new Response("UNAUTHORIZED", { status: 401 });
+  }
+  if (
+    !hasRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+      Role.AUDITOR,
+    ])
+  ) {
+    return new Response("FORBIDDEN", { status: 403 });
+  }
+
+  const result = await withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return { forbidden: true as const };
+    }
+
+    const episode = await db.episode.findFirst({
+      where: { id: params.id, tenantId, ...careTeamEpisodeScope(session?.user) },
+      include: { patient: true },
+    });
+    if (!episode) {
+      return { notFound: true as const };
+    }
+
+    const assessments = await db.scaleAssessment.findMany({
+      where: { tenantId, episodeId: episode.id },
+      include: { performedBy: true },
+      orderBy: { performedAt: "asc" },
+    });
+
+    return {
+      episode,
+      rows: assessments.map((assessment) => [
+        `${episode.patient.lastName}, ${episode.patient.firstName}`,
+        episode.patient.dni,
+        assessmentScales[assessment.scale].name,
+        assessment.performedAt.toISOString(),
+        assessment.score,
+        assessment.maxScore,
+        assessment.interpretation,
+        assessment.performedBy.name ?? assessment.performedBy.email,
+      ]),
+    };
+  });
+
+  if ("forbidden" in result) {
+    return new Response("FORBIDDEN", { status: 403 });
+  }
+  if ("notFound" in result) {
+    return new Response("NOT_FOUND", { status: 404 });
+  }
+
+  const header = [
+    "Paciente",
+    "DNI",
+    "Escala",
+    "Fecha",
+    "Puntaje",
+    "Maximo",
+    "Interpretacion",
+    "Profesional",
+  ];
+
+  const csv = [header, ...result.rows]
+    .map((row) =>
+      row
+        .map((cell) => `"${String(cell ?? "").replace(/"/g, '""')}"`)
+        .join(","),
+    )
+    .join("\n");
+
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename=escalas-${result.episode.id}.csv`,
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+import { withTenant } from "@/lib/rls";
+import { careTeamEpisodeScope } from "@/lib/care-team";
+import { hasRole } from "@/lib/rbac";
+import { readEvidenceObject } from "@/lib/storage";
+import { evidenceFileResponse } from "@/lib/evidence-files";
+import { Role } from "@prisma/client";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string; consentId: string } },
+) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return new Response("UNAUTHORIZED", { status: 401 });
+  }
+  if (
+    !hasRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+      Role.AUDITOR,
+    ])
+  ) {
+    return new Response("FORBIDDEN", { status: 403 });
+  }
+
+  const result = await withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return { forbidden: true as const };
+    }
+
+    const consent = await db.episodeConsent.findFirst({
+      where: {
+        id: params.consentId,
+        tenantId,
+        episodeId: params.id,
+        episode: careTeamEpisodeScope(session.user),
+      },
+      include: { attachment: true },
+    });
+
+    return { attachment: consent?.attachment ?? null };
+  });
+
+  if (result.forbidden) {
+    return new Response("FORBIDDEN", { status: 403 });
+  }
+
+  if (!result.attachment) {
+    return new Response("NOT_FOUND", { status: 404 });
+  }
+
+  const { attachment } = result;
+  if (attachment.fileUrl) {
+    return Response.redirect(attachment.fileUrl, 302);
+  }
+
+  const buffer = await readEvidenceObject(attachment.fileKey);
+
+  return evidenceFileResponse(buffer, attachment);
+}
@@ -0,0 +1,81 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { logAudit } from "@/lib/audit";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+import { withTenant } from "@/lib/rls";
+import { hasRole } from "@/lib/rbac";
+import {
+  FHIR_CONTENT_TYPE,
+  buildFhirBundle,
+  loadEpisodeFhirResources,
+} from "@/lib/fhir";
+import { Role } from "@prisma/client";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } },
+) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return new Response("UNAUTHORIZED", { status: 401 });
+  }
+  if (
+    !hasRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+      Role.AUDITOR,
+    ])
+  ) {
+    return new Response("FORBIDDEN", { status: 403 });
+  }
+
+  const origin = new URL(request.url).origin;
+  const result = await withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return { forbidden: true as const };
+    }
+
+    const loaded = await loadEpisodeFhirResources(db, {
+      tenantId,
+      user: session.user,
+      origin,
+      episodeId: params.id,
+    });
+    if (!loaded) {
+      return { notFound: true as const };
+    }
+
+    await logAudit(db, {
+      tenantId,
+      actorId: session.user.id,
+      action: "episode.fhir.export",
+      entityType: "Episode",
+      entityId: loaded.episode.id,
+      meta: { resources: loaded.resources.length },
+    });
+
+    return {
+      bundle: buildFhirBundle(`${origin}/api/fhir`, loaded.resources),
+    };
+  });
+
+  if ("forbidden" in result) {
+    return new Response("FORBIDDEN", { status: 403 });
+  }
+  if ("notFound" in result) {
+    return new Response("NOT_FOUND", { status: 404 });
+  }
+
+  return new Response(JSON.stringify(result.bundle, null, 2), {
+    headers: {
+      "Content-Type": FHIR_CONTENT_TYPE,
+      "Content-Disposition": `attachment; filename="episodio-${params.id}-fhir.json"`,
+    },
+  });
+}
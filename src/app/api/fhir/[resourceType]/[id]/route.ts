@@ -0,0 +1,83 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+import { withTenant } from "@/lib/rls";
+import { hasRole } from "@/lib/rbac";
+import {
+  FHIR_CONTENT_TYPE,
+  fhirOperationOutcome,
+  isFhirResourceType,
+  loadFhirResource,
+} from "@/lib/fhir";
+import { Role } from "@prisma/client";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function fhirResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": FHIR_CONTENT_TYPE },
+  });
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { resourceType: string; id: string } },
+) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return fhirResponse(fhirOperationOutcome("login", "UNAUTHORIZED"), 401);
+  }
+  if (
+    !hasRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+      Role.AUDITOR,
+    ])
+  ) {
+    return fhirResponse(fhirOperationOutcome("forbidden", "FORBIDDEN"), 403);
+  }
+  const resourceType = params.resourceType;
+  if (!isFhirResourceType(resourceType)) {
+    return fhirResponse(
+      fhirOperationOutcome(
+        "not-supported",
+        `Resource type ${resourceType} is not supported`,
+      ),
+      404,
+    );
+  }
+
+  const result = await withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return { forbidden: true as const };
+    }
+    const resource = await loadFhirResource(db, {
+      tenantId,
+      user: session.user,
+      origin: new URL(request.url).origin,
+      type: resourceType,
+      id: params.id,
+    });
+    return { resource };
+  });
+
+  if ("forbidden" in result) {
+    return fhirResponse(fhirOperationOutcome("forbidden", "FORBIDDEN"), 403);
+  }
+  if (!result.resource) {
+    return fhirResponse(
+      fhirOperationOutcome(
+        "not-found",
+        `${resourceType}/${params.id} not found`,
+      ),
+      404,
+    );
+  }
+
+  return fhirResponse(result.resource);
+}
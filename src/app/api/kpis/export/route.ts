@@ -4,6 +4,8 @@ import { getTenantModuleAccess } from "@/lib/tenant-access";
 import { withTenant } from "@/lib/rls";
 import { hasRole } from "@/lib/rbac";
 import { Role } from "@prisma/client";
+import { summarizeObjectives } from "@/lib/care-plan-objectives";
+import { loadSuspensionKpis } from "@/lib/episode-suspensions";
 
 const DEFAULT_RANGE_DAYS = 30;
 const VISIT_SLA_MINUTES = Number(process.env.VISIT_SLA_MINUTES ?? "30");
@@ -69,6 +71,8 @@ export async function GET(request: Request) {
     const visitFilter = {
       tenantId,
       scheduledAt: { gte: startDate, lte: endDate },
+      // Visits paused by an episode suspension are not provider cancellations.
+      suspensionId: null,
       ...(professionalId ? { assignedUserId: professionalId } : {}),
     };
 
@@ -87,6 +91,98 @@ export async function GET(request: Request) {
       select: { scheduledAt: true, checkInAt: true },
     });
 
+    const visitsRescheduled = await db.visit.count({
+      where: { ...visitFilter, status: "MISSED", rescheduledTo: { some: {} } },
+    });
+    const visitsRecovered = await db.visit.count({
+      where: {
+        ...visitFilter,
+        status: "MISSED",
+        rescheduledTo: { some: { status: "COMPLETED" } },
+      },
+    });
+
+    const assessmentGroups = await db.scaleAssessment.groupBy({
+      by: ["scale"],
+      where: {
+        tenantId,
+        performedAt: { gte: startDate, lte: endDate },
+        ...(professionalId ? { performedById: professionalId } : {}),
+      },
+      _count: { _all: true },
+      _avg: { score: true },
+    });
+
+    const dischargedEpisodes = await db.episode.count({
+      where: {
+        tenantId,
+        status: "DISCHARGED",
+        endDate: { gte: startDate, lte: endDate },
+      },
+    });
+    const dischargeObjectives = summarizeObjectives(
+      await db.carePlanObjective.findMany({
+        where: {
+          tenantId,
+          carePlan: {
+            episode: {
+              status: "DISCHARGED",
+              endDate: { gte: startDate, lte: endDate },
+            },
+          },
+        },
+        select: { status: true, dueDate: true },
+      }),
+    );
+
+    const suspensionKpis = await loadSuspensionKpis(db, {
+      tenantId,
+      from: startDate,
+      to: endDate,
+    });
+
+    const diagnosisGroups = await db.episodeDiagnosis.groupBy({
+      by: ["code"],
+      where: {
+        tenantId,
+        isPrimary: true,
+        episode: {
+          startDate: { lte: endDate },
+          OR: [{ endDate: null }, { endDate: { gte: startDate } }],
+        },
+      },
+      _count: { _all: true },
+      orderBy: { code: "asc" },
+    });
+    const diagnosisCodes = await db.icd10Code.findMany({
+      where: { code: { in: diagnosisGroups.map((group) => group.code) } },
+    });
+    const diagnosisDescriptions = new Map(
+      diagnosisCodes.map((entry) => [entry.code, entry.description]),
+    );
+    const diagnosisVisits = await db.visit.findMany({
+      where: {
+        ...visitFilter,
+        status: "COMPLETED",
+        episode: { diagnoses: { some: { isPrimary: true } } },
+      },
+      select: {
+        episode: {
+          select: {
+            diagnoses: { where: { isPrimary: true }, select: { code: true } },
+          },
+        },
+      },
+    });
+    const visitsByDiagnosis = diagnosisVisits.reduce<Record<string, number>>(
+      (acc, visit) => {
+        const code = visit.episode?.diagnoses[0]?.code;
+        if (code) acc[code] = (acc[code] ?? 0) + 1;
+        return acc;
+      },
+      {},
+    );
+
     const visitCountByStatus = new Map(
       visitGroups.map((group) => [group.status, group._count._all]),
     );
@@ -200,6 +296,15 @@ export async function GET(request: Request) {
 
     return {
       visitCountByStatus,
+      visitsRescheduled,
+      visitsRecovered,
+      assessmentGroups,
+      dischargedEpisodes,
+      dischargeObjectives,
+      suspensionKpis,
+      diagnosisGroups,
+      diagnosisDescriptions,
+      visitsByDiagnosis,
       visitSlaPercent,
       deliverySlaPercent,
       incidentGroups,
@@ -223,7 +328,46 @@ export async function GET(request: Request) {
   rows.push(["Clinical", "Visits completed", data.visitCountByStatus.get("COMPLETED") ?? 0]);
   rows.push(["Clinical", "Visits cancelled", data.visitCountByStatus.get("CANCELLED") ?? 0]);
   rows.push(["Clinical", "Visits missed", data.visitCountByStatus.get("MISSED") ?? 0]);
+  rows.push(["Clinical", "Visits rescheduled", data.visitsRescheduled]);
+  rows.push(["Clinical", "Missed visits recovered", data.visitsRecovered]);
   rows.push(["Clinical", "Visit SLA percent", data.visitSlaPercent]);
+  rows.push(["Clinical", "Episodes discharged", data.dischargedEpisodes]);
+  rows.push(["Clinical", "Objectives at discharge", data.dischargeObjectives.total]);
+  rows.push(["Clinical", "Objectives met at discharge", data.dischargeObjectives.met]);
+  rows.push([
+    "Clinical",
+    "Objectives met at discharge percent",
+    data.dischargeObjectives.metRate !== null
+      ? Math.round(data.dischargeObjectives.metRate * 100)
+      : "",
+  ]);
+  rows.push(["Clinical", "Episodes suspended now", data.suspensionKpis.suspendedNow]);
+  rows.push(["Clinical", "Suspensions started", data.suspensionKpis.suspensions.total]);
+  rows.push(["Clinical", "Visits paused by suspension", data.suspensionKpis.pausedVisits]);
+  Object.entries(data.suspensionKpis.suspensions.byReason).forEach(
+    ([reason, count]) => {
+      rows.push(["Clinical", `Suspensions ${reason}`, count]);
+    },
+  );
+  rows.push([
+    "Clinical",
+    "Average suspension days",
+    data.suspensionKpis.suspensions.averageDays ?? "",
+  ]);
+  rows.push(["Clinical", "Returns from hospitalization", data.suspensionKpis.hospitalReturns]);
+  rows.push(["Clinical", "Episodes started", data.suspensionKpis.episodesStarted]);
+  rows.push([
+    "Clinical",
+    `Readmissions within ${data.suspensionKpis.windowDays} days`,
+    data.suspensionKpis.readmissions,
+  ]);
+  rows.push([
+    "Clinical",
+    `Readmissions within ${data.suspensionKpis.windowDays} days percent`,
+    data.suspensionKpis.readmissionRate !== null
+      ? Math.round(data.suspensionKpis.readmissionRate * 100)
+      : "",
+  ]);
   rows.push(["Logistics", "Delivery SLA percent", data.deliverySlaPercent]);
   rows.push(["Finance", "Invoices issued", data.invoiceCount]);
   rows.push(["Finance", "Total invoiced", data.invoiceTotal.toFixed(2)]);
@@ -241,6 +385,29 @@ export async function GET(request: Request) {
     rows.push([name, stats.completed, stats.total, percent]);
   });
 
+  rows.push([]);
+  rows.push(["Assessments by scale"]);
+  rows.push(["Scale", "Count", "Average score"]);
+  data.assessmentGroups.forEach((group) => {
+    rows.push([
+      group.scale,
+      group._count._all,
+      (group._avg.score ?? 0).toFixed(1),
+    ]);
+  });
+
+  rows.push([]);
+  rows.push(["Episodes by primary diagnosis (ICD-10)"]);
+  rows.push(["Code", "Description", "Episodes", "Completed visits"]);
+  data.diagnosisGroups.forEach((group) => {
+    rows.push([
+      group.code,
+      data.diagnosisDescriptions.get(group.code) ?? "",
+      group._count._all,
+      data.visitsByDiagnosis[group.code] ?? 0,
+    ]);
+  });
+
   rows.push([]);
   rows.push(["Incidents by cause"]);
   rows.push(["Cause", "Count"]);
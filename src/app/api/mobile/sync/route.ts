@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Role } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import {
+  assertTenantModuleAccess,
+  getTenantModuleAccess,
+} from "@/lib/tenant-access";
+import { withTenant } from "@/lib/rls";
+import { hasRole } from "@/lib/rbac";
+import { logWarn } from "@/lib/logger";
+import { syncMobileOperation } from "@/lib/mobile-sync";
+import {
+  mobileSyncRequestSchema,
+  type MobileSyncResult,
+} from "@/lib/mobile-visits";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (
+    !hasRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ])
+  ) {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  const parsed = mobileSyncRequestSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json({ error: "VALIDATION_ERROR" }, { status: 400 });
+  }
+
+  const access = await withTenant(tenantId, (db) =>
+    getTenantModuleAccess(db, tenantId, "CLINIC"),
+  );
+  if (!access.allowed) {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  const results: MobileSyncResult[] = [];
+  for (const operation of parsed.data.operations) {
+    try {
+      results.push(
+        await withTenant(tenantId, async (db) => {
+          if (operation.type === "ITEM") {
+            await assertTenantModuleAccess(db, tenantId, "INVENTORY");
+          }
+          return syncMobileOperation(db, {
+            tenantId,
+            userId: session.user.id,
+            operation,
+          });
+        }),
+      );
+    } catch (error) {
+      const code = error instanceof Error ? error.message : "UNKNOWN_ERROR";
+      logWarn("mobile.sync.failed", {
+        tenantId,
+        operationId: operation.id,
+        type: operation.type,
+        code,
+      });
+      results.push({ id: operation.id, status: "ERROR", code });
+    }
+  }
+
+  return NextResponse.json({ results });
+}
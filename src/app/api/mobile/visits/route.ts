@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Role } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { getTenantModuleAccess } from "@/lib/tenant-access";
+import { withTenant } from "@/lib/rls";
+import { hasRole } from "@/lib/rbac";
+import { loadMobileSnapshot } from "@/lib/mobile-sync";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const tenantId = session?.user?.tenantId;
+  if (!tenantId) {
+    return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (
+    !hasRole(session.user.role, [
+      Role.ADMIN_TENANT,
+      Role.COORDINACION,
+      Role.PROFESIONAL,
+    ])
+  ) {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  const snapshot = await withTenant(tenantId, async (db) => {
+    const access = await getTenantModuleAccess(db, tenantId, "CLINIC");
+    if (!access.allowed) {
+      return null;
+    }
+    const inventoryAccess = await getTenantModuleAccess(
+      db,
+      tenantId,
+      "INVENTORY",
+    );
+    return loadMobileSnapshot(db, {
+      tenantId,
+      userId: session.user.id,
+      includeInventory: inventoryAccess.allowed,
+    });
+  });
+  if (!snapshot) {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  return NextResponse.json(snapshot, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -6,6 +6,7 @@ import { logAudit } from "@/lib/audit";
 import { getTenantModuleAccess } from "@/lib/tenant-access";
 import { withTenant } from "@/lib/rls";
 import { hasRole } from "@/lib/rbac";
+import { careTeamVisitScope } from "@/lib/care-team";
 import { Role } from "@prisma/client";
 
 export const runtime = "nodejs";
@@ -42,7 +43,11 @@ export async function POST(
     }
 
     const visit = await db.visit.findFirst({
-      where: { id: params.id, tenantId: session.user.tenantId },
+      where: {
+        id: params.id,
+        tenantId: session.user.tenantId,
+        ...careTeamVisitScope(session.user),
+      },
     });
 
     return { visit };
@@ -74,6 +79,24 @@ export async function POST(
 
   const visit = accessResult.visit;
 
+  const woundId = String(formData.get("woundId") ?? "") || null;
+  if (woundId) {
+    const wound = await withTenant(session.user.tenantId, (db) =>
+      db.wound.findFirst({
+        where: { id: woundId, tenantId: visit.tenantId },
+      }),
+    );
+    if (!wound || wound.episodeId !== visit.episodeId) {
+      return NextResponse.json({ error: "WOUND_NOT_FOUND" }, { status: 404 });
+    }
+    if (!mimeType.startsWith("image/")) {
+      return NextResponse.json(
+        { error: "UNSUPPORTED_FILE_TYPE" },
+        { status: 400 },
+      );
+    }
+  }
+
   const arrayBuffer = await file.arrayBuffer();
   const buffer = Buffer.from(arrayBuffer);
   const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
@@ -92,6 +115,7 @@ export async function POST(
         patientId: visit.patientId,
         episodeId: visit.episodeId,
         visitId: visit.id,
+        woundId,
         fileKey: uploaded.key,
         fileUrl: uploaded.url ?? null,
         fileName: file.name,
@@ -107,7 +131,7 @@ export async function POST(
       action: "clinical.attachment.upload",
       entityType: "ClinicalAttachment",
       entityId: created.id,
-      meta: { fileName: created.fileName },
+      meta: { fileName: created.fileName, woundId },
     });
   });
 
@@ -0,0 +1,35 @@
+import type { Metadata, Viewport } from "next";
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import MobileVisits from "@/components/app/mobile-visits";
+
+export const metadata: Metadata = {
+  title: "Mis visitas",
+  manifest: "/manifest.webmanifest",
+};
+
+export const viewport: Viewport = {
+  width: "device-width",
+  initialScale: 1,
+  themeColor: "#0f172a",
+};
+
+export default async function MobilePage() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    redirect("/login");
+  }
+
+  return (
+    <main className="mx-auto min-h-screen max-w-lg space-y-4 px-4 py-4">
+      <MobileVisits
+        userName={session.user.name ?? session.user.email ?? ""}
+        owner={{
+          tenantId: session.user.tenantId ?? "",
+          userId: session.user.id,
+        }}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useRef, type ComponentProps, type MouseEvent } from "react";
+import { Button } from "@/components/ui/button";
+
+const LOCATION_TIMEOUT_MS = 10000;
+
+export default function GeolocatedSubmit(
+  props: Omit<ComponentProps<typeof Button>, "type" | "onClick">,
+) {
+  const located = useRef(false);
+  const latitude = useRef<HTMLInputElement>(null);
+  const longitude = useRef<HTMLInputElement>(null);
+  const accuracy = useRef<HTMLInputElement>(null);
+
+  function handleClick(event: MouseEvent<HTMLButtonElement>) {
+    const form = event.currentTarget.form;
+    if (located.current || !form || !("geolocation" in navigator)) return;
+    event.preventDefault();
+    const submit = () => {
+      located.current = true;
+      form.requestSubmit();
+    };
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        if (latitude.current && longitude.current && accuracy.current) {
+          latitude.current.value = String(position.coords.latitude);
+          longitude.current.value = String(position.coords.longitude);
+          accuracy.current.value = String(position.coords.accuracy);
+        }
+        submit();
+      },
+      submit,
+      {
+        enableHighAccuracy: true,
+        timeout: LOCATION_TIMEOUT_MS,
+        maximumAge: 60000,
+      },
+    );
+  }
+
+  return (
+    <>
+      <input ref={latitude} type="hidden" name="latitude" />
+      <input ref={longitude} type="hidden" name="longitude" />
+      <input ref={accuracy} type="hidden" name="accuracy" />
+      <Button {...props} type="submit" onClick={handleClick} />
+    </>
+  );
+}
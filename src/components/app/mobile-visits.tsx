@@ -0,0 +1,576 @@
+"use client";
+
+import {
+  useEffect,
+  useEffectEvent,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { SignOutButton } from "@/components/auth/sign-out-button";
+import { getErrorMessage } from "@/lib/error-messages";
+import {
+  canCompleteMobileVisit,
+  claimMobileData,
+  mobileStorageKeys,
+  mobileVisitStatusLabels,
+  rebaseMobileSnapshot,
+  type MobileOperation,
+  type MobileOwner,
+  type MobileSnapshot,
+  type MobileSyncResult,
+  type MobileVisit,
+} from "@/lib/mobile-visits";
+
+const LOCATION_TIMEOUT_MS = 10000;
+
+type StoredState = {
+  snapshot: MobileSnapshot | null;
+  queue: MobileOperation[];
+};
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+type OperationInput = DistributiveOmit<MobileOperation, "id" | "recordedAt">;
+
+const EMPTY_STATE: StoredState = { snapshot: null, queue: [] };
+const storeListeners = new Set<() => void>();
+let storeCache: { raw: string; state: StoredState } | null = null;
+
+function parseStored<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+type StorageKeys = ReturnType<typeof mobileStorageKeys>;
+
+function readStore(keys: StorageKeys): StoredState {
+  const snapshotRaw = localStorage.getItem(keys.snapshot);
+  const queueRaw = localStorage.getItem(keys.queue);
+  const raw = `${keys.queue}\n${snapshotRaw ?? ""}\n${queueRaw ?? ""}`;
+  if (storeCache?.raw !== raw) {
+    storeCache = {
+      raw,
+      state: {
+        snapshot: parseStored<MobileSnapshot | null>(snapshotRaw, null),
+        queue: parseStored<MobileOperation[]>(queueRaw, []),
+      },
+    };
+  }
+  return storeCache.state;
+}
+
+function notifyStore() {
+  storeListeners.forEach((listener) => listener());
+}
+
+function writeStore(
+  keys: StorageKeys,
+  update: (state: StoredState) => StoredState,
+) {
+  const next = update(readStore(keys));
+  localStorage.setItem(keys.queue, JSON.stringify(next.queue));
+  if (next.snapshot) {
+    localStorage.setItem(keys.snapshot, JSON.stringify(next.snapshot));
+  }
+  notifyStore();
+}
+
+function subscribeStore(listener: () => void) {
+  storeListeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    storeListeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function subscribeOnline(listener: () => void) {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+function currentLocation() {
+  return new Promise<{
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+  } | null>((resolve) => {
+    if (!("geolocation" in navigator)) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        }),
+      () => resolve(null),
+      {
+        enableHighAccuracy: true,
+        timeout: LOCATION_TIMEOUT_MS,
+        maximumAge: 60000,
+      },
+    );
+  });
+}
+
+const operationLabels: Record<MobileOperation["type"], string> = {
+  CHECK_IN: "Check-in",
+  CHECKLIST: "Checklist",
+  NOTE: "Nota",
+  ITEM: "Consumo",
+  COMPLETE: "Cierre",
+};
+
+export default function MobileVisits({
+  userName,
+  owner,
+}: {
+  userName: string;
+  owner: MobileOwner;
+}) {
+  const keys = mobileStorageKeys(owner);
+  const [claimed, setClaimed] = useState(false);
+  const stored = useSyncExternalStore(
+    subscribeStore,
+    () => (claimed ? readStore(keys) : EMPTY_STATE),
+    () => EMPTY_STATE,
+  );
+  const online = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true,
+  );
+  const [syncing, setSyncing] = useState(false);
+  const [messages, setMessages] = useState<string[]>([]);
+  const [failures, setFailures] = useState<Record<string, string>>({});
+  const syncingRef = useRef(false);
+
+  const snapshot = stored.snapshot
+    ? rebaseMobileSnapshot(stored.snapshot, stored.queue)
+    : null;
+
+  async function refresh() {
+    const response = await fetch("/api/mobile/visits", { cache: "no-store" });
+    if (response.status === 401 || response.redirected) {
+      setMessages(["Sesion vencida. Volve a ingresar para sincronizar."]);
+      return;
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      setMessages([getErrorMessage(body?.error)]);
+      return;
+    }
+    const next = (await response.json()) as MobileSnapshot;
+    writeStore(keys, (state) => ({ ...state, snapshot: next }));
+  }
+
+  async function sync() {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    try {
+      setSyncing(true);
+      const pending = readStore(keys).queue;
+      if (pending.length > 0) {
+        const response = await fetch("/api/mobile/sync", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ operations: pending }),
+        });
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          setMessages([getErrorMessage(body?.error)]);
+          return;
+        }
+        const { results } = (await response.json()) as {
+          results: MobileSyncResult[];
+        };
+        const done = new Set(
+          results
+            .filter((result) => result.status !== "ERROR")
+            .map((result) => result.id),
+        );
+        const nextFailures: Record<string, string> = {};
+        const nextMessages: string[] = [];
+        for (const result of results) {
+          const operation = pending.find((item) => item.id === result.id);
+          const label = operation ? operationLabels[operation.type] : "Cambio";
+          if (result.status === "ERROR") {
+            nextFailures[result.id] = getErrorMessage(result.code);
+          }
+          if (result.status === "CONFLICT") {
+            nextMessages.push(
+              `${label} descartado por conflicto: ${getErrorMessage(result.code)}`,
+            );
+          }
+        }
+        writeStore(keys, (state) => ({
+          ...state,
+          queue: state.queue.filter((item) => !done.has(item.id)),
+        }));
+        setFailures(nextFailures);
+        setMessages(nextMessages);
+      }
+      await refresh();
+    } catch {
+      setMessages(["Sin conexion. Los cambios quedan guardados en el equipo."]);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }
+
+  const claimStorage = useEffectEvent(() => {
+    void claimMobileData(owner).then(() => {
+      notifyStore();
+      setClaimed(true);
+    });
+  });
+
+  useEffect(() => {
+    claimStorage();
+  }, [owner.tenantId, owner.userId]);
+
+  useEffect(() => {
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker
+        .register("/mobile-sw.js", { scope: "/mobile" })
+        .catch(() => undefined);
+    }
+  }, []);
+
+  const syncWhenOnline = useEffectEvent(() => {
+    if (online && claimed) {
+      void sync();
+    }
+  });
+
+  useEffect(() => {
+    syncWhenOnline();
+  }, [online, claimed]);
+
+  function enqueue(input: OperationInput) {
+    const operation = {
+      ...input,
+      id: crypto.randomUUID(),
+      recordedAt: new Date().toISOString(),
+    } as MobileOperation;
+    writeStore(keys, (state) => ({
+      ...state,
+      queue: [...state.queue, operation],
+    }));
+    if (navigator.onLine) {
+      void sync();
+    }
+  }
+
+  function discard(id: string) {
+    writeStore(keys, (state) => ({
+      ...state,
+      queue: state.queue.filter((item) => item.id !== id),
+    }));
+    setFailures((current) => {
+      const next = { ...current };
+      delete next[id];
+      return next;
+    });
+  }
+
+  const generatedAt = stored.snapshot
+    ? new Date(stored.snapshot.generatedAt).toLocaleString("es-AR")
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <h1 className="text-xl font-semibold">Mis visitas de hoy</h1>
+        <p className="text-xs text-muted-foreground">
+          {userName} - {online ? "En linea" : "Sin conexion"}
+          {generatedAt ? ` - Datos del ${generatedAt}` : ""}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs">
+            {stored.queue.length} cambios pendientes de sincronizar
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!online || syncing}
+            onClick={() => void sync()}
+          >
+            {syncing ? "Sincronizando..." : "Sincronizar"}
+          </Button>
+          <a href="/agenda" className="text-xs text-primary hover:underline">
+            Agenda completa
+          </a>
+          <SignOutButton compact />
+        </div>
+        {messages.map((message) => (
+          <p key={message} className="text-xs text-destructive">
+            {message}
+          </p>
+        ))}
+      </div>
+
+      {stored.queue
+        .filter((operation) => failures[operation.id])
+        .map((operation) => (
+          <div
+            key={operation.id}
+            className="flex items-center justify-between gap-2 rounded-md border border-destructive/40 p-2 text-xs"
+          >
+            <span>
+              {operationLabels[operation.type]} no sincronizado:{" "}
+              {failures[operation.id]}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => discard(operation.id)}
+            >
+              Descartar
+            </Button>
+          </div>
+        ))}
+
+      {!snapshot ? (
+        <p className="text-sm text-muted-foreground">
+          {online
+            ? "Cargando visitas..."
+            : "Sin datos guardados. Conectate una vez para descargar tus visitas."}
+        </p>
+      ) : snapshot.visits.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No tenes visitas asignadas para hoy.
+        </p>
+      ) : (
+        snapshot.visits.map((visit) => (
+          <MobileVisitCard
+            key={visit.id}
+            visit={visit}
+            snapshot={snapshot}
+            onOperation={enqueue}
+          />
+        ))
+      )}
+    </div>
+  );
+}
+
+function MobileVisitCard({
+  visit,
+  snapshot,
+  onOperation,
+}: {
+  visit: MobileVisit;
+  snapshot: MobileSnapshot;
+  onOperation: (input: OperationInput) => void;
+}) {
+  const [locating, setLocating] = useState(false);
+  const [note, setNote] = useState("");
+  const [productId, setProductId] = useState("");
+  const [warehouseId, setWarehouseId] = useState("");
+  const [quantity, setQuantity] = useState("1");
+
+  async function withLocation(type: "CHECK_IN" | "COMPLETE") {
+    setLocating(true);
+    const location = await currentLocation();
+    setLocating(false);
+    onOperation({ type, visitId: visit.id, location });
+  }
+
+  const inProgress = visit.status === "IN_PROGRESS";
+  const canCheckIn = visit.status === "SCHEDULED" || visit.status === "MISSED";
+  const parsedQuantity = Number(quantity);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium">
+            {visit.patient.lastName}, {visit.patient.firstName}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {mobileVisitStatusLabels[visit.status] ?? visit.status}
+          </span>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {new Date(visit.scheduledAt).toLocaleTimeString("es-AR", {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}{" "}
+          ({visit.durationMinutes} min) - DNI {visit.patient.dni}
+        </div>
+        <div className="text-xs">
+          {visit.patient.address ?? "Sin direccion"}
+          {visit.patient.phone ? ` - Tel. ${visit.patient.phone}` : ""}
+        </div>
+        {visit.patient.allergies.length > 0 ? (
+          <div className="text-xs text-destructive">
+            Alergias: {visit.patient.allergies.join(", ")}
+          </div>
+        ) : null}
+        {visit.patient.problems.length > 0 ? (
+          <div className="text-xs text-muted-foreground">
+            Problemas: {visit.patient.problems.join(", ")}
+          </div>
+        ) : null}
+        {visit.notes ? (
+          <div className="text-xs text-muted-foreground">{visit.notes}</div>
+        ) : null}
+      </div>
+
+      {canCheckIn ? (
+        <Button
+          className="w-full"
+          disabled={locating}
+          onClick={() => void withLocation("CHECK_IN")}
+        >
+          {locating ? "Obteniendo ubicacion..." : "Check-in"}
+        </Button>
+      ) : null}
+
+      {visit.checklist.length > 0 ? (
+        <div className="space-y-1">
+          <div className="text-xs font-medium">Checklist</div>
+          {visit.checklist.map((item) => (
+            <label key={item.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={item.isCompleted}
+                disabled={!inProgress}
+                onChange={(event) =>
+                  onOperation({
+                    type: "CHECKLIST",
+                    visitId: visit.id,
+                    checklistItemId: item.id,
+                    completed: event.target.checked,
+                  })
+                }
+              />
+              {item.label}
+              {item.isRequired ? " *" : ""}
+            </label>
+          ))}
+        </div>
+      ) : null}
+
+      {inProgress ? (
+        <div className="space-y-2">
+          <div className="text-xs font-medium">
+            Notas clinicas ({visit.noteCount})
+          </div>
+          <Textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Evolucion de la visita"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!note.trim()}
+            onClick={() => {
+              onOperation({ type: "NOTE", visitId: visit.id, summary: note });
+              setNote("");
+            }}
+          >
+            Guardar nota
+          </Button>
+        </div>
+      ) : null}
+
+      {visit.items.length > 0 ? (
+        <div className="text-xs">
+          Consumos:{" "}
+          {visit.items
+            .map((item) => `${item.productName} x${item.quantity}`)
+            .join(", ")}
+        </div>
+      ) : null}
+
+      {inProgress && snapshot.products.length > 0 ? (
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={productId}
+            onChange={(event) => setProductId(event.target.value)}
+            className="col-span-2 h-10 rounded-md border bg-background px-3 text-sm"
+          >
+            <option value="">Producto</option>
+            {snapshot.products.map((product) => (
+              <option key={product.id} value={product.id}>
+                {product.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={warehouseId}
+            onChange={(event) => setWarehouseId(event.target.value)}
+            className="h-10 rounded-md border bg-background px-3 text-sm"
+          >
+            <option value="">Deposito</option>
+            {snapshot.warehouses.map((warehouse) => (
+              <option key={warehouse.id} value={warehouse.id}>
+                {warehouse.name}
+              </option>
+            ))}
+          </select>
+          <Input
+            type="number"
+            min={1}
+            value={quantity}
+            onChange={(event) => setQuantity(event.target.value)}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="col-span-2"
+            disabled={
+              !productId ||
+              !warehouseId ||
+              !Number.isInteger(parsedQuantity) ||
+              parsedQuantity < 1
+            }
+            onClick={() => {
+              onOperation({
+                type: "ITEM",
+                visitId: visit.id,
+                productId,
+                warehouseId,
+                quantity: parsedQuantity,
+              });
+              setQuantity("1");
+            }}
+          >
+            Registrar consumo
+          </Button>
+        </div>
+      ) : null}
+
+      {inProgress ? (
+        <Button
+          className="w-full"
+          disabled={locating || !canCompleteMobileVisit(visit)}
+          onClick={() => void withLocation("COMPLETE")}
+        >
+          {locating ? "Obteniendo ubicacion..." : "Completar visita"}
+        </Button>
+      ) : null}
+    </div>
+  );
+}
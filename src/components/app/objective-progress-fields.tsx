@@ -0,0 +1,64 @@
+import { CarePlanObjectiveStatus } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { objectiveStatusLabels } from "@/lib/care-plan-objectives";
+
+type Props = {
+  objectives: {
+    id: string;
+    description: string;
+    target: string | null;
+    status: CarePlanObjectiveStatus;
+  }[];
+};
+
+export default function ObjectiveProgressFields({ objectives }: Props) {
+  if (objectives.length === 0) {
+    return null;
+  }
+
+  return (
+    <fieldset className="mt-2 space-y-2 rounded-md border p-2">
+      <legend className="px-1 text-xs font-medium">
+        Avance de objetivos del plan
+      </legend>
+      {objectives.map((objective) => (
+        <div
+          key={objective.id}
+          className="grid gap-2 text-xs md:grid-cols-[1fr_10rem_1fr]"
+        >
+          <div>
+            <div className="font-medium">{objective.description}</div>
+            {objective.target ? (
+              <div className="text-muted-foreground">
+                Meta: {objective.target}
+              </div>
+            ) : null}
+          </div>
+          <select
+            name={`objectiveStatus_${objective.id}`}
+            className="h-9 rounded-md border bg-background px-2 text-xs"
+            defaultValue=""
+          >
+            <option value="">
+              Sin cambio ({objectiveStatusLabels[objective.status]})
+            </option>
+            {[
+              CarePlanObjectiveStatus.IN_PROGRESS,
+              CarePlanObjectiveStatus.MET,
+              CarePlanObjectiveStatus.NOT_MET,
+            ].map((status) => (
+              <option key={status} value={status}>
+                {objectiveStatusLabels[status]}
+              </option>
+            ))}
+          </select>
+          <Input
+            name={`objectiveComment_${objective.id}`}
+            placeholder="Comentario de avance"
+            className="h-9"
+          />
+        </div>
+      ))}
+    </fieldset>
+  );
+}
@@ -0,0 +1,33 @@
+import { patientAlertSummary } from "@/lib/patient-background";
+
+type Props = Parameters<typeof patientAlertSummary>[0];
+
+export default function PatientAlertsBanner(props: Props) {
+  const summary = patientAlertSummary(props);
+  if (summary.allergies.length === 0 && summary.problems.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={`rounded-md border px-3 py-2 text-xs ${
+        summary.hasSevereAllergy
+          ? "border-destructive bg-destructive/10 text-destructive"
+          : "border-amber-300 bg-amber-50 text-amber-900"
+      }`}
+    >
+      {summary.allergies.length > 0 ? (
+        <div>
+          <span className="font-medium">Alergias:</span>{" "}
+          {summary.allergies.join(", ")}
+        </div>
+      ) : null}
+      {summary.problems.length > 0 ? (
+        <div>
+          <span className="font-medium">Problemas activos:</span>{" "}
+          {summary.problems.join(", ")}
+        </div>
+      ) : null}
+    </div>
+  );
+}
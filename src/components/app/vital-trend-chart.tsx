@@ -0,0 +1,92 @@
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = 12;
+
+export default function VitalTrendChart({
+  label,
+  unit,
+  points,
+  min,
+  max,
+}: {
+  label: string;
+  unit: string;
+  points: Array<{ at: Date; value: number }>;
+  min: number | null;
+  max: number | null;
+}) {
+  const values = points.map((point) => point.value);
+  const bounds = [
+    ...values,
+    ...(min !== null ? [min] : []),
+    ...(max !== null ? [max] : []),
+  ];
+  const low = Math.min(...bounds);
+  const high = Math.max(...bounds);
+  const span = high - low || 1;
+  const x = (index: number) =>
+    points.length > 1
+      ? PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2)
+      : WIDTH / 2;
+  const y = (value: number) =>
+    HEIGHT - PADDING - ((value - low) / span) * (HEIGHT - PADDING * 2);
+  const isOut = (value: number) =>
+    (min !== null && value < min) || (max !== null && value > max);
+  const last = points[points.length - 1];
+
+  return (
+    <div className="rounded-md border p-3">
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="text-xs text-muted-foreground">
+          Ultimo: {last.value} {unit}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="mt-2 h-28 w-full"
+        role="img"
+        aria-label={`Tendencia ${label}`}
+      >
+        {[min, max].map((threshold, index) =>
+          threshold !== null ? (
+            <line
+              key={index}
+              x1={PADDING}
+              x2={WIDTH - PADDING}
+              y1={y(threshold)}
+              y2={y(threshold)}
+              className="stroke-amber-400"
+              strokeDasharray="4 4"
+            />
+          ) : null,
+        )}
+        <polyline
+          fill="none"
+          className="stroke-primary"
+          strokeWidth={2}
+          points={points
+            .map((point, index) => `${x(index)},${y(point.value)}`)
+            .join(" ")}
+        />
+        {points.map((point, index) => (
+          <circle
+            key={point.at.getTime()}
+            cx={x(index)}
+            cy={y(point.value)}
+            r={3}
+            className={isOut(point.value) ? "fill-red-500" : "fill-primary"}
+          >
+            <title>
+              {point.at.toLocaleString("es-AR")}: {point.value} {unit}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{points[0].at.toLocaleDateString("es-AR")}</span>
+        <span>{last.at.toLocaleDateString("es-AR")}</span>
+      </div>
+    </div>
+  );
+}
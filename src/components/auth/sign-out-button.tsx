@@ -2,13 +2,32 @@
 
 import { signOut } from "next-auth/react";
 import { Button } from "@/components/ui/button";
+import {
+  clearMobileData,
+  countPendingMobileOperations,
+} from "@/lib/mobile-visits";
+
+async function handleSignOut() {
+  const pending = countPendingMobileOperations();
+  if (
+    pending > 0 &&
+    !window.confirm(
+      `Hay ${pending} cambios de visitas sin sincronizar en este dispositivo. Si salis se van a perder. Salir igual?`,
+    )
+  ) {
+    return;
+  }
+  // Offline visit data holds patient information; never leave it behind.
+  await clearMobileData();
+  await signOut({ callbackUrl: "/login" });
+}
 
 export function SignOutButton({ compact }: { compact?: boolean }) {
   return (
     <Button
       type="button"
       variant={compact ? "ghost" : "secondary"}
-      onClick={() => signOut({ callbackUrl: "/login" })}
+      onClick={() => void handleSignOut()}
     >
       Salir
     </Button>
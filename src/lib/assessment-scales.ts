@@ -0,0 +1,339 @@
+import { AssessmentScale } from "@prisma/client";
+
+type ScaleOption = { value: number; label: string };
+
+type ScaleItem = {
+  key: string;
+  label: string;
+  options: ScaleOption[];
+};
+
+export type ScaleDefinition = {
+  code: AssessmentScale;
+  name: string;
+  description: string;
+  items: ScaleItem[];
+  interpret: (score: number) => string;
+};
+
+const levels = (...labels: string[]) =>
+  labels.map((label, index) => ({ value: index + 1, label }));
+
+const barthelOptions = (...pairs: Array<[number, string]>) =>
+  pairs.map(([value, label]) => ({ value, label }));
+
+export const assessmentScales: Record<AssessmentScale, ScaleDefinition> = {
+  BARTHEL: {
+    code: AssessmentScale.BARTHEL,
+    name: "Barthel",
+    description: "Actividades basicas de la vida diaria (0-100).",
+    items: [
+      {
+        key: "feeding",
+        label: "Comer",
+        options: barthelOptions(
+          [0, "Dependiente"],
+          [5, "Necesita ayuda"],
+          [10, "Independiente"],
+        ),
+      },
+      {
+        key: "bathing",
+        label: "Lavarse",
+        options: barthelOptions([0, "Dependiente"], [5, "Independiente"]),
+      },
+      {
+        key: "grooming",
+        label: "Arreglarse",
+        options: barthelOptions([0, "Dependiente"], [5, "Independiente"]),
+      },
+      {
+        key: "dressing",
+        label: "Vestirse",
+        options: barthelOptions(
+          [0, "Dependiente"],
+          [5, "Necesita ayuda"],
+          [10, "Independiente"],
+        ),
+      },
+      {
+        key: "bowels",
+        label: "Deposiciones",
+        options: barthelOptions(
+          [0, "Incontinente"],
+          [5, "Accidente ocasional"],
+          [10, "Continente"],
+        ),
+      },
+      {
+        key: "bladder",
+        label: "Miccion",
+        options: barthelOptions(
+          [0, "Incontinente"],
+          [5, "Accidente ocasional"],
+          [10, "Continente"],
+        ),
+      },
+      {
+        key: "toilet",
+        label: "Uso del retrete",
+        options: barthelOptions(
+          [0, "Dependiente"],
+          [5, "Necesita ayuda"],
+          [10, "Independiente"],
+        ),
+      },
+      {
+        key: "transfers",
+        label: "Trasladarse",
+        options: barthelOptions(
+          [0, "Dependiente"],
+          [5, "Gran ayuda"],
+          [10, "Minima ayuda"],
+          [15, "Independiente"],
+        ),
+      },
+      {
+        key: "mobility",
+        label: "Deambular",
+        options: barthelOptions(
+          [0, "Inmovil"],
+          [5, "Independiente en silla de ruedas"],
+          [10, "Necesita ayuda"],
+          [15, "Independiente"],
+        ),
+      },
+      {
+        key: "stairs",
+        label: "Escaleras",
+        options: barthelOptions(
+          [0, "Dependiente"],
+          [5, "Necesita ayuda"],
+          [10, "Independiente"],
+        ),
+      },
+    ],
+    interpret: (score) => {
+      if (score <= 20) return "Dependencia total";
+      if (score <= 60) return "Dependencia severa";
+      if (score <= 90) return "Dependencia moderada";
+      if (score < 100) return "Dependencia leve";
+      return "Independiente";
+    },
+  },
+  BRADEN: {
+    code: AssessmentScale.BRADEN,
+    name: "Braden",
+    description: "Riesgo de lesiones por presion (6-23).",
+    items: [
+      {
+        key: "sensory",
+        label: "Percepcion sensorial",
+        options: levels(
+          "Completamente limitada",
+          "Muy limitada",
+          "Ligeramente limitada",
+          "Sin limitaciones",
+        ),
+      },
+      {
+        key: "moisture",
+        label: "Exposicion a la humedad",
+        options: levels(
+          "Constantemente humeda",
+          "A menudo humeda",
+          "Ocasionalmente humeda",
+          "Raramente humeda",
+        ),
+      },
+      {
+        key: "activity",
+        label: "Actividad",
+        options: levels(
+          "Encamado",
+          "En silla",
+          "Deambula ocasionalmente",
+          "Deambula frecuentemente",
+        ),
+      },
+      {
+        key: "mobility",
+        label: "Movilidad",
+        options: levels(
+          "Completamente inmovil",
+          "Muy limitada",
+          "Ligeramente limitada",
+          "Sin limitaciones",
+        ),
+      },
+      {
+        key: "nutrition",
+        label: "Nutricion",
+        options: levels(
+          "Muy pobre",
+          "Probablemente inadecuada",
+          "Adecuada",
+          "Excelente",
+        ),
+      },
+      {
+        key: "friction",
+        label: "Roce y cizallamiento",
+        options: levels(
+          "Problema",
+          "Problema potencial",
+          "Sin problema aparente",
+        ),
+      },
+    ],
+    interpret: (score) => {
+      if (score <= 9) return "Riesgo muy alto";
+      if (score <= 12) return "Riesgo alto";
+      if (score <= 14) return "Riesgo moderado";
+      if (score <= 18) return "Riesgo bajo";
+      return "Sin riesgo";
+    },
+  },
+  NORTON: {
+    code: AssessmentScale.NORTON,
+    name: "Norton",
+    description: "Riesgo de ulceras por presion (5-20).",
+    items: [
+      {
+        key: "physical",
+        label: "Estado fisico general",
+        options: levels("Muy malo", "Pobre", "Mediano", "Bueno"),
+      },
+      {
+        key: "mental",
+        label: "Estado mental",
+        options: levels("Estuporoso", "Confuso", "Apatico", "Alerta"),
+      },
+      {
+        key: "activity",
+        label: "Actividad",
+        options: levels("Encamado", "Sentado", "Camina con ayuda", "Ambulante"),
+      },
+      {
+        key: "mobility",
+        label: "Movilidad",
+        options: levels("Inmovil", "Muy limitada", "Disminuida", "Total"),
+      },
+      {
+        key: "incontinence",
+        label: "Incontinencia",
+        options: levels(
+          "Urinaria y fecal",
+          "Urinaria o fecal",
+          "Ocasional",
+          "Ninguna",
+        ),
+      },
+    ],
+    interpret: (score) => {
+      if (score <= 9) return "Riesgo muy alto";
+      if (score <= 12) return "Riesgo alto";
+      if (score <= 14) return "Riesgo medio";
+      return "Riesgo minimo";
+    },
+  },
+  GLASGOW: {
+    code: AssessmentScale.GLASGOW,
+    name: "Glasgow",
+    description: "Nivel de conciencia (3-15).",
+    items: [
+      {
+        key: "eyes",
+        label: "Apertura ocular",
+        options: levels("Ninguna", "Al dolor", "A la voz", "Espontanea"),
+      },
+      {
+        key: "verbal",
+        label: "Respuesta verbal",
+        options: levels(
+          "Ninguna",
+          "Sonidos incomprensibles",
+          "Palabras inapropiadas",
+          "Confusa",
+          "Orientada",
+        ),
+      },
+      {
+        key: "motor",
+        label: "Respuesta motora",
+        options: levels(
+          "Ninguna",
+          "Extension anormal",
+          "Flexion anormal",
+          "Retirada al dolor",
+          "Localiza el dolor",
+          "Obedece ordenes",
+        ),
+      },
+    ],
+    interpret: (score) => {
+      if (score <= 8) return "Compromiso grave";
+      if (score <= 12) return "Compromiso moderado";
+      return "Compromiso leve";
+    },
+  },
+  KATZ: {
+    code: AssessmentScale.KATZ,
+    name: "Katz",
+    description: "Independencia en actividades basicas (0-6).",
+    items: [
+      ["bathing", "Bano"],
+      ["dressing", "Vestido"],
+      ["toileting", "Uso del retrete"],
+      ["transferring", "Movilidad"],
+      ["continence", "Continencia"],
+      ["feeding", "Alimentacion"],
+    ].map(([key, label]) => ({
+      key,
+      label,
+      options: [
+        { value: 0, label: "Dependiente" },
+        { value: 1, label: "Independiente" },
+      ],
+    })),
+    interpret: (score) => {
+      if (score === 6) return "Independiente";
+      if (score >= 3) return "Dependencia moderada";
+      return "Dependencia severa";
+    },
+  },
+};
+
+export function scaleMaxScore(scale: ScaleDefinition) {
+  return scale.items.reduce(
+    (sum, item) =>
+      sum + Math.max(...item.options.map((option) => option.value)),
+    0,
+  );
+}
+
+export function scoreAssessment(
+  code: AssessmentScale,
+  input: Record<string, unknown>,
+) {
+  const scale = assessmentScales[code];
+  const answers: Record<string, number> = {};
+  for (const item of scale.items) {
+    const raw = input[item.key];
+    if (raw === null || raw === undefined || String(raw) === "") {
+      throw new Error("ASSESSMENT_INCOMPLETE");
+    }
+    const value = Number(raw);
+    if (!item.options.some((option) => option.value === value)) {
+      throw new Error("VALIDATION_ERROR");
+    }
+    answers[item.key] = value;
+  }
+  const score = Object.values(answers).reduce((sum, value) => sum + value, 0);
+  return {
+    answers,
+    score,
+    maxScore: scaleMaxScore(scale),
+    interpretation: scale.interpret(score),
+  };
+}
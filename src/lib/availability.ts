@@ -0,0 +1,349 @@
+import { LeaveType, Prisma, VisitStatus } from "@prisma/client";
+
+export const DEFAULT_VISIT_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const leaveTypeLabels: Record<LeaveType, string> = {
+  VACATION: "Vacaciones",
+  SICK: "Enfermedad",
+  TRAINING: "Capacitacion",
+  PERSONAL: "Personal",
+  OTHER: "Otra",
+};
+
+export const weekdayLabels = ["Dom", "Lun", "Mar", "Mie", "Jue", "Vie", "Sab"];
+
+const blockingVisitStatuses: VisitStatus[] = [
+  VisitStatus.SCHEDULED,
+  VisitStatus.IN_PROGRESS,
+  VisitStatus.COMPLETED,
+];
+
+export type Interval = { start: Date; end: Date };
+
+type WorkingHoursInput = {
+  weekday: number;
+  startMinute: number;
+  endMinute: number;
+};
+
+type VisitInput = {
+  id: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  status: VisitStatus;
+};
+
+export type AvailabilityIssue = "ON_LEAVE" | "OVERLAP" | "OUTSIDE_HOURS";
+
+export function parseTimeOfDay(value: unknown) {
+  if (typeof value !== "string") return null;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+export function formatTimeOfDay(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+export function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function visitInterval(visit: {
+  scheduledAt: Date;
+  durationMinutes: number;
+}): Interval {
+  return {
+    start: visit.scheduledAt,
+    end: new Date(
+      visit.scheduledAt.getTime() + visit.durationMinutes * MINUTE_MS,
+    ),
+  };
+}
+
+export function intervalsOverlap(a: Interval, b: Interval) {
+  return a.start < b.end && b.start < a.end;
+}
+
+function overlapMinutes(a: Interval, b: Interval) {
+  const start = Math.max(a.start.getTime(), b.start.getTime());
+  const end = Math.min(a.end.getTime(), b.end.getTime());
+  return Math.max(0, (end - start) / MINUTE_MS);
+}
+
+export function workingIntervalsForDay(
+  day: Date,
+  workingHours: WorkingHoursInput[],
+  shifts: Interval[],
+) {
+  const dayStart = startOfDay(day);
+  const dayInterval = {
+    start: dayStart,
+    end: new Date(dayStart.getTime() + DAY_MS),
+  };
+  const intervals: Interval[] = workingHours
+    .filter((entry) => entry.weekday === dayStart.getDay())
+    .map((entry) => ({
+      start: new Date(dayStart.getTime() + entry.startMinute * MINUTE_MS),
+      end: new Date(dayStart.getTime() + entry.endMinute * MINUTE_MS),
+    }));
+  shifts
+    .filter((shift) => intervalsOverlap(shift, dayInterval))
+    .forEach((shift) => intervals.push(shift));
+  return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function isCovered(interval: Interval, working: Interval[]) {
+  let cursor = interval.start.getTime();
+  for (const entry of working) {
+    if (entry.start.getTime() > cursor) break;
+    cursor = Math.max(cursor, entry.end.getTime());
+    if (cursor >= interval.end.getTime()) return true;
+  }
+  return cursor >= interval.end.getTime();
+}
+
+export function findAvailabilityIssues(params: {
+  interval: Interval;
+  workingHours: WorkingHoursInput[];
+  shifts: Interval[];
+  leaves: { startDate: Date; endDate: Date }[];
+  visits: VisitInput[];
+  excludeVisitId?: string | null;
+}) {
+  const issues: AvailabilityIssue[] = [];
+  if (
+    params.leaves.some((leave) =>
+      intervalsOverlap(params.interval, {
+        start: leave.startDate,
+        end: leave.endDate,
+      }),
+    )
+  ) {
+    issues.push("ON_LEAVE");
+  }
+
+  const overlapping = params.visits.filter(
+    (visit) =>
+      visit.id !== params.excludeVisitId &&
+      blockingVisitStatuses.includes(visit.status) &&
+      intervalsOverlap(params.interval, visitInterval(visit)),
+  );
+  if (overlapping.length > 0) issues.push("OVERLAP");
+
+  const configured =
+    params.workingHours.length > 0 || params.shifts.length > 0;
+  if (
+    configured &&
+    !isCovered(
+      params.interval,
+      workingIntervalsForDay(
+        params.interval.start,
+        params.workingHours,
+        params.shifts,
+      ),
+    )
+  ) {
+    issues.push("OUTSIDE_HOURS");
+  }
+
+  return { issues, overlapping };
+}
+
+export function summarizeCapacity<V extends VisitInput>(params: {
+  from: Date;
+  days: number;
+  workingHours: WorkingHoursInput[];
+  shifts: Interval[];
+  leaves: { startDate: Date; endDate: Date }[];
+  visits: V[];
+}) {
+  const days = Array.from({ length: params.days }, (_, index) => {
+    const start = new Date(startOfDay(params.from).getTime() + index * DAY_MS);
+    const day = { start, end: new Date(start.getTime() + DAY_MS) };
+    const onLeave = params.leaves.some((leave) =>
+      intervalsOverlap(day, { start: leave.startDate, end: leave.endDate }),
+    );
+    const availableMinutes = onLeave
+      ? 0
+      : workingIntervalsForDay(start, params.workingHours, params.shifts)
+          .map((interval) => overlapMinutes(interval, day))
+          .reduce((sum, minutes) => sum + minutes, 0);
+    const visits = params.visits.filter(
+      (visit) =>
+        blockingVisitStatuses.includes(visit.status) &&
+        visit.scheduledAt >= day.start &&
+        visit.scheduledAt < day.end,
+    );
+    const scheduledMinutes = visits.reduce(
+      (sum, visit) => sum + visit.durationMinutes,
+      0,
+    );
+    return { date: start, onLeave, availableMinutes, scheduledMinutes, visits };
+  });
+
+  const availableMinutes = days.reduce(
+    (sum, day) => sum + day.availableMinutes,
+    0,
+  );
+  const scheduledMinutes = days.reduce(
+    (sum, day) => sum + day.scheduledMinutes,
+    0,
+  );
+  return {
+    days,
+    availableMinutes,
+    scheduledMinutes,
+    utilisation:
+      availableMinutes > 0 ? scheduledMinutes / availableMinutes : null,
+  };
+}
+
+// In-memory calendars for several professionals, used when many visits are
+// assigned in one go. Reserved slots count as scheduled visits for the
+// following checks.
+export function createAvailabilityCalendar(params: {
+  workingHours: (WorkingHoursInput & { userId: string })[];
+  shifts: { userId: string; start: Date; end: Date }[];
+  leaves: { userId: string; startDate: Date; endDate: Date }[];
+  visits: (VisitInput & { assignedUserId: string | null })[];
+}) {
+  const reserved: (VisitInput & { assignedUserId: string })[] = [];
+  const forUser = <T extends { userId: string }>(
+    entries: T[],
+    userId: string,
+  ) => entries.filter((entry) => entry.userId === userId);
+
+  const issuesFor = (
+    userId: string,
+    scheduledAt: Date,
+    durationMinutes: number,
+    excludeVisitId?: string | null,
+  ) =>
+    findAvailabilityIssues({
+      interval: visitInterval({ scheduledAt, durationMinutes }),
+      workingHours: forUser(params.workingHours, userId),
+      shifts: forUser(params.shifts, userId),
+      leaves: forUser(params.leaves, userId),
+      visits: [...params.visits, ...reserved].filter(
+        (visit) => visit.assignedUserId === userId,
+      ),
+      excludeVisitId,
+    }).issues;
+
+  return {
+    issuesFor,
+    isAvailable(userId: string, scheduledAt: Date, durationMinutes: number) {
+      return issuesFor(userId, scheduledAt, durationMinutes).length === 0;
+    },
+    reserve(userId: string, scheduledAt: Date, durationMinutes: number) {
+      reserved.push({
+        id: `reserved-${reserved.length}`,
+        assignedUserId: userId,
+        scheduledAt,
+        durationMinutes,
+        status: VisitStatus.SCHEDULED,
+      });
+    },
+  };
+}
+
+export async function loadAvailabilityCalendar(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; userIds: string[]; from: Date; to: Date },
+) {
+  const windowStart = new Date(startOfDay(params.from).getTime() - DAY_MS);
+  const windowEnd = new Date(startOfDay(params.to).getTime() + 2 * DAY_MS);
+  const userId = { in: params.userIds };
+
+  const [workingHours, shifts, leaves, visits] = await Promise.all([
+    db.professionalWorkingHours.findMany({
+      where: { tenantId: params.tenantId, userId },
+    }),
+    db.professionalShift.findMany({
+      where: {
+        tenantId: params.tenantId,
+        userId,
+        startsAt: { lt: windowEnd },
+        endsAt: { gt: windowStart },
+      },
+    }),
+    db.professionalLeave.findMany({
+      where: {
+        tenantId: params.tenantId,
+        userId,
+        startDate: { lt: windowEnd },
+        endDate: { gt: windowStart },
+      },
+    }),
+    db.visit.findMany({
+      where: {
+        tenantId: params.tenantId,
+        assignedUserId: userId,
+        scheduledAt: { gte: windowStart, lt: windowEnd },
+      },
+      select: {
+        id: true,
+        assignedUserId: true,
+        scheduledAt: true,
+        durationMinutes: true,
+        status: true,
+      },
+    }),
+  ]);
+
+  return createAvailabilityCalendar({
+    workingHours,
+    shifts: shifts.map((shift) => ({
+      userId: shift.userId,
+      start: shift.startsAt,
+      end: shift.endsAt,
+    })),
+    leaves,
+    visits,
+  });
+}
+
+export async function assertProfessionalAvailable(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    userId: string;
+    scheduledAt: Date;
+    durationMinutes: number;
+    excludeVisitId?: string | null;
+    allowOutsideHours?: boolean;
+  },
+) {
+  const calendar = await loadAvailabilityCalendar(db, {
+    tenantId: params.tenantId,
+    userIds: [params.userId],
+    from: params.scheduledAt,
+    to: params.scheduledAt,
+  });
+  const issues = calendar.issuesFor(
+    params.userId,
+    params.scheduledAt,
+    params.durationMinutes,
+    params.excludeVisitId,
+  );
+  if (issues.includes("ON_LEAVE")) {
+    throw new Error("PROFESSIONAL_ON_LEAVE");
+  }
+  if (issues.includes("OVERLAP")) {
+    throw new Error("VISIT_OVERLAP");
+  }
+  if (issues.includes("OUTSIDE_HOURS") && !params.allowOutsideHours) {
+    throw new Error("PROFESSIONAL_OUTSIDE_HOURS");
+  }
+}
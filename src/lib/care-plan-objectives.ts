@@ -0,0 +1,173 @@
+import { CarePlanObjectiveStatus, Prisma } from "@prisma/client";
+import { logAudit } from "./audit";
+
+export const objectiveStatusLabels: Record<CarePlanObjectiveStatus, string> = {
+  PENDING: "Pendiente",
+  IN_PROGRESS: "En progreso",
+  MET: "Cumplido",
+  NOT_MET: "No cumplido",
+  CANCELLED: "Cancelado",
+};
+
+export const closedObjectiveStatuses: CarePlanObjectiveStatus[] = [
+  CarePlanObjectiveStatus.MET,
+  CarePlanObjectiveStatus.NOT_MET,
+  CarePlanObjectiveStatus.CANCELLED,
+];
+
+export type ObjectiveUpdateInput = {
+  objectiveId: string;
+  status: CarePlanObjectiveStatus | null;
+  comment: string | null;
+};
+
+export function parseObjectiveLines(value: string | null | undefined) {
+  return (value ?? "")
+    .split(/\r?\n|,/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function readObjectiveUpdates(
+  entries: Iterable<[string, FormDataEntryValue]>,
+): ObjectiveUpdateInput[] {
+  const updates = new Map<string, ObjectiveUpdateInput>();
+  const entryFor = (objectiveId: string) => {
+    const update = updates.get(objectiveId) ?? {
+      objectiveId,
+      status: null,
+      comment: null,
+    };
+    updates.set(objectiveId, update);
+    return update;
+  };
+
+  for (const [key, raw] of entries) {
+    if (typeof raw !== "string") continue;
+    const value = raw.trim();
+    if (!value) continue;
+    if (key.startsWith("objectiveStatus_")) {
+      if (!(value in CarePlanObjectiveStatus)) continue;
+      entryFor(key.slice("objectiveStatus_".length)).status =
+        value as CarePlanObjectiveStatus;
+    } else if (key.startsWith("objectiveComment_")) {
+      entryFor(key.slice("objectiveComment_".length)).comment = value;
+    }
+  }
+
+  return [...updates.values()].filter(
+    (update) => update.objectiveId && (update.status || update.comment),
+  );
+}
+
+export function isObjectiveOverdue(
+  objective: { status: CarePlanObjectiveStatus; dueDate: Date | null },
+  now = new Date(),
+) {
+  return (
+    !!objective.dueDate &&
+    objective.dueDate < now &&
+    !closedObjectiveStatuses.includes(objective.status)
+  );
+}
+
+export function summarizeObjectives(
+  objectives: { status: CarePlanObjectiveStatus; dueDate: Date | null }[],
+  now = new Date(),
+) {
+  const counted = objectives.filter(
+    (objective) => objective.status !== CarePlanObjectiveStatus.CANCELLED,
+  );
+  const count = (status: CarePlanObjectiveStatus) =>
+    counted.filter((objective) => objective.status === status).length;
+  const met = count(CarePlanObjectiveStatus.MET);
+  return {
+    total: counted.length,
+    pending: count(CarePlanObjectiveStatus.PENDING),
+    inProgress: count(CarePlanObjectiveStatus.IN_PROGRESS),
+    met,
+    notMet: count(CarePlanObjectiveStatus.NOT_MET),
+    overdue: counted.filter((objective) => isObjectiveOverdue(objective, now))
+      .length,
+    metRate: counted.length > 0 ? met / counted.length : null,
+  };
+}
+
+export async function applyObjectiveUpdates(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    actorId: string;
+    episodeId: string | null;
+    noteId?: string | null;
+    updates: ObjectiveUpdateInput[];
+  },
+) {
+  if (params.updates.length === 0) return 0;
+  if (!params.episodeId) {
+    throw new Error("OBJECTIVE_NOT_FOUND");
+  }
+
+  const objectives = await db.carePlanObjective.findMany({
+    where: {
+      tenantId: params.tenantId,
+      id: { in: params.updates.map((update) => update.objectiveId) },
+      carePlan: { episodeId: params.episodeId },
+    },
+  });
+  const changes = params.updates.map((update) => {
+    const objective = objectives.find(
+      (entry) => entry.id === update.objectiveId,
+    );
+    if (!objective) {
+      throw new Error("OBJECTIVE_NOT_FOUND");
+    }
+    return {
+      objective,
+      comment: update.comment,
+      status: update.status ?? objective.status,
+    };
+  });
+
+  for (const { objective, comment, status } of changes) {
+    await db.carePlanObjectiveUpdate.create({
+      data: {
+        tenantId: params.tenantId,
+        objectiveId: objective.id,
+        noteId: params.noteId ?? null,
+        status,
+        comment,
+        updatedById: params.actorId,
+      },
+    });
+    if (status !== objective.status) {
+      await db.carePlanObjective.update({
+        where: { id: objective.id },
+        data: {
+          status,
+          closedAt: closedObjectiveStatuses.includes(status)
+            ? new Date()
+            : null,
+        },
+      });
+    }
+  }
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action: "care_plan.objectives.update",
+    entityType: "Episode",
+    entityId: params.episodeId,
+    meta: {
+      noteId: params.noteId ?? null,
+      updates: changes.map(({ objective, status }) => ({
+        objectiveId: objective.id,
+        from: objective.status,
+        to: status,
+      })),
+    },
+  });
+
+  return changes.length;
+}
@@ -0,0 +1,99 @@
+import { CareTeamRole, Prisma, Role, VisitType } from "@prisma/client";
+
+export const careTeamRoleLabels: Record<CareTeamRole, string> = {
+  PHYSICIAN: "Medico responsable",
+  NURSE: "Enfermeria",
+  KINESIOLOGIST: "Kinesiologia",
+  COORDINATOR: "Coordinacion",
+};
+
+export const visitTypeTeamRoles: Record<VisitType, CareTeamRole[]> = {
+  GENERAL: [CareTeamRole.NURSE, CareTeamRole.PHYSICIAN],
+  NURSING: [CareTeamRole.NURSE],
+  KINESIOLOGY: [CareTeamRole.KINESIOLOGIST],
+  WOUND_CARE: [CareTeamRole.NURSE],
+  MEDICAL: [CareTeamRole.PHYSICIAN],
+};
+
+type TeamMember = {
+  userId: string;
+  role: CareTeamRole;
+  startDate: Date;
+  endDate: Date | null;
+};
+
+export function isTeamMemberActive(
+  member: { startDate: Date; endDate: Date | null },
+  at = new Date(),
+) {
+  return member.startDate <= at && (!member.endDate || member.endDate >= at);
+}
+
+export function defaultAssigneeForVisit(
+  members: TeamMember[],
+  visitType: VisitType,
+  at: Date,
+) {
+  for (const role of visitTypeTeamRoles[visitType]) {
+    const member = members
+      .filter(
+        (entry) => entry.role === role && isTeamMemberActive(entry, at),
+      )
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime())[0];
+    if (member) return member.userId;
+  }
+  return null;
+}
+
+export function activeMembershipWhere(
+  userId: string,
+  at = new Date(),
+): Prisma.EpisodeCareTeamMemberWhereInput {
+  return {
+    userId,
+    startDate: { lte: at },
+    OR: [{ endDate: null }, { endDate: { gte: at } }],
+  };
+}
+
+export function careTeamEpisodeScope(
+  user: { id: string; role?: string | null } | null | undefined,
+  at = new Date(),
+): Prisma.EpisodeWhereInput {
+  if (!user || user.role !== Role.PROFESIONAL) return {};
+  return { careTeam: { some: activeMembershipWhere(user.id, at) } };
+}
+
+export function careTeamPatientScope(
+  user: { id: string; role?: string | null } | null | undefined,
+  at = new Date(),
+): Prisma.PatientWhereInput {
+  if (!user || user.role !== Role.PROFESIONAL) return {};
+  return { episodes: { some: careTeamEpisodeScope(user, at) } };
+}
+
+export function careTeamNoteScope(
+  user: { id: string; role?: string | null } | null | undefined,
+  at = new Date(),
+): Prisma.ClinicalNoteWhereInput {
+  if (!user || user.role !== Role.PROFESIONAL) return {};
+  return {
+    OR: [
+      { visit: careTeamVisitScope(user, at) },
+      { episode: careTeamEpisodeScope(user, at) },
+    ],
+  };
+}
+
+export function careTeamVisitScope(
+  user: { id: string; role?: string | null } | null | undefined,
+  at = new Date(),
+): Prisma.VisitWhereInput {
+  if (!user || user.role !== Role.PROFESIONAL) return {};
+  return {
+    OR: [
+      { assignedUserId: user.id },
+      { episode: careTeamEpisodeScope(user, at) },
+    ],
+  };
+}
@@ -0,0 +1,253 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { logAudit } from "./audit";
+import { applyNoteFieldValues } from "./note-templates";
+
+export type ClinicalNoteStructured = {
+  subjective?: string;
+  objective?: string;
+  assessment?: string;
+  plan?: string;
+  templateId?: string;
+  templateVersion?: number;
+  templateName?: string;
+  fields?: { key: string; label: string; value: string }[];
+};
+
+export function buildNoteStructured(input: ClinicalNoteStructured) {
+  const structured = {
+    subjective: input.subjective?.trim() || undefined,
+    objective: input.objective?.trim() || undefined,
+    assessment: input.assessment?.trim() || undefined,
+    plan: input.plan?.trim() || undefined,
+  };
+  return Object.values(structured).some(Boolean) ? structured : null;
+}
+
+export function clinicalNoteHash(note: {
+  id: string;
+  authorId: string;
+  content: string;
+  structured: unknown;
+  amendsId: string | null;
+  signedById: string;
+  signedAt: Date;
+  amendsHash?: string | null;
+}) {
+  const structured = (note.structured ?? {}) as ClinicalNoteStructured;
+  const templated = structured.templateId
+    ? [
+        structured.templateId,
+        structured.templateVersion ?? null,
+        (structured.fields ?? []).map((field) => [field.key, field.value]),
+      ]
+    : [];
+  const payload = JSON.stringify([
+    note.id,
+    note.authorId,
+    note.content,
+    structured.subjective ?? null,
+    structured.objective ?? null,
+    structured.assessment ?? null,
+    structured.plan ?? null,
+    note.amendsId,
+    note.amendsHash ?? null,
+    note.signedById,
+    note.signedAt.toISOString(),
+    ...templated,
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+export function verifyClinicalNote(
+  note: {
+    id: string;
+    authorId: string;
+    content: string;
+    structured: unknown;
+    amendsId: string | null;
+    signedById: string | null;
+    signedAt: Date | null;
+    contentHash: string | null;
+  },
+  amendsHash?: string | null,
+) {
+  if (!note.signedAt || !note.signedById || !note.contentHash) return false;
+  return (
+    clinicalNoteHash({
+      ...note,
+      signedById: note.signedById,
+      signedAt: note.signedAt,
+      amendsHash,
+    }) === note.contentHash
+  );
+}
+
+async function findNote(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  noteId: string,
+) {
+  const note = await db.clinicalNote.findFirst({
+    where: { id: noteId, tenantId },
+  });
+  if (!note) {
+    throw new Error("NOTE_NOT_FOUND");
+  }
+  return note;
+}
+
+export async function updateClinicalNoteDraft(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    actorId: string;
+    noteId: string;
+    content: string;
+    structured: ClinicalNoteStructured;
+    fieldValues?: Record<string, string>;
+  },
+) {
+  const note = await findNote(db, params.tenantId, params.noteId);
+  if (note.signedAt) {
+    throw new Error("NOTE_SIGNED");
+  }
+  if (note.authorId !== params.actorId) {
+    throw new Error("FORBIDDEN");
+  }
+  const content = params.content.trim();
+  if (!content) {
+    throw new Error("VALIDATION_ERROR");
+  }
+
+  const current = note.structured as ClinicalNoteStructured | null;
+  const structured = current?.templateId
+    ? applyNoteFieldValues(current, params.fieldValues ?? {})
+    : buildNoteStructured(params.structured);
+
+  // Guarded on signedAt so a signature committed after the read is never
+  // overwritten.
+  const result = await db.clinicalNote.updateMany({
+    where: { id: note.id, tenantId: params.tenantId, signedAt: null },
+    data: {
+      content,
+      structured: structured ?? Prisma.DbNull,
+    },
+  });
+  if (result.count === 0) {
+    throw new Error("NOTE_SIGNED");
+  }
+  const updated = await findNote(db, params.tenantId, note.id);
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action: "clinicalNote.update",
+    entityType: "ClinicalNote",
+    entityId: note.id,
+    meta: { previousContent: note.content },
+  });
+
+  return updated;
+}
+
+export async function signClinicalNote(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; actorId: string; noteId: string },
+) {
+  const note = await findNote(db, params.tenantId, params.noteId);
+  if (note.signedAt) {
+    throw new Error("NOTE_ALREADY_SIGNED");
+  }
+  if (note.authorId !== params.actorId) {
+    throw new Error("FORBIDDEN");
+  }
+
+  const signedAt = new Date();
+  const contentHash = clinicalNoteHash({
+    ...note,
+    signedById: params.actorId,
+    signedAt,
+  });
+  // Only sign the version that was hashed: a concurrent sign or draft edit
+  // leaves nothing to update.
+  const result = await db.clinicalNote.updateMany({
+    where: {
+      id: note.id,
+      tenantId: params.tenantId,
+      signedAt: null,
+      updatedAt: note.updatedAt,
+    },
+    data: { signedAt, signedById: params.actorId, contentHash },
+  });
+  if (result.count === 0) {
+    const current = await findNote(db, params.tenantId, note.id);
+    throw new Error(current.signedAt ? "NOTE_ALREADY_SIGNED" : "NOTE_CHANGED");
+  }
+  const signed = await findNote(db, params.tenantId, note.id);
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action: "clinicalNote.sign",
+    entityType: "ClinicalNote",
+    entityId: note.id,
+    meta: { contentHash },
+  });
+
+  return signed;
+}
+
+export async function addClinicalNoteAddendum(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    actorId: string;
+    noteId: string;
+    content: string;
+  },
+) {
+  const original = await findNote(db, params.tenantId, params.noteId);
+  if (!original.signedAt) {
+    throw new Error("NOTE_NOT_SIGNED");
+  }
+  const content = params.content.trim();
+  if (!content) {
+    throw new Error("VALIDATION_ERROR");
+  }
+
+  const draft = await db.clinicalNote.create({
+    data: {
+      tenantId: params.tenantId,
+      patientId: original.patientId,
+      episodeId: original.episodeId,
+      visitId: original.visitId,
+      authorId: params.actorId,
+      content,
+      amendsId: original.id,
+    },
+  });
+
+  const signedAt = new Date();
+  const contentHash = clinicalNoteHash({
+    ...draft,
+    signedById: params.actorId,
+    signedAt,
+    amendsHash: original.contentHash,
+  });
+  const addendum = await db.clinicalNote.update({
+    where: { id: draft.id },
+    data: { signedAt, signedById: params.actorId, contentHash },
+  });
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action: "clinicalNote.addendum",
+    entityType: "ClinicalNote",
+    entityId: addendum.id,
+    meta: { amendsId: original.id, contentHash },
+  });
+
+  return addendum;
+}
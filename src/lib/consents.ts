@@ -0,0 +1,57 @@
+import { ConsentType, Prisma } from "@prisma/client";
+
+export const consentTypeLabels: Record<ConsentType, string> = {
+  ADMISSION: "Consentimiento de ingreso",
+  DATA_TREATMENT: "Tratamiento de datos personales",
+  PROCEDURE: "Procedimiento",
+  OTHER: "Otro",
+};
+
+export const requiredConsentTypes: ConsentType[] = [
+  ConsentType.ADMISSION,
+  ConsentType.DATA_TREATMENT,
+];
+
+export function missingConsentTypes(
+  consents: { type: ConsentType; signedAt: Date; revokedAt: Date | null }[],
+  at: Date,
+) {
+  return requiredConsentTypes.filter(
+    (type) =>
+      !consents.some(
+        (consent) =>
+          consent.type === type &&
+          consent.signedAt <= at &&
+          (!consent.revokedAt || consent.revokedAt > at),
+      ),
+  );
+}
+
+export async function assertEpisodeConsents(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    episodeId: string | null;
+    visitId: string;
+    at: Date;
+  },
+) {
+  if (!params.episodeId) return;
+  const previousCheckIns = await db.visit.count({
+    where: {
+      tenantId: params.tenantId,
+      episodeId: params.episodeId,
+      id: { not: params.visitId },
+      checkInAt: { not: null },
+    },
+  });
+  if (previousCheckIns > 0) return;
+
+  const consents = await db.episodeConsent.findMany({
+    where: { tenantId: params.tenantId, episodeId: params.episodeId },
+  });
+  const [missing] = missingConsentTypes(consents, params.at);
+  if (missing) {
+    throw new Error(`CONSENT_${missing}_MISSING`);
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  CredentialType,
+  NoteSpecialty,
+  Prisma,
+  VisitType,
+} from "@prisma/client";
+import { coordinatorRoles, notifyUsers } from "./notifications";
+
+export const DEFAULT_CREDENTIAL_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const credentialTypeLabels: Record<CredentialType, string> = {
+  LICENSE: "Matricula",
+  INSURANCE: "Seguro de mala praxis",
+  SPECIALTY: "Titulo de especialidad",
+  OTHER: "Otra",
+};
+
+export const visitTypeSpecialties: Record<VisitType, NoteSpecialty[] | null> =
+  {
+    GENERAL: null,
+    NURSING: [NoteSpecialty.NURSING],
+    KINESIOLOGY: [NoteSpecialty.KINESIOLOGY],
+    WOUND_CARE: [NoteSpecialty.NURSING, NoteSpecialty.MEDICAL],
+    MEDICAL: [NoteSpecialty.MEDICAL],
+  };
+
+export type CredentialStatus = "VALID" | "EXPIRING" | "EXPIRED";
+
+export const credentialStatusLabels: Record<CredentialStatus, string> = {
+  VALID: "Vigente",
+  EXPIRING: "Por vencer",
+  EXPIRED: "Vencida",
+};
+
+export type CredentialIssue =
+  | "LICENSE_MISSING"
+  | "LICENSE_EXPIRED"
+  | "INSURANCE_MISSING"
+  | "INSURANCE_EXPIRED"
+  | "SPECIALTY_MISMATCH";
+
+type CredentialInput = {
+  type: CredentialType;
+  specialty: NoteSpecialty | null;
+  expiresAt: Date | null;
+};
+
+export function credentialStatus(
+  credential: { expiresAt: Date | null },
+  now = new Date(),
+  warningDays = DEFAULT_CREDENTIAL_WARNING_DAYS,
+): CredentialStatus {
+  if (!credential.expiresAt) return "VALID";
+  if (credential.expiresAt < now) return "EXPIRED";
+  if (credential.expiresAt.getTime() - now.getTime() <= warningDays * DAY_MS) {
+    return "EXPIRING";
+  }
+  return "VALID";
+}
+
+export function findCredentialIssues(params: {
+  credentials: CredentialInput[];
+  visitType: VisitType;
+  at: Date;
+  requireCredentials: boolean;
+}) {
+  const issues: CredentialIssue[] = [];
+  const valid = params.credentials.filter(
+    (credential) => credentialStatus(credential, params.at, 0) !== "EXPIRED",
+  );
+
+  const licenses = params.credentials.filter(
+    (credential) => credential.type === CredentialType.LICENSE,
+  );
+  if (licenses.length === 0) {
+    if (params.requireCredentials) issues.push("LICENSE_MISSING");
+  } else if (!valid.some((credential) => licenses.includes(credential))) {
+    issues.push("LICENSE_EXPIRED");
+  }
+
+  const insurances = params.credentials.filter(
+    (credential) => credential.type === CredentialType.INSURANCE,
+  );
+  if (insurances.length === 0) {
+    if (params.requireCredentials) issues.push("INSURANCE_MISSING");
+  } else if (!valid.some((credential) => insurances.includes(credential))) {
+    issues.push("INSURANCE_EXPIRED");
+  }
+
+  const required = visitTypeSpecialties[params.visitType];
+  const specialties = params.credentials.flatMap((credential) =>
+    credential.specialty ? [credential.specialty] : [],
+  );
+  if (
+    required &&
+    (specialties.length > 0 || params.requireCredentials) &&
+    !valid.some(
+      (credential) =>
+        credential.specialty && required.includes(credential.specialty),
+    )
+  ) {
+    issues.push("SPECIALTY_MISMATCH");
+  }
+
+  return issues;
+}
+
+export async function loadCredentialPolicy(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+) {
+  const policy = await db.tenantPolicy.findUnique({ where: { tenantId } });
+  return {
+    requireCredentials: policy?.requireCredentials ?? false,
+    warningDays:
+      policy?.credentialWarningDays ?? DEFAULT_CREDENTIAL_WARNING_DAYS,
+  };
+}
+
+export async function assertProfessionalCredentials(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    userId: string;
+    visitType: VisitType;
+    at: Date;
+  },
+) {
+  const [{ requireCredentials }, credentials] = await Promise.all([
+    loadCredentialPolicy(db, params.tenantId),
+    db.professionalCredential.findMany({
+      where: { tenantId: params.tenantId, userId: params.userId },
+    }),
+  ]);
+  const [issue] = findCredentialIssues({
+    credentials,
+    visitType: params.visitType,
+    at: params.at,
+    requireCredentials,
+  });
+  if (issue) {
+    throw new Error(`CREDENTIAL_${issue}`);
+  }
+}
+
+export async function notifyExpiringCredentials(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; now?: Date },
+) {
+  const now = params.now ?? new Date();
+  const { warningDays } = await loadCredentialPolicy(db, params.tenantId);
+  // The "expiring soon" and "expired" notices are tracked separately so a
+  // credential that was already warned about is reported again once it lapses.
+  const pending = await db.professionalCredential.findMany({
+    where: {
+      tenantId: params.tenantId,
+      OR: [{ expiringNotifiedAt: null }, { expiredNotifiedAt: null }],
+      expiresAt: { lte: new Date(now.getTime() + warningDays * DAY_MS) },
+      user: { isActive: true },
+    },
+    include: { user: true },
+    orderBy: { expiresAt: "asc" },
+  });
+  const credentials = pending
+    .map((credential) => ({
+      ...credential,
+      expired: credentialStatus(credential, now, warningDays) === "EXPIRED",
+    }))
+    .filter((credential) =>
+      credential.expired
+        ? !credential.expiredNotifiedAt
+        : !credential.expiringNotifiedAt,
+    );
+  if (credentials.length === 0) {
+    return { notified: 0 };
+  }
+
+  const coordinators = await db.user.findMany({
+    where: {
+      tenantId: params.tenantId,
+      isActive: true,
+      role: { in: coordinatorRoles },
+    },
+    select: { id: true },
+  });
+  for (const credential of credentials) {
+    const recipients = new Set([
+      credential.userId,
+      ...coordinators.map((user) => user.id),
+    ]);
+    const { expired } = credential;
+    const notification = {
+      type: expired ? "credential.expired" : "credential.expiring",
+      title: `${credentialTypeLabels[credential.type]} ${expired ? "vencida" : "por vencer"}: ${credential.user.name ?? credential.user.email}`,
+      body: `Nro. ${credential.number}. Vence ${credential.expiresAt?.toLocaleDateString("es-AR")}.`,
+      entityType: "User",
+      entityId: credential.userId,
+    };
+    await notifyUsers(db, params.tenantId, [...recipients], [notification]);
+  }
+
+  const expiredIds = credentials
+    .filter((credential) => credential.expired)
+    .map((credential) => credential.id);
+  const expiringIds = credentials
+    .filter((credential) => !credential.expired)
+    .map((credential) => credential.id);
+  await db.professionalCredential.updateMany({
+    where: { id: { in: expiredIds } },
+    data: { expiredNotifiedAt: now, expiringNotifiedAt: now },
+  });
+  await db.professionalCredential.updateMany({
+    where: { id: { in: expiringIds } },
+    data: { expiringNotifiedAt: now },
+  });
+
+  return { notified: credentials.length };
+}
@@ -0,0 +1,391 @@
+import {
+  CarePlanObjectiveStatus,
+  Prisma,
+  VisitStatus,
+  VisitType,
+} from "@prisma/client";
+import PDFDocument from "pdfkit";
+import {
+  objectiveStatusLabels,
+  summarizeObjectives,
+} from "./care-plan-objectives";
+import { formatDiagnosis } from "./icd10";
+import { uploadEvidenceObject } from "./storage";
+import { visitTypeLabels } from "./visit-checklist";
+
+const LAST_NOTES = 5;
+
+export type DischargeSummary = {
+  tenantName: string;
+  patient: { name: string; dni: string; birthDate: Date | null };
+  startDate: Date;
+  endDate: Date;
+  outcome: string | null;
+  diagnoses: string[];
+  carePlan: {
+    summary: string | null;
+    frequency: string | null;
+    objectives: {
+      description: string;
+      target: string | null;
+      status: string;
+    }[];
+    objectivesMet: number;
+    objectivesTotal: number;
+  } | null;
+  visitsByType: {
+    type: VisitType;
+    label: string;
+    completed: number;
+    missed: number;
+  }[];
+  supplies: { product: string; unit: string; quantity: number }[];
+  notes: {
+    at: Date;
+    author: string;
+    content: string;
+    signed: boolean;
+    addenda: { at: Date; author: string; content: string }[];
+  }[];
+};
+
+export function buildDischargeSummary(input: {
+  tenantName: string;
+  patient: {
+    firstName: string;
+    lastName: string;
+    dni: string;
+    birthDate: Date | null;
+  };
+  episode: {
+    startDate: Date;
+    endDate: Date | null;
+    diagnosis: string | null;
+    dischargeOutcome: string | null;
+  };
+  diagnoses: {
+    code: string;
+    isPrimary: boolean;
+    icd10?: { description: string } | null;
+  }[];
+  carePlan: {
+    summary: string | null;
+    frequency: string | null;
+    objectives: {
+      description: string;
+      target: string | null;
+      status: CarePlanObjectiveStatus;
+      dueDate: Date | null;
+    }[];
+  } | null;
+  visits: {
+    type: VisitType;
+    status: VisitStatus;
+    items: { quantity: number; product: { name: string; unit: string } }[];
+  }[];
+  notes: {
+    createdAt: Date;
+    content: string;
+    signedAt: Date | null;
+    author: { name: string | null; email: string };
+    addenda?: {
+      createdAt: Date;
+      content: string;
+      author: { name: string | null; email: string };
+    }[];
+  }[];
+}): DischargeSummary {
+  const visitsByType = Object.values(VisitType)
+    .map((type) => {
+      const visits = input.visits.filter((visit) => visit.type === type);
+      return {
+        type,
+        label: visitTypeLabels[type],
+        completed: visits.filter((visit) => visit.status === "COMPLETED")
+          .length,
+        missed: visits.filter((visit) => visit.status === "MISSED").length,
+      };
+    })
+    .filter((entry) => entry.completed > 0 || entry.missed > 0);
+
+  const supplies = new Map<
+    string,
+    { product: string; unit: string; quantity: number }
+  >();
+  input.visits.forEach((visit) => {
+    visit.items.forEach((item) => {
+      const key = `${item.product.name}|${item.product.unit}`;
+      const entry = supplies.get(key) ?? {
+        product: item.product.name,
+        unit: item.product.unit,
+        quantity: 0,
+      };
+      entry.quantity += item.quantity;
+      supplies.set(key, entry);
+    });
+  });
+
+  const diagnoses = [...input.diagnoses]
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+    .map((diagnosis) =>
+      diagnosis.isPrimary
+        ? `${formatDiagnosis(diagnosis)} (principal)`
+        : formatDiagnosis(diagnosis),
+    );
+  if (diagnoses.length === 0 && input.episode.diagnosis) {
+    diagnoses.push(input.episode.diagnosis);
+  }
+  const progress = input.carePlan
+    ? summarizeObjectives(input.carePlan.objectives)
+    : null;
+
+  return {
+    tenantName: input.tenantName,
+    patient: {
+      name: `${input.patient.lastName}, ${input.patient.firstName}`,
+      dni: input.patient.dni,
+      birthDate: input.patient.birthDate,
+    },
+    startDate: input.episode.startDate,
+    endDate: input.episode.endDate ?? new Date(),
+    outcome: input.episode.dischargeOutcome,
+    diagnoses,
+    carePlan: input.carePlan
+      ? {
+          summary: input.carePlan.summary,
+          frequency: input.carePlan.frequency,
+          objectives: input.carePlan.objectives.map((objective) => ({
+            description: objective.description,
+            target: objective.target,
+            status: objectiveStatusLabels[objective.status],
+          })),
+          objectivesMet: progress?.met ?? 0,
+          objectivesTotal: progress?.total ?? 0,
+        }
+      : null,
+    visitsByType,
+    supplies: [...supplies.values()].sort((a, b) =>
+      a.product.localeCompare(b.product),
+    ),
+    notes: [...input.notes]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, LAST_NOTES)
+      .map((note) => ({
+        at: note.createdAt,
+        author: note.author.name ?? note.author.email,
+        content: note.content,
+        signed: Boolean(note.signedAt),
+        addenda: [...(note.addenda ?? [])]
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .map((addendum) => ({
+            at: addendum.createdAt,
+            author: addendum.author.name ?? addendum.author.email,
+            content: addendum.content,
+          })),
+      })),
+  };
+}
+
+export async function renderDischargeSummaryPdf(summary: DischargeSummary) {
+  const doc = new PDFDocument({ size: "A4", margin: 40 });
+  const chunks: Uint8Array[] = [];
+
+  doc.on("data", (chunk) => chunks.push(chunk));
+
+  const section = (title: string) => {
+    doc.moveDown();
+    doc.fontSize(12).text(title, { underline: true });
+    doc.moveDown(0.3);
+    doc.fontSize(10);
+  };
+
+  doc.fontSize(18).text("Epicrisis / Resumen de alta", { align: "center" });
+  doc.fontSize(10).text(summary.tenantName, { align: "center" });
+  doc.moveDown();
+  doc.fontSize(11).text(`Paciente: ${summary.patient.name}`);
+  doc.text(
+    `DNI: ${summary.patient.dni}${
+      summary.patient.birthDate
+        ? ` - Nacimiento: ${summary.patient.birthDate.toLocaleDateString("es-AR")}`
+        : ""
+    }`,
+  );
+  doc.text(
+    `Internacion domiciliaria: ${summary.startDate.toLocaleDateString(
+      "es-AR",
+    )} al ${summary.endDate.toLocaleDateString("es-AR")}`,
+  );
+
+  section("Diagnosticos");
+  if (summary.diagnoses.length === 0) doc.text("Sin diagnosticos cargados.");
+  summary.diagnoses.forEach((diagnosis) => doc.text(`- ${diagnosis}`));
+
+  section("Plan de cuidado");
+  if (summary.carePlan) {
+    if (summary.carePlan.summary) doc.text(summary.carePlan.summary);
+    if (summary.carePlan.frequency) {
+      doc.text(`Frecuencia: ${summary.carePlan.frequency}`);
+    }
+    summary.carePlan.objectives.forEach((objective) =>
+      doc.text(
+        `- ${objective.description}${
+          objective.target ? ` (meta: ${objective.target})` : ""
+        }: ${objective.status}`,
+      ),
+    );
+    doc.text(
+      `Objetivos cumplidos al alta: ${summary.carePlan.objectivesMet}/${summary.carePlan.objectivesTotal}`,
+    );
+  } else {
+    doc.text("Sin plan de cuidado.");
+  }
+  doc.moveDown(0.3);
+  doc.text(`Resultado al alta: ${summary.outcome ?? "-"}`);
+
+  section("Visitas por profesion");
+  if (summary.visitsByType.length === 0) doc.text("Sin visitas registradas.");
+  summary.visitsByType.forEach((entry) =>
+    doc.text(
+      `${entry.label}: ${entry.completed} realizadas${
+        entry.missed > 0 ? `, ${entry.missed} no realizadas` : ""
+      }`,
+    ),
+  );
+
+  section("Insumos consumidos");
+  if (summary.supplies.length === 0) doc.text("Sin consumos registrados.");
+  summary.supplies.forEach((supply) =>
+    doc.text(`${supply.product}: ${supply.quantity} ${supply.unit}`),
+  );
+
+  section("Ultimas notas clinicas");
+  if (summary.notes.length === 0) doc.text("Sin notas clinicas.");
+  summary.notes.forEach((note) => {
+    doc
+      .font("Helvetica-Bold")
+      .text(
+        `${note.at.toLocaleString("es-AR")} - ${note.author}${
+          note.signed ? " (firmada)" : ""
+        }`,
+      );
+    doc.font("Helvetica").text(note.content);
+    note.addenda.forEach((addendum) => {
+      doc
+        .font("Helvetica-Bold")
+        .text(
+          `Addenda ${addendum.at.toLocaleString("es-AR")} - ${addendum.author}`,
+          { indent: 15 },
+        );
+      doc.font("Helvetica").text(addendum.content, { indent: 15 });
+    });
+    doc.moveDown(0.3);
+  });
+
+  doc.end();
+
+  return new Promise<Buffer>((resolve) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// Loads and builds the summary. Discharge passes the endDate and outcome it is
+// about to save so the PDF can be rendered before the write transaction.
+export async function loadDischargeSummary(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    episodeId: string;
+    endDate?: Date;
+    dischargeOutcome?: string | null;
+  },
+) {
+  const episode = await db.episode.findFirst({
+    where: { id: params.episodeId, tenantId: params.tenantId },
+    include: {
+      tenant: true,
+      patient: true,
+      carePlan: {
+        include: { objectives: { orderBy: { sortOrder: "asc" } } },
+      },
+      diagnoses: { include: { icd10: true } },
+      visits: { include: { items: { include: { product: true } } } },
+      clinicalNotes: {
+        where: { amendsId: null },
+        include: {
+          author: true,
+          addenda: { include: { author: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        take: LAST_NOTES,
+      },
+    },
+  });
+  if (!episode) {
+    throw new Error("EPISODE_NOT_FOUND");
+  }
+
+  const summary = buildDischargeSummary({
+    tenantName: episode.tenant.name,
+    patient: episode.patient,
+    episode: {
+      ...episode,
+      endDate: params.endDate ?? episode.endDate,
+      dischargeOutcome:
+        params.dischargeOutcome !== undefined
+          ? params.dischargeOutcome
+          : episode.dischargeOutcome,
+    },
+    diagnoses: episode.diagnoses,
+    carePlan: episode.carePlan,
+    visits: episode.visits,
+    notes: episode.clinicalNotes,
+  });
+  return { episodeId: episode.id, patientId: episode.patientId, summary };
+}
+
+// Renders and uploads the PDF. Call it outside withTenant: it does no database
+// work and storage calls must not hold the transaction open.
+export async function uploadDischargeSummary(params: {
+  tenantId: string;
+  episodeId: string;
+  summary: DischargeSummary;
+}) {
+  const buffer = await renderDischargeSummaryPdf(params.summary);
+  const fileName = `epicrisis-${params.summary.patient.dni}-${params.summary.endDate
+    .toISOString()
+    .slice(0, 10)}.pdf`;
+  const uploaded = await uploadEvidenceObject({
+    key: `tenants/${params.tenantId}/episodes/${params.episodeId}/${Date.now()}-${fileName}`,
+    body: buffer,
+    contentType: "application/pdf",
+  });
+  return {
+    fileKey: uploaded.key,
+    fileUrl: uploaded.url ?? null,
+    fileName,
+    size: buffer.length,
+  };
+}
+
+export async function saveDischargeSummary(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    episodeId: string;
+    patientId: string;
+    actorId: string;
+    file: Awaited<ReturnType<typeof uploadDischargeSummary>>;
+  },
+) {
+  return db.clinicalAttachment.create({
+    data: {
+      tenantId: params.tenantId,
+      patientId: params.patientId,
+      episodeId: params.episodeId,
+      kind: "DISCHARGE_SUMMARY",
+      ...params.file,
+      mimeType: "application/pdf",
+      uploadedById: params.actorId,
+    },
+  });
+}
@@ -0,0 +1,437 @@
+import {
+  EpisodeStatus,
+  EpisodeSuspensionReason,
+  MedicationOrderStatus,
+  Prisma,
+  VisitStatus,
+} from "@prisma/client";
+import {
+  syncCarePlanVisits,
+  visitWithoutRecordsFilter,
+} from "./visit-recurrence";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const READMISSION_WINDOW_DAYS = 30;
+
+export const suspensionReasonLabels: Record<EpisodeSuspensionReason, string> = {
+  HOSPITALIZATION: "Internacion",
+  PATIENT_REQUEST: "Pedido del paciente o familia",
+  COVERAGE: "Falta de cobertura",
+  OTHER: "Otro",
+};
+
+export const episodeStatusLabels: Record<EpisodeStatus, string> = {
+  ACTIVE: "Activo",
+  SUSPENDED: "Suspendido",
+  DISCHARGED: "Alta",
+  CANCELLED: "Cancelado",
+};
+
+export function suspensionDays(
+  suspension: { startDate: Date; endDate: Date | null },
+  at: Date,
+) {
+  const end = suspension.endDate ?? at;
+  return Math.max(
+    0,
+    Math.ceil((end.getTime() - suspension.startDate.getTime()) / DAY_MS),
+  );
+}
+
+export function summarizeSuspensions(
+  suspensions: {
+    reason: EpisodeSuspensionReason;
+    startDate: Date;
+    endDate: Date | null;
+    reactivatedAt: Date | null;
+  }[],
+  at: Date,
+) {
+  const byReason = Object.fromEntries(
+    Object.values(EpisodeSuspensionReason).map((reason) => [reason, 0]),
+  ) as Record<EpisodeSuspensionReason, number>;
+  suspensions.forEach((suspension) => {
+    byReason[suspension.reason] += 1;
+  });
+  const closed = suspensions.filter((suspension) => suspension.endDate);
+  const totalDays = suspensions.reduce(
+    (sum, suspension) => sum + suspensionDays(suspension, at),
+    0,
+  );
+  return {
+    total: suspensions.length,
+    byReason,
+    open: suspensions.length - closed.length,
+    reactivated: suspensions.filter((suspension) => suspension.reactivatedAt)
+      .length,
+    totalDays,
+    averageDays:
+      closed.length > 0
+        ? Math.round(
+            closed.reduce(
+              (sum, suspension) => sum + suspensionDays(suspension, at),
+              0,
+            ) / closed.length,
+          )
+        : null,
+  };
+}
+
+type ReadmissionEpisode = {
+  id: string;
+  patientId: string;
+  status: EpisodeStatus;
+  startDate: Date;
+  endDate: Date | null;
+};
+
+export function findReadmission(
+  episode: ReadmissionEpisode,
+  episodes: ReadmissionEpisode[],
+  windowDays = READMISSION_WINDOW_DAYS,
+) {
+  const previous = episodes
+    .filter(
+      (candidate) =>
+        candidate.id !== episode.id &&
+        candidate.patientId === episode.patientId &&
+        candidate.status === EpisodeStatus.DISCHARGED &&
+        candidate.endDate &&
+        candidate.endDate <= episode.startDate &&
+        episode.startDate.getTime() - candidate.endDate.getTime() <=
+          windowDays * DAY_MS,
+    )
+    .sort((a, b) => b.endDate!.getTime() - a.endDate!.getTime())[0];
+  if (!previous) return null;
+  return {
+    episodeId: episode.id,
+    previousEpisodeId: previous.id,
+    daysSinceDischarge: Math.floor(
+      (episode.startDate.getTime() - previous.endDate!.getTime()) / DAY_MS,
+    ),
+  };
+}
+
+export function findReadmissions(
+  episodes: ReadmissionEpisode[],
+  windowDays = READMISSION_WINDOW_DAYS,
+) {
+  return episodes
+    .map((episode) => findReadmission(episode, episodes, windowDays))
+    .filter((readmission) => readmission !== null);
+}
+
+export async function suspendEpisode(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    episodeId: string;
+    actorId: string;
+    reason: EpisodeSuspensionReason;
+    institution?: string | null;
+    notes?: string | null;
+    startDate: Date;
+    expectedEndDate?: Date | null;
+    now?: Date;
+  },
+) {
+  const now = params.now ?? new Date();
+  const episode = await db.episode.findFirst({
+    where: { id: params.episodeId, tenantId: params.tenantId },
+  });
+  if (!episode) {
+    throw new Error("EPISODE_NOT_FOUND");
+  }
+  if (episode.status !== EpisodeStatus.ACTIVE) {
+    throw new Error("EPISODE_NOT_ACTIVE");
+  }
+  const episodeStartDay = new Date(episode.startDate);
+  episodeStartDay.setHours(0, 0, 0, 0);
+  if (
+    params.startDate > now ||
+    params.startDate < episodeStartDay ||
+    (params.expectedEndDate && params.expectedEndDate < params.startDate)
+  ) {
+    throw new Error("SUSPENSION_INVALID_DATES");
+  }
+
+  const suspension = await db.episodeSuspension.create({
+    data: {
+      tenantId: params.tenantId,
+      episodeId: episode.id,
+      reason: params.reason,
+      institution: params.institution ?? null,
+      notes: params.notes ?? null,
+      startDate: params.startDate,
+      expectedEndDate: params.expectedEndDate ?? null,
+      suspendedById: params.actorId,
+    },
+  });
+
+  const pausedVisits = await db.visit.updateMany({
+    where: {
+      tenantId: params.tenantId,
+      episodeId: episode.id,
+      status: VisitStatus.SCHEDULED,
+      scheduledAt: { gte: params.startDate },
+    },
+    data: { status: VisitStatus.CANCELLED, suspensionId: suspension.id },
+  });
+  const pausedOrders = await db.medicationOrder.updateMany({
+    where: {
+      tenantId: params.tenantId,
+      episodeId: episode.id,
+      status: MedicationOrderStatus.ACTIVE,
+    },
+    data: {
+      status: MedicationOrderStatus.SUSPENDED,
+      suspensionId: suspension.id,
+    },
+  });
+
+  await db.episode.update({
+    where: { id: episode.id },
+    data: { status: EpisodeStatus.SUSPENDED },
+  });
+
+  return {
+    suspension,
+    pausedVisits: pausedVisits.count,
+    pausedOrders: pausedOrders.count,
+  };
+}
+
+export async function reactivateEpisode(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    episodeId: string;
+    actorId: string;
+    now?: Date;
+  },
+) {
+  const now = params.now ?? new Date();
+  const episode = await db.episode.findFirst({
+    where: { id: params.episodeId, tenantId: params.tenantId },
+    include: { carePlan: true },
+  });
+  if (!episode) {
+    throw new Error("EPISODE_NOT_FOUND");
+  }
+  if (episode.status !== EpisodeStatus.SUSPENDED) {
+    throw new Error("EPISODE_NOT_SUSPENDED");
+  }
+  const suspension = await db.episodeSuspension.findFirst({
+    where: { tenantId: params.tenantId, episodeId: episode.id, endDate: null },
+    orderBy: { startDate: "desc" },
+  });
+  if (!suspension) {
+    throw new Error("SUSPENSION_NOT_FOUND");
+  }
+
+  const resumedVisits = await db.visit.updateMany({
+    where: {
+      tenantId: params.tenantId,
+      suspensionId: suspension.id,
+      status: VisitStatus.CANCELLED,
+      scheduledAt: { gte: now },
+    },
+    data: { status: VisitStatus.SCHEDULED, suspensionId: null },
+  });
+  const resumedOrders = await db.medicationOrder.updateMany({
+    where: {
+      tenantId: params.tenantId,
+      suspensionId: suspension.id,
+      status: MedicationOrderStatus.SUSPENDED,
+    },
+    data: { status: MedicationOrderStatus.ACTIVE, suspensionId: null },
+  });
+
+  const updated = await db.episodeSuspension.update({
+    where: { id: suspension.id },
+    data: {
+      endDate: now,
+      reactivatedAt: now,
+      reactivatedById: params.actorId,
+    },
+  });
+  await db.episode.update({
+    where: { id: episode.id },
+    data: { status: EpisodeStatus.ACTIVE },
+  });
+
+  const carePlanSync = episode.carePlan
+    ? await syncCarePlanVisits(db, {
+        tenantId: params.tenantId,
+        carePlanId: episode.carePlan.id,
+        createdById: params.actorId,
+        now,
+      })
+    : null;
+
+  return {
+    suspension: updated,
+    resumedVisits: resumedVisits.count,
+    resumedOrders: resumedOrders.count,
+    carePlanSync,
+  };
+}
+
+// Discharging a suspended episode: the suspension ends, its paused orders are
+// discontinued and paused visits after the discharge are dropped (or released
+// if they somehow hold records) so nothing stays paused forever.
+export async function closeOpenSuspension(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; episodeId: string; at: Date },
+) {
+  const open = await db.episodeSuspension.findMany({
+    where: {
+      tenantId: params.tenantId,
+      episodeId: params.episodeId,
+      endDate: null,
+    },
+    select: { id: true },
+  });
+  if (open.length === 0) {
+    return { closedSuspensions: 0, discontinuedOrders: 0, removedVisits: 0 };
+  }
+  const suspensionIds = open.map((suspension) => suspension.id);
+
+  const discontinued = await db.medicationOrder.updateMany({
+    where: {
+      tenantId: params.tenantId,
+      suspensionId: { in: suspensionIds },
+      status: MedicationOrderStatus.SUSPENDED,
+    },
+    data: {
+      status: MedicationOrderStatus.DISCONTINUED,
+      discontinuedAt: params.at,
+      discontinuedReason: "Alta durante la suspension",
+      suspensionId: null,
+    },
+  });
+
+  const pausedAfterDischarge = {
+    tenantId: params.tenantId,
+    suspensionId: { in: suspensionIds },
+    status: VisitStatus.CANCELLED,
+    scheduledAt: { gte: params.at },
+  };
+  const removed = await db.visit.deleteMany({
+    where: { ...pausedAfterDischarge, ...visitWithoutRecordsFilter },
+  });
+  await db.visit.updateMany({
+    where: pausedAfterDischarge,
+    data: { suspensionId: null },
+  });
+
+  const closed = await db.episodeSuspension.updateMany({
+    where: { id: { in: suspensionIds } },
+    data: { endDate: params.at },
+  });
+  return {
+    closedSuspensions: closed.count,
+    discontinuedOrders: discontinued.count,
+    removedVisits: removed.count,
+  };
+}
+
+export async function loadSuspensionKpis(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    from: Date;
+    to: Date;
+    windowDays?: number;
+  },
+) {
+  const windowDays = params.windowDays ?? READMISSION_WINDOW_DAYS;
+  const [
+    suspensions,
+    hospitalReturns,
+    suspendedNow,
+    startedEpisodes,
+    pausedVisits,
+  ] = await Promise.all([
+    db.episodeSuspension.findMany({
+      where: {
+        tenantId: params.tenantId,
+        startDate: { gte: params.from, lte: params.to },
+      },
+      select: {
+        reason: true,
+        startDate: true,
+        endDate: true,
+        reactivatedAt: true,
+      },
+    }),
+    db.episodeSuspension.count({
+      where: {
+        tenantId: params.tenantId,
+        reason: EpisodeSuspensionReason.HOSPITALIZATION,
+        reactivatedAt: { gte: params.from, lte: params.to },
+      },
+    }),
+    db.episode.count({
+      where: { tenantId: params.tenantId, status: EpisodeStatus.SUSPENDED },
+    }),
+    db.episode.findMany({
+      where: {
+        tenantId: params.tenantId,
+        startDate: { gte: params.from, lte: params.to },
+      },
+      select: {
+        id: true,
+        patientId: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+      },
+    }),
+    db.visit.count({
+      where: {
+        tenantId: params.tenantId,
+        suspensionId: { not: null },
+        status: VisitStatus.CANCELLED,
+        scheduledAt: { gte: params.from, lte: params.to },
+      },
+    }),
+  ]);
+
+  const previousEpisodes = await db.episode.findMany({
+    where: {
+      tenantId: params.tenantId,
+      status: EpisodeStatus.DISCHARGED,
+      patientId: { in: startedEpisodes.map((episode) => episode.patientId) },
+      endDate: {
+        gte: new Date(params.from.getTime() - windowDays * DAY_MS),
+        lte: params.to,
+      },
+    },
+    select: {
+      id: true,
+      patientId: true,
+      status: true,
+      startDate: true,
+      endDate: true,
+    },
+  });
+  const readmissions = startedEpisodes
+    .map((episode) => findReadmission(episode, previousEpisodes, windowDays))
+    .filter((readmission) => readmission !== null);
+
+  return {
+    suspensions: summarizeSuspensions(suspensions, params.to),
+    hospitalReturns,
+    suspendedNow,
+    pausedVisits,
+    episodesStarted: startedEpisodes.length,
+    readmissions: readmissions.length,
+    readmissionRate:
+      startedEpisodes.length > 0
+        ? readmissions.length / startedEpisodes.length
+        : null,
+    windowDays,
+  };
+}
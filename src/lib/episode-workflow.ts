@@ -0,0 +1,293 @@
+import { EpisodeStatus, Prisma, StageEntryCondition } from "@prisma/client";
+import { logAudit } from "./audit";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const stageEntryConditionLabels: Record<StageEntryCondition, string> = {
+  ACTIVE_AUTHORIZATION: "Autorizacion activa",
+  CARE_PLAN: "Plan de cuidado cargado",
+  CARE_PLAN_OBJECTIVES: "Plan con objetivos",
+  PRIMARY_DIAGNOSIS: "Diagnostico principal",
+};
+
+export type WorkflowTransitionRule = { fromStageId: string; toStageId: string };
+
+export function isTransitionAllowed(
+  rules: WorkflowTransitionRule[],
+  fromStageId: string | null,
+  toStageId: string | null,
+) {
+  if (!fromStageId || fromStageId === toStageId) return true;
+  // Once the tenant configures any transition, a stage without outgoing rules
+  // is terminal rather than unrestricted.
+  if (rules.length === 0) return true;
+  return (
+    !!toStageId &&
+    rules.some(
+      (rule) =>
+        rule.fromStageId === fromStageId && rule.toStageId === toStageId,
+    )
+  );
+}
+
+export function stageDueAt(enteredAt: Date, slaHours: number | null) {
+  return slaHours && slaHours > 0
+    ? new Date(enteredAt.getTime() + slaHours * HOUR_MS)
+    : null;
+}
+
+export function isStageOverdue(
+  entry: { dueAt: Date | null; exitedAt: Date | null },
+  now = new Date(),
+) {
+  if (!entry.dueAt) return false;
+  return (entry.exitedAt ?? now) > entry.dueAt;
+}
+
+export function stageDurationHours(
+  entry: { enteredAt: Date; exitedAt: Date | null },
+  now = new Date(),
+) {
+  const end = entry.exitedAt ?? now;
+  return Math.max(0, (end.getTime() - entry.enteredAt.getTime()) / HOUR_MS);
+}
+
+export function summarizeStageDurations(
+  history: {
+    stageId: string | null;
+    stageName: string;
+    enteredAt: Date;
+    exitedAt: Date | null;
+    dueAt: Date | null;
+  }[],
+  now = new Date(),
+) {
+  const byStage = new Map<
+    string,
+    {
+      stageId: string | null;
+      stageName: string;
+      entries: number;
+      open: number;
+      overdue: number;
+      totalHours: number;
+      maxHours: number;
+    }
+  >();
+
+  history.forEach((entry) => {
+    const key = entry.stageId ?? `name:${entry.stageName}`;
+    const summary = byStage.get(key) ?? {
+      stageId: entry.stageId,
+      stageName: entry.stageName,
+      entries: 0,
+      open: 0,
+      overdue: 0,
+      totalHours: 0,
+      maxHours: 0,
+    };
+    const hours = stageDurationHours(entry, now);
+    summary.entries += 1;
+    summary.open += entry.exitedAt ? 0 : 1;
+    summary.overdue += isStageOverdue(entry, now) ? 1 : 0;
+    summary.totalHours += hours;
+    summary.maxHours = Math.max(summary.maxHours, hours);
+    byStage.set(key, summary);
+  });
+
+  return [...byStage.values()].map(({ totalHours, ...summary }) => ({
+    ...summary,
+    averageHours: summary.entries > 0 ? totalHours / summary.entries : 0,
+  }));
+}
+
+export function formatStageDuration(hours: number) {
+  if (hours < 24) return `${Math.round(hours)} h`;
+  const days = Math.floor(hours / 24);
+  const rest = Math.round(hours - days * 24);
+  return rest > 0 ? `${days} d ${rest} h` : `${days} d`;
+}
+
+export async function findUnmetStageConditions(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    episodeId: string;
+    conditions: StageEntryCondition[];
+    now?: Date;
+  },
+) {
+  const now = params.now ?? new Date();
+  const unmet: StageEntryCondition[] = [];
+
+  for (const condition of params.conditions) {
+    let met = true;
+    if (condition === StageEntryCondition.ACTIVE_AUTHORIZATION) {
+      const authorization = await db.authorization.findFirst({
+        where: {
+          tenantId: params.tenantId,
+          episodeId: params.episodeId,
+          status: "ACTIVE",
+          startDate: { lte: now },
+          OR: [{ endDate: null }, { endDate: { gte: now } }],
+        },
+      });
+      met = !!authorization;
+    } else if (condition === StageEntryCondition.CARE_PLAN) {
+      const carePlan = await db.episodeCarePlan.findFirst({
+        where: { tenantId: params.tenantId, episodeId: params.episodeId },
+      });
+      met = !!carePlan && !!(carePlan.summary?.trim() || carePlan.frequency);
+    } else if (condition === StageEntryCondition.CARE_PLAN_OBJECTIVES) {
+      const objectives = await db.carePlanObjective.count({
+        where: {
+          tenantId: params.tenantId,
+          carePlan: { episodeId: params.episodeId },
+          status: { not: "CANCELLED" },
+        },
+      });
+      met = objectives > 0;
+    } else if (condition === StageEntryCondition.PRIMARY_DIAGNOSIS) {
+      const diagnosis = await db.episodeDiagnosis.findFirst({
+        where: {
+          tenantId: params.tenantId,
+          episodeId: params.episodeId,
+          isPrimary: true,
+        },
+      });
+      met = !!diagnosis;
+    }
+    if (!met) unmet.push(condition);
+  }
+
+  return unmet;
+}
+
+export async function closeStageHistory(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; episodeId: string; at?: Date },
+) {
+  return db.episodeStageHistory.updateMany({
+    where: {
+      tenantId: params.tenantId,
+      episodeId: params.episodeId,
+      exitedAt: null,
+    },
+    data: { exitedAt: params.at ?? new Date() },
+  });
+}
+
+export async function openStageHistory(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    episodeId: string;
+    stage: { id: string; name: string; slaHours: number | null };
+    actorId: string;
+    at?: Date;
+  },
+) {
+  const enteredAt = params.at ?? new Date();
+  return db.episodeStageHistory.create({
+    data: {
+      tenantId: params.tenantId,
+      episodeId: params.episodeId,
+      stageId: params.stage.id,
+      stageName: params.stage.name,
+      enteredAt,
+      dueAt: stageDueAt(enteredAt, params.stage.slaHours),
+      enteredById: params.actorId,
+    },
+  });
+}
+
+export async function moveEpisodeToStage(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    actorId: string;
+    episodeId: string;
+    stageId: string | null;
+    episodeScope?: Prisma.EpisodeWhereInput;
+  },
+) {
+  const episode = await db.episode.findFirst({
+    where: {
+      id: params.episodeId,
+      tenantId: params.tenantId,
+      ...params.episodeScope,
+    },
+  });
+  if (!episode) {
+    throw new Error("EPISODE_NOT_FOUND");
+  }
+  if (
+    episode.status === EpisodeStatus.DISCHARGED ||
+    episode.status === EpisodeStatus.CANCELLED
+  ) {
+    throw new Error("EPISODE_CLOSED");
+  }
+  if (episode.workflowStageId === params.stageId) {
+    return episode;
+  }
+
+  const stage = params.stageId
+    ? await db.episodeWorkflowStage.findFirst({
+        where: { id: params.stageId, tenantId: params.tenantId },
+      })
+    : null;
+  if (params.stageId && !stage) {
+    throw new Error("STAGE_NOT_FOUND");
+  }
+
+  const rules = await db.episodeWorkflowTransition.findMany({
+    where: { tenantId: params.tenantId },
+    select: { fromStageId: true, toStageId: true },
+  });
+  if (!isTransitionAllowed(rules, episode.workflowStageId, params.stageId)) {
+    throw new Error("STAGE_TRANSITION_NOT_ALLOWED");
+  }
+
+  if (stage && stage.entryConditions.length > 0) {
+    const unmet = await findUnmetStageConditions(db, {
+      tenantId: params.tenantId,
+      episodeId: episode.id,
+      conditions: stage.entryConditions,
+    });
+    if (unmet.length > 0) {
+      throw new Error("STAGE_CONDITIONS_UNMET");
+    }
+  }
+
+  const now = new Date();
+  await closeStageHistory(db, {
+    tenantId: params.tenantId,
+    episodeId: episode.id,
+    at: now,
+  });
+  if (stage) {
+    await openStageHistory(db, {
+      tenantId: params.tenantId,
+      episodeId: episode.id,
+      stage,
+      actorId: params.actorId,
+      at: now,
+    });
+  }
+
+  const updated = await db.episode.update({
+    where: { id: episode.id },
+    data: { workflowStageId: stage?.id ?? null },
+  });
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action: "episode.workflow_stage.update",
+    entityType: "Episode",
+    entityId: updated.id,
+    meta: { from: episode.workflowStageId, workflowStageId: stage?.id ?? null },
+  });
+
+  return updated;
+}
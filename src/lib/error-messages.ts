@@ -38,6 +38,112 @@ const errorMessages: Record<string, string> = {
   PICKLIST_NOT_FOUND: "Picklist no encontrada.",
   REQUIREMENT_NOT_FOUND: "Requisito no encontrado.",
   USER_NOT_FOUND: "Usuario no encontrado o inactivo.",
+  CARE_PLAN_NOT_FOUND: "El episodio no tiene plan de cuidado.",
+  RECURRENCE_INVALID: "Recurrencia invalida. Revisá dias, horarios y duracion.",
+  RECURRENCE_TOO_LARGE: "La recurrencia genera demasiadas visitas.",
+  INVALID_STATUS: "La accion no es valida para el estado actual.",
+  VISIT_ALREADY_RESCHEDULED: "La visita ya fue reprogramada.",
+  CHECKLIST_TEMPLATE_NOT_FOUND: "Plantilla de checklist no encontrada.",
+  CHECKLIST_ITEM_DUPLICATE: "La plantilla ya tiene un item con ese nombre.",
+  VISIT_NOT_FOUND: "Visita no encontrada.",
+  VITALS_REQUIRED: "Carga al menos un signo vital.",
+  VITALS_INVALID: "Hay signos vitales fuera del rango posible.",
+  ASSESSMENT_INCOMPLETE: "Completa todos los items de la escala.",
+  EPISODE_NOT_FOUND: "Episodio no encontrado.",
+  INVALID_QUANTITY: "La cantidad debe ser un entero mayor a cero.",
+  PRESCRIBER_REQUIRED: "Indica el prescriptor de la indicacion.",
+  MEDICATION_ORDER_NOT_FOUND: "Indicacion de medicacion no encontrada.",
+  MEDICATION_ORDER_INACTIVE: "La indicacion no esta vigente para la fecha de la visita.",
+  MAR_REASON_REQUIRED: "Indica el motivo de la omision.",
+  NOTE_NOT_FOUND: "Nota clinica no encontrada.",
+  NOTE_SIGNED: "La nota esta firmada; agrega una addenda para corregirla.",
+  NOTE_ALREADY_SIGNED: "La nota ya fue firmada.",
+  NOTE_CHANGED: "La nota cambio mientras la firmabas. Revisala y volve a firmar.",
+  NOTE_NOT_SIGNED: "Solo se pueden agregar addendas a notas firmadas.",
+  NOTE_TEMPLATE_NOT_FOUND: "Plantilla de nota no encontrada o inactiva.",
+  NOTE_TEMPLATE_FIELD_DUPLICATE: "La plantilla ya tiene un campo con ese nombre.",
+  ICD10_NOT_FOUND: "Codigo CIE-10 no encontrado en el catalogo.",
+  DIAGNOSIS_DUPLICATE: "El episodio ya tiene ese diagnostico.",
+  WOUND_NOT_FOUND: "Herida no encontrada en el episodio de la visita.",
+  WOUND_HEALED: "La herida esta cicatrizada. Reabrila para registrar mediciones.",
+  WOUND_MEASUREMENT_INVALID: "Largo y ancho son obligatorios (0 a 100 cm).",
+  EPISODE_NOT_DISCHARGED: "El episodio todavia no fue dado de alta.",
+  EPISODE_ALREADY_DISCHARGED: "El episodio ya fue dado de alta.",
+  EPISODE_CLOSED:
+    "El episodio esta dado de alta o cancelado y no puede cambiar de estado.",
+  OBJECTIVE_NOT_FOUND: "Objetivo no encontrado en el plan del episodio.",
+  STAGE_NOT_FOUND: "Estado de workflow no encontrado.",
+  CARE_TEAM_MEMBER_NOT_FOUND: "Integrante del equipo no encontrado.",
+  PROFESSIONAL_ON_LEAVE: "El profesional esta de licencia en ese horario.",
+  VISIT_OVERLAP: "El profesional ya tiene una visita en ese horario.",
+  PROFESSIONAL_OUTSIDE_HOURS:
+    "El horario esta fuera del horario o guardias del profesional.",
+  AVAILABILITY_RANGE_INVALID: "El fin debe ser posterior al inicio.",
+  AVAILABILITY_ENTRY_NOT_FOUND: "Horario, guardia o licencia no encontrada.",
+  CARE_TEAM_MEMBER_DUPLICATE:
+    "El usuario ya integra el equipo con ese rol en esas fechas.",
+  STAGE_TRANSITION_NOT_ALLOWED:
+    "La transicion entre esos estados del workflow no esta permitida.",
+  STAGE_CONDITIONS_UNMET:
+    "El episodio no cumple las condiciones de ingreso del estado (autorizacion, plan o diagnostico).",
+  CREDENTIAL_LICENSE_MISSING:
+    "El profesional no tiene matricula cargada y el tenant la exige.",
+  CREDENTIAL_LICENSE_EXPIRED:
+    "La matricula del profesional esta vencida a la fecha de la visita.",
+  CREDENTIAL_INSURANCE_MISSING:
+    "El profesional no tiene seguro de mala praxis cargado y el tenant lo exige.",
+  CREDENTIAL_INSURANCE_EXPIRED:
+    "El seguro de mala praxis del profesional esta vencido a la fecha de la visita.",
+  CREDENTIAL_SPECIALTY_MISMATCH:
+    "El profesional no tiene una especialidad vigente habilitada para este tipo de visita.",
+  CREDENTIAL_NOT_FOUND: "Credencial no encontrada.",
+  CREDENTIAL_RANGE_INVALID:
+    "El vencimiento debe ser posterior a la emision o al vencimiento anterior.",
+  COORDINATES_INVALID:
+    "Coordenadas invalidas: latitud entre -90 y 90 y longitud entre -180 y 180.",
+  VISIT_ALREADY_CHECKED_IN: "La visita ya tenia check-in registrado.",
+  VISIT_ALREADY_COMPLETED: "La visita ya estaba completada.",
+  VISIT_CANCELLED: "La visita fue cancelada.",
+  CHECKLIST_NOT_FOUND: "Item de checklist no encontrado.",
+  CHECKLIST_UNCHANGED: "El item de checklist ya tenia ese estado.",
+  CHECKLIST_CHANGED:
+    "El item de checklist fue modificado en el servidor despues del cambio offline.",
+  VISIT_WINDOW_INVALID:
+    "Franja horaria invalida: usa HH:MM y un fin posterior al inicio.",
+  ROUTE_NOT_AVAILABLE: "No se puede optimizar el recorrido de un dia pasado.",
+  ROUTE_CHANGED:
+    "El recorrido sugerido cambio desde que se mostro. Revisa la nueva sugerencia.",
+  CONTACT_INVALID:
+    "Contacto invalido: indica nombre y el telefono o email del canal preferido.",
+  CONTACT_NOT_FOUND: "Contacto no encontrado.",
+  CONSENT_INVALID:
+    "Consentimiento invalido: revisa tipo, version y fecha de firma (no futura).",
+  CONSENT_NOT_FOUND: "Consentimiento no encontrado o ya revocado.",
+  CONSENT_ADMISSION_MISSING:
+    "Falta el consentimiento de ingreso firmado para iniciar la primera visita del episodio.",
+  CONSENT_DATA_TREATMENT_MISSING:
+    "Falta el consentimiento de tratamiento de datos firmado para iniciar la primera visita del episodio.",
+  REFERRAL_INVALID:
+    "Derivacion invalida: indica institucion, datos del paciente y al menos un servicio.",
+  REFERRAL_NOT_FOUND: "Derivacion no encontrada.",
+  REFERRAL_INVALID_STATUS:
+    "La derivacion no admite esa accion en su estado actual (se evalua, se cotiza y luego se acepta o rechaza).",
+  REFERRAL_QUOTE_INVALID: "Cotizacion invalida: indica un monto mayor a cero.",
+  REFERRAL_PATIENT_HAS_ACTIVE_EPISODE:
+    "El paciente ya tiene un episodio activo o suspendido. Da el alta o reactiva antes de admitir la derivacion.",
+  AUTHORIZATION_NUMBER_TAKEN:
+    "Ya existe una autorizacion con el numero de la derivacion.",
+  EPISODE_NOT_ACTIVE: "Solo se pueden suspender episodios activos.",
+  EPISODE_NOT_SUSPENDED: "El episodio no esta suspendido.",
+  EPISODE_SUSPENDED:
+    "El episodio esta suspendido. Reactivalo antes de programar visitas o indicaciones.",
+  SUSPENSION_INVALID:
+    "Suspension invalida: indica motivo y fecha de inicio.",
+  SUSPENSION_INVALID_DATES:
+    "Fechas de suspension invalidas: el inicio no puede ser futuro ni anterior al episodio, y el regreso estimado debe ser posterior al inicio.",
+  SUSPENSION_NOT_FOUND: "No hay una suspension abierta para el episodio.",
+  ALLERGY_CONFLICT:
+    "El paciente tiene una alergia registrada a esta sustancia. Indica una justificacion para continuar.",
 };
 
 export function getErrorMessage(code?: string | null) {
@@ -0,0 +1,63 @@
+export const MAX_EVIDENCE_FILE_BYTES = 10 * 1024 * 1024;
+
+const allowedEvidenceMimeTypes = new Set([
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+]);
+
+export function isAllowedEvidenceMimeType(mimeType: string) {
+  return allowedEvidenceMimeTypes.has(mimeType.toLowerCase());
+}
+
+export function uploadedFile(value: FormDataEntryValue | null) {
+  if (
+    !value ||
+    typeof value === "string" ||
+    typeof value.arrayBuffer !== "function" ||
+    value.size === 0
+  ) {
+    return null;
+  }
+  return value;
+}
+
+export function assertEvidenceFile(file: File) {
+  if (file.size > MAX_EVIDENCE_FILE_BYTES) {
+    throw new Error("FILE_TOO_LARGE");
+  }
+  if (!isAllowedEvidenceMimeType(file.type || "")) {
+    throw new Error("UNSUPPORTED_FILE_TYPE");
+  }
+}
+
+export function safeEvidenceFileName(fileName: string) {
+  return fileName.replace(/[^a-zA-Z0-9._-]/g, "_") || "archivo";
+}
+
+export function attachmentContentDisposition(fileName: string) {
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `attachment; filename="${safeEvidenceFileName(fileName)}"; filename*=UTF-8''${encoded}`;
+}
+
+export function evidenceFileResponse(
+  body: Buffer,
+  file: { fileName: string; mimeType: string },
+) {
+  return new Response(new Uint8Array(body), {
+    headers: {
+      "Content-Type": isAllowedEvidenceMimeType(file.mimeType)
+        ? file.mimeType
+        : "application/octet-stream",
+      "Content-Disposition": attachmentContentDisposition(file.fileName),
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,831 @@
+import {
+  ClinicalAttachmentKind,
+  EpisodeStatus,
+  PatientProblemStatus,
+  Prisma,
+  VisitStatus,
+  type ContactRelationship,
+  type PatientProblemKind,
+  type VisitType,
+} from "@prisma/client";
+import {
+  careTeamEpisodeScope,
+  careTeamPatientScope,
+  careTeamVisitScope,
+} from "./care-team";
+import { visitTypeLabels } from "./visit-checklist";
+import { contactRelationshipLabels } from "./patient-contacts";
+import { patientProblemKindLabels } from "./patient-background";
+
+export const fhirResourceTypes = [
+  "Patient",
+  "EpisodeOfCare",
+  "Encounter",
+  "Observation",
+  "Condition",
+  "DocumentReference",
+] as const;
+
+export type FhirResourceType = (typeof fhirResourceTypes)[number];
+
+export type FhirResource = {
+  resourceType: FhirResourceType;
+  id: string;
+  [key: string]: unknown;
+};
+
+export type FhirBundle = {
+  resourceType: "Bundle";
+  type: "collection";
+  timestamp: string;
+  total: number;
+  entry: { fullUrl: string; resource: FhirResource }[];
+};
+
+export const FHIR_CONTENT_TYPE = "application/fhir+json; charset=utf-8";
+
+const DNI_SYSTEM = "http://www.renaper.gob.ar/dni";
+const ICD10_SYSTEM = "http://hl7.org/fhir/sid/icd-10";
+const LOINC_SYSTEM = "http://loinc.org";
+const UCUM_SYSTEM = "http://unitsofmeasure.org";
+const OBSERVATION_CATEGORY_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/observation-category";
+const CONDITION_CATEGORY_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-category";
+const CONDITION_CLINICAL_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-clinical";
+const ACT_CODE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-ActCode";
+const ROLE_CODE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-RoleCode";
+
+export function isFhirResourceType(value: string): value is FhirResourceType {
+  return (fhirResourceTypes as readonly string[]).includes(value);
+}
+
+function fhirDate(value: Date) {
+  return value.toISOString().slice(0, 10);
+}
+
+function reference(type: FhirResourceType, id: string) {
+  return { reference: `${type}/${id}` };
+}
+
+function compact<T extends Record<string, unknown>>(value: T) {
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([, entry]) =>
+        entry !== null &&
+        entry !== undefined &&
+        !(Array.isArray(entry) && entry.length === 0),
+    ),
+  ) as T;
+}
+
+export function fhirGender(sex: string | null) {
+  const value = sex?.trim().toLowerCase() ?? "";
+  if (["f", "femenino", "female", "mujer"].includes(value)) return "female";
+  if (["m", "masculino", "male", "varon", "hombre"].includes(value)) {
+    return "male";
+  }
+  if (["x", "otro", "other", "no binario"].includes(value)) return "other";
+  return "unknown";
+}
+
+const relationshipCodes: Record<ContactRelationship, string> = {
+  SPOUSE: "SPS",
+  CHILD: "CHILD",
+  PARENT: "PRN",
+  SIBLING: "SIB",
+  CAREGIVER: "CAREGIVER",
+  LEGAL_GUARDIAN: "GUARD",
+  OTHER: "O",
+};
+
+export function toFhirPatient(patient: {
+  id: string;
+  firstName: string;
+  lastName: string;
+  dni: string;
+  birthDate: Date | null;
+  sex: string | null;
+  phone: string | null;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  updatedAt: Date;
+  contacts?: {
+    name: string;
+    relationship: ContactRelationship;
+    phone: string | null;
+    email: string | null;
+    isActive: boolean;
+  }[];
+}): FhirResource {
+  return compact({
+    resourceType: "Patient" as const,
+    id: patient.id,
+    meta: { lastUpdated: patient.updatedAt.toISOString() },
+    identifier: [{ system: DNI_SYSTEM, value: patient.dni }],
+    name: [
+      {
+        use: "official",
+        family: patient.lastName,
+        given: [patient.firstName],
+        text: `${patient.firstName} ${patient.lastName}`,
+      },
+    ],
+    gender: fhirGender(patient.sex),
+    birthDate: patient.birthDate ? fhirDate(patient.birthDate) : undefined,
+    telecom: patient.phone
+      ? [{ system: "phone", value: patient.phone }]
+      : undefined,
+    address: patient.address
+      ? [
+          compact({
+            use: "home",
+            text: patient.address,
+            extension:
+              patient.latitude !== null && patient.longitude !== null
+                ? [
+                    {
+                      url: "http://hl7.org/fhir/StructureDefinition/geolocation",
+                      extension: [
+                        { url: "latitude", valueDecimal: patient.latitude },
+                        { url: "longitude", valueDecimal: patient.longitude },
+                      ],
+                    },
+                  ]
+                : undefined,
+          }),
+        ]
+      : undefined,
+    contact: (patient.contacts ?? [])
+      .filter((contact) => contact.isActive)
+      .map((contact) =>
+        compact({
+          relationship: [
+            {
+              coding: [
+                {
+                  system: ROLE_CODE_SYSTEM,
+                  code: relationshipCodes[contact.relationship],
+                },
+              ],
+              text: contactRelationshipLabels[contact.relationship],
+            },
+          ],
+          name: { text: contact.name },
+          telecom: [
+            ...(contact.phone
+              ? [{ system: "phone", value: contact.phone }]
+              : []),
+            ...(contact.email
+              ? [{ system: "email", value: contact.email }]
+              : []),
+          ],
+        }),
+      ),
+  });
+}
+
+const episodeStatusCodes: Record<EpisodeStatus, string> = {
+  ACTIVE: "active",
+  SUSPENDED: "onhold",
+  DISCHARGED: "finished",
+  CANCELLED: "cancelled",
+};
+
+export function toFhirEpisodeOfCare(episode: {
+  id: string;
+  patientId: string;
+  status: EpisodeStatus;
+  startDate: Date;
+  endDate: Date | null;
+  updatedAt: Date;
+  diagnoses?: { id: string; isPrimary: boolean }[];
+}): FhirResource {
+  const diagnoses = [...(episode.diagnoses ?? [])].sort(
+    (a, b) => Number(b.isPrimary) - Number(a.isPrimary),
+  );
+  return compact({
+    resourceType: "EpisodeOfCare" as const,
+    id: episode.id,
+    meta: { lastUpdated: episode.updatedAt.toISOString() },
+    status: episodeStatusCodes[episode.status],
+    type: [
+      {
+        coding: [
+          {
+            system: "http://terminology.hl7.org/CodeSystem/episodeofcare-type",
+            code: "hacc",
+            display: "Home and Community Care",
+          },
+        ],
+      },
+    ],
+    diagnosis: diagnoses.map((diagnosis, index) => ({
+      condition: reference("Condition", diagnosis.id),
+      rank: index + 1,
+    })),
+    patient: reference("Patient", episode.patientId),
+    period: compact({
+      start: episode.startDate.toISOString(),
+      end: episode.endDate?.toISOString(),
+    }),
+  });
+}
+
+const visitStatusCodes: Record<VisitStatus, string> = {
+  SCHEDULED: "planned",
+  IN_PROGRESS: "in-progress",
+  COMPLETED: "finished",
+  MISSED: "cancelled",
+  CANCELLED: "cancelled",
+};
+
+export function toFhirEncounter(visit: {
+  id: string;
+  patientId: string;
+  episodeId: string | null;
+  status: VisitStatus;
+  type: VisitType;
+  scheduledAt: Date;
+  durationMinutes: number;
+  checkInAt: Date | null;
+  checkOutAt: Date | null;
+  updatedAt: Date;
+  assignedUser?: { name: string | null; email: string } | null;
+}): FhirResource {
+  const start = visit.checkInAt ?? visit.scheduledAt;
+  const end =
+    visit.checkOutAt ??
+    (visit.status === VisitStatus.SCHEDULED
+      ? new Date(visit.scheduledAt.getTime() + visit.durationMinutes * 60000)
+      : null);
+  return compact({
+    resourceType: "Encounter" as const,
+    id: visit.id,
+    meta: { lastUpdated: visit.updatedAt.toISOString() },
+    status: visitStatusCodes[visit.status],
+    class: { system: ACT_CODE_SYSTEM, code: "HH", display: "home health" },
+    type: [{ text: visitTypeLabels[visit.type] }],
+    subject: reference("Patient", visit.patientId),
+    episodeOfCare: visit.episodeId
+      ? [reference("EpisodeOfCare", visit.episodeId)]
+      : undefined,
+    participant: visit.assignedUser
+      ? [
+          {
+            individual: {
+              display: visit.assignedUser.name ?? visit.assignedUser.email,
+            },
+          },
+        ]
+      : undefined,
+    period: compact({ start: start.toISOString(), end: end?.toISOString() }),
+    length:
+      visit.checkInAt && visit.checkOutAt
+        ? {
+            value: Math.round(
+              (visit.checkOutAt.getTime() - visit.checkInAt.getTime()) / 60000,
+            ),
+            unit: "min",
+            system: UCUM_SYSTEM,
+            code: "min",
+          }
+        : undefined,
+  });
+}
+
+type ObservationCode = {
+  loinc: string;
+  display: string;
+  unit: string;
+  ucum: string;
+  category: "vital-signs" | "laboratory" | "survey";
+};
+
+const observationCodes: Record<
+  | "temperature"
+  | "heartRate"
+  | "respiratoryRate"
+  | "spo2"
+  | "glucose"
+  | "painScore"
+  | "weight",
+  ObservationCode
+> = {
+  temperature: {
+    loinc: "8310-5",
+    display: "Body temperature",
+    unit: "C",
+    ucum: "Cel",
+    category: "vital-signs",
+  },
+  heartRate: {
+    loinc: "8867-4",
+    display: "Heart rate",
+    unit: "/min",
+    ucum: "/min",
+    category: "vital-signs",
+  },
+  respiratoryRate: {
+    loinc: "9279-1",
+    display: "Respiratory rate",
+    unit: "/min",
+    ucum: "/min",
+    category: "vital-signs",
+  },
+  spo2: {
+    loinc: "59408-5",
+    display: "Oxygen saturation in Arterial blood by Pulse oximetry",
+    unit: "%",
+    ucum: "%",
+    category: "vital-signs",
+  },
+  glucose: {
+    loinc: "2339-0",
+    display: "Glucose [Mass/volume] in Blood",
+    unit: "mg/dL",
+    ucum: "mg/dL",
+    category: "laboratory",
+  },
+  painScore: {
+    loinc: "72514-3",
+    display: "Pain severity - 0-10 verbal numeric rating [Score] - Reported",
+    unit: "{score}",
+    ucum: "{score}",
+    category: "survey",
+  },
+  weight: {
+    loinc: "29463-7",
+    display: "Body weight",
+    unit: "kg",
+    ucum: "kg",
+    category: "vital-signs",
+  },
+};
+
+export type FhirVitalSign = {
+  id: string;
+  patientId: string;
+  visitId: string;
+  recordedAt: Date;
+  temperature: number | null;
+  systolic: number | null;
+  diastolic: number | null;
+  heartRate: number | null;
+  respiratoryRate: number | null;
+  spo2: number | null;
+  glucose: number | null;
+  painScore: number | null;
+  weight: number | null;
+  recordedBy?: { name: string | null; email: string } | null;
+};
+
+function quantity(value: number, code: ObservationCode) {
+  return { value, unit: code.unit, system: UCUM_SYSTEM, code: code.ucum };
+}
+
+function observationBase(
+  vital: FhirVitalSign,
+  id: string,
+  category: ObservationCode["category"],
+) {
+  return {
+    resourceType: "Observation" as const,
+    id,
+    status: "final",
+    category: [
+      { coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: category }] },
+    ],
+    subject: reference("Patient", vital.patientId),
+    encounter: reference("Encounter", vital.visitId),
+    effectiveDateTime: vital.recordedAt.toISOString(),
+    performer: vital.recordedBy
+      ? [{ display: vital.recordedBy.name ?? vital.recordedBy.email }]
+      : undefined,
+  };
+}
+
+export function observationId(vitalId: string, key: string) {
+  return `${vitalId}-${key}`;
+}
+
+export function parseObservationId(id: string) {
+  const separator = id.lastIndexOf("-");
+  if (separator <= 0) return null;
+  return { vitalId: id.slice(0, separator), key: id.slice(separator + 1) };
+}
+
+export function toFhirObservations(vital: FhirVitalSign): FhirResource[] {
+  const observations: FhirResource[] = [];
+  if (vital.systolic !== null || vital.diastolic !== null) {
+    observations.push(
+      compact({
+        ...observationBase(
+          vital,
+          observationId(vital.id, "bloodPressure"),
+          "vital-signs",
+        ),
+        code: {
+          coding: [
+            {
+              system: LOINC_SYSTEM,
+              code: "85354-9",
+              display: "Blood pressure panel with all children optional",
+            },
+          ],
+          text: "Tension arterial",
+        },
+        component: [
+          {
+            value: vital.systolic,
+            code: "8480-6",
+            display: "Systolic blood pressure",
+          },
+          {
+            value: vital.diastolic,
+            code: "8462-4",
+            display: "Diastolic blood pressure",
+          },
+        ]
+          .filter((entry) => entry.value !== null)
+          .map((entry) => ({
+            code: {
+              coding: [
+                {
+                  system: LOINC_SYSTEM,
+                  code: entry.code,
+                  display: entry.display,
+                },
+              ],
+            },
+            valueQuantity: {
+              value: entry.value,
+              unit: "mmHg",
+              system: UCUM_SYSTEM,
+              code: "mm[Hg]",
+            },
+          })),
+      }),
+    );
+  }
+  (Object.keys(observationCodes) as (keyof typeof observationCodes)[]).forEach(
+    (key) => {
+      const value = vital[key];
+      if (value === null) return;
+      const code = observationCodes[key];
+      observations.push(
+        compact({
+          ...observationBase(
+            vital,
+            observationId(vital.id, key),
+            code.category,
+          ),
+          code: {
+            coding: [
+              { system: LOINC_SYSTEM, code: code.loinc, display: code.display },
+            ],
+          },
+          valueQuantity: quantity(value, code),
+        }),
+      );
+    },
+  );
+  return observations;
+}
+
+export function toFhirDiagnosisCondition(diagnosis: {
+  id: string;
+  code: string;
+  isPrimary: boolean;
+  createdAt: Date;
+  icd10: { description: string };
+  episode: { patientId: string; status: EpisodeStatus; endDate: Date | null };
+}): FhirResource {
+  const resolved = diagnosis.episode.status !== EpisodeStatus.ACTIVE;
+  return compact({
+    resourceType: "Condition" as const,
+    id: diagnosis.id,
+    clinicalStatus: {
+      coding: [
+        {
+          system: CONDITION_CLINICAL_SYSTEM,
+          code: resolved ? "inactive" : "active",
+        },
+      ],
+    },
+    category: [
+      {
+        coding: [
+          { system: CONDITION_CATEGORY_SYSTEM, code: "encounter-diagnosis" },
+        ],
+        text: diagnosis.isPrimary ? "Diagnostico principal" : "Diagnostico",
+      },
+    ],
+    code: {
+      coding: [
+        {
+          system: ICD10_SYSTEM,
+          code: diagnosis.code,
+          display: diagnosis.icd10.description,
+        },
+      ],
+      text: diagnosis.icd10.description,
+    },
+    subject: reference("Patient", diagnosis.episode.patientId),
+    abatementDateTime:
+      resolved && diagnosis.episode.endDate
+        ? diagnosis.episode.endDate.toISOString()
+        : undefined,
+    recordedDate: diagnosis.createdAt.toISOString(),
+  });
+}
+
+export function toFhirProblemCondition(problem: {
+  id: string;
+  patientId: string;
+  kind: PatientProblemKind;
+  description: string;
+  onsetDate: Date | null;
+  status: PatientProblemStatus;
+  resolvedAt: Date | null;
+  notes: string | null;
+  createdAt: Date;
+}): FhirResource {
+  return compact({
+    resourceType: "Condition" as const,
+    id: problem.id,
+    clinicalStatus: {
+      coding: [
+        {
+          system: CONDITION_CLINICAL_SYSTEM,
+          code:
+            problem.status === PatientProblemStatus.RESOLVED
+              ? "resolved"
+              : "active",
+        },
+      ],
+    },
+    category: [
+      {
+        coding: [
+          { system: CONDITION_CATEGORY_SYSTEM, code: "problem-list-item" },
+        ],
+        text: patientProblemKindLabels[problem.kind],
+      },
+    ],
+    code: { text: problem.description },
+    subject: reference("Patient", problem.patientId),
+    onsetDateTime: problem.onsetDate?.toISOString(),
+    abatementDateTime: problem.resolvedAt?.toISOString(),
+    recordedDate: problem.createdAt.toISOString(),
+    note: problem.notes ? [{ text: problem.notes }] : undefined,
+  });
+}
+
+const documentTypes: Record<
+  ClinicalAttachmentKind,
+  { code?: string; display: string }
+> = {
+  UPLOAD: { display: "Adjunto clinico" },
+  DISCHARGE_SUMMARY: { code: "18842-5", display: "Discharge summary" },
+  CONSENT: { code: "59284-0", display: "Consent Document" },
+};
+
+export function toFhirDocumentReference(
+  attachment: {
+    id: string;
+    patientId: string;
+    episodeId: string | null;
+    visitId: string | null;
+    kind: ClinicalAttachmentKind;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    createdAt: Date;
+    uploadedBy?: { name: string | null; email: string } | null;
+  },
+  url: string | null,
+): FhirResource {
+  const type = documentTypes[attachment.kind];
+  const context = [
+    ...(attachment.visitId ? [reference("Encounter", attachment.visitId)] : []),
+    ...(attachment.episodeId
+      ? [reference("EpisodeOfCare", attachment.episodeId)]
+      : []),
+  ];
+  return compact({
+    resourceType: "DocumentReference" as const,
+    id: attachment.id,
+    status: "current",
+    type: type.code
+      ? {
+          coding: [
+            { system: LOINC_SYSTEM, code: type.code, display: type.display },
+          ],
+        }
+      : { text: type.display },
+    subject: reference("Patient", attachment.patientId),
+    date: attachment.createdAt.toISOString(),
+    author: attachment.uploadedBy
+      ? [{ display: attachment.uploadedBy.name ?? attachment.uploadedBy.email }]
+      : undefined,
+    content: [
+      {
+        attachment: compact({
+          contentType: attachment.mimeType,
+          url: url ?? undefined,
+          size: attachment.size,
+          title: attachment.fileName,
+          creation: attachment.createdAt.toISOString(),
+        }),
+      },
+    ],
+    context: context.length > 0 ? { encounter: context } : undefined,
+  });
+}
+
+export function documentUrl(
+  origin: string,
+  attachment: {
+    kind: ClinicalAttachmentKind;
+    episodeId: string | null;
+    fileUrl: string | null;
+  },
+  consentId?: string | null,
+) {
+  if (attachment.fileUrl) return attachment.fileUrl;
+  if (!attachment.episodeId) return null;
+  if (attachment.kind === ClinicalAttachmentKind.DISCHARGE_SUMMARY) {
+    return `${origin}/api/episodes/${attachment.episodeId}/discharge-summary`;
+  }
+  if (attachment.kind === ClinicalAttachmentKind.CONSENT && consentId) {
+    return `${origin}/api/episodes/${attachment.episodeId}/consents/${consentId}`;
+  }
+  return null;
+}
+
+export function buildFhirBundle(
+  baseUrl: string,
+  resources: FhirResource[],
+  at = new Date(),
+): FhirBundle {
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: at.toISOString(),
+    total: resources.length,
+    entry: resources.map((resource) => ({
+      fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+      resource,
+    })),
+  };
+}
+
+export function fhirOperationOutcome(
+  code: "not-found" | "forbidden" | "login" | "not-supported",
+  diagnostics: string,
+) {
+  return {
+    resourceType: "OperationOutcome",
+    issue: [{ severity: "error", code, diagnostics }],
+  };
+}
+
+type FhirUser = { id: string; role?: string | null };
+
+export async function loadFhirResource(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    user: FhirUser;
+    origin: string;
+    type: FhirResourceType;
+    id: string;
+  },
+): Promise<FhirResource | null> {
+  const { tenantId, user, id } = params;
+  switch (params.type) {
+    case "Patient": {
+      const patient = await db.patient.findFirst({
+        where: { id, tenantId, ...careTeamPatientScope(user) },
+        include: { contacts: true },
+      });
+      return patient ? toFhirPatient(patient) : null;
+    }
+    case "EpisodeOfCare": {
+      const episode = await db.episode.findFirst({
+        where: { id, tenantId, ...careTeamEpisodeScope(user) },
+        include: { diagnoses: true },
+      });
+      return episode ? toFhirEpisodeOfCare(episode) : null;
+    }
+    case "Encounter": {
+      const visit = await db.visit.findFirst({
+        where: { id, tenantId, ...careTeamVisitScope(user) },
+        include: { assignedUser: true },
+      });
+      return visit ? toFhirEncounter(visit) : null;
+    }
+    case "Observation": {
+      const parsed = parseObservationId(id);
+      if (!parsed) return null;
+      const vital = await db.vitalSign.findFirst({
+        where: {
+          id: parsed.vitalId,
+          tenantId,
+          visit: careTeamVisitScope(user),
+        },
+        include: { recordedBy: true },
+      });
+      if (!vital) return null;
+      return (
+        toFhirObservations(vital).find(
+          (observation) => observation.id === id,
+        ) ?? null
+      );
+    }
+    case "Condition": {
+      const diagnosis = await db.episodeDiagnosis.findFirst({
+        where: { id, tenantId, episode: careTeamEpisodeScope(user) },
+        include: { icd10: true, episode: true },
+      });
+      if (diagnosis) return toFhirDiagnosisCondition(diagnosis);
+      const problem = await db.patientProblem.findFirst({
+        where: { id, tenantId, patient: careTeamPatientScope(user) },
+      });
+      return problem ? toFhirProblemCondition(problem) : null;
+    }
+    case "DocumentReference": {
+      const attachment = await db.clinicalAttachment.findFirst({
+        where: { id, tenantId, patient: careTeamPatientScope(user) },
+        include: { uploadedBy: true, consents: { take: 1 } },
+      });
+      if (!attachment) return null;
+      return toFhirDocumentReference(
+        attachment,
+        documentUrl(params.origin, attachment, attachment.consents[0]?.id),
+      );
+    }
+  }
+}
+
+export async function loadEpisodeFhirResources(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    user: FhirUser;
+    origin: string;
+    episodeId: string;
+  },
+) {
+  const { tenantId } = params;
+  const episode = await db.episode.findFirst({
+    where: {
+      id: params.episodeId,
+      tenantId,
+      ...careTeamEpisodeScope(params.user),
+    },
+    include: {
+      patient: { include: { contacts: true, problems: true } },
+      diagnoses: {
+        include: { icd10: true },
+        orderBy: [{ isPrimary: "desc" }, { createdAt: "asc" }],
+      },
+      visits: {
+        include: { assignedUser: true },
+        orderBy: { scheduledAt: "asc" },
+      },
+      vitalSigns: {
+        include: { recordedBy: true },
+        orderBy: { recordedAt: "asc" },
+      },
+      clinicalAttachments: {
+        include: { uploadedBy: true, consents: { take: 1 } },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+  if (!episode) return null;
+
+  return {
+    episode,
+    resources: [
+      toFhirPatient(episode.patient),
+      toFhirEpisodeOfCare(episode),
+      ...episode.diagnoses.map((diagnosis) =>
+        toFhirDiagnosisCondition({ ...diagnosis, episode }),
+      ),
+      ...episode.patient.problems.map(toFhirProblemCondition),
+      ...episode.visits.map(toFhirEncounter),
+      ...episode.vitalSigns.flatMap(toFhirObservations),
+      ...episode.clinicalAttachments.map((attachment) =>
+        toFhirDocumentReference(
+          attachment,
+          documentUrl(params.origin, attachment, attachment.consents[0]?.id),
+        ),
+      ),
+    ],
+  };
+}
@@ -0,0 +1,69 @@
+import { logWarn } from "./logger";
+import type { Coordinates } from "./geolocation";
+
+const GEOCODING_TIMEOUT_MS = 5000;
+
+export type GeocodedAddress = Coordinates & { source: string };
+
+export type GeocodingProvider = {
+  name: string;
+  geocode(address: string): Promise<Coordinates | null>;
+};
+
+const nominatimProvider: GeocodingProvider = {
+  name: "nominatim",
+  async geocode(address) {
+    const url = new URL(
+      process.env.GEOCODING_URL ?? "https://nominatim.openstreetmap.org/search",
+    );
+    url.searchParams.set("q", address);
+    url.searchParams.set("format", "jsonv2");
+    url.searchParams.set("limit", "1");
+    if (process.env.GEOCODING_COUNTRY_CODES) {
+      url.searchParams.set("countrycodes", process.env.GEOCODING_COUNTRY_CODES);
+    }
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent":
+          process.env.GEOCODING_USER_AGENT ?? "internacion-domiciliaria",
+      },
+      signal: AbortSignal.timeout(GEOCODING_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`GEOCODING_HTTP_${response.status}`);
+    }
+    const results = (await response.json()) as { lat: string; lon: string }[];
+    if (results.length === 0) return null;
+    return {
+      latitude: Number(results[0].lat),
+      longitude: Number(results[0].lon),
+    };
+  },
+};
+
+const providers: Record<string, GeocodingProvider> = {
+  nominatim: nominatimProvider,
+};
+
+export function getGeocodingProvider() {
+  const name = process.env.GEOCODING_PROVIDER ?? "";
+  return providers[name] ?? null;
+}
+
+export async function geocodeAddress(
+  address: string | null | undefined,
+): Promise<GeocodedAddress | null> {
+  const provider = getGeocodingProvider();
+  const query = address?.trim();
+  if (!provider || !query) return null;
+  try {
+    const coordinates = await provider.geocode(query);
+    return coordinates ? { ...coordinates, source: provider.name } : null;
+  } catch (error) {
+    logWarn("geocoding.failed", {
+      provider: provider.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
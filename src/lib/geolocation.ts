@@ -0,0 +1,94 @@
+import { Prisma, VisitLocationFlag } from "@prisma/client";
+
+export const DEFAULT_CHECK_IN_MAX_DISTANCE_METERS = 300;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export const visitLocationFlagLabels: Record<VisitLocationFlag, string> = {
+  TOO_FAR: "Lejos del domicilio",
+  NO_DEVICE_LOCATION: "Sin ubicacion del dispositivo",
+};
+
+export type Coordinates = { latitude: number; longitude: number };
+
+export type DeviceLocation = Coordinates & { accuracy: number | null };
+
+function parseNumber(value: unknown) {
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseCoordinates(input: {
+  latitude: unknown;
+  longitude: unknown;
+}): Coordinates | null {
+  const latitude = parseNumber(input.latitude);
+  const longitude = parseNumber(input.longitude);
+  if (latitude === null || longitude === null) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+export function parseDeviceLocation(formData: FormData): DeviceLocation | null {
+  const coordinates = parseCoordinates({
+    latitude: formData.get("latitude"),
+    longitude: formData.get("longitude"),
+  });
+  if (!coordinates) return null;
+  const accuracy = parseNumber(formData.get("accuracy"));
+  return {
+    ...coordinates,
+    accuracy: accuracy !== null && accuracy >= 0 ? accuracy : null,
+  };
+}
+
+export function distanceMeters(a: Coordinates, b: Coordinates) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function evaluateVisitLocation(params: {
+  address: { latitude: number | null; longitude: number | null };
+  device: DeviceLocation | null;
+  maxDistanceMeters: number;
+}) {
+  const { latitude, longitude } = params.address;
+  if (latitude === null || longitude === null) {
+    return { distance: null, flag: null };
+  }
+  if (!params.device) {
+    return { distance: null, flag: VisitLocationFlag.NO_DEVICE_LOCATION };
+  }
+  const distance = Math.round(
+    distanceMeters({ latitude, longitude }, params.device),
+  );
+  return {
+    distance,
+    flag:
+      distance > params.maxDistanceMeters ? VisitLocationFlag.TOO_FAR : null,
+  };
+}
+
+export async function loadCheckInMaxDistance(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+) {
+  const policy = await db.tenantPolicy.findUnique({ where: { tenantId } });
+  return (
+    policy?.checkInMaxDistanceMeters ?? DEFAULT_CHECK_IN_MAX_DISTANCE_METERS
+  );
+}
+
+export function formatDistance(meters: number) {
+  return meters >= 1000
+    ? `${Math.round(meters / 100) / 10} km`
+    : `${Math.round(meters)} m`;
+}
@@ -0,0 +1,68 @@
+export type Icd10Entry = {
+  code: string;
+  description: string;
+  chapter: string | null;
+};
+
+const codePattern = /^[A-Z][0-9]{2}[0-9A-Z]{0,4}$/;
+
+export function normalizeIcd10Code(value: string) {
+  const compact = value.trim().toUpperCase().replace(/[.\s]/g, "");
+  if (!codePattern.test(compact)) return null;
+  return compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact;
+}
+
+function splitLine(line: string) {
+  const separator = ["\t", ";", ","].find((candidate) =>
+    line.includes(candidate),
+  );
+  if (!separator) return null;
+  return line.split(separator).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+}
+
+export function parseIcd10Catalog(text: string) {
+  const entries = new Map<string, Icd10Entry>();
+  const rejected: number[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const cells = splitLine(line);
+    const code = cells ? normalizeIcd10Code(cells[0]) : null;
+    const description = cells?.[1]?.trim();
+    if (!code || !description) {
+      if (index > 0) rejected.push(index + 1);
+      return;
+    }
+    entries.set(code, {
+      code,
+      description,
+      chapter: cells?.[2]?.trim() || null,
+    });
+  });
+
+  return { entries: [...entries.values()], rejected };
+}
+
+export function formatDiagnosis(diagnosis: {
+  code: string;
+  icd10?: { description: string } | null;
+}) {
+  return diagnosis.icd10
+    ? `${diagnosis.code} ${diagnosis.icd10.description}`
+    : diagnosis.code;
+}
+
+export function episodeForDate<
+  T extends { startDate: Date; endDate: Date | null },
+>(episodes: T[], date: Date) {
+  return (
+    episodes
+      .filter(
+        (episode) =>
+          episode.startDate <= date &&
+          (!episode.endDate || episode.endDate >= date),
+      )
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime())[0] ??
+    null
+  );
+}
@@ -0,0 +1,139 @@
+import {
+  MedicationAdministrationStatus,
+  MedicationOrderStatus,
+  MedicationRoute,
+  Prisma,
+} from "@prisma/client";
+import { logAudit } from "./audit";
+import { consumeVisitItem } from "./visit-items";
+
+export const medicationRouteLabels: Record<MedicationRoute, string> = {
+  ORAL: "Oral",
+  IV: "Endovenosa",
+  IM: "Intramuscular",
+  SC: "Subcutanea",
+  TOPICAL: "Topica",
+  INHALED: "Inhalatoria",
+  ENTERAL: "Enteral",
+  OTHER: "Otra",
+};
+
+export const administrationStatusLabels: Record<
+  MedicationAdministrationStatus,
+  string
+> = {
+  GIVEN: "Administrada",
+  OMITTED: "Omitida",
+};
+
+export function isOrderActiveOn(
+  order: {
+    status: MedicationOrderStatus;
+    startDate: Date;
+    endDate: Date | null;
+  },
+  date: Date,
+) {
+  if (order.status !== MedicationOrderStatus.ACTIVE) return false;
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  const start = new Date(order.startDate);
+  start.setHours(0, 0, 0, 0);
+  if (day < start) return false;
+  if (!order.endDate) return true;
+  const end = new Date(order.endDate);
+  end.setHours(0, 0, 0, 0);
+  return day <= end;
+}
+
+export async function recordMedicationAdministration(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    actorId: string;
+    orderId: string;
+    visitId: string;
+    status: MedicationAdministrationStatus;
+    reason?: string | null;
+    warehouseId?: string | null;
+    quantity?: number | null;
+    visitScope?: Prisma.VisitWhereInput;
+  },
+) {
+  const visit = await db.visit.findFirst({
+    where: {
+      id: params.visitId,
+      tenantId: params.tenantId,
+      ...params.visitScope,
+    },
+  });
+  if (!visit) {
+    throw new Error("VISIT_NOT_FOUND");
+  }
+  if (visit.status !== "IN_PROGRESS" && visit.status !== "COMPLETED") {
+    throw new Error("INVALID_STATUS");
+  }
+
+  const order = await db.medicationOrder.findFirst({
+    where: { id: params.orderId, tenantId: params.tenantId },
+  });
+  if (!order || order.episodeId !== visit.episodeId) {
+    throw new Error("MEDICATION_ORDER_NOT_FOUND");
+  }
+  if (!isOrderActiveOn(order, visit.checkInAt ?? visit.scheduledAt)) {
+    throw new Error("MEDICATION_ORDER_INACTIVE");
+  }
+
+  const reason = params.reason?.trim() || null;
+  if (params.status === MedicationAdministrationStatus.OMITTED && !reason) {
+    throw new Error("MAR_REASON_REQUIRED");
+  }
+
+  let visitItemId: string | null = null;
+  if (
+    params.status === MedicationAdministrationStatus.GIVEN &&
+    order.productId &&
+    params.warehouseId
+  ) {
+    const item = await consumeVisitItem(db, {
+      tenantId: params.tenantId,
+      actorId: params.actorId,
+      visitId: visit.id,
+      productId: order.productId,
+      warehouseId: params.warehouseId,
+      quantity: params.quantity ?? 1,
+    });
+    visitItemId = item.id;
+  }
+
+  const administration = await db.medicationAdministration.create({
+    data: {
+      tenantId: params.tenantId,
+      orderId: order.id,
+      visitId: visit.id,
+      administeredById: params.actorId,
+      status: params.status,
+      reason,
+      visitItemId,
+    },
+  });
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action:
+      params.status === MedicationAdministrationStatus.GIVEN
+        ? "medication.administer"
+        : "medication.omit",
+    entityType: "MedicationOrder",
+    entityId: order.id,
+    meta: {
+      administrationId: administration.id,
+      visitId: visit.id,
+      reason,
+      visitItemId,
+    },
+  });
+
+  return administration;
+}
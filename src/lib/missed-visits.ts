@@ -0,0 +1,73 @@
+import { Prisma, VisitStatus } from "@prisma/client";
+import { logAudit } from "./audit";
+import { coordinatorRoles, notifyRoles } from "./notifications";
+
+export const DEFAULT_MISSED_VISIT_GRACE_MINUTES = 120;
+const MISSED_VISIT_BATCH = 200;
+
+export async function detectMissedVisits(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; now?: Date; actorId?: string | null },
+) {
+  const policy = await db.tenantPolicy.findUnique({
+    where: { tenantId: params.tenantId },
+  });
+  const graceMinutes =
+    policy?.missedVisitGraceMinutes ?? DEFAULT_MISSED_VISIT_GRACE_MINUTES;
+  const now = params.now ?? new Date();
+  const cutoff = new Date(now.getTime() - graceMinutes * 60 * 1000);
+
+  const overdue = await db.visit.findMany({
+    where: {
+      tenantId: params.tenantId,
+      status: VisitStatus.SCHEDULED,
+      scheduledAt: { lt: cutoff },
+    },
+    include: { patient: true },
+    orderBy: { scheduledAt: "asc" },
+    take: MISSED_VISIT_BATCH,
+  });
+
+  if (overdue.length === 0) {
+    return { missed: 0, graceMinutes };
+  }
+
+  const reason = `Sin check-in dentro de la tolerancia (${graceMinutes} min).`;
+  await db.visit.updateMany({
+    where: {
+      id: { in: overdue.map((visit) => visit.id) },
+      status: VisitStatus.SCHEDULED,
+    },
+    data: {
+      status: VisitStatus.MISSED,
+      missedAt: now,
+      missedReason: reason,
+    },
+  });
+
+  for (const visit of overdue) {
+    await logAudit(db, {
+      tenantId: params.tenantId,
+      actorId: params.actorId ?? null,
+      action: "visit.missed",
+      entityType: "Visit",
+      entityId: visit.id,
+      meta: { reason, automatic: true },
+    });
+  }
+
+  await notifyRoles(
+    db,
+    params.tenantId,
+    coordinatorRoles,
+    overdue.map((visit) => ({
+      type: "visit.missed",
+      title: `Visita perdida: ${visit.patient.lastName}, ${visit.patient.firstName}`,
+      body: `Programada ${visit.scheduledAt.toLocaleString("es-AR")}. ${reason}`,
+      entityType: "Visit",
+      entityId: visit.id,
+    })),
+  );
+
+  return { missed: overdue.length, graceMinutes };
+}
@@ -0,0 +1,365 @@
+import { MobileSyncStatus, Prisma, VisitStatus } from "@prisma/client";
+import { logAudit } from "./audit";
+import { assertEpisodeConsents } from "./consents";
+import { startOfDay } from "./availability";
+import { evaluateVisitLocation, loadCheckInMaxDistance } from "./geolocation";
+import { consumeVisitItem } from "./visit-items";
+import type {
+  MobileOperation,
+  MobileSnapshot,
+  MobileSyncResult,
+} from "./mobile-visits";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SyncDecision =
+  { status: "APPLY" } | { status: "SKIPPED" | "CONFLICT"; code: string };
+
+export function syncTimestamp(recordedAt: string, now = new Date()) {
+  const at = new Date(recordedAt);
+  return at > now ? now : at;
+}
+
+export function checkInSyncDecision(visit: {
+  status: VisitStatus;
+  rescheduled: boolean;
+}): SyncDecision {
+  switch (visit.status) {
+    case VisitStatus.SCHEDULED:
+      return { status: "APPLY" };
+    case VisitStatus.MISSED:
+      return visit.rescheduled
+        ? { status: "CONFLICT", code: "VISIT_ALREADY_RESCHEDULED" }
+        : { status: "APPLY" };
+    case VisitStatus.IN_PROGRESS:
+    case VisitStatus.COMPLETED:
+      return { status: "SKIPPED", code: "VISIT_ALREADY_CHECKED_IN" };
+    default:
+      return { status: "CONFLICT", code: "VISIT_CANCELLED" };
+  }
+}
+
+export function checklistSyncDecision(
+  item: { isCompleted: boolean; completedAt: Date | null },
+  completed: boolean,
+  recordedAt: Date,
+): SyncDecision {
+  if (item.isCompleted === completed) {
+    return { status: "SKIPPED", code: "CHECKLIST_UNCHANGED" };
+  }
+  if (!completed && item.completedAt && item.completedAt > recordedAt) {
+    return { status: "CONFLICT", code: "CHECKLIST_CHANGED" };
+  }
+  return { status: "APPLY" };
+}
+
+export function completeSyncDecision(visit: {
+  status: VisitStatus;
+}): SyncDecision {
+  switch (visit.status) {
+    case VisitStatus.IN_PROGRESS:
+      return { status: "APPLY" };
+    case VisitStatus.COMPLETED:
+      return { status: "SKIPPED", code: "VISIT_ALREADY_COMPLETED" };
+    default:
+      return { status: "CONFLICT", code: "INVALID_STATUS" };
+  }
+}
+
+async function applyOperation(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    userId: string;
+    operation: MobileOperation;
+    now: Date;
+  },
+): Promise<SyncDecision> {
+  const { tenantId, userId, operation } = params;
+  const at = syncTimestamp(operation.recordedAt, params.now);
+  const visit = await db.visit.findFirst({
+    where: { id: operation.visitId, tenantId, assignedUserId: userId },
+    include: { patient: true, rescheduledTo: true },
+  });
+  if (!visit) {
+    throw new Error("VISIT_NOT_FOUND");
+  }
+  if (operation.type !== "CHECK_IN" && visit.status === VisitStatus.CANCELLED) {
+    return { status: "CONFLICT", code: "VISIT_CANCELLED" };
+  }
+  const audit = { offline: true, operationId: operation.id };
+
+  switch (operation.type) {
+    case "CHECK_IN":
+    case "COMPLETE": {
+      const decision =
+        operation.type === "CHECK_IN"
+          ? checkInSyncDecision({
+              status: visit.status,
+              rescheduled: visit.rescheduledTo.length > 0,
+            })
+          : completeSyncDecision(visit);
+      if (decision.status !== "APPLY") return decision;
+
+      if (operation.type === "CHECK_IN") {
+        await assertEpisodeConsents(db, {
+          tenantId,
+          episodeId: visit.episodeId,
+          visitId: visit.id,
+          at,
+        });
+      }
+      if (operation.type === "COMPLETE") {
+        const [checklistIncomplete, notesCount] = await Promise.all([
+          db.visitChecklistItem.count({
+            where: { visitId: visit.id, isRequired: true, isCompleted: false },
+          }),
+          db.clinicalNote.count({ where: { visitId: visit.id } }),
+        ]);
+        if (checklistIncomplete > 0) throw new Error("CHECKLIST_INCOMPLETE");
+        if (notesCount === 0) throw new Error("NOTE_REQUIRED");
+      }
+
+      const location = evaluateVisitLocation({
+        address: visit.patient,
+        device: operation.location,
+        maxDistanceMeters: await loadCheckInMaxDistance(db, tenantId),
+      });
+      const device = operation.location;
+      await db.visit.update({
+        where: { id: visit.id },
+        data:
+          operation.type === "CHECK_IN"
+            ? {
+                status: VisitStatus.IN_PROGRESS,
+                checkInAt: at,
+                missedAt: null,
+                missedReason: null,
+                checkInLatitude: device?.latitude ?? null,
+                checkInLongitude: device?.longitude ?? null,
+                checkInAccuracy: device?.accuracy ?? null,
+                checkInDistance: location.distance,
+                checkInFlag: location.flag,
+              }
+            : {
+                status: VisitStatus.COMPLETED,
+                checkOutAt: at,
+                checkOutLatitude: device?.latitude ?? null,
+                checkOutLongitude: device?.longitude ?? null,
+                checkOutAccuracy: device?.accuracy ?? null,
+                checkOutDistance: location.distance,
+                checkOutFlag: location.flag,
+              },
+      });
+      await logAudit(db, {
+        tenantId,
+        actorId: userId,
+        action:
+          operation.type === "CHECK_IN" ? "visit.checkin" : "visit.complete",
+        entityType: "Visit",
+        entityId: visit.id,
+        meta: {
+          ...audit,
+          distance: location.distance,
+          flag: location.flag,
+          wasMissed: visit.status === VisitStatus.MISSED,
+        },
+      });
+      return decision;
+    }
+    case "CHECKLIST": {
+      const item = await db.visitChecklistItem.findFirst({
+        where: { id: operation.checklistItemId, visitId: visit.id },
+      });
+      if (!item) {
+        throw new Error("CHECKLIST_NOT_FOUND");
+      }
+      const decision = checklistSyncDecision(item, operation.completed, at);
+      if (decision.status !== "APPLY") return decision;
+      await db.visitChecklistItem.update({
+        where: { id: item.id },
+        data: {
+          isCompleted: operation.completed,
+          completedAt: operation.completed ? at : null,
+          completedById: operation.completed ? userId : null,
+        },
+      });
+      await logAudit(db, {
+        tenantId,
+        actorId: userId,
+        action: "visit.checklist.update",
+        entityType: "VisitChecklistItem",
+        entityId: item.id,
+        meta: { ...audit, completed: operation.completed },
+      });
+      return decision;
+    }
+    case "NOTE": {
+      const note = await db.clinicalNote.create({
+        data: {
+          tenantId,
+          patientId: visit.patientId,
+          episodeId: visit.episodeId,
+          visitId: visit.id,
+          authorId: userId,
+          content: operation.summary,
+          structured: Prisma.DbNull,
+          recordedAt: at,
+        },
+      });
+      await logAudit(db, {
+        tenantId,
+        actorId: userId,
+        action: "clinicalNote.create",
+        entityType: "ClinicalNote",
+        entityId: note.id,
+        meta: audit,
+      });
+      return { status: "APPLY" };
+    }
+    case "ITEM": {
+      await consumeVisitItem(db, {
+        tenantId,
+        actorId: userId,
+        visitId: visit.id,
+        productId: operation.productId,
+        warehouseId: operation.warehouseId,
+        quantity: operation.quantity,
+      });
+      return { status: "APPLY" };
+    }
+  }
+}
+
+export async function syncMobileOperation(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    userId: string;
+    operation: MobileOperation;
+    now?: Date;
+  },
+): Promise<MobileSyncResult> {
+  const { tenantId, userId, operation } = params;
+  const previous = await db.mobileSyncOperation.findUnique({
+    where: { tenantId_clientId: { tenantId, clientId: operation.id } },
+  });
+  if (previous) {
+    return { id: operation.id, status: previous.status, code: previous.code };
+  }
+
+  const decision = await applyOperation(db, {
+    tenantId,
+    userId,
+    operation,
+    now: params.now ?? new Date(),
+  });
+  const status =
+    decision.status === "APPLY" ? MobileSyncStatus.APPLIED : decision.status;
+  const code = decision.status === "APPLY" ? null : decision.code;
+  await db.mobileSyncOperation.create({
+    data: {
+      tenantId,
+      userId,
+      clientId: operation.id,
+      type: operation.type,
+      visitId: operation.visitId,
+      status,
+      code,
+      recordedAt: new Date(operation.recordedAt),
+    },
+  });
+  return { id: operation.id, status, code };
+}
+
+export async function loadMobileSnapshot(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    userId: string;
+    includeInventory: boolean;
+    now?: Date;
+  },
+): Promise<MobileSnapshot> {
+  const now = params.now ?? new Date();
+  const dayStart = startOfDay(now);
+  const visits = await db.visit.findMany({
+    where: {
+      tenantId: params.tenantId,
+      assignedUserId: params.userId,
+      OR: [
+        {
+          scheduledAt: {
+            gte: dayStart,
+            lt: new Date(dayStart.getTime() + DAY_MS),
+          },
+        },
+        { status: VisitStatus.IN_PROGRESS },
+      ],
+    },
+    include: {
+      patient: {
+        include: {
+          allergies: { where: { isActive: true } },
+          problems: { where: { status: "ACTIVE" } },
+        },
+      },
+      checklistItems: { orderBy: { createdAt: "asc" } },
+      items: { include: { product: true } },
+      _count: { select: { clinicalNotes: true } },
+    },
+    orderBy: { scheduledAt: "asc" },
+  });
+  const [products, warehouses] = params.includeInventory
+    ? await Promise.all([
+        db.product.findMany({
+          where: { tenantId: params.tenantId },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        }),
+        db.warehouse.findMany({
+          where: { tenantId: params.tenantId },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        }),
+      ])
+    : [[], []];
+
+  return {
+    generatedAt: now.toISOString(),
+    visits: visits.map((visit) => ({
+      id: visit.id,
+      status: visit.status,
+      type: visit.type,
+      scheduledAt: visit.scheduledAt.toISOString(),
+      durationMinutes: visit.durationMinutes,
+      checkInAt: visit.checkInAt?.toISOString() ?? null,
+      checkOutAt: visit.checkOutAt?.toISOString() ?? null,
+      notes: visit.notes,
+      patient: {
+        id: visit.patient.id,
+        firstName: visit.patient.firstName,
+        lastName: visit.patient.lastName,
+        dni: visit.patient.dni,
+        phone: visit.patient.phone,
+        address: visit.patient.address,
+        allergies: visit.patient.allergies.map((allergy) => allergy.substance),
+        problems: visit.patient.problems.map((problem) => problem.description),
+      },
+      checklist: visit.checklistItems.map((item) => ({
+        id: item.id,
+        label: item.label,
+        isRequired: item.isRequired,
+        isCompleted: item.isCompleted,
+      })),
+      noteCount: visit._count.clinicalNotes,
+      items: visit.items.map((item) => ({
+        id: item.id,
+        productName: item.product.name,
+        quantity: item.quantity,
+      })),
+    })),
+    products,
+    warehouses,
+  };
+}
@@ -0,0 +1,230 @@
+import { z } from "zod";
+
+const MOBILE_STORAGE_PREFIX = "mobile-visits:";
+const MOBILE_OWNER_KEY = `${MOBILE_STORAGE_PREFIX}owner`;
+// Must match the cache name prefix used by public/mobile-sw.js.
+const MOBILE_CACHE_PREFIX = "mobile-visits-";
+
+export type MobileOwner = { tenantId: string; userId: string };
+
+export function mobileStorageKeys(owner: MobileOwner) {
+  const base = `${MOBILE_STORAGE_PREFIX}${owner.tenantId}:${owner.userId}`;
+  return { snapshot: `${base}:snapshot`, queue: `${base}:queue` };
+}
+
+function mobileStorageEntries() {
+  return Object.keys(localStorage).filter((key) =>
+    key.startsWith(MOBILE_STORAGE_PREFIX),
+  );
+}
+
+export function countPendingMobileOperations() {
+  return mobileStorageEntries()
+    .filter((key) => key.endsWith(":queue"))
+    .reduce((sum, key) => {
+      try {
+        const queue = JSON.parse(localStorage.getItem(key) ?? "[]");
+        return sum + (Array.isArray(queue) ? queue.length : 0);
+      } catch {
+        return sum;
+      }
+    }, 0);
+}
+
+export async function clearMobileData() {
+  mobileStorageEntries().forEach((key) => localStorage.removeItem(key));
+  if ("caches" in window) {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys
+        .filter((key) => key.startsWith(MOBILE_CACHE_PREFIX))
+        .map((key) => caches.delete(key)),
+    );
+  }
+}
+
+export async function claimMobileData(owner: MobileOwner) {
+  const current = `${owner.tenantId}:${owner.userId}`;
+  if (localStorage.getItem(MOBILE_OWNER_KEY) === current) return;
+  await clearMobileData();
+  localStorage.setItem(MOBILE_OWNER_KEY, current);
+}
+
+const locationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).nullable(),
+});
+
+const baseOperation = {
+  id: z.string().min(8).max(64),
+  visitId: z.string().min(1),
+  recordedAt: z.iso.datetime(),
+};
+
+export const mobileOperationSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...baseOperation,
+    type: z.literal("CHECK_IN"),
+    location: locationSchema.nullable(),
+  }),
+  z.object({
+    ...baseOperation,
+    type: z.literal("CHECKLIST"),
+    checklistItemId: z.string().min(1),
+    completed: z.boolean(),
+  }),
+  z.object({
+    ...baseOperation,
+    type: z.literal("NOTE"),
+    summary: z.string().trim().min(1).max(5000),
+  }),
+  z.object({
+    ...baseOperation,
+    type: z.literal("ITEM"),
+    productId: z.string().min(1),
+    warehouseId: z.string().min(1),
+    quantity: z.number().int().positive(),
+  }),
+  z.object({
+    ...baseOperation,
+    type: z.literal("COMPLETE"),
+    location: locationSchema.nullable(),
+  }),
+]);
+
+export const mobileSyncRequestSchema = z.object({
+  operations: z.array(mobileOperationSchema).max(200),
+});
+
+export type MobileOperation = z.infer<typeof mobileOperationSchema>;
+
+export type MobileSyncResult = {
+  id: string;
+  status: "APPLIED" | "SKIPPED" | "CONFLICT" | "ERROR";
+  code: string | null;
+};
+
+export type MobileVisit = {
+  id: string;
+  status: string;
+  type: string;
+  scheduledAt: string;
+  durationMinutes: number;
+  checkInAt: string | null;
+  checkOutAt: string | null;
+  notes: string | null;
+  patient: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    dni: string;
+    phone: string | null;
+    address: string | null;
+    allergies: string[];
+    problems: string[];
+  };
+  checklist: {
+    id: string;
+    label: string;
+    isRequired: boolean;
+    isCompleted: boolean;
+  }[];
+  noteCount: number;
+  items: { id: string; productName: string; quantity: number }[];
+};
+
+export type MobileSnapshot = {
+  generatedAt: string;
+  visits: MobileVisit[];
+  products: { id: string; name: string }[];
+  warehouses: { id: string; name: string }[];
+};
+
+export const mobileVisitStatusLabels: Record<string, string> = {
+  SCHEDULED: "Programada",
+  IN_PROGRESS: "En curso",
+  COMPLETED: "Completada",
+  CANCELLED: "Cancelada",
+  MISSED: "Perdida",
+};
+
+export function canCompleteMobileVisit(visit: MobileVisit) {
+  return (
+    visit.status === "IN_PROGRESS" &&
+    visit.noteCount > 0 &&
+    visit.checklist.every((item) => !item.isRequired || item.isCompleted)
+  );
+}
+
+function applyToVisit(
+  visit: MobileVisit,
+  operation: MobileOperation,
+  snapshot: MobileSnapshot,
+): MobileVisit {
+  switch (operation.type) {
+    case "CHECK_IN":
+      if (visit.status !== "SCHEDULED" && visit.status !== "MISSED") {
+        return visit;
+      }
+      return {
+        ...visit,
+        status: "IN_PROGRESS",
+        checkInAt: operation.recordedAt,
+      };
+    case "CHECKLIST":
+      return {
+        ...visit,
+        checklist: visit.checklist.map((item) =>
+          item.id === operation.checklistItemId
+            ? { ...item, isCompleted: operation.completed }
+            : item,
+        ),
+      };
+    case "NOTE":
+      return { ...visit, noteCount: visit.noteCount + 1 };
+    case "ITEM":
+      return {
+        ...visit,
+        items: [
+          ...visit.items,
+          {
+            id: operation.id,
+            productName:
+              snapshot.products.find(
+                (product) => product.id === operation.productId,
+              )?.name ?? operation.productId,
+            quantity: operation.quantity,
+          },
+        ],
+      };
+    case "COMPLETE":
+      if (visit.status !== "IN_PROGRESS") return visit;
+      return {
+        ...visit,
+        status: "COMPLETED",
+        checkOutAt: operation.recordedAt,
+      };
+  }
+}
+
+export function applyMobileOperation(
+  snapshot: MobileSnapshot,
+  operation: MobileOperation,
+): MobileSnapshot {
+  return {
+    ...snapshot,
+    visits: snapshot.visits.map((visit) =>
+      visit.id === operation.visitId
+        ? applyToVisit(visit, operation, snapshot)
+        : visit,
+    ),
+  };
+}
+
+export function rebaseMobileSnapshot(
+  snapshot: MobileSnapshot,
+  queue: MobileOperation[],
+) {
+  return queue.reduce(applyMobileOperation, snapshot);
+}
@@ -0,0 +1,141 @@
+import { NoteSpecialty } from "@prisma/client";
+import type { ClinicalNoteStructured } from "./clinical-notes";
+
+export type NoteTemplateField = {
+  key: string;
+  label: string;
+  defaultText: string;
+};
+
+export const noteSpecialtyLabels: Record<NoteSpecialty, string> = {
+  NURSING: "Enfermeria",
+  KINESIOLOGY: "Kinesiologia",
+  PHONOAUDIOLOGY: "Fonoaudiologia",
+  MEDICAL: "Medica",
+};
+
+const soapKeys = ["subjective", "objective", "assessment", "plan"] as const;
+
+function soapFields(defaults: Record<(typeof soapKeys)[number], string>) {
+  const labels = {
+    subjective: "Subjetivo",
+    objective: "Objetivo",
+    assessment: "Evaluacion",
+    plan: "Plan",
+  };
+  return soapKeys.map((key) => ({
+    key,
+    label: labels[key],
+    defaultText: defaults[key],
+  }));
+}
+
+export const defaultNoteTemplates: Record<
+  NoteSpecialty,
+  { summary: string; fields: NoteTemplateField[] }
+> = {
+  NURSING: {
+    summary: "Control de enfermeria domiciliario.",
+    fields: soapFields({
+      subjective: "Refiere: ",
+      objective: "Piel y mucosas: \nAccesos y dispositivos: ",
+      assessment: "",
+      plan: "Cuidados realizados: \nProximo control: ",
+    }),
+  },
+  KINESIOLOGY: {
+    summary: "Sesion de kinesiologia.",
+    fields: soapFields({
+      subjective: "Dolor y tolerancia al esfuerzo: ",
+      objective: "Movilidad: \nFuerza: \nEquilibrio y marcha: ",
+      assessment: "",
+      plan: "Ejercicios realizados: \nIndicaciones para el hogar: ",
+    }),
+  },
+  PHONOAUDIOLOGY: {
+    summary: "Sesion de fonoaudiologia.",
+    fields: soapFields({
+      subjective: "Refiere: ",
+      objective: "Deglucion: \nLenguaje y comunicacion: \nVoz: ",
+      assessment: "",
+      plan: "Ejercicios: \nConsistencias indicadas: ",
+    }),
+  },
+  MEDICAL: {
+    summary: "Control medico domiciliario.",
+    fields: soapFields({
+      subjective: "Motivo de consulta: \nEvolucion: ",
+      objective: "Examen fisico: ",
+      assessment: "Impresion diagnostica: ",
+      plan: "Indicaciones: \nMedicacion: ",
+    }),
+  },
+};
+
+export function parseNoteTemplateFields(value: unknown): NoteTemplateField[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((field) => {
+    if (!field || typeof field !== "object") return [];
+    const { key, label, defaultText } = field as Record<string, unknown>;
+    if (typeof key !== "string" || typeof label !== "string") return [];
+    return [
+      {
+        key,
+        label,
+        defaultText: typeof defaultText === "string" ? defaultText : "",
+      },
+    ];
+  });
+}
+
+function withSoapValues(
+  structured: ClinicalNoteStructured,
+  fields: { key: string; value: string }[],
+) {
+  for (const key of soapKeys) {
+    const field = fields.find((current) => current.key === key);
+    structured[key] = field?.value || undefined;
+  }
+  return structured;
+}
+
+export function buildTemplatedStructured(
+  template: { id: string; version: number; name: string; fields: unknown },
+  values: Record<string, string>,
+): ClinicalNoteStructured {
+  const fields = parseNoteTemplateFields(template.fields).map((field) => ({
+    key: field.key,
+    label: field.label,
+    value: values[field.key]?.trim() ?? "",
+  }));
+  return withSoapValues(
+    {
+      templateId: template.id,
+      templateVersion: template.version,
+      templateName: template.name,
+      fields,
+    },
+    fields,
+  );
+}
+
+export function applyNoteFieldValues(
+  structured: ClinicalNoteStructured,
+  values: Record<string, string>,
+): ClinicalNoteStructured {
+  const fields = (structured.fields ?? []).map((field) => ({
+    ...field,
+    value: values[field.key]?.trim() ?? "",
+  }));
+  return withSoapValues({ ...structured, fields }, fields);
+}
+
+export function readNoteFieldValues(formData: FormData) {
+  const values: Record<string, string> = {};
+  formData.forEach((value, name) => {
+    if (name.startsWith("field_") && typeof value === "string") {
+      values[name.slice("field_".length)] = value;
+    }
+  });
+  return values;
+}
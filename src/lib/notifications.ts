@@ -0,0 +1,70 @@
+import { Prisma, Role } from "@prisma/client";
+
+export type NotificationInput = {
+  type: string;
+  title: string;
+  body?: string | null;
+  entityType?: string | null;
+  entityId?: string | null;
+};
+
+export const coordinatorRoles: Role[] = [Role.COORDINACION, Role.ADMIN_TENANT];
+
+export async function notifyUsers(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  userIds: string[],
+  notifications: NotificationInput[],
+) {
+  const data = userIds.flatMap((userId) =>
+    notifications.map((notification) => ({
+      tenantId,
+      userId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body ?? null,
+      entityType: notification.entityType ?? null,
+      entityId: notification.entityId ?? null,
+    })),
+  );
+  if (data.length === 0) return 0;
+  const result = await db.notification.createMany({ data });
+  return result.count;
+}
+
+export async function notifyRoles(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  roles: Role[],
+  notifications: NotificationInput[],
+) {
+  const users = await db.user.findMany({
+    where: { tenantId, isActive: true, role: { in: roles } },
+    select: { id: true },
+  });
+  return notifyUsers(
+    db,
+    tenantId,
+    users.map((user) => user.id),
+    notifications,
+  );
+}
+
+export function notificationHref(notification: {
+  entityType: string | null;
+  entityId: string | null;
+}) {
+  if (!notification.entityId) return null;
+  switch (notification.entityType) {
+    case "Visit":
+      return "/agenda";
+    case "Episode":
+      return `/episodes/${notification.entityId}`;
+    case "User":
+      return `/agenda/credentials?userId=${notification.entityId}`;
+    case "Referral":
+      return `/referrals/${notification.entityId}`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  AllergySeverity,
+  PatientProblemKind,
+  PatientProblemStatus,
+} from "@prisma/client";
+
+export const allergySeverityLabels: Record<AllergySeverity, string> = {
+  MILD: "Leve",
+  MODERATE: "Moderada",
+  SEVERE: "Severa",
+};
+
+export const patientProblemKindLabels: Record<PatientProblemKind, string> = {
+  ACTIVE_PROBLEM: "Problema activo",
+  CHRONIC_CONDITION: "Condicion cronica",
+  BACKGROUND: "Antecedente",
+};
+
+export function normalizeSubstance(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function findAllergyConflicts<
+  T extends { substance: string; isActive: boolean },
+>(allergies: T[], drugNames: (string | null | undefined)[]) {
+  const names = drugNames
+    .flatMap((name) => (name ? [normalizeSubstance(name)] : []))
+    .filter(Boolean);
+  return allergies.filter((allergy) => {
+    if (!allergy.isActive) return false;
+    const substance = normalizeSubstance(allergy.substance);
+    if (!substance) return false;
+    return names.some(
+      (name) =>
+        ` ${name} `.includes(` ${substance} `) ||
+        ` ${substance} `.includes(` ${name} `),
+    );
+  });
+}
+
+export function describeAllergy(allergy: {
+  substance: string;
+  severity: AllergySeverity;
+  reaction?: string | null;
+}) {
+  return `${allergy.substance} (${allergySeverityLabels[allergy.severity]}${
+    allergy.reaction ? `: ${allergy.reaction}` : ""
+  })`;
+}
+
+export function patientAlertSummary(params: {
+  allergies: {
+    substance: string;
+    severity: AllergySeverity;
+    reaction?: string | null;
+    isActive: boolean;
+  }[];
+  problems: {
+    description: string;
+    kind: PatientProblemKind;
+    status: PatientProblemStatus;
+  }[];
+}) {
+  const allergies = params.allergies.filter((allergy) => allergy.isActive);
+  const problems = params.problems.filter(
+    (problem) =>
+      problem.status === PatientProblemStatus.ACTIVE &&
+      problem.kind !== PatientProblemKind.BACKGROUND,
+  );
+  return {
+    allergies: allergies.map(describeAllergy),
+    problems: problems.map((problem) => problem.description),
+    hasSevereAllergy: allergies.some(
+      (allergy) => allergy.severity === AllergySeverity.SEVERE,
+    ),
+  };
+}
@@ -0,0 +1,48 @@
+import { ContactChannel, ContactRelationship } from "@prisma/client";
+
+export const contactRelationshipLabels: Record<ContactRelationship, string> = {
+  SPOUSE: "Conyuge / pareja",
+  CHILD: "Hijo/a",
+  PARENT: "Padre / madre",
+  SIBLING: "Hermano/a",
+  CAREGIVER: "Cuidador/a",
+  LEGAL_GUARDIAN: "Tutor/a legal",
+  OTHER: "Otro",
+};
+
+export const contactChannelLabels: Record<ContactChannel, string> = {
+  PHONE: "Llamada",
+  WHATSAPP: "WhatsApp",
+  SMS: "SMS",
+  EMAIL: "Email",
+};
+
+export function contactChannelTarget(contact: {
+  preferredChannel: ContactChannel;
+  phone: string | null;
+  email: string | null;
+}) {
+  if (contact.preferredChannel === ContactChannel.EMAIL) {
+    return contact.email;
+  }
+  return contact.phone;
+}
+
+export function contactHref(contact: {
+  preferredChannel: ContactChannel;
+  phone: string | null;
+  email: string | null;
+}) {
+  const target = contactChannelTarget(contact);
+  if (!target) return null;
+  switch (contact.preferredChannel) {
+    case ContactChannel.EMAIL:
+      return `mailto:${target}`;
+    case ContactChannel.WHATSAPP:
+      return `https://wa.me/${target.replace(/\D/g, "")}`;
+    case ContactChannel.SMS:
+      return `sms:${target.replace(/[^\d+]/g, "")}`;
+    default:
+      return `tel:${target.replace(/[^\d+]/g, "")}`;
+  }
+}
@@ -0,0 +1,76 @@
+export const patientTimelineTypes = [
+  "EPISODE",
+  "VISIT",
+  "NOTE",
+  "ATTACHMENT",
+  "DELIVERY",
+  "AUTHORIZATION",
+  "INVOICE",
+] as const;
+
+export type PatientTimelineType = (typeof patientTimelineTypes)[number];
+
+export const patientTimelineTypeLabels: Record<PatientTimelineType, string> = {
+  EPISODE: "Episodios",
+  VISIT: "Visitas",
+  NOTE: "Notas",
+  ATTACHMENT: "Adjuntos",
+  DELIVERY: "Entregas",
+  AUTHORIZATION: "Autorizaciones",
+  INVOICE: "Facturas",
+};
+
+export type PatientTimelineEvent = {
+  type: PatientTimelineType;
+  at: Date;
+  title: string;
+  detail?: string;
+  href?: string;
+};
+
+export type PatientTimelineFilters = {
+  types: PatientTimelineType[];
+  from: Date | null;
+  to: Date | null;
+};
+
+function parseDay(value: unknown, endOfDay: boolean) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return null;
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date;
+}
+
+export function parsePatientTimelineFilters(params: {
+  type?: string | string[];
+  from?: string;
+  to?: string;
+}): PatientTimelineFilters {
+  const requested = (Array.isArray(params.type) ? params.type : [params.type])
+    .flatMap((value) => (value ? value.split(",") : []))
+    .filter((value): value is PatientTimelineType =>
+      (patientTimelineTypes as readonly string[]).includes(value),
+    );
+  return {
+    types: requested.length > 0 ? requested : [...patientTimelineTypes],
+    from: parseDay(params.from, false),
+    to: parseDay(params.to, true),
+  };
+}
+
+export function filterPatientTimeline(
+  events: PatientTimelineEvent[],
+  filters: PatientTimelineFilters,
+) {
+  return events
+    .filter(
+      (event) =>
+        filters.types.includes(event.type) &&
+        (!filters.from || event.at >= filters.from) &&
+        (!filters.to || event.at <= filters.to),
+    )
+    .sort((a, b) => b.at.getTime() - a.at.getTime());
+}
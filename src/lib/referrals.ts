@@ -0,0 +1,267 @@
+import {
+  AuthorizationStatus,
+  EpisodeStatus,
+  Prisma,
+  ReferralStatus,
+  type Referral,
+  type ReferralAttachment,
+} from "@prisma/client";
+import { openStageHistory } from "./episode-workflow";
+import type { GeocodedAddress } from "./geocoding";
+import {
+  assertEvidenceFile,
+  safeEvidenceFileName,
+  uploadedFile,
+} from "./evidence-files";
+import { uploadEvidenceObject } from "./storage";
+
+export const referralStatusLabels: Record<ReferralStatus, string> = {
+  RECEIVED: "Recibida",
+  EVALUATING: "En evaluacion",
+  QUOTED: "Cotizada",
+  ACCEPTED: "Aceptada",
+  REJECTED: "Rechazada",
+};
+
+export const openReferralStatuses: ReferralStatus[] = [
+  ReferralStatus.RECEIVED,
+  ReferralStatus.EVALUATING,
+  ReferralStatus.QUOTED,
+];
+
+export type ReferralAction = "evaluate" | "quote" | "accept" | "reject";
+
+export function nextReferralStatus(
+  referral: { status: ReferralStatus; evaluatedAt: Date | null },
+  action: ReferralAction,
+) {
+  const { status } = referral;
+  switch (action) {
+    case "evaluate":
+      if (!openReferralStatuses.includes(status)) break;
+      return status === ReferralStatus.QUOTED
+        ? ReferralStatus.QUOTED
+        : ReferralStatus.EVALUATING;
+    case "quote":
+      if (
+        (status === ReferralStatus.EVALUATING ||
+          status === ReferralStatus.QUOTED) &&
+        referral.evaluatedAt
+      ) {
+        return ReferralStatus.QUOTED;
+      }
+      break;
+    case "accept":
+      if (status === ReferralStatus.QUOTED) return ReferralStatus.ACCEPTED;
+      break;
+    case "reject":
+      if (openReferralStatuses.includes(status)) return ReferralStatus.REJECTED;
+      break;
+  }
+  throw new Error("REFERRAL_INVALID_STATUS");
+}
+
+export async function storeReferralAttachments(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    referralId: string;
+    uploadedById: string;
+    files: FormDataEntryValue[];
+  },
+) {
+  const files = params.files
+    .map((file) => uploadedFile(file))
+    .filter((file) => file !== null);
+  files.forEach((file) => assertEvidenceFile(file));
+  const created: ReferralAttachment[] = [];
+  for (const file of files) {
+    const fileName = file.name || "derivacion.pdf";
+    const mimeType = file.type;
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const key = `tenants/${params.tenantId}/referrals/${params.referralId}/${Date.now()}-${safeEvidenceFileName(fileName)}`;
+
+    const uploaded = await uploadEvidenceObject({
+      key,
+      body: buffer,
+      contentType: mimeType,
+    });
+
+    created.push(
+      await db.referralAttachment.create({
+        data: {
+          tenantId: params.tenantId,
+          referralId: params.referralId,
+          fileKey: uploaded.key,
+          fileUrl: uploaded.url ?? null,
+          fileName,
+          mimeType,
+          size: buffer.length,
+          uploadedById: params.uploadedById,
+        },
+      }),
+    );
+  }
+  return created;
+}
+
+// Address to geocode before accepting, or null when the patient already
+// exists. Runs ahead of convertReferral so the HTTP call stays out of the
+// transaction.
+export async function referralAddressToGeocode(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; referralId: string },
+) {
+  const referral = await db.referral.findFirst({
+    where: { id: params.referralId, tenantId: params.tenantId },
+    select: { patientDni: true, patientAddress: true },
+  });
+  if (!referral?.patientAddress) return null;
+  const existingPatient = await db.patient.findFirst({
+    where: { tenantId: params.tenantId, dni: referral.patientDni },
+    select: { id: true },
+  });
+  return existingPatient ? null : referral.patientAddress;
+}
+
+export async function convertReferral(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    actorId: string;
+    referral: Referral & { attachments: ReferralAttachment[] };
+    createAuthorization: boolean;
+    geocoded?: GeocodedAddress | null;
+    at?: Date;
+  },
+) {
+  const { tenantId, referral } = params;
+  const at = params.at ?? new Date();
+
+  const existingPatient = await db.patient.findFirst({
+    where: { tenantId, dni: referral.patientDni },
+  });
+  if (existingPatient) {
+    const activeEpisode = await db.episode.findFirst({
+      where: {
+        tenantId,
+        patientId: existingPatient.id,
+        status: { in: [EpisodeStatus.ACTIVE, EpisodeStatus.SUSPENDED] },
+      },
+    });
+    if (activeEpisode) {
+      throw new Error("REFERRAL_PATIENT_HAS_ACTIVE_EPISODE");
+    }
+  }
+  const geocoded = params.geocoded ?? null;
+  const patient =
+    existingPatient ??
+    (await db.patient.create({
+      data: {
+        tenantId,
+        firstName: referral.patientFirstName,
+        lastName: referral.patientLastName,
+        dni: referral.patientDni,
+        birthDate: referral.patientBirthDate,
+        phone: referral.patientPhone,
+        address: referral.patientAddress,
+        latitude: geocoded?.latitude ?? null,
+        longitude: geocoded?.longitude ?? null,
+        geocodedAt: geocoded ? at : null,
+        geocodeSource: geocoded?.source ?? null,
+      },
+    }));
+
+  const defaultStage = await db.episodeWorkflowStage.findFirst({
+    where: { tenantId },
+    orderBy: { sortOrder: "asc" },
+  });
+  const episode = await db.episode.create({
+    data: {
+      tenantId,
+      patientId: patient.id,
+      startDate: referral.requestedStartDate ?? at,
+      diagnosis: referral.diagnosis,
+      notes: `Derivacion ${referral.number} de ${referral.sourceInstitution}`,
+      workflowStageId: defaultStage?.id ?? null,
+    },
+  });
+  if (defaultStage) {
+    await openStageHistory(db, {
+      tenantId,
+      episodeId: episode.id,
+      stage: defaultStage,
+      actorId: params.actorId,
+      at,
+    });
+  }
+
+  let authorization = null;
+  if (params.createAuthorization && referral.payerId) {
+    const existing = await db.authorization.findFirst({
+      where: { tenantId, number: referral.number },
+    });
+    if (existing) {
+      throw new Error("AUTHORIZATION_NUMBER_TAKEN");
+    }
+    const requirements = await db.payerRequirement.findMany({
+      where: { tenantId, payerId: referral.payerId },
+    });
+    authorization = await db.authorization.create({
+      data: {
+        tenantId,
+        payerId: referral.payerId,
+        planId: referral.planId,
+        patientId: patient.id,
+        episodeId: episode.id,
+        number: referral.number,
+        status: AuthorizationStatus.PENDING,
+        startDate: episode.startDate,
+        limitAmount: referral.quotedAmount,
+        notes: `Borrador generado desde la derivacion ${referral.number}`,
+        requirements: {
+          create: requirements.map((requirement) => ({
+            tenantId,
+            requirementId: requirement.id,
+            status: "PENDING",
+          })),
+        },
+      },
+    });
+  }
+
+  if (referral.attachments.length > 0) {
+    await db.clinicalAttachment.createMany({
+      data: referral.attachments.map((attachment) => ({
+        tenantId,
+        patientId: patient.id,
+        episodeId: episode.id,
+        fileKey: attachment.fileKey,
+        fileUrl: attachment.fileUrl,
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        uploadedById: attachment.uploadedById,
+      })),
+    });
+  }
+
+  await db.referral.update({
+    where: { id: referral.id },
+    data: {
+      status: ReferralStatus.ACCEPTED,
+      decidedAt: at,
+      decidedById: params.actorId,
+      patientId: patient.id,
+      episodeId: episode.id,
+      authorizationId: authorization?.id ?? null,
+    },
+  });
+
+  return {
+    patient,
+    patientCreated: !existingPatient,
+    episode,
+    authorization,
+  };
+}
@@ -53,3 +53,22 @@ export async function nextInvoiceNumber(
   const seq = await nextSequence(db, tenantId, key);
   return formatInvoiceNumber(date, seq);
 }
+
+export function formatReferralNumber(date: Date, sequence: number): string {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const padded = `${sequence}`.padStart(6, "0");
+  return `DER-${year}${month}-${padded}`;
+}
+
+export async function nextReferralNumber(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  date = new Date(),
+) {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const key = `referral:${year}${month}`;
+  const seq = await nextSequence(db, tenantId, key);
+  return formatReferralNumber(date, seq);
+}
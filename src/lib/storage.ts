@@ -1,5 +1,6 @@
 import {
   CreateBucketCommand,
+  GetObjectCommand,
   HeadBucketCommand,
   PutObjectCommand,
   S3Client,
@@ -43,6 +44,25 @@ async function saveLocalEvidence(params: {
   return { key: params.key, url: undefined };
 }
 
+export async function readEvidenceObject(key: string) {
+  if (bucket) {
+    try {
+      const result = await s3.send(
+        new GetObjectCommand({ Bucket: bucket, Key: key }),
+      );
+      if (result.Body) {
+        return Buffer.from(await result.Body.transformToByteArray());
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === "production") {
+        throw error;
+      }
+    }
+  }
+  const filePath = path.join(localEvidenceDir, ...key.split("/"));
+  return fs.readFile(filePath);
+}
+
 export async function uploadEvidenceObject(params: {
   key: string;
   body: Buffer;
@@ -0,0 +1,90 @@
+import { Prisma, VisitType } from "@prisma/client";
+
+export const defaultChecklistItems = [
+  { key: "patient_identity", label: "Identificacion del paciente" },
+  { key: "hand_hygiene", label: "Higiene de manos" },
+  { key: "vitals", label: "Signos vitales registrados" },
+  { key: "intervention", label: "Intervencion realizada" },
+  { key: "consumables", label: "Consumibles registrados" },
+  { key: "next_visit", label: "Proxima visita coordinada" },
+];
+
+export const visitTypeLabels: Record<VisitType, string> = {
+  GENERAL: "General",
+  NURSING: "Enfermeria",
+  KINESIOLOGY: "Kinesiologia",
+  WOUND_CARE: "Curaciones",
+  MEDICAL: "Medica",
+};
+
+export type ChecklistEntry = {
+  key: string;
+  label: string;
+  isRequired: boolean;
+};
+
+type TemplateWithItems = {
+  visitType: VisitType;
+  isActive: boolean;
+  items: Array<ChecklistEntry & { sortOrder: number }>;
+};
+
+export function checklistItemKey(label: string) {
+  return label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+}
+
+export function resolveChecklistItems(
+  templates: TemplateWithItems[],
+  visitType: VisitType,
+): ChecklistEntry[] {
+  const usable = (type: VisitType) =>
+    templates.find(
+      (template) =>
+        template.visitType === type &&
+        template.isActive &&
+        template.items.length > 0,
+    );
+  const template = usable(visitType) ?? usable(VisitType.GENERAL);
+  if (!template) {
+    return defaultChecklistItems.map((item) => ({ ...item, isRequired: true }));
+  }
+  return [...template.items]
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map((item) => ({
+      key: item.key,
+      label: item.label,
+      isRequired: item.isRequired,
+    }));
+}
+
+export async function createVisitChecklists(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; visitIds: string[]; visitType: VisitType },
+) {
+  if (params.visitIds.length === 0) return;
+  const templates = await db.checklistTemplate.findMany({
+    where: {
+      tenantId: params.tenantId,
+      visitType: { in: [params.visitType, VisitType.GENERAL] },
+    },
+    include: { items: true },
+  });
+  const items = resolveChecklistItems(templates, params.visitType);
+  await db.visitChecklistItem.createMany({
+    data: params.visitIds.flatMap((visitId) =>
+      items.map((item) => ({
+        tenantId: params.tenantId,
+        visitId,
+        key: item.key,
+        label: item.label,
+        isRequired: item.isRequired,
+      })),
+    ),
+  });
+}
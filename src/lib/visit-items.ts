@@ -0,0 +1,73 @@
+import { Prisma } from "@prisma/client";
+import { logAudit } from "./audit";
+
+export async function consumeVisitItem(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    actorId: string;
+    visitId: string;
+    productId: string;
+    warehouseId: string;
+    quantity: number;
+  },
+) {
+  const warehouse = await db.warehouse.findFirst({
+    where: { id: params.warehouseId, tenantId: params.tenantId },
+  });
+  if (!warehouse) {
+    throw new Error("WAREHOUSE_NOT_FOUND");
+  }
+
+  const product = await db.product.findFirst({
+    where: { id: params.productId, tenantId: params.tenantId },
+  });
+  if (!product) {
+    throw new Error("PRODUCT_NOT_FOUND");
+  }
+
+  if (!Number.isInteger(params.quantity) || params.quantity <= 0) {
+    throw new Error("INVALID_QUANTITY");
+  }
+
+  const item = await db.visitItem.create({
+    data: {
+      visitId: params.visitId,
+      productId: product.id,
+      quantity: params.quantity,
+      warehouseId: warehouse.id,
+    },
+  });
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action: "visit.item.add",
+    entityType: "VisitItem",
+    entityId: item.id,
+  });
+
+  const movement = await db.stockMovement.create({
+    data: {
+      tenantId: params.tenantId,
+      warehouseId: warehouse.id,
+      productId: product.id,
+      type: "OUT",
+      quantity: params.quantity,
+      referenceType: "VISIT_ITEM",
+      referenceId: item.id,
+      createdById: params.actorId,
+    },
+  });
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action: "stock.movement.visit_item",
+    entityType: "StockMovement",
+    entityId: movement.id,
+    meta: { quantity: params.quantity, productId: product.id },
+  });
+
+  return item;
+}
@@ -0,0 +1,339 @@
+import { Prisma, VisitStatus, VisitType } from "@prisma/client";
+import { z } from "zod";
+import { createVisitChecklists } from "./visit-checklist";
+import {
+  DEFAULT_VISIT_MINUTES,
+  loadAvailabilityCalendar,
+} from "./availability";
+import { defaultAssigneeForVisit } from "./care-team";
+import { findCredentialIssues, loadCredentialPolicy } from "./credentials";
+
+export const MAX_GENERATED_VISITS = 400;
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+export const recurrenceSchema = z
+  .object({
+    type: z.enum(["DAILY", "WEEKLY", "HOURLY"]),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    durationDays: z.number().int().min(1).max(365),
+    times: z.array(timeSchema).min(1),
+    weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+    intervalHours: z.number().int().min(1).max(168).optional(),
+  })
+  .refine(
+    (value) => value.type !== "WEEKLY" || (value.weekdays?.length ?? 0) > 0,
+    { path: ["weekdays"] },
+  )
+  .refine((value) => value.type !== "HOURLY" || !!value.intervalHours, {
+    path: ["intervalHours"],
+  });
+
+export type VisitRecurrence = z.infer<typeof recurrenceSchema>;
+
+const weekdayLabels = ["Dom", "Lun", "Mar", "Mie", "Jue", "Vie", "Sab"];
+
+export function parseRecurrence(value: Prisma.JsonValue | null | undefined) {
+  const parsed = recurrenceSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+// jsonb does not keep key order, so compare recurrences field by field.
+export function sameRecurrence(
+  a: Prisma.JsonValue | null | undefined,
+  b: Prisma.JsonValue | null | undefined,
+) {
+  const key = (value: Prisma.JsonValue | null | undefined) => {
+    const recurrence = parseRecurrence(value);
+    return recurrence
+      ? JSON.stringify(
+          Object.entries(recurrence).sort(([left], [right]) =>
+            left.localeCompare(right),
+          ),
+        )
+      : null;
+  };
+  return key(a) === key(b);
+}
+
+function parseDateOnly(value: string) {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function atTime(day: Date, time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  const result = new Date(day);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+export function describeRecurrence(recurrence: VisitRecurrence) {
+  const times = [...recurrence.times].sort().join(", ");
+  const span = `por ${recurrence.durationDays} dias`;
+  if (recurrence.type === "HOURLY") {
+    return `Cada ${recurrence.intervalHours} h desde ${recurrence.times[0]} ${span}`;
+  }
+  if (recurrence.type === "DAILY") {
+    return `${recurrence.times.length}x/dia ${times} ${span}`;
+  }
+  const weekdays = [...(recurrence.weekdays ?? [])]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((day) => weekdayLabels[day]);
+  return `${weekdays.length * recurrence.times.length}x/semana ${weekdays.join("-")} ${times} ${span}`;
+}
+
+export function buildVisitOccurrences(
+  recurrence: VisitRecurrence,
+  window: { from: Date; until?: Date | null },
+) {
+  const start = parseDateOnly(recurrence.startDate);
+  const end = new Date(start);
+  end.setDate(end.getDate() + recurrence.durationDays);
+  const limit = window.until && window.until < end ? window.until : end;
+
+  const occurrences: Date[] = [];
+  const push = (date: Date) => {
+    if (date < window.from || date >= limit) return;
+    occurrences.push(date);
+    if (occurrences.length > MAX_GENERATED_VISITS) {
+      throw new Error("RECURRENCE_TOO_LARGE");
+    }
+  };
+
+  if (recurrence.type === "HOURLY") {
+    const stepMs = (recurrence.intervalHours ?? 24) * 60 * 60 * 1000;
+    for (
+      let cursor = atTime(start, recurrence.times[0]);
+      cursor < limit;
+      cursor = new Date(cursor.getTime() + stepMs)
+    ) {
+      push(cursor);
+    }
+    return occurrences;
+  }
+
+  for (const day = new Date(start); day < end; day.setDate(day.getDate() + 1)) {
+    if (
+      recurrence.type === "WEEKLY" &&
+      !recurrence.weekdays?.includes(day.getDay())
+    ) {
+      continue;
+    }
+    for (const time of recurrence.times) {
+      push(atTime(day, time));
+    }
+  }
+
+  return occurrences.sort((a, b) => a.getTime() - b.getTime());
+}
+
+// Visits that nobody touched yet can be dropped safely; anything with clinical
+// records, consumptions or attachments stays.
+export const visitWithoutRecordsFilter = {
+  checkInAt: null,
+  clinicalNotes: { none: {} },
+  items: { none: {} },
+  attachments: { none: {} },
+  vitalSigns: { none: {} },
+  scaleAssessments: { none: {} },
+  medicationAdministrations: { none: {} },
+  woundMeasurements: { none: {} },
+  checklistItems: { none: { isCompleted: true } },
+  rescheduledTo: { none: {} },
+} satisfies Prisma.VisitWhereInput;
+
+const untouchedVisitFilter = {
+  status: VisitStatus.SCHEDULED,
+  ...visitWithoutRecordsFilter,
+} satisfies Prisma.VisitWhereInput;
+
+export async function trimCarePlanVisits(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; episodeId: string; from?: Date },
+) {
+  const result = await db.visit.deleteMany({
+    where: {
+      tenantId: params.tenantId,
+      episodeId: params.episodeId,
+      carePlanId: { not: null },
+      scheduledAt: { gte: params.from ?? new Date() },
+      ...untouchedVisitFilter,
+    },
+  });
+  return result.count;
+}
+
+// A care-plan visit moved by hand (for example by an accepted route) keeps the
+// slot it was generated for, so later syncs leave it where it was put.
+export function movedVisitData(
+  visit: {
+    carePlanId: string | null;
+    plannedAt: Date | null;
+    scheduledAt: Date;
+  },
+  scheduledAt: Date,
+) {
+  return {
+    scheduledAt,
+    plannedAt: visit.carePlanId
+      ? (visit.plannedAt ?? visit.scheduledAt)
+      : visit.plannedAt,
+  };
+}
+
+export function diffCarePlanVisits(params: {
+  occurrences: Date[];
+  visitType: VisitType;
+  existing: {
+    id: string;
+    scheduledAt: Date;
+    plannedAt: Date | null;
+    type: VisitType;
+  }[];
+}) {
+  const wanted = new Set(params.occurrences.map((date) => date.getTime()));
+  const kept = params.existing.filter(
+    (visit) =>
+      visit.plannedAt !== null ||
+      (visit.type === params.visitType &&
+        wanted.has(visit.scheduledAt.getTime())),
+  );
+  const covered = new Set(
+    kept.map((visit) => (visit.plannedAt ?? visit.scheduledAt).getTime()),
+  );
+  return {
+    staleIds: params.existing
+      .filter((visit) => !kept.includes(visit))
+      .map((visit) => visit.id),
+    missing: params.occurrences.filter((date) => !covered.has(date.getTime())),
+  };
+}
+
+export async function syncCarePlanVisits(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    carePlanId: string;
+    createdById: string;
+    now?: Date;
+  },
+) {
+  const carePlan = await db.episodeCarePlan.findFirst({
+    where: { id: params.carePlanId, tenantId: params.tenantId },
+    include: { episode: { include: { careTeam: true } } },
+  });
+  if (!carePlan) {
+    throw new Error("CARE_PLAN_NOT_FOUND");
+  }
+
+  const now = params.now ?? new Date();
+  const recurrence = parseRecurrence(carePlan.recurrence);
+  const occurrences =
+    recurrence && carePlan.episode.status === "ACTIVE"
+      ? buildVisitOccurrences(recurrence, {
+          from: now,
+          until: carePlan.episode.endDate,
+        })
+      : [];
+
+  const existing = await db.visit.findMany({
+    where: {
+      tenantId: params.tenantId,
+      carePlanId: carePlan.id,
+      status: VisitStatus.SCHEDULED,
+      OR: [{ scheduledAt: { gte: now } }, { plannedAt: { gte: now } }],
+    },
+    select: { id: true, scheduledAt: true, plannedAt: true, type: true },
+  });
+
+  const { staleIds, missing } = diffCarePlanVisits({
+    occurrences,
+    visitType: carePlan.visitType,
+    existing,
+  });
+  const removed =
+    staleIds.length > 0
+      ? (
+          await db.visit.deleteMany({
+            where: { id: { in: staleIds }, ...untouchedVisitFilter },
+          })
+        ).count
+      : 0;
+
+  const [{ requireCredentials }, credentials] = await Promise.all([
+    loadCredentialPolicy(db, params.tenantId),
+    db.professionalCredential.findMany({
+      where: {
+        tenantId: params.tenantId,
+        userId: {
+          in: carePlan.episode.careTeam.map((member) => member.userId),
+        },
+      },
+    }),
+  ]);
+  const credentialedMembers = (at: Date) =>
+    carePlan.episode.careTeam.filter(
+      (member) =>
+        findCredentialIssues({
+          credentials: credentials.filter(
+            (credential) => credential.userId === member.userId,
+          ),
+          visitType: carePlan.visitType,
+          at,
+          requireCredentials,
+        }).length === 0,
+    );
+  // Same leave, overlap and working hours checks as manual scheduling; slots
+  // nobody on the team can cover stay unassigned for coordination.
+  const calendar =
+    missing.length > 0
+      ? await loadAvailabilityCalendar(db, {
+          tenantId: params.tenantId,
+          userIds: carePlan.episode.careTeam.map((member) => member.userId),
+          from: missing[0],
+          to: missing[missing.length - 1],
+        })
+      : null;
+  const assignees = missing.map((scheduledAt) => {
+    const userId = defaultAssigneeForVisit(
+      credentialedMembers(scheduledAt).filter((member) =>
+        calendar?.isAvailable(
+          member.userId,
+          scheduledAt,
+          DEFAULT_VISIT_MINUTES,
+        ),
+      ),
+      carePlan.visitType,
+      scheduledAt,
+    );
+    if (userId) {
+      calendar?.reserve(userId, scheduledAt, DEFAULT_VISIT_MINUTES);
+    }
+    return userId;
+  });
+  const created =
+    missing.length > 0
+      ? await db.visit.createManyAndReturn({
+          data: missing.map((scheduledAt, index) => ({
+            tenantId: params.tenantId,
+            patientId: carePlan.episode.patientId,
+            episodeId: carePlan.episodeId,
+            carePlanId: carePlan.id,
+            createdById: params.createdById,
+            assignedUserId: assignees[index],
+            type: carePlan.visitType,
+            scheduledAt,
+          })),
+          select: { id: true },
+        })
+      : [];
+
+  await createVisitChecklists(db, {
+    tenantId: params.tenantId,
+    visitIds: created.map((visit) => visit.id),
+    visitType: carePlan.visitType,
+  });
+
+  return { created: created.length, removed };
+}
@@ -0,0 +1,430 @@
+import { Prisma, VisitStatus } from "@prisma/client";
+import {
+  parseTimeOfDay,
+  startOfDay,
+  workingIntervalsForDay,
+} from "./availability";
+import { distanceMeters, type Coordinates } from "./geolocation";
+
+export const DEFAULT_TRAVEL_SPEED_KMH = 25;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const ROAD_FACTOR = 1.3;
+const SLOT_MINUTES = 5;
+const MAX_SEARCH_PASSES = 50;
+
+export type RouteStop = {
+  id: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  coordinates: Coordinates | null;
+  fixed: boolean;
+  windowStartMinute: number | null;
+  windowEndMinute: number | null;
+};
+
+export type RouteLeg = {
+  distanceMeters: number | null;
+  travelMinutes: number | null;
+};
+
+export type PlannedStop = RouteLeg & {
+  id: string;
+  scheduledAt: Date;
+  fixed: boolean;
+  lateMinutes: number;
+};
+
+export type RoutePlan = {
+  stops: PlannedStop[];
+  travelMinutes: number;
+  lateMinutes: number;
+  endAt: Date;
+};
+
+export function patientCoordinates(patient: {
+  latitude: number | null;
+  longitude: number | null;
+}): Coordinates | null {
+  return patient.latitude !== null && patient.longitude !== null
+    ? { latitude: patient.latitude, longitude: patient.longitude }
+    : null;
+}
+
+export function isFixedVisit(visit: {
+  status: VisitStatus;
+  fixedTime: boolean;
+}) {
+  return visit.fixedTime || visit.status !== VisitStatus.SCHEDULED;
+}
+
+export function parseVisitWindow(start: unknown, end: unknown) {
+  const hasStart = typeof start === "string" && start.trim() !== "";
+  const hasEnd = typeof end === "string" && end.trim() !== "";
+  const windowStartMinute = hasStart ? parseTimeOfDay(start) : null;
+  const windowEndMinute = hasEnd ? parseTimeOfDay(end) : null;
+  if (
+    (hasStart && windowStartMinute === null) ||
+    (hasEnd && windowEndMinute === null) ||
+    (windowStartMinute !== null &&
+      windowEndMinute !== null &&
+      windowEndMinute <= windowStartMinute)
+  ) {
+    throw new Error("VISIT_WINDOW_INVALID");
+  }
+  return { windowStartMinute, windowEndMinute };
+}
+
+type RouteVisit = {
+  id: string;
+  status: VisitStatus;
+  scheduledAt: Date;
+  durationMinutes: number;
+  fixedTime: boolean;
+  windowStartMinute: number | null;
+  windowEndMinute: number | null;
+  patient: { latitude: number | null; longitude: number | null };
+};
+
+export function toRouteStop(visit: RouteVisit): RouteStop {
+  return {
+    id: visit.id,
+    scheduledAt: visit.scheduledAt,
+    durationMinutes: visit.durationMinutes,
+    coordinates: patientCoordinates(visit.patient),
+    fixed: isFixedVisit(visit),
+    windowStartMinute: visit.windowStartMinute,
+    windowEndMinute: visit.windowEndMinute,
+  };
+}
+
+export function estimateTravel(
+  from: Coordinates | null,
+  to: Coordinates | null,
+  speedKmh: number,
+): RouteLeg {
+  if (!from || !to) return { distanceMeters: null, travelMinutes: null };
+  const meters = distanceMeters(from, to) * ROAD_FACTOR;
+  return {
+    distanceMeters: Math.round(meters),
+    travelMinutes: Math.ceil((meters / 1000 / speedKmh) * 60),
+  };
+}
+
+export function summarizeRoute(stops: RouteStop[], speedKmh: number) {
+  const ordered = [...stops].sort(
+    (a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime(),
+  );
+  let location: Coordinates | null = null;
+  const legs = new Map<string, RouteLeg>();
+  for (const stop of ordered) {
+    legs.set(stop.id, estimateTravel(location, stop.coordinates, speedKmh));
+    location = stop.coordinates ?? location;
+  }
+  return {
+    legs,
+    travelMinutes: [...legs.values()].reduce(
+      (sum, leg) => sum + (leg.travelMinutes ?? 0),
+      0,
+    ),
+    missingCoordinates: ordered.filter((stop) => !stop.coordinates).length,
+  };
+}
+
+export function dailyTravelLegs(
+  visits: (RouteVisit & { assignedUserId: string | null })[],
+  speedKmh: number,
+) {
+  const routes = new Map<string, RouteStop[]>();
+  for (const visit of visits) {
+    if (!visit.assignedUserId || visit.status === VisitStatus.CANCELLED) {
+      continue;
+    }
+    const key = `${visit.assignedUserId}:${startOfDay(visit.scheduledAt).getTime()}`;
+    routes.set(key, [...(routes.get(key) ?? []), toRouteStop(visit)]);
+  }
+  const legs = new Map<string, RouteLeg>();
+  for (const stops of routes.values()) {
+    summarizeRoute(stops, speedKmh).legs.forEach((leg, id) =>
+      legs.set(id, leg),
+    );
+  }
+  return legs;
+}
+
+function roundUpToSlot(ms: number) {
+  const slot = SLOT_MINUTES * MINUTE_MS;
+  return Math.ceil(ms / slot) * slot;
+}
+
+function simulateRoute(
+  order: RouteStop[],
+  fixed: RouteStop[],
+  startAt: Date,
+  speedKmh: number,
+): RoutePlan {
+  const dayStart = startOfDay(startAt).getTime();
+  const pending = [...fixed].sort(
+    (a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime(),
+  );
+  const stops: PlannedStop[] = [];
+  let time = startAt.getTime();
+  let location: Coordinates | null = null;
+
+  const place = (
+    stop: RouteStop,
+    leg: RouteLeg,
+    start: number,
+    lateMinutes: number,
+  ) => {
+    stops.push({
+      ...leg,
+      id: stop.id,
+      scheduledAt: new Date(start),
+      fixed: stop.fixed,
+      lateMinutes,
+    });
+    time = start + stop.durationMinutes * MINUTE_MS;
+    location = stop.coordinates ?? location;
+  };
+
+  const placeFixed = (stop: RouteStop) => {
+    const leg = estimateTravel(location, stop.coordinates, speedKmh);
+    const arrival = time + (leg.travelMinutes ?? 0) * MINUTE_MS;
+    const scheduled = stop.scheduledAt.getTime();
+    place(
+      stop,
+      leg,
+      Math.max(arrival, scheduled),
+      Math.max(0, Math.round((arrival - scheduled) / MINUTE_MS)),
+    );
+  };
+
+  for (const stop of order) {
+    for (;;) {
+      const leg = estimateTravel(location, stop.coordinates, speedKmh);
+      const arrival = time + (leg.travelMinutes ?? 0) * MINUTE_MS;
+      const windowStart =
+        stop.windowStartMinute !== null
+          ? dayStart + stop.windowStartMinute * MINUTE_MS
+          : arrival;
+      const start = roundUpToSlot(Math.max(arrival, windowStart));
+      const next = pending[0];
+      if (next) {
+        const toNext = estimateTravel(
+          stop.coordinates ?? location,
+          next.coordinates,
+          speedKmh,
+        );
+        const finish =
+          start +
+          (stop.durationMinutes + (toNext.travelMinutes ?? 0)) * MINUTE_MS;
+        if (finish > next.scheduledAt.getTime()) {
+          placeFixed(pending.shift()!);
+          continue;
+        }
+      }
+      const windowEnd =
+        stop.windowEndMinute !== null
+          ? dayStart + stop.windowEndMinute * MINUTE_MS
+          : null;
+      place(
+        stop,
+        leg,
+        start,
+        windowEnd !== null
+          ? Math.max(0, Math.round((start - windowEnd) / MINUTE_MS))
+          : 0,
+      );
+      break;
+    }
+  }
+  pending.forEach(placeFixed);
+
+  return {
+    stops,
+    travelMinutes: stops.reduce(
+      (sum, stop) => sum + (stop.travelMinutes ?? 0),
+      0,
+    ),
+    lateMinutes: stops.reduce((sum, stop) => sum + stop.lateMinutes, 0),
+    endAt: new Date(time),
+  };
+}
+
+function isBetter(a: RoutePlan, b: RoutePlan) {
+  if (a.lateMinutes !== b.lateMinutes) return a.lateMinutes < b.lateMinutes;
+  if (a.travelMinutes !== b.travelMinutes) {
+    return a.travelMinutes < b.travelMinutes;
+  }
+  return a.endAt < b.endAt;
+}
+
+function greedyOrder(
+  flexible: RouteStop[],
+  run: (order: RouteStop[]) => RoutePlan,
+) {
+  const order: RouteStop[] = [];
+  const remaining = [...flexible];
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let best: RoutePlan | null = null;
+    remaining.forEach((candidate, index) => {
+      const plan = run([...order, candidate]);
+      if (
+        !best ||
+        plan.lateMinutes < best.lateMinutes ||
+        (plan.lateMinutes === best.lateMinutes &&
+          (plan.endAt < best.endAt ||
+            (plan.endAt.getTime() === best.endAt.getTime() &&
+              plan.travelMinutes < best.travelMinutes)))
+      ) {
+        best = plan;
+        bestIndex = index;
+      }
+    });
+    order.push(...remaining.splice(bestIndex, 1));
+  }
+  return order;
+}
+
+function neighbours(order: RouteStop[]) {
+  const result: RouteStop[][] = [];
+  for (let from = 0; from < order.length; from += 1) {
+    for (let to = 0; to < order.length; to += 1) {
+      if (from === to) continue;
+      const moved = [...order];
+      const [stop] = moved.splice(from, 1);
+      moved.splice(to, 0, stop);
+      result.push(moved);
+    }
+  }
+  for (let start = 0; start < order.length - 1; start += 1) {
+    for (let end = start + 2; end <= order.length; end += 1) {
+      result.push([
+        ...order.slice(0, start),
+        ...order.slice(start, end).reverse(),
+        ...order.slice(end),
+      ]);
+    }
+  }
+  return result;
+}
+
+export function optimizeRoute(params: {
+  stops: RouteStop[];
+  startAt: Date;
+  speedKmh: number;
+}) {
+  const fixed = params.stops.filter((stop) => stop.fixed);
+  const flexible = params.stops
+    .filter((stop) => !stop.fixed)
+    .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  const run = (order: RouteStop[]) =>
+    simulateRoute(order, fixed, params.startAt, params.speedKmh);
+
+  let bestOrder = flexible;
+  let best = run(flexible);
+  const greedy = greedyOrder(flexible, run);
+  const greedyPlan = run(greedy);
+  if (isBetter(greedyPlan, best)) {
+    bestOrder = greedy;
+    best = greedyPlan;
+  }
+
+  for (let pass = 0; pass < MAX_SEARCH_PASSES; pass += 1) {
+    let improved = false;
+    for (const candidate of neighbours(bestOrder)) {
+      const plan = run(candidate);
+      if (isBetter(plan, best)) {
+        bestOrder = candidate;
+        best = plan;
+        improved = true;
+      }
+    }
+    if (!improved) break;
+  }
+
+  return best;
+}
+
+export function routeStartAt(params: {
+  day: Date;
+  workingHours: { weekday: number; startMinute: number; endMinute: number }[];
+  shifts: { start: Date; end: Date }[];
+  stops: RouteStop[];
+  now: Date;
+}) {
+  const working = workingIntervalsForDay(
+    params.day,
+    params.workingHours,
+    params.shifts,
+  );
+  const earliestVisit = Math.min(
+    ...params.stops.map((stop) => stop.scheduledAt.getTime()),
+  );
+  const start = working[0]?.start.getTime() ?? earliestVisit;
+  return new Date(Math.max(start, roundUpToSlot(params.now.getTime())));
+}
+
+export async function loadTravelSpeed(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+) {
+  const policy = await db.tenantPolicy.findUnique({ where: { tenantId } });
+  return policy?.travelSpeedKmh ?? DEFAULT_TRAVEL_SPEED_KMH;
+}
+
+export async function loadDailyRoute(
+  db: Prisma.TransactionClient,
+  params: { tenantId: string; userId: string; day: Date; now: Date },
+) {
+  const dayStart = startOfDay(params.day);
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+  const [visits, workingHours, shifts, speedKmh] = await Promise.all([
+    db.visit.findMany({
+      where: {
+        tenantId: params.tenantId,
+        assignedUserId: params.userId,
+        scheduledAt: { gte: dayStart, lt: dayEnd },
+        status: { not: VisitStatus.CANCELLED },
+      },
+      include: { patient: true },
+      orderBy: { scheduledAt: "asc" },
+    }),
+    db.professionalWorkingHours.findMany({
+      where: { tenantId: params.tenantId, userId: params.userId },
+    }),
+    db.professionalShift.findMany({
+      where: {
+        tenantId: params.tenantId,
+        userId: params.userId,
+        startsAt: { lt: dayEnd },
+        endsAt: { gt: dayStart },
+      },
+    }),
+    loadTravelSpeed(db, params.tenantId),
+  ]);
+  const stops = visits.map(toRouteStop);
+  if (stops.length === 0) {
+    return { visits, stops, speedKmh, current: null, plan: null };
+  }
+  const startAt = routeStartAt({
+    day: dayStart,
+    workingHours,
+    shifts: shifts.map((shift) => ({
+      start: shift.startsAt,
+      end: shift.endsAt,
+    })),
+    stops,
+    now: params.now,
+  });
+  return {
+    visits,
+    stops,
+    speedKmh,
+    current: summarizeRoute(stops, speedKmh),
+    plan: startAt < dayEnd ? optimizeRoute({ stops, startAt, speedKmh }) : null,
+  };
+}
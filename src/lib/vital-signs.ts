@@ -0,0 +1,256 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { coordinatorRoles, notifyRoles } from "./notifications";
+
+export const vitalSignFields = [
+  {
+    key: "temperature",
+    label: "Temperatura",
+    unit: "C",
+    step: 0.1,
+    range: [30, 45],
+    thresholds: { min: 35.5, max: 38 },
+  },
+  {
+    key: "systolic",
+    label: "TA sistolica",
+    unit: "mmHg",
+    step: 1,
+    range: [40, 280],
+    thresholds: { min: 90, max: 140 },
+  },
+  {
+    key: "diastolic",
+    label: "TA diastolica",
+    unit: "mmHg",
+    step: 1,
+    range: [20, 180],
+    thresholds: { min: 60, max: 90 },
+  },
+  {
+    key: "heartRate",
+    label: "Frecuencia cardiaca",
+    unit: "lpm",
+    step: 1,
+    range: [20, 250],
+    thresholds: { min: 50, max: 110 },
+  },
+  {
+    key: "respiratoryRate",
+    label: "Frecuencia respiratoria",
+    unit: "rpm",
+    step: 1,
+    range: [4, 70],
+    thresholds: { min: 12, max: 24 },
+  },
+  {
+    key: "spo2",
+    label: "SpO2",
+    unit: "%",
+    step: 1,
+    range: [40, 100],
+    thresholds: { min: 92, max: null },
+  },
+  {
+    key: "glucose",
+    label: "Glucemia",
+    unit: "mg/dL",
+    step: 1,
+    range: [10, 800],
+    thresholds: { min: 70, max: 180 },
+  },
+  {
+    key: "painScore",
+    label: "Dolor (EVA)",
+    unit: "/10",
+    step: 1,
+    range: [0, 10],
+    thresholds: { min: null, max: 6 },
+  },
+  {
+    key: "weight",
+    label: "Peso",
+    unit: "kg",
+    step: 0.1,
+    range: [0.5, 350],
+    thresholds: { min: null, max: null },
+  },
+] as const;
+
+export type VitalSignKey = (typeof vitalSignFields)[number]["key"];
+
+export type VitalSignValues = Partial<Record<VitalSignKey, number>>;
+
+export type VitalThreshold = { min: number | null; max: number | null };
+
+export type VitalThresholds = Record<VitalSignKey, VitalThreshold>;
+
+export type VitalAlert = {
+  key: VitalSignKey;
+  label: string;
+  value: number;
+  min: number | null;
+  max: number | null;
+};
+
+const integerVitals = new Set<VitalSignKey>([
+  "systolic",
+  "diastolic",
+  "heartRate",
+  "respiratoryRate",
+  "spo2",
+  "glucose",
+  "painScore",
+]);
+
+const thresholdSchema = z.object({
+  min: z.number().nullable(),
+  max: z.number().nullable(),
+});
+
+export function resolveVitalThresholds(json: unknown): VitalThresholds {
+  const overrides =
+    json && typeof json === "object" && !Array.isArray(json)
+      ? (json as Record<string, unknown>)
+      : {};
+  return Object.fromEntries(
+    vitalSignFields.map((field) => {
+      const parsed = thresholdSchema.safeParse(overrides[field.key]);
+      return [
+        field.key,
+        parsed.success ? parsed.data : { ...field.thresholds },
+      ];
+    }),
+  ) as VitalThresholds;
+}
+
+function toNumber(raw: unknown) {
+  if (raw === null || raw === undefined) return null;
+  const text = String(raw).trim().replace(",", ".");
+  if (!text) return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : Number.NaN;
+}
+
+export function parseVitalSignValues(
+  input: Record<string, unknown>,
+): VitalSignValues {
+  const values: VitalSignValues = {};
+  for (const field of vitalSignFields) {
+    const value = toNumber(input[field.key]);
+    if (value === null) continue;
+    if (
+      Number.isNaN(value) ||
+      value < field.range[0] ||
+      value > field.range[1] ||
+      (integerVitals.has(field.key) && !Number.isInteger(value))
+    ) {
+      throw new Error("VITALS_INVALID");
+    }
+    values[field.key] = value;
+  }
+  if (Object.keys(values).length === 0) {
+    throw new Error("VITALS_REQUIRED");
+  }
+  if (
+    values.systolic !== undefined &&
+    values.diastolic !== undefined &&
+    values.diastolic >= values.systolic
+  ) {
+    throw new Error("VITALS_INVALID");
+  }
+  return values;
+}
+
+export function parseVitalThresholdsForm(
+  input: Record<string, unknown>,
+): VitalThresholds {
+  return Object.fromEntries(
+    vitalSignFields.map((field) => {
+      const min = toNumber(input[`${field.key}Min`]);
+      const max = toNumber(input[`${field.key}Max`]);
+      if (Number.isNaN(min) || Number.isNaN(max)) {
+        throw new Error("VALIDATION_ERROR");
+      }
+      if (min !== null && max !== null && min > max) {
+        throw new Error("VALIDATION_ERROR");
+      }
+      return [field.key, { min, max }];
+    }),
+  ) as VitalThresholds;
+}
+
+export function evaluateVitalSigns(
+  values: VitalSignValues,
+  thresholds: VitalThresholds,
+): VitalAlert[] {
+  return vitalSignFields.flatMap((field) => {
+    const value = values[field.key];
+    if (value === undefined) return [];
+    const { min, max } = thresholds[field.key];
+    const outOfRange =
+      (min !== null && value < min) || (max !== null && value > max);
+    return outOfRange
+      ? [{ key: field.key, label: field.label, value, min, max }]
+      : [];
+  });
+}
+
+export function describeVitalAlert(alert: VitalAlert) {
+  const range = [
+    alert.min !== null ? `min ${alert.min}` : null,
+    alert.max !== null ? `max ${alert.max}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  return `${alert.label} ${alert.value} (${range})`;
+}
+
+export async function recordVitalSigns(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    visit: {
+      id: string;
+      patientId: string;
+      episodeId: string | null;
+      patient: { firstName: string; lastName: string };
+    };
+    recordedById: string;
+    values: VitalSignValues;
+  },
+) {
+  const policy = await db.tenantPolicy.findUnique({
+    where: { tenantId: params.tenantId },
+  });
+  const alerts = evaluateVitalSigns(
+    params.values,
+    resolveVitalThresholds(policy?.vitalThresholds),
+  );
+
+  const vitalSign = await db.vitalSign.create({
+    data: {
+      tenantId: params.tenantId,
+      patientId: params.visit.patientId,
+      episodeId: params.visit.episodeId,
+      visitId: params.visit.id,
+      recordedById: params.recordedById,
+      ...params.values,
+      alerts: alerts.length > 0 ? alerts : Prisma.DbNull,
+    },
+  });
+
+  if (alerts.length > 0) {
+    await notifyRoles(db, params.tenantId, coordinatorRoles, [
+      {
+        type: "vitals.abnormal",
+        title: `Signos vitales fuera de rango: ${params.visit.patient.lastName}, ${params.visit.patient.firstName}`,
+        body: alerts.map(describeVitalAlert).join("; "),
+        entityType: params.visit.episodeId ? "Episode" : "Visit",
+        entityId: params.visit.episodeId ?? params.visit.id,
+      },
+    ]);
+  }
+
+  return { vitalSign, alerts };
+}
@@ -0,0 +1,208 @@
+import {
+  Prisma,
+  WoundExudate,
+  WoundStage,
+  WoundStatus,
+  WoundType,
+} from "@prisma/client";
+import { logAudit } from "./audit";
+
+export const woundTypeLabels: Record<WoundType, string> = {
+  PRESSURE_INJURY: "Lesion por presion",
+  SURGICAL: "Herida quirurgica",
+  DIABETIC_FOOT: "Pie diabetico",
+  VENOUS: "Ulcera venosa",
+  ARTERIAL: "Ulcera arterial",
+  TRAUMATIC: "Traumatica",
+  BURN: "Quemadura",
+  OTHER: "Otra",
+};
+
+export const woundStageLabels: Record<WoundStage, string> = {
+  STAGE_1: "Estadio 1",
+  STAGE_2: "Estadio 2",
+  STAGE_3: "Estadio 3",
+  STAGE_4: "Estadio 4",
+  UNSTAGEABLE: "No estadificable",
+  DEEP_TISSUE_INJURY: "Lesion de tejido profundo",
+};
+
+export const woundStatusLabels: Record<WoundStatus, string> = {
+  ACTIVE: "Activa",
+  HEALED: "Cicatrizada",
+};
+
+export const woundExudateLabels: Record<WoundExudate, string> = {
+  NONE: "Sin exudado",
+  LOW: "Escaso",
+  MODERATE: "Moderado",
+  HIGH: "Abundante",
+};
+
+export type WoundDimensions = {
+  lengthCm: number;
+  widthCm: number;
+  depthCm: number | null;
+};
+
+function parseCentimeters(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const parsed = Number(value.replace(",", "."));
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 100) return NaN;
+  return Math.round(parsed * 10) / 10;
+}
+
+export function parseWoundDimensions(
+  values: Record<string, unknown>,
+): WoundDimensions | null {
+  const lengthCm = parseCentimeters(values.lengthCm);
+  const widthCm = parseCentimeters(values.widthCm);
+  const depthCm = parseCentimeters(values.depthCm);
+  if (lengthCm === null || widthCm === null) return null;
+  if ([lengthCm, widthCm, depthCm].some((value) => Number.isNaN(value))) {
+    return null;
+  }
+  return { lengthCm, widthCm, depthCm };
+}
+
+export function woundArea(dimensions: { lengthCm: number; widthCm: number }) {
+  return Math.round(dimensions.lengthCm * dimensions.widthCm * 100) / 100;
+}
+
+export function describeWoundDimensions(dimensions: WoundDimensions) {
+  const base = `${dimensions.lengthCm} x ${dimensions.widthCm}`;
+  return `${
+    dimensions.depthCm !== null ? `${base} x ${dimensions.depthCm}` : base
+  } cm (${woundArea(dimensions)} cm2)`;
+}
+
+export function buildWoundEvolution<
+  M extends WoundDimensions & { visitId: string; recordedAt: Date },
+  P extends { visitId: string | null; createdAt: Date },
+>(measurements: M[], photos: P[]) {
+  const byVisit = new Map<
+    string,
+    { visitId: string; at: Date; measurement: M | null; photos: P[] }
+  >();
+  const entryFor = (visitId: string, at: Date) => {
+    const entry = byVisit.get(visitId) ?? {
+      visitId,
+      at,
+      measurement: null,
+      photos: [],
+    };
+    if (at < entry.at) entry.at = at;
+    byVisit.set(visitId, entry);
+    return entry;
+  };
+
+  measurements.forEach((measurement) => {
+    const entry = entryFor(measurement.visitId, measurement.recordedAt);
+    if (
+      !entry.measurement ||
+      measurement.recordedAt > entry.measurement.recordedAt
+    ) {
+      entry.measurement = measurement;
+    }
+  });
+  photos.forEach((photo) => {
+    if (!photo.visitId) return;
+    entryFor(photo.visitId, photo.createdAt).photos.push(photo);
+  });
+
+  let baseline: number | null = null;
+  let previous: number | null = null;
+  return [...byVisit.values()]
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .map((entry) => {
+      const area = entry.measurement ? woundArea(entry.measurement) : null;
+      const change = (reference: number | null) =>
+        area !== null && reference
+          ? Math.round(((area - reference) / reference) * 1000) / 10
+          : null;
+      const result = {
+        ...entry,
+        area,
+        changeFromPrevious: change(previous),
+        changeFromBaseline: change(baseline),
+      };
+      if (area !== null) {
+        baseline = baseline ?? area;
+        previous = area;
+      }
+      return result;
+    });
+}
+
+export async function recordWoundMeasurement(
+  db: Prisma.TransactionClient,
+  params: {
+    tenantId: string;
+    actorId: string;
+    woundId: string;
+    visitId: string;
+    dimensions: WoundDimensions;
+    stage?: WoundStage | null;
+    exudate?: WoundExudate | null;
+    notes?: string | null;
+    visitScope?: Prisma.VisitWhereInput;
+  },
+) {
+  const visit = await db.visit.findFirst({
+    where: {
+      id: params.visitId,
+      tenantId: params.tenantId,
+      ...params.visitScope,
+    },
+  });
+  if (!visit) {
+    throw new Error("VISIT_NOT_FOUND");
+  }
+  if (visit.status !== "IN_PROGRESS" && visit.status !== "COMPLETED") {
+    throw new Error("INVALID_STATUS");
+  }
+
+  const wound = await db.wound.findFirst({
+    where: { id: params.woundId, tenantId: params.tenantId },
+  });
+  if (!wound || wound.episodeId !== visit.episodeId) {
+    throw new Error("WOUND_NOT_FOUND");
+  }
+  if (wound.status !== WoundStatus.ACTIVE) {
+    throw new Error("WOUND_HEALED");
+  }
+
+  const measurement = await db.woundMeasurement.create({
+    data: {
+      tenantId: params.tenantId,
+      woundId: wound.id,
+      visitId: visit.id,
+      recordedById: params.actorId,
+      ...params.dimensions,
+      stage: params.stage ?? null,
+      exudate: params.exudate ?? null,
+      notes: params.notes?.trim() || null,
+    },
+  });
+  if (params.stage && params.stage !== wound.stage) {
+    await db.wound.update({
+      where: { id: wound.id },
+      data: { stage: params.stage },
+    });
+  }
+
+  await logAudit(db, {
+    tenantId: params.tenantId,
+    actorId: params.actorId,
+    action: "wound.measurement.create",
+    entityType: "Wound",
+    entityId: wound.id,
+    meta: {
+      measurementId: measurement.id,
+      visitId: visit.id,
+      area: woundArea(params.dimensions),
+    },
+  });
+
+  return measurement;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import {
+  assessmentScales,
+  scaleMaxScore,
+  scoreAssessment,
+} from "@/lib/assessment-scales";
+
+describe("assessment scales", () => {
+  it("uses the standard score ranges", async () => {
+    expect(scaleMaxScore(assessmentScales.BARTHEL)).toBe(100);
+    expect(scaleMaxScore(assessmentScales.BRADEN)).toBe(23);
+    expect(scaleMaxScore(assessmentScales.NORTON)).toBe(20);
+    expect(scaleMaxScore(assessmentScales.GLASGOW)).toBe(15);
+    expect(scaleMaxScore(assessmentScales.KATZ)).toBe(6);
+  });
+
+  it("scores and interprets a Glasgow assessment", async () => {
+    const result = scoreAssessment("GLASGOW", {
+      eyes: "3",
+      verbal: "4",
+      motor: "5",
+    });
+    expect(result.score).toBe(12);
+    expect(result.maxScore).toBe(15);
+    expect(result.interpretation).toBe("Compromiso moderado");
+  });
+
+  it("rejects missing items and values outside the options", async () => {
+    expect(() => scoreAssessment("GLASGOW", { eyes: "3", verbal: "4" })).toThrow(
+      "ASSESSMENT_INCOMPLETE",
+    );
+    expect(() =>
+      scoreAssessment("GLASGOW", { eyes: "3", verbal: "4", motor: "7" }),
+    ).toThrow("VALIDATION_ERROR");
+  });
+});
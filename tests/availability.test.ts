@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAvailabilityCalendar,
+  findAvailabilityIssues,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  summarizeCapacity,
+  visitInterval,
+} from "@/lib/availability";
+
+const monday = new Date(2026, 2, 2);
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2026, 2, day, hours, minutes);
+
+const workingHours = [
+  { weekday: 1, startMinute: 8 * 60, endMinute: 12 * 60 },
+  { weekday: 1, startMinute: 14 * 60, endMinute: 18 * 60 },
+];
+
+describe("professional availability", () => {
+  it("parses and formats times of day", async () => {
+    expect(parseTimeOfDay("08:30")).toBe(510);
+    expect(parseTimeOfDay("24:00")).toBe(1440);
+    expect(parseTimeOfDay("25:00")).toBeNull();
+    expect(parseTimeOfDay("8")).toBeNull();
+    expect(formatTimeOfDay(510)).toBe("08:30");
+  });
+
+  it("detects overlaps, leave and out of hours visits", async () => {
+    const visits = [
+      {
+        id: "v1",
+        scheduledAt: at(2, 9),
+        durationMinutes: 60,
+        status: "SCHEDULED" as const,
+      },
+      {
+        id: "v2",
+        scheduledAt: at(2, 15),
+        durationMinutes: 60,
+        status: "MISSED" as const,
+      },
+    ];
+    const check = (start: Date, minutes: number, leaves = []) =>
+      findAvailabilityIssues({
+        interval: visitInterval({ scheduledAt: start, durationMinutes: minutes }),
+        workingHours,
+        shifts: [],
+        leaves,
+        visits,
+      }).issues;
+
+    expect(check(at(2, 10), 60)).toEqual([]);
+    expect(check(at(2, 9, 30), 60)).toEqual(["OVERLAP"]);
+    expect(check(at(2, 15), 60)).toEqual([]);
+    expect(check(at(2, 11, 30), 60)).toEqual(["OUTSIDE_HOURS"]);
+    expect(check(at(3, 10), 60)).toEqual(["OUTSIDE_HOURS"]);
+    expect(
+      findAvailabilityIssues({
+        interval: visitInterval({ scheduledAt: at(3, 10), durationMinutes: 60 }),
+        workingHours,
+        shifts: [{ start: at(3, 8), end: at(3, 20) }],
+        leaves: [{ startDate: at(3, 0), endDate: at(3, 23, 59) }],
+        visits,
+      }).issues,
+    ).toEqual(["ON_LEAVE"]);
+    expect(
+      findAvailabilityIssues({
+        interval: visitInterval({ scheduledAt: at(4, 22), durationMinutes: 60 }),
+        workingHours: [],
+        shifts: [],
+        leaves: [],
+        visits,
+      }).issues,
+    ).toEqual([]);
+  });
+
+  it("summarizes weekly capacity", async () => {
+    const capacity = summarizeCapacity({
+      from: monday,
+      days: 7,
+      workingHours,
+      shifts: [{ start: at(4, 8), end: at(4, 14) }],
+      leaves: [{ startDate: at(9, 0), endDate: at(9, 23, 59) }],
+      visits: [
+        {
+          id: "v1",
+          scheduledAt: at(2, 9),
+          durationMinutes: 90,
+          status: "COMPLETED" as const,
+        },
+        {
+          id: "v2",
+          scheduledAt: at(4, 9),
+          durationMinutes: 30,
+          status: "CANCELLED" as const,
+        },
+      ],
+    });
+    expect(capacity.days[0].availableMinutes).toBe(480);
+    expect(capacity.days[2].availableMinutes).toBe(360);
+    expect(capacity.availableMinutes).toBe(840);
+    expect(capacity.scheduledMinutes).toBe(90);
+    expect(capacity.utilisation).toBeCloseTo(90 / 840);
+  });
+
+  it("checks generated slots against leave, hours and earlier reservations", async () => {
+    const calendar = createAvailabilityCalendar({
+      workingHours: [
+        ...workingHours.map((entry) => ({ ...entry, userId: "u1" })),
+        ...workingHours.map((entry) => ({ ...entry, userId: "u2" })),
+      ],
+      shifts: [],
+      leaves: [{ userId: "u2", startDate: at(2, 0), endDate: at(3, 0) }],
+      visits: [
+        {
+          id: "v1",
+          assignedUserId: "u1",
+          scheduledAt: at(2, 9),
+          durationMinutes: 60,
+          status: "SCHEDULED" as const,
+        },
+      ],
+    });
+
+    expect(calendar.isAvailable("u1", at(2, 9, 30), 60)).toBe(false);
+    expect(calendar.isAvailable("u1", at(2, 19), 60)).toBe(false);
+    expect(calendar.isAvailable("u2", at(2, 10), 60)).toBe(false);
+    expect(calendar.isAvailable("u1", at(2, 10), 60)).toBe(true);
+    expect(calendar.issuesFor("u2", at(2, 9, 30), 60)).toEqual(["ON_LEAVE"]);
+    expect(calendar.issuesFor("u1", at(2, 9, 30), 60)).toEqual(["OVERLAP"]);
+    expect(calendar.issuesFor("u1", at(2, 9, 30), 60, "v1")).toEqual([]);
+    calendar.reserve("u1", at(2, 10), 60);
+    expect(calendar.isAvailable("u1", at(2, 10, 30), 60)).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  isObjectiveOverdue,
+  parseObjectiveLines,
+  readObjectiveUpdates,
+  summarizeObjectives,
+} from "@/lib/care-plan-objectives";
+
+describe("care plan objectives", () => {
+  it("splits objective lines", async () => {
+    expect(parseObjectiveLines("Deambular\n Cierre de herida ,\n\n")).toEqual([
+      "Deambular",
+      "Cierre de herida",
+    ]);
+    expect(parseObjectiveLines(undefined)).toEqual([]);
+  });
+
+  it("reads objective updates from form entries", async () => {
+    const updates = readObjectiveUpdates([
+      ["summary", "Nota"],
+      ["objectiveStatus_a", "MET"],
+      ["objectiveComment_a", "Logrado"],
+      ["objectiveStatus_b", ""],
+      ["objectiveComment_b", "Mejora parcial"],
+      ["objectiveStatus_c", ""],
+      ["objectiveComment_c", " "],
+      ["objectiveStatus_d", "UNKNOWN"],
+    ]);
+    expect(updates).toEqual([
+      { objectiveId: "a", status: "MET", comment: "Logrado" },
+      { objectiveId: "b", status: null, comment: "Mejora parcial" },
+    ]);
+  });
+
+  it("summarizes progress excluding cancelled objectives", async () => {
+    const now = new Date(2026, 5, 1);
+    const objectives = [
+      { status: "MET" as const, dueDate: new Date(2026, 4, 1) },
+      { status: "IN_PROGRESS" as const, dueDate: new Date(2026, 4, 15) },
+      { status: "PENDING" as const, dueDate: null },
+      { status: "CANCELLED" as const, dueDate: new Date(2026, 4, 1) },
+    ];
+    expect(isObjectiveOverdue(objectives[0], now)).toBe(false);
+    expect(isObjectiveOverdue(objectives[1], now)).toBe(true);
+    expect(summarizeObjectives(objectives, now)).toEqual({
+      total: 3,
+      pending: 1,
+      inProgress: 1,
+      met: 1,
+      notMet: 0,
+      overdue: 1,
+      metRate: 1 / 3,
+    });
+    expect(summarizeObjectives([], now).metRate).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  careTeamEpisodeScope,
+  careTeamNoteScope,
+  defaultAssigneeForVisit,
+  isTeamMemberActive,
+} from "@/lib/care-team";
+
+const members = [
+  {
+    userId: "enf-1",
+    role: "NURSE" as const,
+    startDate: new Date("2026-01-01T00:00:00Z"),
+    endDate: new Date("2026-01-31T23:59:59Z"),
+  },
+  {
+    userId: "enf-2",
+    role: "NURSE" as const,
+    startDate: new Date("2026-02-01T00:00:00Z"),
+    endDate: null,
+  },
+  {
+    userId: "med-1",
+    role: "PHYSICIAN" as const,
+    startDate: new Date("2026-01-01T00:00:00Z"),
+    endDate: null,
+  },
+];
+
+describe("care team", () => {
+  it("checks membership dates", async () => {
+    expect(
+      isTeamMemberActive(members[0], new Date("2026-01-15T10:00:00Z")),
+    ).toBe(true);
+    expect(
+      isTeamMemberActive(members[0], new Date("2026-02-02T10:00:00Z")),
+    ).toBe(false);
+    expect(
+      isTeamMemberActive(members[1], new Date("2026-01-15T10:00:00Z")),
+    ).toBe(false);
+  });
+
+  it("picks the active team member for the visit type", async () => {
+    expect(
+      defaultAssigneeForVisit(
+        members,
+        "NURSING",
+        new Date("2026-01-10T10:00:00Z"),
+      ),
+    ).toBe("enf-1");
+    expect(
+      defaultAssigneeForVisit(
+        members,
+        "WOUND_CARE",
+        new Date("2026-03-10T10:00:00Z"),
+      ),
+    ).toBe("enf-2");
+    expect(
+      defaultAssigneeForVisit(
+        members,
+        "MEDICAL",
+        new Date("2026-03-10T10:00:00Z"),
+      ),
+    ).toBe("med-1");
+    expect(
+      defaultAssigneeForVisit(
+        members.slice(2),
+        "GENERAL",
+        new Date("2026-03-10T10:00:00Z"),
+      ),
+    ).toBe("med-1");
+    expect(
+      defaultAssigneeForVisit(
+        members,
+        "KINESIOLOGY",
+        new Date("2026-03-10T10:00:00Z"),
+      ),
+    ).toBeNull();
+  });
+
+  it("only scopes professionals to their teams", async () => {
+    const at = new Date("2026-03-10T10:00:00Z");
+    expect(careTeamEpisodeScope({ id: "u1", role: "COORDINACION" }, at)).toEqual(
+      {},
+    );
+    expect(careTeamEpisodeScope(null, at)).toEqual({});
+    expect(careTeamEpisodeScope({ id: "u1", role: "PROFESIONAL" }, at)).toEqual({
+      careTeam: {
+        some: {
+          userId: "u1",
+          startDate: { lte: at },
+          OR: [{ endDate: null }, { endDate: { gte: at } }],
+        },
+      },
+    });
+  });
+
+  it("scopes notes through their visit or episode", async () => {
+    const at = new Date("2026-03-10T10:00:00Z");
+    const user = { id: "u1", role: "PROFESIONAL" };
+    const episode = careTeamEpisodeScope(user, at);
+    expect(careTeamNoteScope({ id: "u1", role: "COORDINACION" }, at)).toEqual(
+      {},
+    );
+    expect(careTeamNoteScope(user, at)).toEqual({
+      OR: [
+        { visit: { OR: [{ assignedUserId: "u1" }, { episode }] } },
+        { episode },
+      ],
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildNoteStructured,
+  clinicalNoteHash,
+  verifyClinicalNote,
+} from "@/lib/clinical-notes";
+
+describe("clinical notes", () => {
+  const signedAt = new Date("2026-10-19T12:00:00Z");
+  const note = {
+    id: "note-1",
+    authorId: "user-1",
+    content: "Paciente estable",
+    structured: { plan: "Control en 48 hs" },
+    amendsId: null,
+    signedById: "user-1",
+    signedAt,
+  };
+
+  it("drops empty SOAP fields", async () => {
+    expect(
+      buildNoteStructured({ subjective: "  ", plan: " Curacion " }),
+    ).toMatchObject({ plan: "Curacion" });
+    expect(buildNoteStructured({ subjective: "", objective: " " })).toBeNull();
+  });
+
+  it("verifies the signed hash and detects tampering", async () => {
+    const contentHash = clinicalNoteHash(note);
+    expect(contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyClinicalNote({ ...note, contentHash })).toBe(true);
+    expect(
+      verifyClinicalNote({ ...note, content: "Paciente inestable", contentHash }),
+    ).toBe(false);
+    expect(
+      verifyClinicalNote({ ...note, signedAt: null, contentHash: null }),
+    ).toBe(false);
+  });
+
+  it("chains addenda to the original hash", async () => {
+    const original = clinicalNoteHash(note);
+    const addendum = {
+      ...note,
+      id: "note-2",
+      content: "Corrige plan",
+      structured: null,
+      amendsId: "note-1",
+    };
+    const contentHash = clinicalNoteHash({ ...addendum, amendsHash: original });
+    expect(verifyClinicalNote({ ...addendum, contentHash }, original)).toBe(true);
+    expect(verifyClinicalNote({ ...addendum, contentHash }, "other")).toBe(false);
+  });
+});
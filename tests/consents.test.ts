@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { missingConsentTypes } from "@/lib/consents";
+import { contactHref } from "@/lib/patient-contacts";
+
+const at = new Date("2026-10-20T10:00:00.000Z");
+
+describe("consents", () => {
+  it("requires signed admission and data treatment consents", async () => {
+    expect(missingConsentTypes([], at)).toEqual([
+      "ADMISSION",
+      "DATA_TREATMENT",
+    ]);
+    expect(
+      missingConsentTypes(
+        [
+          {
+            type: "ADMISSION",
+            signedAt: new Date("2026-10-19T00:00:00.000Z"),
+            revokedAt: null,
+          },
+          {
+            type: "PROCEDURE",
+            signedAt: new Date("2026-10-19T00:00:00.000Z"),
+            revokedAt: null,
+          },
+        ],
+        at,
+      ),
+    ).toEqual(["DATA_TREATMENT"]);
+  });
+
+  it("ignores revoked and future consents", async () => {
+    expect(
+      missingConsentTypes(
+        [
+          {
+            type: "ADMISSION",
+            signedAt: new Date("2026-10-18T00:00:00.000Z"),
+            revokedAt: new Date("2026-10-19T00:00:00.000Z"),
+          },
+          {
+            type: "DATA_TREATMENT",
+            signedAt: new Date("2026-10-21T00:00:00.000Z"),
+            revokedAt: null,
+          },
+        ],
+        at,
+      ),
+    ).toEqual(["ADMISSION", "DATA_TREATMENT"]);
+  });
+});
+
+describe("patient contacts", () => {
+  it("links the preferred channel", async () => {
+    expect(
+      contactHref({
+        preferredChannel: "WHATSAPP",
+        phone: "+54 9 11 5555-1234",
+        email: null,
+      }),
+    ).toBe("https://wa.me/5491155551234");
+    expect(
+      contactHref({
+        preferredChannel: "EMAIL",
+        phone: null,
+        email: "hija@example.com",
+      }),
+    ).toBe("mailto:hija@example.com");
+    expect(
+      contactHref({ preferredChannel: "PHONE", phone: null, email: "x@y.z" }),
+    ).toBeNull();
+  });
+});
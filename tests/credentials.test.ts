@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { CredentialType, NoteSpecialty, VisitType } from "@prisma/client";
+import { credentialStatus, findCredentialIssues } from "@/lib/credentials";
+
+const at = new Date("2026-06-15T10:00:00Z");
+
+describe("professional credentials", () => {
+  it("classifies expiry status with the warning window", async () => {
+    const now = new Date("2026-06-01T00:00:00Z");
+    expect(credentialStatus({ expiresAt: null }, now)).toBe("VALID");
+    expect(
+      credentialStatus({ expiresAt: new Date("2026-05-31T00:00:00Z") }, now),
+    ).toBe("EXPIRED");
+    expect(
+      credentialStatus({ expiresAt: new Date("2026-06-20T00:00:00Z") }, now),
+    ).toBe("EXPIRING");
+    expect(
+      credentialStatus({ expiresAt: new Date("2026-06-20T00:00:00Z") }, now, 7),
+    ).toBe("VALID");
+  });
+
+  it("blocks expired licences and insurance at the visit date", async () => {
+    const credentials = [
+      {
+        type: CredentialType.LICENSE,
+        specialty: NoteSpecialty.NURSING,
+        expiresAt: new Date("2026-06-10T00:00:00Z"),
+      },
+      {
+        type: CredentialType.INSURANCE,
+        specialty: null,
+        expiresAt: new Date("2026-06-14T00:00:00Z"),
+      },
+    ];
+    expect(
+      findCredentialIssues({
+        credentials,
+        visitType: VisitType.NURSING,
+        at,
+        requireCredentials: false,
+      }),
+    ).toEqual(["LICENSE_EXPIRED", "INSURANCE_EXPIRED", "SPECIALTY_MISMATCH"]);
+    expect(
+      findCredentialIssues({
+        credentials,
+        visitType: VisitType.NURSING,
+        at: new Date("2026-06-01T00:00:00Z"),
+        requireCredentials: false,
+      }),
+    ).toEqual([]);
+  });
+
+  it("checks the specialty against the visit type", async () => {
+    const credentials = [
+      {
+        type: CredentialType.LICENSE,
+        specialty: NoteSpecialty.NURSING,
+        expiresAt: null,
+      },
+    ];
+    const issues = (visitType: VisitType) =>
+      findCredentialIssues({
+        credentials,
+        visitType,
+        at,
+        requireCredentials: false,
+      });
+    expect(issues(VisitType.NURSING)).toEqual([]);
+    expect(issues(VisitType.WOUND_CARE)).toEqual([]);
+    expect(issues(VisitType.GENERAL)).toEqual([]);
+    expect(issues(VisitType.KINESIOLOGY)).toEqual(["SPECIALTY_MISMATCH"]);
+  });
+
+  it("only requires missing credentials when the tenant policy says so", async () => {
+    expect(
+      findCredentialIssues({
+        credentials: [],
+        visitType: VisitType.MEDICAL,
+        at,
+        requireCredentials: false,
+      }),
+    ).toEqual([]);
+    expect(
+      findCredentialIssues({
+        credentials: [],
+        visitType: VisitType.MEDICAL,
+        at,
+        requireCredentials: true,
+      }),
+    ).toEqual(["LICENSE_MISSING", "INSURANCE_MISSING", "SPECIALTY_MISMATCH"]);
+  });
+});
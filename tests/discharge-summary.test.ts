@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDischargeSummary,
+  renderDischargeSummaryPdf,
+} from "@/lib/discharge-summary";
+
+describe("discharge summary", () => {
+  const author = { name: "Ana", email: "ana@example.com" };
+  const gauze = { name: "Gasa", unit: "unidad" };
+  const summary = buildDischargeSummary({
+    tenantName: "Clinica",
+    patient: {
+      firstName: "Juan",
+      lastName: "Perez",
+      dni: "123",
+      birthDate: null,
+    },
+    episode: {
+      startDate: new Date(2026, 0, 1),
+      endDate: new Date(2026, 1, 1),
+      diagnosis: "Texto libre",
+      dischargeOutcome: "Objetivos cumplidos",
+    },
+    diagnoses: [
+      { code: "I10", isPrimary: false, icd10: { description: "Hipertension" } },
+      { code: "L89.1", isPrimary: true, icd10: null },
+    ],
+    carePlan: {
+      summary: "Curaciones",
+      frequency: "Diaria",
+      objectives: [
+        {
+          description: "Cierre de herida",
+          target: "Area < 1 cm2",
+          status: "MET",
+          dueDate: null,
+        },
+        {
+          description: "Marcha asistida",
+          target: null,
+          status: "NOT_MET",
+          dueDate: null,
+        },
+        {
+          description: "Educacion familiar",
+          target: null,
+          status: "CANCELLED",
+          dueDate: null,
+        },
+      ],
+    },
+    visits: [
+      {
+        type: "NURSING",
+        status: "COMPLETED",
+        items: [{ quantity: 2, product: gauze }],
+      },
+      {
+        type: "NURSING",
+        status: "MISSED",
+        items: [],
+      },
+      {
+        type: "KINESIOLOGY",
+        status: "COMPLETED",
+        items: [{ quantity: 3, product: gauze }],
+      },
+      { type: "MEDICAL", status: "SCHEDULED", items: [] },
+    ],
+    notes: Array.from({ length: 7 }, (_, index) => ({
+      createdAt: new Date(2026, 0, index + 1),
+      content: `Nota ${index + 1}`,
+      signedAt: index === 6 ? new Date(2026, 0, 7) : null,
+      author,
+      addenda:
+        index === 6
+          ? [
+              {
+                createdAt: new Date(2026, 0, 9),
+                content: "Correccion 2",
+                author,
+              },
+              {
+                createdAt: new Date(2026, 0, 8),
+                content: "Correccion 1",
+                author,
+              },
+            ]
+          : [],
+    })),
+  });
+
+  it("aggregates diagnoses, visits, supplies and last notes", async () => {
+    expect(summary.diagnoses).toEqual([
+      "L89.1 (principal)",
+      "I10 Hipertension",
+    ]);
+    expect(summary.visitsByType).toEqual([
+      { type: "NURSING", label: "Enfermeria", completed: 1, missed: 1 },
+      { type: "KINESIOLOGY", label: "Kinesiologia", completed: 1, missed: 0 },
+    ]);
+    expect(summary.supplies).toEqual([
+      { product: "Gasa", unit: "unidad", quantity: 5 },
+    ]);
+    expect(summary.notes.map((note) => note.content)).toEqual([
+      "Nota 7",
+      "Nota 6",
+      "Nota 5",
+      "Nota 4",
+      "Nota 3",
+    ]);
+    expect(summary.notes[0].signed).toBe(true);
+    expect(
+      summary.notes[0].addenda.map((addendum) => addendum.content),
+    ).toEqual(["Correccion 1", "Correccion 2"]);
+    expect(summary.notes[1].addenda).toEqual([]);
+    expect(summary.carePlan?.objectives[0]).toEqual({
+      description: "Cierre de herida",
+      target: "Area < 1 cm2",
+      status: "Cumplido",
+    });
+    expect(summary.carePlan?.objectivesMet).toBe(1);
+    expect(summary.carePlan?.objectivesTotal).toBe(2);
+  });
+
+  it("renders a pdf document", async () => {
+    const buffer = await renderDischargeSummaryPdf(summary);
+    expect(buffer.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import type { Prisma } from "@prisma/client";
+import {
+  closeOpenSuspension,
+  findReadmission,
+  findReadmissions,
+  summarizeSuspensions,
+  suspensionDays,
+} from "@/lib/episode-suspensions";
+
+const at = new Date("2026-10-19T12:00:00.000Z");
+
+type Call = { model: string; action: string; args: Record<string, unknown> };
+
+// Records every query and answers with canned results, enough for the write
+// paths that only use findMany, updateMany and deleteMany.
+function recordingDb(results: Record<string, unknown>) {
+  const calls: Call[] = [];
+  const db = new Proxy(
+    {},
+    {
+      get: (_, model: string) =>
+        new Proxy(
+          {},
+          {
+            get:
+              (__, action: string) => async (args: Record<string, unknown>) => {
+                calls.push({ model, action, args });
+                return results[`${model}.${action}`] ?? { count: 0 };
+              },
+          },
+        ),
+    },
+  );
+  return { db: db as Prisma.TransactionClient, calls };
+}
+
+function episode(
+  id: string,
+  patientId: string,
+  startDate: string,
+  endDate: string | null,
+  status: "ACTIVE" | "SUSPENDED" | "DISCHARGED" | "CANCELLED" = endDate
+    ? "DISCHARGED"
+    : "ACTIVE",
+) {
+  return {
+    id,
+    patientId,
+    status,
+    startDate: new Date(startDate),
+    endDate: endDate ? new Date(endDate) : null,
+  };
+}
+
+describe("episode suspensions", () => {
+  it("counts suspension days up to the end or the reference date", async () => {
+    expect(
+      suspensionDays(
+        {
+          startDate: new Date("2026-10-10T00:00:00.000Z"),
+          endDate: new Date("2026-10-14T08:00:00.000Z"),
+        },
+        at,
+      ),
+    ).toBe(5);
+    expect(
+      suspensionDays(
+        { startDate: new Date("2026-10-17T12:00:00.000Z"), endDate: null },
+        at,
+      ),
+    ).toBe(2);
+  });
+
+  it("summarizes suspensions by reason and reactivation", async () => {
+    const summary = summarizeSuspensions(
+      [
+        {
+          reason: "HOSPITALIZATION",
+          startDate: new Date("2026-10-01T00:00:00.000Z"),
+          endDate: new Date("2026-10-05T00:00:00.000Z"),
+          reactivatedAt: new Date("2026-10-05T00:00:00.000Z"),
+        },
+        {
+          reason: "HOSPITALIZATION",
+          startDate: new Date("2026-10-10T00:00:00.000Z"),
+          endDate: new Date("2026-10-12T00:00:00.000Z"),
+          reactivatedAt: null,
+        },
+        {
+          reason: "COVERAGE",
+          startDate: new Date("2026-10-18T12:00:00.000Z"),
+          endDate: null,
+          reactivatedAt: null,
+        },
+      ],
+      at,
+    );
+
+    expect(summary.total).toBe(3);
+    expect(summary.byReason).toEqual({
+      HOSPITALIZATION: 2,
+      PATIENT_REQUEST: 0,
+      COVERAGE: 1,
+      OTHER: 0,
+    });
+    expect(summary.open).toBe(1);
+    expect(summary.reactivated).toBe(1);
+    expect(summary.averageDays).toBe(3);
+    expect(summary.totalDays).toBe(7);
+  });
+
+  it("detects readmissions within the window after the latest discharge", async () => {
+    const episodes = [
+      episode(
+        "e1",
+        "p1",
+        "2026-08-01T00:00:00.000Z",
+        "2026-09-01T00:00:00.000Z",
+      ),
+      episode(
+        "e2",
+        "p1",
+        "2026-09-05T00:00:00.000Z",
+        "2026-09-20T00:00:00.000Z",
+      ),
+      episode("e3", "p1", "2026-10-01T00:00:00.000Z", null),
+      episode("e4", "p2", "2026-10-01T00:00:00.000Z", null),
+      episode(
+        "e5",
+        "p2",
+        "2026-06-01T00:00:00.000Z",
+        "2026-07-01T00:00:00.000Z",
+      ),
+    ];
+
+    expect(findReadmission(episodes[2], episodes)).toEqual({
+      episodeId: "e3",
+      previousEpisodeId: "e2",
+      daysSinceDischarge: 11,
+    });
+    expect(findReadmission(episodes[3], episodes)).toBeNull();
+    expect(
+      findReadmissions(episodes).map((readmission) => readmission.episodeId),
+    ).toEqual(["e2", "e3"]);
+    expect(findReadmissions(episodes, 7)).toEqual([
+      { episodeId: "e2", previousEpisodeId: "e1", daysSinceDischarge: 4 },
+    ]);
+  });
+
+  it("ignores previous episodes that were not discharged", async () => {
+    const episodes = [
+      episode(
+        "e1",
+        "p1",
+        "2026-09-01T00:00:00.000Z",
+        "2026-09-10T00:00:00.000Z",
+        "CANCELLED",
+      ),
+      episode("e2", "p1", "2026-09-15T00:00:00.000Z", null),
+    ];
+
+    expect(findReadmissions(episodes)).toEqual([]);
+  });
+
+  it("discontinues paused orders and drops paused visits on discharge", async () => {
+    const { db, calls } = recordingDb({
+      "episodeSuspension.findMany": [{ id: "s1" }],
+      "medicationOrder.updateMany": { count: 2 },
+      "visit.deleteMany": { count: 3 },
+      "episodeSuspension.updateMany": { count: 1 },
+    });
+
+    const result = await closeOpenSuspension(db, {
+      tenantId: "t1",
+      episodeId: "e1",
+      at,
+    });
+
+    expect(result).toEqual({
+      closedSuspensions: 1,
+      discontinuedOrders: 2,
+      removedVisits: 3,
+    });
+    const call = (model: string, action: string) =>
+      calls.find((entry) => entry.model === model && entry.action === action)
+        ?.args;
+    expect(call("medicationOrder", "updateMany")).toMatchObject({
+      where: { suspensionId: { in: ["s1"] }, status: "SUSPENDED" },
+      data: { status: "DISCONTINUED", discontinuedAt: at, suspensionId: null },
+    });
+    expect(call("visit", "deleteMany")).toMatchObject({
+      where: {
+        suspensionId: { in: ["s1"] },
+        status: "CANCELLED",
+        scheduledAt: { gte: at },
+        clinicalNotes: { none: {} },
+      },
+    });
+    expect(call("visit", "updateMany")).toMatchObject({
+      data: { suspensionId: null },
+    });
+    expect(call("episodeSuspension", "updateMany")).toMatchObject({
+      where: { id: { in: ["s1"] } },
+      data: { endDate: at },
+    });
+  });
+
+  it("does nothing when the episode has no open suspension", async () => {
+    const { db, calls } = recordingDb({ "episodeSuspension.findMany": [] });
+    expect(
+      await closeOpenSuspension(db, { tenantId: "t1", episodeId: "e1", at }),
+    ).toEqual({
+      closedSuspensions: 0,
+      discontinuedOrders: 0,
+      removedVisits: 0,
+    });
+    expect(calls).toHaveLength(1);
+  });
+});
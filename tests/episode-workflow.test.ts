@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatStageDuration,
+  isStageOverdue,
+  isTransitionAllowed,
+  stageDueAt,
+  summarizeStageDurations,
+} from "@/lib/episode-workflow";
+
+describe("episode workflow", () => {
+  it("only allows configured transitions once the tenant has rules", async () => {
+    const rules = [
+      { fromStageId: "admision", toStageId: "activo" },
+      { fromStageId: "activo", toStageId: "alta" },
+    ];
+    expect(isTransitionAllowed(rules, "admision", "activo")).toBe(true);
+    expect(isTransitionAllowed(rules, "admision", "alta")).toBe(false);
+    expect(isTransitionAllowed(rules, "admision", null)).toBe(false);
+    expect(isTransitionAllowed(rules, "alta", "admision")).toBe(false);
+    expect(isTransitionAllowed(rules, null, "alta")).toBe(true);
+    expect(isTransitionAllowed(rules, "activo", "activo")).toBe(true);
+    expect(isTransitionAllowed([], "alta", "admision")).toBe(true);
+    expect(isTransitionAllowed([], "alta", null)).toBe(true);
+  });
+
+  it("computes due dates and overdue flags", async () => {
+    const enteredAt = new Date("2026-03-01T08:00:00Z");
+    const dueAt = stageDueAt(enteredAt, 48);
+    expect(dueAt?.toISOString()).toBe("2026-03-03T08:00:00.000Z");
+    expect(stageDueAt(enteredAt, null)).toBeNull();
+
+    const now = new Date("2026-03-04T08:00:00Z");
+    expect(isStageOverdue({ dueAt, exitedAt: null }, now)).toBe(true);
+    expect(
+      isStageOverdue(
+        { dueAt, exitedAt: new Date("2026-03-02T08:00:00Z") },
+        now,
+      ),
+    ).toBe(false);
+    expect(isStageOverdue({ dueAt: null, exitedAt: null }, now)).toBe(false);
+  });
+
+  it("summarizes time spent per stage", async () => {
+    const now = new Date("2026-03-10T00:00:00Z");
+    const summary = summarizeStageDurations(
+      [
+        {
+          stageId: "a",
+          stageName: "Admision",
+          enteredAt: new Date("2026-03-01T00:00:00Z"),
+          exitedAt: new Date("2026-03-02T00:00:00Z"),
+          dueAt: new Date("2026-03-03T00:00:00Z"),
+        },
+        {
+          stageId: "a",
+          stageName: "Admision",
+          enteredAt: new Date("2026-03-05T00:00:00Z"),
+          exitedAt: new Date("2026-03-08T00:00:00Z"),
+          dueAt: new Date("2026-03-07T00:00:00Z"),
+        },
+        {
+          stageId: "b",
+          stageName: "Activo",
+          enteredAt: new Date("2026-03-08T00:00:00Z"),
+          exitedAt: null,
+          dueAt: null,
+        },
+      ],
+      now,
+    );
+    expect(summary).toEqual([
+      {
+        stageId: "a",
+        stageName: "Admision",
+        entries: 2,
+        open: 0,
+        overdue: 1,
+        maxHours: 72,
+        averageHours: 48,
+      },
+      {
+        stageId: "b",
+        stageName: "Activo",
+        entries: 1,
+        open: 1,
+        overdue: 0,
+        maxHours: 48,
+        averageHours: 48,
+      },
+    ]);
+    expect(formatStageDuration(5.4)).toBe("5 h");
+    expect(formatStageDuration(50)).toBe("2 d 2 h");
+    expect(formatStageDuration(48)).toBe("2 d");
+  });
+});
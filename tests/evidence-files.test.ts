@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import {
+  attachmentContentDisposition,
+  evidenceFileResponse,
+  isAllowedEvidenceMimeType,
+} from "@/lib/evidence-files";
+
+describe("evidence files", () => {
+  it("only allows PDF and raster images", async () => {
+    expect(isAllowedEvidenceMimeType("application/pdf")).toBe(true);
+    expect(isAllowedEvidenceMimeType("image/jpeg")).toBe(true);
+    expect(isAllowedEvidenceMimeType("image/svg+xml")).toBe(false);
+    expect(isAllowedEvidenceMimeType("text/html")).toBe(false);
+  });
+
+  it("serves files as sanitized attachments", async () => {
+    expect(
+      attachmentContentDisposition('consentimiento "firmado".pdf\r\nX: 1'),
+    ).toBe(
+      "attachment; filename=\"consentimiento__firmado_.pdf__X__1\"; filename*=UTF-8''consentimiento%20%22firmado%22.pdf%0D%0AX%3A%201",
+    );
+
+    const response = evidenceFileResponse(Buffer.from("<svg/>"), {
+      fileName: "foto.svg",
+      mimeType: "image/svg+xml",
+    });
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/octet-stream",
+    );
+    expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff");
+  });
+});
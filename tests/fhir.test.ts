@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFhirBundle,
+  documentUrl,
+  fhirGender,
+  parseObservationId,
+  toFhirEncounter,
+  toFhirEpisodeOfCare,
+  toFhirObservations,
+  toFhirPatient,
+} from "@/lib/fhir";
+
+const updatedAt = new Date("2026-10-19T12:00:00.000Z");
+
+describe("fhir export", () => {
+  it("maps patients with DNI identifier and contacts", async () => {
+    const patient = toFhirPatient({
+      id: "patient-1",
+      firstName: "Ana",
+      lastName: "Perez",
+      dni: "30111222",
+      birthDate: new Date("1950-03-04T00:00:00.000Z"),
+      sex: "F",
+      phone: null,
+      address: "Av. Corrientes 1000",
+      latitude: null,
+      longitude: null,
+      updatedAt,
+      contacts: [
+        {
+          name: "Laura Perez",
+          relationship: "CHILD",
+          phone: "1155551234",
+          email: null,
+          isActive: true,
+        },
+        {
+          name: "Ex cuidador",
+          relationship: "CAREGIVER",
+          phone: "1100000000",
+          email: null,
+          isActive: false,
+        },
+      ],
+    });
+    expect(patient).toMatchObject({
+      resourceType: "Patient",
+      identifier: [{ value: "30111222" }],
+      gender: "female",
+      birthDate: "1950-03-04",
+      address: [{ text: "Av. Corrientes 1000" }],
+    });
+    expect(patient.telecom).toBeUndefined();
+    expect(patient.contact).toHaveLength(1);
+    expect(fhirGender(null)).toBe("unknown");
+  });
+
+  it("maps episodes, visits and vital signs", async () => {
+    const episode = toFhirEpisodeOfCare({
+      id: "episode-1",
+      patientId: "patient-1",
+      status: "DISCHARGED",
+      startDate: new Date("2026-10-01T00:00:00.000Z"),
+      endDate: new Date("2026-10-15T00:00:00.000Z"),
+      updatedAt,
+      diagnoses: [
+        { id: "dx-2", isPrimary: false },
+        { id: "dx-1", isPrimary: true },
+      ],
+    });
+    expect(episode.status).toBe("finished");
+    expect(episode.diagnosis).toEqual([
+      { condition: { reference: "Condition/dx-1" }, rank: 1 },
+      { condition: { reference: "Condition/dx-2" }, rank: 2 },
+    ]);
+
+    const encounter = toFhirEncounter({
+      id: "visit-1",
+      patientId: "patient-1",
+      episodeId: "episode-1",
+      status: "COMPLETED",
+      type: "NURSING",
+      scheduledAt: new Date("2026-10-02T10:00:00.000Z"),
+      durationMinutes: 60,
+      checkInAt: new Date("2026-10-02T10:05:00.000Z"),
+      checkOutAt: new Date("2026-10-02T10:50:00.000Z"),
+      updatedAt,
+      assignedUser: null,
+    });
+    expect(encounter).toMatchObject({
+      status: "finished",
+      class: { code: "HH" },
+      episodeOfCare: [{ reference: "EpisodeOfCare/episode-1" }],
+      period: {
+        start: "2026-10-02T10:05:00.000Z",
+        end: "2026-10-02T10:50:00.000Z",
+      },
+      length: { value: 45 },
+    });
+
+    const observations = toFhirObservations({
+      id: "vital1",
+      patientId: "patient-1",
+      visitId: "visit-1",
+      recordedAt: new Date("2026-10-02T10:10:00.000Z"),
+      temperature: 37.2,
+      systolic: 120,
+      diastolic: 80,
+      heartRate: null,
+      respiratoryRate: null,
+      spo2: 95,
+      glucose: null,
+      painScore: null,
+      weight: null,
+    });
+    expect(observations.map((observation) => observation.id)).toEqual([
+      "vital1-bloodPressure",
+      "vital1-temperature",
+      "vital1-spo2",
+    ]);
+    expect(observations[0].component).toHaveLength(2);
+    expect(parseObservationId("vital1-spo2")).toEqual({
+      vitalId: "vital1",
+      key: "spo2",
+    });
+    expect(parseObservationId("vital1")).toBeNull();
+  });
+
+  it("links documents and builds collection bundles", async () => {
+    expect(
+      documentUrl("https://app.test", {
+        kind: "DISCHARGE_SUMMARY",
+        episodeId: "episode-1",
+        fileUrl: null,
+      }),
+    ).toBe("https://app.test/api/episodes/episode-1/discharge-summary");
+    expect(
+      documentUrl(
+        "https://app.test",
+        { kind: "CONSENT", episodeId: "episode-1", fileUrl: null },
+        "consent-1",
+      ),
+    ).toBe("https://app.test/api/episodes/episode-1/consents/consent-1");
+    expect(
+      documentUrl("https://app.test", {
+        kind: "UPLOAD",
+        episodeId: null,
+        fileUrl: null,
+      }),
+    ).toBeNull();
+
+    const bundle = buildFhirBundle(
+      "https://app.test/api/fhir",
+      [{ resourceType: "Patient", id: "patient-1" }],
+      updatedAt,
+    );
+    expect(bundle).toEqual({
+      resourceType: "Bundle",
+      type: "collection",
+      timestamp: "2026-10-19T12:00:00.000Z",
+      total: 1,
+      entry: [
+        {
+          fullUrl: "https://app.test/api/fhir/Patient/patient-1",
+          resource: { resourceType: "Patient", id: "patient-1" },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  distanceMeters,
+  evaluateVisitLocation,
+  formatDistance,
+  parseCoordinates,
+} from "@/lib/geolocation";
+
+const obelisco = { latitude: -34.6037, longitude: -58.3816 };
+const congreso = { latitude: -34.6097, longitude: -58.3925 };
+
+describe("visit geolocation", () => {
+  it("parses coordinates within range", async () => {
+    expect(parseCoordinates({ latitude: "-34.6", longitude: "-58.38" })).toEqual(
+      { latitude: -34.6, longitude: -58.38 },
+    );
+    expect(parseCoordinates({ latitude: "", longitude: "-58.38" })).toBeNull();
+    expect(parseCoordinates({ latitude: "95", longitude: "0" })).toBeNull();
+    expect(parseCoordinates({ latitude: "abc", longitude: "0" })).toBeNull();
+  });
+
+  it("computes great-circle distances", async () => {
+    expect(distanceMeters(obelisco, obelisco)).toBe(0);
+    expect(Math.round(distanceMeters(obelisco, congreso))).toBeGreaterThan(1100);
+    expect(Math.round(distanceMeters(obelisco, congreso))).toBeLessThan(1250);
+    expect(formatDistance(1180)).toBe("1.2 km");
+    expect(formatDistance(85.4)).toBe("85 m");
+  });
+
+  it("flags check-ins far from the address or without device location", async () => {
+    expect(
+      evaluateVisitLocation({
+        address: obelisco,
+        device: { ...congreso, accuracy: 20 },
+        maxDistanceMeters: 300,
+      }).flag,
+    ).toBe("TOO_FAR");
+    expect(
+      evaluateVisitLocation({
+        address: obelisco,
+        device: { latitude: -34.6039, longitude: -58.3818, accuracy: 10 },
+        maxDistanceMeters: 300,
+      }),
+    ).toEqual({ distance: 29, flag: null });
+    expect(
+      evaluateVisitLocation({
+        address: obelisco,
+        device: null,
+        maxDistanceMeters: 300,
+      }),
+    ).toEqual({ distance: null, flag: "NO_DEVICE_LOCATION" });
+    expect(
+      evaluateVisitLocation({
+        address: { latitude: null, longitude: null },
+        device: { ...congreso, accuracy: null },
+        maxDistanceMeters: 300,
+      }),
+    ).toEqual({ distance: null, flag: null });
+  });
+});
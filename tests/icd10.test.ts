@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  episodeForDate,
+  normalizeIcd10Code,
+  parseIcd10Catalog,
+} from "@/lib/icd10";
+
+describe("icd10", () => {
+  it("normalizes codes and rejects invalid ones", async () => {
+    expect(normalizeIcd10Code(" e119 ")).toBe("E11.9");
+    expect(normalizeIcd10Code("I10")).toBe("I10");
+    expect(normalizeIcd10Code("L89.15")).toBe("L89.15");
+    expect(normalizeIcd10Code("123")).toBeNull();
+    expect(normalizeIcd10Code("Codigo")).toBeNull();
+  });
+
+  it("parses catalog files and reports invalid lines", async () => {
+    const { entries, rejected } = parseIcd10Catalog(
+      [
+        "codigo;descripcion;capitulo",
+        "E11.9;Diabetes mellitus tipo 2 sin complicaciones;IV",
+        "I10\tHipertension esencial",
+        "",
+        "XX;Invalido",
+        "J44.9;",
+      ].join("\n"),
+    );
+    expect(entries).toEqual([
+      {
+        code: "E11.9",
+        description: "Diabetes mellitus tipo 2 sin complicaciones",
+        chapter: "IV",
+      },
+      { code: "I10", description: "Hipertension esencial", chapter: null },
+    ]);
+    expect(rejected).toEqual([5, 6]);
+  });
+
+  it("picks the most recent episode covering a date", async () => {
+    const older = {
+      id: "a",
+      startDate: new Date(2026, 0, 1),
+      endDate: null,
+    };
+    const newer = {
+      id: "b",
+      startDate: new Date(2026, 2, 1),
+      endDate: new Date(2026, 3, 1),
+    };
+    expect(episodeForDate([older, newer], new Date(2026, 2, 15))?.id).toBe("b");
+    expect(episodeForDate([older, newer], new Date(2026, 4, 1))?.id).toBe("a");
+    expect(episodeForDate([newer], new Date(2025, 0, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { isOrderActiveOn } from "@/lib/medications";
+
+describe("medication orders", () => {
+  const order = {
+    status: "ACTIVE" as const,
+    startDate: new Date(2026, 9, 10, 15, 0),
+    endDate: new Date(2026, 9, 20, 8, 0),
+  };
+
+  it("is active on any time of the start and end days", async () => {
+    expect(isOrderActiveOn(order, new Date(2026, 9, 10, 9, 0))).toBe(true);
+    expect(isOrderActiveOn(order, new Date(2026, 9, 20, 18, 0))).toBe(true);
+    expect(isOrderActiveOn(order, new Date(2026, 9, 9, 23, 0))).toBe(false);
+    expect(isOrderActiveOn(order, new Date(2026, 9, 21, 0, 0))).toBe(false);
+  });
+
+  it("stays active without end date until discontinued", async () => {
+    const open = { ...order, endDate: null };
+    expect(isOrderActiveOn(open, new Date(2027, 0, 1))).toBe(true);
+    expect(
+      isOrderActiveOn(
+        { ...open, status: "DISCONTINUED" as const },
+        new Date(2026, 9, 12),
+      ),
+    ).toBe(false);
+  });
+});
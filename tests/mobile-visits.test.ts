@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import { VisitStatus } from "@prisma/client";
+import {
+  applyMobileOperation,
+  canCompleteMobileVisit,
+  mobileOperationSchema,
+  mobileStorageKeys,
+  rebaseMobileSnapshot,
+  type MobileOperation,
+  type MobileSnapshot,
+} from "@/lib/mobile-visits";
+import {
+  checkInSyncDecision,
+  checklistSyncDecision,
+  completeSyncDecision,
+  syncTimestamp,
+} from "@/lib/mobile-sync";
+
+const snapshot: MobileSnapshot = {
+  generatedAt: "2026-10-19T08:00:00.000Z",
+  visits: [
+    {
+      id: "visit-1",
+      status: "SCHEDULED",
+      type: "NURSING",
+      scheduledAt: "2026-10-19T10:00:00.000Z",
+      durationMinutes: 60,
+      checkInAt: null,
+      checkOutAt: null,
+      notes: null,
+      patient: {
+        id: "patient-1",
+        firstName: "Ana",
+        lastName: "Perez",
+        dni: "30111222",
+        phone: null,
+        address: "Av. Corrientes 1000",
+        allergies: [],
+        problems: [],
+      },
+      checklist: [
+        {
+          id: "check-1",
+          label: "Control",
+          isRequired: true,
+          isCompleted: false,
+        },
+      ],
+      noteCount: 0,
+      items: [],
+    },
+  ],
+  products: [{ id: "product-1", name: "Gasas" }],
+  warehouses: [{ id: "warehouse-1", name: "Central" }],
+};
+
+function operation(
+  input: Record<string, unknown>,
+  index: number,
+): MobileOperation {
+  return mobileOperationSchema.parse({
+    id: `operation-${index}`,
+    visitId: "visit-1",
+    recordedAt: `2026-10-19T10:0${index}:00.000Z`,
+    ...input,
+  });
+}
+
+describe("mobile visits", () => {
+  it("applies queued offline operations on top of the cached snapshot", async () => {
+    const queue = [
+      operation({ type: "CHECK_IN", location: null }, 1),
+      operation(
+        { type: "CHECKLIST", checklistItemId: "check-1", completed: true },
+        2,
+      ),
+      operation({ type: "NOTE", summary: "Paciente estable" }, 3),
+      operation(
+        {
+          type: "ITEM",
+          productId: "product-1",
+          warehouseId: "warehouse-1",
+          quantity: 2,
+        },
+        4,
+      ),
+    ];
+    const rebased = rebaseMobileSnapshot(snapshot, queue);
+    const visit = rebased.visits[0];
+    expect(visit.status).toBe("IN_PROGRESS");
+    expect(visit.checkInAt).toBe("2026-10-19T10:01:00.000Z");
+    expect(visit.noteCount).toBe(1);
+    expect(visit.items).toEqual([
+      { id: "operation-4", productName: "Gasas", quantity: 2 },
+    ]);
+    expect(canCompleteMobileVisit(visit)).toBe(true);
+    expect(canCompleteMobileVisit(snapshot.visits[0])).toBe(false);
+
+    const completed = applyMobileOperation(
+      rebased,
+      operation({ type: "COMPLETE", location: null }, 5),
+    );
+    expect(completed.visits[0].status).toBe("COMPLETED");
+    expect(snapshot.visits[0].status).toBe("SCHEDULED");
+  });
+
+  it("ignores completion before check-in", async () => {
+    const result = applyMobileOperation(
+      snapshot,
+      operation({ type: "COMPLETE", location: null }, 1),
+    );
+    expect(result.visits[0].status).toBe("SCHEDULED");
+  });
+
+  it("rejects invalid operations", async () => {
+    expect(
+      mobileOperationSchema.safeParse({
+        id: "operation-1",
+        visitId: "visit-1",
+        recordedAt: "2026-10-19T10:00:00.000Z",
+        type: "ITEM",
+        productId: "product-1",
+        warehouseId: "warehouse-1",
+        quantity: 0,
+      }).success,
+    ).toBe(false);
+    expect(
+      mobileOperationSchema.safeParse({
+        id: "operation-1",
+        visitId: "visit-1",
+        recordedAt: "ayer",
+        type: "NOTE",
+        summary: "Nota",
+      }).success,
+    ).toBe(false);
+  });
+
+  it("resolves sync conflicts against the server state", async () => {
+    expect(
+      checkInSyncDecision({
+        status: VisitStatus.SCHEDULED,
+        rescheduled: false,
+      }),
+    ).toEqual({ status: "APPLY" });
+    expect(
+      checkInSyncDecision({ status: VisitStatus.MISSED, rescheduled: true }),
+    ).toEqual({ status: "CONFLICT", code: "VISIT_ALREADY_RESCHEDULED" });
+    expect(
+      checkInSyncDecision({
+        status: VisitStatus.IN_PROGRESS,
+        rescheduled: false,
+      }),
+    ).toEqual({ status: "SKIPPED", code: "VISIT_ALREADY_CHECKED_IN" });
+    expect(
+      checkInSyncDecision({
+        status: VisitStatus.CANCELLED,
+        rescheduled: false,
+      }),
+    ).toEqual({ status: "CONFLICT", code: "VISIT_CANCELLED" });
+    expect(completeSyncDecision({ status: VisitStatus.COMPLETED })).toEqual({
+      status: "SKIPPED",
+      code: "VISIT_ALREADY_COMPLETED",
+    });
+    expect(completeSyncDecision({ status: VisitStatus.SCHEDULED })).toEqual({
+      status: "CONFLICT",
+      code: "INVALID_STATUS",
+    });
+  });
+
+  it("keeps checklist changes made on the server after the offline edit", async () => {
+    const recordedAt = new Date("2026-10-19T10:00:00.000Z");
+    expect(
+      checklistSyncDecision(
+        {
+          isCompleted: true,
+          completedAt: new Date("2026-10-19T11:00:00.000Z"),
+        },
+        false,
+        recordedAt,
+      ),
+    ).toEqual({ status: "CONFLICT", code: "CHECKLIST_CHANGED" });
+    expect(
+      checklistSyncDecision(
+        {
+          isCompleted: true,
+          completedAt: new Date("2026-10-19T09:00:00.000Z"),
+        },
+        false,
+        recordedAt,
+      ),
+    ).toEqual({ status: "APPLY" });
+    expect(
+      checklistSyncDecision(
+        { isCompleted: true, completedAt: null },
+        true,
+        recordedAt,
+      ),
+    ).toEqual({ status: "SKIPPED", code: "CHECKLIST_UNCHANGED" });
+  });
+
+  it("clamps device timestamps in the future", async () => {
+    const now = new Date("2026-10-19T12:00:00.000Z");
+    expect(syncTimestamp("2026-10-19T13:00:00.000Z", now)).toEqual(now);
+    expect(syncTimestamp("2026-10-19T11:00:00.000Z", now).toISOString()).toBe(
+      "2026-10-19T11:00:00.000Z",
+    );
+  });
+
+  it("keys offline storage by tenant and user", () => {
+    const first = mobileStorageKeys({ tenantId: "t1", userId: "u1" });
+    const second = mobileStorageKeys({ tenantId: "t1", userId: "u2" });
+    expect(first.snapshot).not.toBe(second.snapshot);
+    expect(first.queue).not.toBe(second.queue);
+    expect(first.queue.startsWith("mobile-visits:")).toBe(true);
+  });
+});
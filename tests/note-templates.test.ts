@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyNoteFieldValues,
+  buildTemplatedStructured,
+  defaultNoteTemplates,
+  parseNoteTemplateFields,
+} from "@/lib/note-templates";
+
+describe("note templates", () => {
+  const template = {
+    id: "tpl-1",
+    version: 3,
+    name: "Kinesiologia",
+    fields: [
+      ...defaultNoteTemplates.KINESIOLOGY.fields,
+      { key: "escala_dolor", label: "Escala de dolor", defaultText: "" },
+    ],
+  };
+
+  it("ignores malformed stored fields", async () => {
+    expect(
+      parseNoteTemplateFields([{ key: "a", label: "A" }, { key: 1 }, null]),
+    ).toEqual([{ key: "a", label: "A", defaultText: "" }]);
+    expect(parseNoteTemplateFields("nope")).toEqual([]);
+  });
+
+  it("stores template id, version and SOAP values", async () => {
+    const structured = buildTemplatedStructured(template, {
+      subjective: " Sin dolor ",
+      plan: "Marcha asistida",
+      escala_dolor: "2",
+    });
+    expect(structured.templateId).toBe("tpl-1");
+    expect(structured.templateVersion).toBe(3);
+    expect(structured.subjective).toBe("Sin dolor");
+    expect(structured.objective).toBeUndefined();
+    expect(structured.fields).toHaveLength(5);
+    expect(structured.fields?.[4]).toEqual({
+      key: "escala_dolor",
+      label: "Escala de dolor",
+      value: "2",
+    });
+  });
+
+  it("keeps the template version when editing a draft", async () => {
+    const structured = buildTemplatedStructured(template, { plan: "A" });
+    const edited = applyNoteFieldValues(structured, { plan: "B" });
+    expect(edited.templateVersion).toBe(3);
+    expect(edited.plan).toBe("B");
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import {
+  findAllergyConflicts,
+  patientAlertSummary,
+} from "@/lib/patient-background";
+
+describe("patient background", () => {
+  const allergies = [
+    { substance: "Penicilina", severity: "SEVERE" as const, isActive: true },
+    { substance: "Ibuprofeno", severity: "MILD" as const, isActive: false },
+    { substance: "Latex", severity: "MODERATE" as const, isActive: true },
+  ];
+
+  it("matches active allergies by whole words ignoring case and accents", async () => {
+    expect(
+      findAllergyConflicts(allergies, ["PENICILINA benzatinica 1.200.000 UI"]),
+    ).toHaveLength(1);
+    expect(findAllergyConflicts(allergies, ["Ibuprofeno 400"])).toHaveLength(0);
+    expect(findAllergyConflicts(allergies, ["Amoxicilina"])).toHaveLength(0);
+    expect(findAllergyConflicts(allergies, [null, "Guantes de látex"])).toHaveLength(1);
+  });
+
+  it("summarizes active allergies and problems for the banner", async () => {
+    const summary = patientAlertSummary({
+      allergies,
+      problems: [
+        { description: "Diabetes tipo 2", kind: "CHRONIC_CONDITION", status: "ACTIVE" },
+        { description: "Apendicectomia", kind: "BACKGROUND", status: "ACTIVE" },
+        { description: "Neumonia", kind: "ACTIVE_PROBLEM", status: "RESOLVED" },
+      ],
+    });
+    expect(summary.allergies).toEqual(["Penicilina (Severa)", "Latex (Moderada)"]);
+    expect(summary.problems).toEqual(["Diabetes tipo 2"]);
+    expect(summary.hasSevereAllergy).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  filterPatientTimeline,
+  parsePatientTimelineFilters,
+  patientTimelineTypes,
+  type PatientTimelineEvent,
+} from "@/lib/patient-timeline";
+
+describe("patient timeline", () => {
+  const events: PatientTimelineEvent[] = [
+    { type: "EPISODE", at: new Date(2026, 0, 5, 10), title: "Ingreso" },
+    { type: "VISIT", at: new Date(2026, 0, 10, 9), title: "Visita" },
+    { type: "INVOICE", at: new Date(2026, 1, 1, 12), title: "Factura" },
+  ];
+
+  it("defaults to every type and ignores invalid values", async () => {
+    const filters = parsePatientTimelineFilters({
+      type: "UNKNOWN",
+      from: "2026-13-01",
+    });
+    expect(filters.types).toEqual([...patientTimelineTypes]);
+    expect(filters.from).toBeNull();
+  });
+
+  it("filters by type and inclusive date range, newest first", async () => {
+    const filters = parsePatientTimelineFilters({
+      type: ["EPISODE", "VISIT,INVOICE"],
+      from: "2026-01-05",
+      to: "2026-01-10",
+    });
+    expect(filterPatientTimeline(events, filters).map((e) => e.title)).toEqual([
+      "Visita",
+      "Ingreso",
+    ]);
+
+    const onlyInvoices = parsePatientTimelineFilters({ type: "INVOICE" });
+    expect(filterPatientTimeline(events, onlyInvoices)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { nextReferralStatus } from "@/lib/referrals";
+import { formatReferralNumber } from "@/lib/sequence";
+
+const evaluatedAt = new Date("2026-10-19T10:00:00.000Z");
+
+describe("referrals", () => {
+  it("moves through evaluation and quote before acceptance", async () => {
+    expect(
+      nextReferralStatus({ status: "RECEIVED", evaluatedAt: null }, "evaluate"),
+    ).toBe("EVALUATING");
+    expect(
+      nextReferralStatus({ status: "EVALUATING", evaluatedAt }, "quote"),
+    ).toBe("QUOTED");
+    expect(
+      nextReferralStatus({ status: "QUOTED", evaluatedAt }, "evaluate"),
+    ).toBe("QUOTED");
+    expect(
+      nextReferralStatus({ status: "QUOTED", evaluatedAt }, "accept"),
+    ).toBe("ACCEPTED");
+  });
+
+  it("rejects out of order transitions", async () => {
+    expect(() =>
+      nextReferralStatus({ status: "RECEIVED", evaluatedAt: null }, "quote"),
+    ).toThrow("REFERRAL_INVALID_STATUS");
+    expect(() =>
+      nextReferralStatus({ status: "EVALUATING", evaluatedAt }, "accept"),
+    ).toThrow("REFERRAL_INVALID_STATUS");
+    expect(() =>
+      nextReferralStatus({ status: "ACCEPTED", evaluatedAt }, "reject"),
+    ).toThrow("REFERRAL_INVALID_STATUS");
+    expect(
+      nextReferralStatus({ status: "RECEIVED", evaluatedAt: null }, "reject"),
+    ).toBe("REJECTED");
+  });
+
+  it("formats referral numbers", async () => {
+    expect(formatReferralNumber(new Date(2026, 9, 19), 42)).toBe(
+      "DER-202610-000042",
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  checklistItemKey,
+  defaultChecklistItems,
+  resolveChecklistItems,
+} from "@/lib/visit-checklist";
+
+const woundTemplate = {
+  visitType: "WOUND_CARE" as const,
+  isActive: true,
+  items: [
+    { key: "photo", label: "Foto de la herida", isRequired: false, sortOrder: 1 },
+    { key: "dressing", label: "Cambio de aposito", isRequired: true, sortOrder: 0 },
+  ],
+};
+
+const generalTemplate = {
+  visitType: "GENERAL" as const,
+  isActive: true,
+  items: [
+    { key: "identity", label: "Identificacion", isRequired: true, sortOrder: 0 },
+  ],
+};
+
+describe("visit checklist templates", () => {
+  it("uses the template of the visit type ordered by sortOrder", async () => {
+    const items = resolveChecklistItems(
+      [generalTemplate, woundTemplate],
+      "WOUND_CARE",
+    );
+    expect(items.map((item) => item.key)).toEqual(["dressing", "photo"]);
+    expect(items[1].isRequired).toBe(false);
+  });
+
+  it("falls back to the general template and then to the defaults", async () => {
+    expect(
+      resolveChecklistItems(
+        [generalTemplate, { ...woundTemplate, isActive: false }],
+        "WOUND_CARE",
+      ).map((item) => item.key),
+    ).toEqual(["identity"]);
+    expect(resolveChecklistItems([], "NURSING")).toHaveLength(
+      defaultChecklistItems.length,
+    );
+  });
+
+  it("builds item keys from labels", async () => {
+    expect(checklistItemKey("  Evaluación del dolor ")).toBe(
+      "evaluacion_del_dolor",
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildVisitOccurrences,
+  describeRecurrence,
+  diffCarePlanVisits,
+  movedVisitData,
+  sameRecurrence,
+  type VisitRecurrence,
+} from "@/lib/visit-recurrence";
+
+describe("visit recurrence", () => {
+  it("builds weekly occurrences on the selected weekdays", async () => {
+    const recurrence: VisitRecurrence = {
+      type: "WEEKLY",
+      startDate: "2026-03-02",
+      durationDays: 14,
+      times: ["09:00"],
+      weekdays: [1, 3, 5],
+    };
+    const result = buildVisitOccurrences(recurrence, {
+      from: new Date(2026, 2, 1),
+    });
+    expect(result).toHaveLength(6);
+    expect(result[0]).toEqual(new Date(2026, 2, 2, 9, 0));
+    expect(result.map((date) => date.getDay())).toEqual([1, 3, 5, 1, 3, 5]);
+  });
+
+  it("skips past occurrences and stops at the episode end", async () => {
+    const recurrence: VisitRecurrence = {
+      type: "DAILY",
+      startDate: "2026-03-01",
+      durationDays: 30,
+      times: ["08:00", "20:00"],
+    };
+    const result = buildVisitOccurrences(recurrence, {
+      from: new Date(2026, 2, 3, 12, 0),
+      until: new Date(2026, 2, 5, 0, 0),
+    });
+    expect(result).toEqual([
+      new Date(2026, 2, 3, 20, 0),
+      new Date(2026, 2, 4, 8, 0),
+      new Date(2026, 2, 4, 20, 0),
+    ]);
+  });
+
+  it("builds hourly occurrences and rejects oversized plans", async () => {
+    const recurrence: VisitRecurrence = {
+      type: "HOURLY",
+      startDate: "2026-03-01",
+      durationDays: 1,
+      times: ["06:00"],
+      intervalHours: 8,
+    };
+    const result = buildVisitOccurrences(recurrence, {
+      from: new Date(2026, 1, 1),
+    });
+    expect(result).toHaveLength(3);
+    expect(() =>
+      buildVisitOccurrences(
+        { ...recurrence, intervalHours: 1, durationDays: 30 },
+        { from: new Date(2026, 1, 1) },
+      ),
+    ).toThrow("RECURRENCE_TOO_LARGE");
+  });
+
+  it("describes weekly plans", async () => {
+    expect(
+      describeRecurrence({
+        type: "WEEKLY",
+        startDate: "2026-03-02",
+        durationDays: 30,
+        times: ["09:00"],
+        weekdays: [5, 1, 3],
+      }),
+    ).toBe("3x/semana Lun-Mie-Vie 09:00 por 30 dias");
+  });
+
+  it("keeps care-plan visits moved by an accepted route on the next sync", async () => {
+    const occurrences = [
+      new Date(2026, 2, 2, 9, 0),
+      new Date(2026, 2, 3, 9, 0),
+    ];
+    const generated = {
+      carePlanId: "plan-1",
+      plannedAt: null,
+      scheduledAt: new Date(2026, 2, 2, 9, 0),
+    };
+    const moved = movedVisitData(generated, new Date(2026, 2, 2, 10, 30));
+    expect(moved.plannedAt).toEqual(new Date(2026, 2, 2, 9, 0));
+    expect(
+      movedVisitData({ ...generated, ...moved }, new Date(2026, 2, 2, 11, 0))
+        .plannedAt,
+    ).toEqual(new Date(2026, 2, 2, 9, 0));
+
+    const result = diffCarePlanVisits({
+      occurrences,
+      visitType: "NURSING",
+      existing: [
+        { id: "v1", ...moved, type: "NURSING" },
+        {
+          id: "v2",
+          scheduledAt: new Date(2026, 2, 3, 9, 0),
+          plannedAt: null,
+          type: "NURSING",
+        },
+      ],
+    });
+    expect(result).toEqual({ staleIds: [], missing: [] });
+
+    const unpinned = diffCarePlanVisits({
+      occurrences,
+      visitType: "NURSING",
+      existing: [
+        {
+          id: "v1",
+          scheduledAt: new Date(2026, 2, 2, 10, 30),
+          plannedAt: null,
+          type: "NURSING",
+        },
+      ],
+    });
+    expect(unpinned.staleIds).toEqual(["v1"]);
+    expect(unpinned.missing).toEqual(occurrences);
+  });
+
+  it("compares recurrences regardless of key order", async () => {
+    const stored = {
+      times: ["09:00"],
+      type: "DAILY",
+      durationDays: 30,
+      startDate: "2026-03-01",
+    };
+    expect(
+      sameRecurrence(stored, {
+        type: "DAILY",
+        startDate: "2026-03-01",
+        durationDays: 30,
+        times: ["09:00"],
+      }),
+    ).toBe(true);
+    expect(sameRecurrence(stored, { ...stored, durationDays: 15 })).toBe(false);
+    expect(sameRecurrence(null, null)).toBe(true);
+    expect(sameRecurrence(stored, null)).toBe(false);
+  });
+});
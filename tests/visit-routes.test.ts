@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateTravel,
+  optimizeRoute,
+  parseVisitWindow,
+  summarizeRoute,
+  type RouteStop,
+} from "@/lib/visit-routes";
+
+const west = { latitude: -34.6, longitude: -58.45 };
+const center = { latitude: -34.6, longitude: -58.4 };
+const east = { latitude: -34.6, longitude: -58.35 };
+
+function stop(
+  id: string,
+  time: string,
+  coordinates: RouteStop["coordinates"],
+  overrides: Partial<RouteStop> = {},
+): RouteStop {
+  return {
+    id,
+    scheduledAt: new Date(`2026-10-20T${time}:00`),
+    durationMinutes: 45,
+    coordinates,
+    fixed: false,
+    windowStartMinute: null,
+    windowEndMinute: null,
+    ...overrides,
+  };
+}
+
+const startAt = new Date("2026-10-20T08:00:00");
+
+describe("visit routes", () => {
+  it("estimates travel from straight-line distance", async () => {
+    const leg = estimateTravel(west, center, 25);
+    expect(leg.distanceMeters).toBeGreaterThan(5500);
+    expect(leg.distanceMeters).toBeLessThan(6500);
+    expect(leg.travelMinutes).toBe(15);
+    expect(estimateTravel(null, center, 25)).toEqual({
+      distanceMeters: null,
+      travelMinutes: null,
+    });
+  });
+
+  it("reorders visits to reduce travel", async () => {
+    const stops = [
+      stop("a", "08:00", west),
+      stop("b", "09:00", east),
+      stop("c", "10:00", center),
+    ];
+    const current = summarizeRoute(stops, 25);
+    const plan = optimizeRoute({ stops, startAt, speedKmh: 25 });
+    expect(plan.travelMinutes).toBeLessThan(current.travelMinutes);
+    expect(plan.lateMinutes).toBe(0);
+    const order = plan.stops.map((entry) => entry.id);
+    expect(order.indexOf("c")).toBe(1);
+    for (let index = 1; index < plan.stops.length; index += 1) {
+      const previous = plan.stops[index - 1];
+      expect(plan.stops[index].scheduledAt.getTime()).toBeGreaterThanOrEqual(
+        previous.scheduledAt.getTime() + 45 * 60 * 1000,
+      );
+    }
+  });
+
+  it("keeps fixed appointments and patient time windows", async () => {
+    const stops = [
+      stop("fixed", "10:00", center, { fixed: true }),
+      stop("afternoon", "08:00", center, {
+        windowStartMinute: 14 * 60,
+        windowEndMinute: 16 * 60,
+      }),
+      stop("morning", "12:00", west),
+    ];
+    const plan = optimizeRoute({ stops, startAt, speedKmh: 25 });
+    const byId = new Map(plan.stops.map((entry) => [entry.id, entry]));
+    expect(byId.get("fixed")?.scheduledAt).toEqual(
+      new Date("2026-10-20T10:00:00"),
+    );
+    expect(
+      byId.get("afternoon")?.scheduledAt.getHours(),
+    ).toBeGreaterThanOrEqual(14);
+    const morning = byId.get("morning")!.scheduledAt.getTime();
+    const fixedStart = new Date("2026-10-20T10:00:00").getTime();
+    expect(
+      morning + 45 * 60 * 1000 <= fixedStart ||
+        morning >= fixedStart + 45 * 60 * 1000,
+    ).toBe(true);
+    expect(plan.lateMinutes).toBe(0);
+  });
+
+  it("validates visit time windows", async () => {
+    expect(parseVisitWindow("09:00", "11:30")).toEqual({
+      windowStartMinute: 540,
+      windowEndMinute: 690,
+    });
+    expect(parseVisitWindow("", null)).toEqual({
+      windowStartMinute: null,
+      windowEndMinute: null,
+    });
+    expect(() => parseVisitWindow("12:00", "10:00")).toThrow(
+      "VISIT_WINDOW_INVALID",
+    );
+    expect(() => parseVisitWindow("25:00", "")).toThrow("VISIT_WINDOW_INVALID");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateVitalSigns,
+  parseVitalSignValues,
+  resolveVitalThresholds,
+} from "@/lib/vital-signs";
+
+describe("vital signs", () => {
+  it("parses typed values and ignores empty fields", async () => {
+    const values = parseVitalSignValues({
+      temperature: "37,8",
+      systolic: "120",
+      diastolic: "80",
+      spo2: "",
+      weight: null,
+    });
+    expect(values).toEqual({ temperature: 37.8, systolic: 120, diastolic: 80 });
+  });
+
+  it("rejects impossible or empty readings", async () => {
+    expect(() => parseVitalSignValues({ heartRate: "72.5" })).toThrow(
+      "VITALS_INVALID",
+    );
+    expect(() => parseVitalSignValues({ spo2: "140" })).toThrow(
+      "VITALS_INVALID",
+    );
+    expect(() => parseVitalSignValues({})).toThrow("VITALS_REQUIRED");
+  });
+
+  it("flags values outside tenant thresholds", async () => {
+    const thresholds = resolveVitalThresholds({
+      temperature: { min: 35, max: 37.5 },
+    });
+    const alerts = evaluateVitalSigns(
+      { temperature: 37.8, spo2: 90, heartRate: 80 },
+      thresholds,
+    );
+    expect(alerts.map((alert) => alert.key)).toEqual(["temperature", "spo2"]);
+    expect(alerts[0].max).toBe(37.5);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildWoundEvolution,
+  parseWoundDimensions,
+  woundArea,
+} from "@/lib/wounds";
+
+describe("wounds", () => {
+  it("parses dimensions and rejects invalid values", async () => {
+    expect(
+      parseWoundDimensions({ lengthCm: "4,25", widthCm: "2", depthCm: "" }),
+    ).toEqual({ lengthCm: 4.3, widthCm: 2, depthCm: null });
+    expect(parseWoundDimensions({ lengthCm: "3", widthCm: null })).toBeNull();
+    expect(
+      parseWoundDimensions({ lengthCm: "3", widthCm: "2", depthCm: "-1" }),
+    ).toBeNull();
+    expect(woundArea({ lengthCm: 4.3, widthCm: 2 })).toBe(8.6);
+  });
+
+  it("groups measurements and photos per visit in order", async () => {
+    const measurements = [
+      {
+        visitId: "v2",
+        recordedAt: new Date(2026, 0, 8, 10),
+        lengthCm: 3,
+        widthCm: 2,
+        depthCm: null,
+      },
+      {
+        visitId: "v1",
+        recordedAt: new Date(2026, 0, 1, 10),
+        lengthCm: 4,
+        widthCm: 2,
+        depthCm: 0.5,
+      },
+    ];
+    const photos = [
+      { visitId: "v1", createdAt: new Date(2026, 0, 1, 10, 5) },
+      { visitId: "v3", createdAt: new Date(2026, 0, 15, 9) },
+      { visitId: null, createdAt: new Date(2026, 0, 2) },
+    ];
+
+    const evolution = buildWoundEvolution(measurements, photos);
+    expect(evolution.map((entry) => entry.visitId)).toEqual(["v1", "v2", "v3"]);
+    expect(evolution[0].photos).toHaveLength(1);
+    expect(evolution[0].changeFromPrevious).toBeNull();
+    expect(evolution[1].area).toBe(6);
+    expect(evolution[1].changeFromPrevious).toBe(-25);
+    expect(evolution[2].measurement).toBeNull();
+    expect(evolution[2].changeFromBaseline).toBeNull();
+  });
+});